@@ -16,6 +16,7 @@ import {
   SuccessResponse,
   ErrorResponse,
   DownloadGifRequest,
+  DownloadFrameSequenceRequest,
   GetJobStatusRequest,
   GifData,
   isExtractFramesRequest,
@@ -24,6 +25,7 @@ import {
   isTimelineSelectionUpdate,
   isLogMessage,
   isDownloadGifRequest,
+  isDownloadFrameSequenceRequest,
   isGetJobStatusRequest
 } from '@/types';
 import { backgroundWorker, VideoProcessingJob } from './worker';
@@ -129,6 +131,12 @@ export class BackgroundMessageHandler {
         return true;
       }
 
+      // Handle PNG sequence archive download request
+      if (isDownloadFrameSequenceRequest(message)) {
+        this.handleFrameSequenceDownload(message, sendResponse);
+        return true;
+      }
+
       // Handle job status queries
       if (isGetJobStatusRequest(message)) {
         this.handleJobStatusQuery(message, sender, sendResponse);
@@ -918,6 +926,38 @@ export class BackgroundMessageHandler {
     
     logger.info('[MessageHandler] Processing GIF download request', { filename });
     
+    this.startDownload(url, filename, sendResponse);
+  }
+
+  // Handle PNG sequence ZIP download request from content script
+  private handleFrameSequenceDownload(
+    message: DownloadFrameSequenceRequest,
+    sendResponse: (response: ExtensionMessage) => void
+  ): void {
+    const { url, filename, frameCount } = message.data;
+
+    if (!/\.zip$/i.test(filename)) {
+      sendResponse({
+        type: 'ERROR_RESPONSE',
+        success: false,
+        error: 'PNG sequences are downloaded as ZIP archives'
+      } as ErrorResponse);
+      return;
+    }
+
+    logger.info('[MessageHandler] Processing PNG sequence download request', {
+      filename,
+      frameCount
+    });
+
+    this.startDownload(url, filename, sendResponse);
+  }
+
+  private startDownload(
+    url: string,
+    filename: string | undefined,
+    sendResponse: (response: ExtensionMessage) => void
+  ): void {
     chrome.downloads.download({
       url,
       filename,
@@ -0,0 +1,302 @@
+// Capture checkpoints - frames of a running capture kept in IndexedDB so an
+// interrupted capture can resume where it stopped
+import { logger } from '@/lib/logger';
+import { createError } from '@/lib/errors';
+import { CaptureJob } from '@/types';
+
+// Kept apart from the GIF library so its schema version is left alone
+const DB_NAME = 'YTgifyCaptureCheckpoints';
+const DB_VERSION = 1;
+const JOBS_STORE = 'jobs';
+const FRAMES_STORE = 'frames';
+// Checkpoints older than this are no longer offered and are removed
+const MAX_CHECKPOINT_AGE = 7 * 24 * 60 * 60 * 1000;
+// Frames written per transaction while a capture runs
+const CHECKPOINT_BATCH_SIZE = 10;
+// Batches that may wait on a slow store before checkpointing stops for the capture
+const MAX_PENDING_BATCHES = 2;
+
+export interface CheckpointFrame {
+  index: number;
+  imageData: ImageData;
+}
+
+interface FrameRecord {
+  key: string; // `${jobId}:${index}`
+  jobId: string;
+  index: number;
+  imageData: ImageData;
+}
+
+function promisify<T>(request: IDBRequest<T>, failure: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(createError('storage', failure));
+  });
+}
+
+function completion(transaction: IDBTransaction, failure: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(createError('storage', failure));
+    transaction.onabort = () => reject(createError('storage', failure));
+  });
+}
+
+export class CaptureCheckpointStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(JOBS_STORE)) {
+          db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(FRAMES_STORE)) {
+          const frames = db.createObjectStore(FRAMES_STORE, { keyPath: 'key' });
+          frames.createIndex('jobId', 'jobId', { unique: false });
+        }
+      };
+      this.database = promisify(request, 'Failed to open capture checkpoints').catch((error) => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Record a new capture with no frames yet
+   */
+  async createJob(
+    job: Omit<CaptureJob, 'id' | 'capturedFrames' | 'createdAt' | 'updatedAt'>
+  ): Promise<CaptureJob> {
+    const now = new Date().toISOString();
+    const record: CaptureJob = {
+      ...job,
+      id: `capture_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      capturedFrames: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const db = await this.open();
+    const transaction = db.transaction([JOBS_STORE], 'readwrite');
+    transaction.objectStore(JOBS_STORE).put(record);
+    await completion(transaction, 'Failed to save capture job');
+    return record;
+  }
+
+  async getJob(jobId: string): Promise<CaptureJob | undefined> {
+    const db = await this.open();
+    const store = db.transaction([JOBS_STORE], 'readonly').objectStore(JOBS_STORE);
+    return promisify(
+      store.get(jobId) as IDBRequest<CaptureJob | undefined>,
+      'Failed to read capture job'
+    );
+  }
+
+  async updateJob(
+    jobId: string,
+    changes: Partial<Omit<CaptureJob, 'id' | 'createdAt'>>
+  ): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([JOBS_STORE], 'readwrite');
+    const store = transaction.objectStore(JOBS_STORE);
+    const job = await promisify(
+      store.get(jobId) as IDBRequest<CaptureJob | undefined>,
+      'Failed to read capture job'
+    );
+    if (job) {
+      store.put({ ...job, ...changes, updatedAt: new Date().toISOString() });
+    }
+    await completion(transaction, 'Failed to update capture job');
+  }
+
+  /**
+   * The most recent capture of a video that can be resumed. Expired
+   * checkpoints are removed on the way.
+   */
+  async findJobForVideo(videoId: string): Promise<CaptureJob | undefined> {
+    const db = await this.open();
+    const store = db.transaction([JOBS_STORE], 'readonly').objectStore(JOBS_STORE);
+    const jobs = await promisify(
+      store.getAll() as IDBRequest<CaptureJob[]>,
+      'Failed to read capture jobs'
+    );
+
+    const expiry = Date.now() - MAX_CHECKPOINT_AGE;
+    const expired = jobs.filter((job) => new Date(job.updatedAt).getTime() < expiry);
+    for (const job of expired) {
+      await this.deleteJob(job.id);
+    }
+
+    return jobs
+      .filter((job) => job.videoId === videoId && !expired.includes(job) && job.capturedFrames > 0)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+  }
+
+  /**
+   * Keep captured frames, counting them towards the job in the same
+   * transaction so the two never disagree
+   */
+  async saveFrames(jobId: string, frames: CheckpointFrame[]): Promise<void> {
+    if (frames.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction([JOBS_STORE, FRAMES_STORE], 'readwrite');
+    const store = transaction.objectStore(FRAMES_STORE);
+    for (const { index, imageData } of frames) {
+      const record: FrameRecord = { key: `${jobId}:${index}`, jobId, index, imageData };
+      store.put(record);
+    }
+
+    const jobs = transaction.objectStore(JOBS_STORE);
+    const job = await promisify(
+      jobs.get(jobId) as IDBRequest<CaptureJob | undefined>,
+      'Failed to read capture job'
+    );
+    if (job) {
+      const last = Math.max(...frames.map((frame) => frame.index));
+      jobs.put({
+        ...job,
+        capturedFrames: Math.max(job.capturedFrames, last + 1),
+        updatedAt: new Date().toISOString(),
+      });
+    }
+    await completion(transaction, 'Failed to save captured frames');
+  }
+
+  async saveFrame(jobId: string, index: number, imageData: ImageData): Promise<void> {
+    return this.saveFrames(jobId, [{ index, imageData }]);
+  }
+
+  /**
+   * Checkpointed frames in order, up to the first one missing
+   */
+  async loadFrames(jobId: string): Promise<ImageData[]> {
+    const db = await this.open();
+    const index = db
+      .transaction([FRAMES_STORE], 'readonly')
+      .objectStore(FRAMES_STORE)
+      .index('jobId');
+    const records = await promisify(
+      index.getAll(jobId) as IDBRequest<FrameRecord[]>,
+      'Failed to read captured frames'
+    );
+
+    records.sort((a, b) => a.index - b.index);
+    const frames: ImageData[] = [];
+    for (const record of records) {
+      if (record.index !== frames.length) break;
+      frames.push(record.imageData);
+    }
+    return frames;
+  }
+
+  /**
+   * Drop a job's frames so its capture starts over
+   */
+  async clearFrames(jobId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([JOBS_STORE, FRAMES_STORE], 'readwrite');
+    await this.deleteFrames(transaction, jobId);
+    const jobs = transaction.objectStore(JOBS_STORE);
+    const job = await promisify(
+      jobs.get(jobId) as IDBRequest<CaptureJob | undefined>,
+      'Failed to read capture job'
+    );
+    if (job) {
+      jobs.put({ ...job, capturedFrames: 0, updatedAt: new Date().toISOString() });
+    }
+    await completion(transaction, 'Failed to clear captured frames');
+  }
+
+  /**
+   * Remove a job and its frames
+   */
+  async deleteJob(jobId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([JOBS_STORE, FRAMES_STORE], 'readwrite');
+    transaction.objectStore(JOBS_STORE).delete(jobId);
+    const count = await this.deleteFrames(transaction, jobId);
+    await completion(transaction, 'Failed to delete capture job');
+    logger.debug('[CaptureCheckpoints] Deleted capture job', { jobId, frames: count });
+  }
+
+  private async deleteFrames(transaction: IDBTransaction, jobId: string): Promise<number> {
+    const frames = transaction.objectStore(FRAMES_STORE);
+    const keys = await promisify(
+      frames.index('jobId').getAllKeys(jobId),
+      'Failed to read captured frames'
+    );
+    keys.forEach((key) => frames.delete(key));
+    return keys.length;
+  }
+}
+
+/**
+ * Checkpoints a running capture in batches without holding it up. Writes
+ * run one after another in the background; if the store falls behind or
+ * fails, checkpointing stops for the capture, since only the frames before
+ * the first gap can be resumed anyway.
+ */
+export class CheckpointWriter {
+  private batch: CheckpointFrame[] = [];
+  private writes: Promise<void> = Promise.resolve();
+  private pendingBatches = 0;
+  private stopped = false;
+
+  constructor(
+    private store: CaptureCheckpointStore,
+    private jobId: string,
+    private batchSize = CHECKPOINT_BATCH_SIZE
+  ) {}
+
+  add(index: number, imageData: ImageData): void {
+    if (this.stopped) return;
+    this.batch.push({ index, imageData });
+    if (this.batch.length >= this.batchSize) {
+      this.writeBatch();
+    }
+  }
+
+  /**
+   * Write what is left and wait for every write to settle
+   */
+  async close(): Promise<void> {
+    this.writeBatch(true);
+    await this.writes;
+  }
+
+  private writeBatch(last = false): void {
+    const frames = this.batch;
+    this.batch = [];
+    if (this.stopped || frames.length === 0) return;
+    if (!last && this.pendingBatches >= MAX_PENDING_BATCHES) {
+      this.stop('Checkpoint writes fell behind capture', frames[0].index);
+      return;
+    }
+
+    this.pendingBatches++;
+    this.writes = this.writes.then(async () => {
+      try {
+        if (!this.stopped) {
+          await this.store.saveFrames(this.jobId, frames);
+        }
+      } catch (error) {
+        this.stop('Could not checkpoint frames', frames[0].index, error);
+      } finally {
+        this.pendingBatches--;
+      }
+    });
+  }
+
+  private stop(message: string, index: number, error?: unknown): void {
+    this.stopped = true;
+    this.batch = [];
+    logger.warn(`[CaptureCheckpoints] ${message}`, { jobId: this.jobId, index, error });
+  }
+}
+
+export const captureCheckpoints = new CaptureCheckpointStore();
@@ -23,6 +23,7 @@ class CleanupManager {
   private isDestroyed = false;
   private currentCleanupPromise: Promise<void> | null = null;
   private navigationTimeout: NodeJS.Timeout | null = null;
+  private stopNavigationListeners: (() => void) | null = null;
   
   constructor() {
     this.setupDefaultCleanupTasks();
@@ -177,17 +178,12 @@ class CleanupManager {
     
     window.addEventListener('popstate', popstateHandler);
 
-    // Store cleanup for navigation listeners
-    this.registerCleanupTask({
-      id: 'navigation-listeners-cleanup',
-      name: 'Navigation Listeners Cleanup',
-      priority: 60,
-      cleanup: () => {
-        
-        urlObserver.disconnect();
-        window.removeEventListener('popstate', popstateHandler);
-      }
-    });
+    // Navigation is watched for the life of the page, so it is kept out of
+    // the cleanup tasks and only stopped by destroy()
+    this.stopNavigationListeners = () => {
+      urlObserver.disconnect();
+      window.removeEventListener('popstate', popstateHandler);
+    };
   }
 
   private handleNavigation(event: NavigationEvent): void {
@@ -446,6 +442,9 @@ class CleanupManager {
     
     // Run final cleanup
     await this.runCleanup();
+
+    this.stopNavigationListeners?.();
+    this.stopNavigationListeners = null;
     
     // Clear all registered tasks and listeners
     this.cleanupTasks.clear();
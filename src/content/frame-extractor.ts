@@ -3,6 +3,7 @@ import { logger } from '@/lib/logger';
 import { createError } from '@/lib/errors';
 import { extractFramesSimple } from '@/lib/simple-frame-extractor';
 import { captureInstantFrames } from '@/lib/instant-frame-capture';
+import type { CapturePreference } from '@/lib/capture';
 
 export interface ContentFrameExtractionRequest {
   type: 'CONTENT_SCRIPT_EXTRACT_FRAMES';
@@ -14,6 +15,7 @@ export interface ContentFrameExtractionRequest {
     targetWidth: number;
     targetHeight: number;
     quality: 'low' | 'medium' | 'high';
+    captureMode?: CapturePreference; // Capture strategy; chosen automatically by default
   };
 }
 
@@ -25,6 +27,7 @@ export interface ContentFrameExtractionResponse {
     dimensions: { width: number; height: number };
     duration: number;
     extractionMethod: string;
+    captureStrategy?: string;
     processingTime: number;
   };
 }
@@ -122,7 +125,8 @@ export class ContentScriptFrameExtractor {
         frameRate: request.data.frameRate,
         quality: request.data.quality,
         maxWidth: request.data.targetWidth,
-        maxHeight: request.data.targetHeight
+        maxHeight: request.data.targetHeight,
+        strategy: request.data.captureMode
       };
 
       // Set up progress tracking
@@ -181,6 +185,7 @@ export class ContentScriptFrameExtractor {
             dimensions: { width: request.data.targetWidth, height: request.data.targetHeight },
             duration: request.data.endTime - request.data.startTime,
             extractionMethod: 'instant-fallback',
+            captureStrategy: 'timed',
             processingTime: 0
           }
         };
@@ -1,8 +1,68 @@
 // Content Script GIF Processor - Handles complete GIF creation in content script
 import { logger } from '@/lib/logger';
 import { createError } from '@/lib/errors';
-import { encodeFrames, FrameData as EncoderFrameData, EncodingOptions } from '@/lib/encoders';
-import { TextOverlay } from '@/types';
+import {
+  beginFrameStream,
+  browserFrameDelay,
+  createGifProvenance,
+  decodeGifFrames,
+  DitheringAlgorithm,
+  embedGifProvenance,
+  encodeFrames,
+  FrameData as EncoderFrameData,
+  EncodingOptions,
+  EncodingProgress,
+  EncodingResult,
+  FormatType,
+  GifProvenance,
+  LockedPalette,
+  readGifProvenance,
+} from '@/lib/encoders';
+import { EncodingOptimizer, SizeBudgetAttempt } from '@/processing/encoding-options';
+import {
+  DEFAULT_DUPLICATE_THRESHOLD,
+  DuplicateFrameMerger,
+  mergeDuplicateFrames,
+} from '@/processing/duplicate-frames';
+import { PlaybackMode, getPlaybackOrder } from '@/processing/playback-mode';
+import { CaptureSample, SpeedKeyframe, planCaptureSamples } from '@/processing/speed-ramp';
+import {
+  SpriteAtlas,
+  SpriteSheetOptions,
+  drawSpriteSheet,
+  formatSheetTimestamp,
+  layoutSpriteSheet,
+} from '@/processing/sprite-sheet';
+import {
+  PngSequenceManifest,
+  createPngSequenceManifest,
+  packPngSequence,
+} from '@/processing/png-sequence';
+import {
+  AdBreakSummary,
+  CaptureTimingSummary,
+  FrameSeeker,
+  captureAroundAds,
+  selectCaptureStrategy,
+} from '@/lib/capture';
+import { CaptureMode, GifEditSource, TextOverlay } from '@/types';
+import { CheckpointWriter, captureCheckpoints } from './capture-checkpoints';
+import { youTubeDetector } from './youtube-detector';
+import { youTubeAPI } from './youtube-api-integration';
+
+// Encodes tried before a size-budgeted job gives up
+const MAX_SIZE_BUDGET_ATTEMPTS = 8;
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeAdBreaks(summary: AdBreakSummary): string {
+  const breaks = summary.breaks === 1 ? '1 ad break' : `${summary.breaks} ad breaks`;
+  const frames = summary.discardedFrames === 1 ? '1 frame' : `${summary.discardedFrames} frames`;
+  const waited = Math.round(summary.waited / 1000);
+  return `Waited out ${breaks} (${waited}s); discarded ${frames} showing an ad`;
+}
 
 interface GifProcessingOptions {
   startTime: number;
@@ -11,11 +71,66 @@ interface GifProcessingOptions {
   width?: number;
   height?: number;
   quality?: 'low' | 'medium' | 'high';
+  format?: FormatType;
+  lossless?: boolean;
+  maxFileSize?: number; // Byte budget; output is re-encoded with reduced settings until it fits
+  dithering?: DitheringAlgorithm | 'auto'; // 'auto' picks encoder and dithering by measured quality
+  ditherStrength?: number;
+  maxColors?: number; // GIF palette size, 2-256
+  lockedPalette?: LockedPalette;
+  duplicateThreshold?: number; // Merging of still frames, as a 0-1 share of pixels; 0 turns it off
+  playbackMode?: PlaybackMode; // Frame order (default forward)
+  loopCount?: number; // Times the animation plays, 0 = forever (default)
+  speed?: number; // 0.25-4, applied through capture sampling and frame delays
+  speedRamp?: SpeedKeyframe[]; // Keyframes scaling speed over the clip
+  source?: { videoId?: string; pageUrl: string }; // Recorded as provenance
+  captureMode?: CaptureMode; // Capture strategy, chosen automatically by default
+  checkpointJobId?: string; // Captured frames are kept under this job and resumed from it
   textOverlays?: TextOverlay[];
 }
 
+// How captured frames are written to checkpoints and read back
+interface FrameCheckpointCodec<F> {
+  save: (frame: F) => ImageData;
+  restore: (imageData: ImageData, index: number) => F;
+}
+
 interface GifProcessingResult {
   blob: Blob;
+  metadata: {
+    fileSize: number;
+    duration: number;
+    frameCount: number;
+    width: number;
+    height: number;
+    format: FormatType;
+    id: string;
+    youtubeUrl?: string; // Source video, timestamped at the clip's start
+    startTime: number;
+    endTime: number;
+    captureTiming?: CaptureTimingSummary; // How closely captured frames matched their times
+    adBreaks?: AdBreakSummary; // Ads capture waited out
+  };
+}
+
+interface SpriteSheetResult {
+  blob: Blob; // PNG
+  atlas: SpriteAtlas;
+  metadata: {
+    fileSize: number;
+    duration: number;
+    frameCount: number;
+    width: number;
+    height: number;
+    id: string;
+    startTime: number;
+    endTime: number;
+  };
+}
+
+interface PngSequenceResult {
+  blob: Blob; // ZIP
+  manifest: PngSequenceManifest;
   metadata: {
     fileSize: number;
     duration: number;
@@ -23,6 +138,8 @@ interface GifProcessingResult {
     width: number;
     height: number;
     id: string;
+    startTime: number;
+    endTime: number;
   };
 }
 
@@ -33,6 +150,7 @@ export interface StageProgressInfo {
   stageName: string;
   message: string;
   progress: number;
+  notice?: string; // Something that happened during the run, worth showing until it ends
 }
 
 export class ContentScriptGifProcessor {
@@ -42,6 +160,9 @@ export class ContentScriptGifProcessor {
   private currentStage: string | null = null;
   private messageIndex = 0;
   private progressCallback: ((stageInfo: StageProgressInfo) => void) | undefined = undefined;
+  private captureTiming: CaptureTimingSummary | undefined = undefined; // Of the last capture
+  private adBreaks: AdBreakSummary | undefined = undefined; // Of the last capture, if any
+  private interruption: string | null = null; // Set to stop the running capture
 
   // Stage definitions
   private stages = {
@@ -174,51 +295,61 @@ export class ContentScriptGifProcessor {
 
     this.isProcessing = true;
     this.progressCallback = onProgress;
+    this.captureTiming = undefined;
+    this.adBreaks = undefined;
+    this.interruption = null;
     const startTime = performance.now();
 
     try {
       logger.info('[ContentScriptGifProcessor] Starting GIF processing', { options });
 
-      // Stage 1: Capturing Frames
-      this.updateStage('CAPTURING');
-      const frames = await this.captureFrames(videoElement, options);
-      logger.info('[ContentScriptGifProcessor] Frames captured', { count: frames.length });
-
-      // Stage 2: Analyzing Colors
-      this.updateStage('ANALYZING');
-      // Simulate color analysis time
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      // Stage 3: Encoding GIF
-      this.updateStage('ENCODING');
-      const gifBlob = await this.encodeGif(frames, options);
-      logger.info('[ContentScriptGifProcessor] GIF encoded', { size: gifBlob.size });
+      // Stages 1-3: GIFs are encoded as they are captured where possible, so
+      // long clips never hold every frame in memory
+      const samples = this.getCaptureSamples(options);
+      const streamed = this.canStreamEncode(options)
+        ? await this.captureAndEncode(videoElement, samples, options)
+        : null;
+      const encoded =
+        streamed ?? (await this.captureThenEncode(videoElement, samples, options));
+      logger.info('[ContentScriptGifProcessor] GIF encoded', {
+        size: encoded.blob.size,
+        duration: encoded.metadata.duration,
+        requestedDuration: encoded.metadata.requestedDuration,
+      });
 
       // Stage 4: Finalizing
       this.updateStage('FINALIZING');
       await new Promise((resolve) => setTimeout(resolve, 500));
 
+      // GIFs carry their source moment so they can be traced back later
+      const provenance = options.source ? this.createProvenance(options, encoded) : null;
+      const gifBlob =
+        provenance && (options.format ?? 'gif') === 'gif'
+          ? await this.embedProvenance(encoded.blob, provenance)
+          : encoded.blob;
+
       // Generate metadata
       const metadata = {
         fileSize: gifBlob.size,
-        duration: options.endTime - options.startTime,
-        frameCount: frames.length,
-        width: frames[0]?.width || 320,
-        height: frames[0]?.height || 240,
-        id: `gif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        // Rounded GIF delays can make playback differ slightly from the plan
+        duration:
+          encoded.metadata.duration !== undefined
+            ? encoded.metadata.duration / 1000
+            : this.getPlaybackDuration(samples, options),
+        frameCount: encoded.metadata.frameCount,
+        width: encoded.metadata.width || 320,
+        height: encoded.metadata.height || 240,
+        format: options.format || 'gif',
+        id: this.createGifId(),
+        youtubeUrl: provenance?.url,
+        startTime: options.startTime,
+        endTime: options.endTime,
+        captureTiming: this.captureTiming,
+        adBreaks: this.adBreaks,
       };
 
       // Complete
-      this.stopMessageCycling();
-      const finalStageInfo: StageProgressInfo = {
-        stage: 'COMPLETED',
-        stageNumber: 4,
-        totalStages: 4,
-        stageName: 'Complete',
-        message: '✅ GIF created successfully!',
-        progress: 100,
-      };
-      onProgress?.(finalStageInfo);
+      this.reportCompleted((options.format || 'gif').toUpperCase());
 
       const processingTime = performance.now() - startTime;
       logger.info('[ContentScriptGifProcessor] Processing complete', {
@@ -235,25 +366,609 @@ export class ContentScriptGifProcessor {
   }
 
   /**
-   * Capture frames from video element
+   * Re-encode an existing GIF: its frames are decoded, trimmed to the span
+   * between startTime and endTime of its own timeline, re-captioned with the
+   * text overlays and encoded with the given settings. Provenance recorded in
+   * the source GIF is carried over.
+   */
+  public async reeditGif(
+    source: Blob,
+    options: GifProcessingOptions,
+    onProgress?: (stageInfo: StageProgressInfo) => void
+  ): Promise<GifProcessingResult> {
+    if (this.isProcessing) {
+      throw createError('gif', 'Already processing a GIF');
+    }
+
+    this.isProcessing = true;
+    this.progressCallback = onProgress;
+    this.captureTiming = undefined;
+    this.adBreaks = undefined;
+    this.interruption = null;
+
+    try {
+      logger.info('[ContentScriptGifProcessor] Re-editing GIF', { options });
+
+      // Stage 1: the decoded GIF stands in for captured frames
+      this.updateStage('CAPTURING');
+      const bytes = new Uint8Array(await source.arrayBuffer());
+      let decoded: EncoderFrameData[];
+      try {
+        decoded = decodeGifFrames(bytes);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw createError('gif', `Failed to read GIF: ${errorMessage}`);
+      }
+      const start = options.startTime * 1000;
+      const end = options.endTime * 1000;
+      const trimmed = decoded.filter((frame) => frame.timestamp >= start && frame.timestamp < end);
+      if (trimmed.length === 0) {
+        throw createError('gif', 'The selected range contains no frames');
+      }
+
+      const frames = trimmed.map(({ imageData }) => {
+        const canvas = this.createFrameCanvas(imageData.width, imageData.height);
+        canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+        return canvas;
+      });
+      // Zero delays, common in GIFs from other tools, play at the browser minimum
+      const delays = trimmed.map((frame) => browserFrameDelay(frame.delay));
+      const duration = delays.reduce((total, delay) => total + delay, 0);
+
+      // Stage 3: encoded like a capture, at the GIF's own frame rate
+      this.updateStage('ENCODING');
+      const frameRate = options.frameRate ?? Math.round((1000 * frames.length) / duration);
+      const encoded = await this.encodeGif(frames, delays, {
+        ...options,
+        format: 'gif',
+        frameRate,
+      });
+
+      // Stage 4: Finalizing
+      this.updateStage('FINALIZING');
+      const provenance = readGifProvenance(bytes);
+      const gifBlob = provenance
+        ? await this.embedProvenance(encoded.blob, provenance)
+        : encoded.blob;
+
+      const metadata = {
+        fileSize: gifBlob.size,
+        duration:
+          encoded.metadata.duration !== undefined
+            ? encoded.metadata.duration / 1000
+            : duration / 1000,
+        frameCount: encoded.metadata.frameCount,
+        width: encoded.metadata.width || frames[0].width,
+        height: encoded.metadata.height || frames[0].height,
+        format: 'gif' as const,
+        id: this.createGifId(),
+        youtubeUrl: provenance?.url,
+        startTime: options.startTime,
+        endTime: options.endTime,
+      };
+
+      this.reportCompleted('GIF');
+      logger.info('[ContentScriptGifProcessor] Re-edit complete', { metadata });
+
+      return { blob: gifBlob, metadata };
+    } finally {
+      this.isProcessing = false;
+      this.stopMessageCycling();
+      this.progressCallback = undefined;
+    }
+  }
+
+  /**
+   * Capture the clip like an animation, then lay the frames out in one PNG
+   * grid with a JSON atlas of frame rectangles and delays
+   */
+  public async processVideoToSpriteSheet(
+    videoElement: HTMLVideoElement,
+    options: GifProcessingOptions & { spriteSheet?: SpriteSheetOptions },
+    onProgress?: (stageInfo: StageProgressInfo) => void
+  ): Promise<SpriteSheetResult> {
+    if (this.isProcessing) {
+      throw createError('gif', 'Already processing a GIF');
+    }
+
+    this.isProcessing = true;
+    this.progressCallback = onProgress;
+    this.interruption = null;
+
+    try {
+      logger.info('[ContentScriptGifProcessor] Starting sprite sheet', { options });
+
+      // Stage 1: Capturing Frames
+      this.updateStage('CAPTURING');
+      const samples = this.getCaptureSamples(options);
+      const frames = await this.captureClip(videoElement, samples, options);
+      const { textOverlays } = options;
+      if (textOverlays && textOverlays.length > 0) {
+        frames.forEach((canvas, index) => this.drawTextOverlays(canvas, index, textOverlays));
+      }
+
+      // Stage 4: the sheet replaces encoding
+      this.updateStage('FINALIZING');
+      const id = this.createGifId();
+      const atlas = layoutSpriteSheet(
+        frames[0].width,
+        frames[0].height,
+        samples.map((sample) => sample.delay),
+        options.spriteSheet,
+        `${id}.png`
+      );
+      atlas.meta.source = options.source?.pageUrl;
+      const sheet = this.createFrameCanvas(atlas.meta.size.w, atlas.meta.size.h);
+      drawSpriteSheet(
+        sheet,
+        frames,
+        atlas,
+        samples.map((sample) => formatSheetTimestamp(options.startTime + sample.time))
+      );
+      const blob = await this.canvasToPng(sheet);
+
+      const metadata = {
+        fileSize: blob.size,
+        duration: atlas.meta.duration / 1000,
+        frameCount: frames.length,
+        width: atlas.meta.size.w,
+        height: atlas.meta.size.h,
+        id,
+        startTime: options.startTime,
+        endTime: options.endTime,
+      };
+
+      this.reportCompleted('Sprite sheet');
+      logger.info('[ContentScriptGifProcessor] Sprite sheet complete', { metadata });
+
+      return { blob, atlas, metadata };
+    } catch (error) {
+      logger.error('[ContentScriptGifProcessor] Failed to create sprite sheet', { error });
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw createError('gif', `Failed to create sprite sheet: ${errorMessage}`);
+    } finally {
+      this.isProcessing = false;
+      this.stopMessageCycling();
+      this.progressCallback = undefined;
+    }
+  }
+
+  /**
+   * Capture the clip like an animation and write every frame as a lossless
+   * PNG into a ZIP, with a manifest of timings and source
+   */
+  public async processVideoToPngSequence(
+    videoElement: HTMLVideoElement,
+    options: GifProcessingOptions,
+    onProgress?: (stageInfo: StageProgressInfo) => void
+  ): Promise<PngSequenceResult> {
+    if (this.isProcessing) {
+      throw createError('gif', 'Already processing a GIF');
+    }
+
+    this.isProcessing = true;
+    this.progressCallback = onProgress;
+    this.interruption = null;
+
+    try {
+      logger.info('[ContentScriptGifProcessor] Starting PNG sequence', { options });
+
+      // Stage 1: Capturing Frames
+      this.updateStage('CAPTURING');
+      const samples = this.getCaptureSamples(options);
+      const frames = await this.captureClip(videoElement, samples, options);
+      const { width, height } = frames[0];
+      const { textOverlays } = options;
+      if (textOverlays && textOverlays.length > 0) {
+        frames.forEach((canvas, index) => this.drawTextOverlays(canvas, index, textOverlays));
+      }
+
+      // Stage 3: each frame becomes a PNG; its canvas is released once written
+      this.updateStage('ENCODING');
+      const pngs: Uint8Array[] = [];
+      for (const canvas of frames) {
+        const png = await this.canvasToPng(canvas);
+        pngs.push(new Uint8Array(await png.arrayBuffer()));
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+
+      // Stage 4: Finalizing
+      this.updateStage('FINALIZING');
+      const manifest = createPngSequenceManifest(samples, {
+        width,
+        height,
+        startTime: options.startTime,
+        endTime: options.endTime,
+        frameRate: options.frameRate,
+        source: options.source && {
+          url: options.source.pageUrl,
+          videoId: options.source.videoId,
+        },
+      });
+      const blob = new Blob([packPngSequence(pngs, manifest)], { type: 'application/zip' });
+
+      const metadata = {
+        fileSize: blob.size,
+        duration: manifest.duration / 1000,
+        frameCount: pngs.length,
+        width,
+        height,
+        id: this.createGifId(),
+        startTime: options.startTime,
+        endTime: options.endTime,
+      };
+
+      this.reportCompleted('PNG sequence');
+      logger.info('[ContentScriptGifProcessor] PNG sequence complete', { metadata });
+
+      return { blob, manifest, metadata };
+    } catch (error) {
+      logger.error('[ContentScriptGifProcessor] Failed to create PNG sequence', { error });
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw createError('gif', `Failed to create PNG sequence: ${errorMessage}`);
+    } finally {
+      this.isProcessing = false;
+      this.stopMessageCycling();
+      this.progressCallback = undefined;
+    }
+  }
+
+  /**
+   * Stop the running capture before its next frame. Frames already
+   * checkpointed are kept for resuming.
+   */
+  public interruptCapture(reason: string): void {
+    if (this.isProcessing) {
+      logger.info('[ContentScriptGifProcessor] Interrupting capture', { reason });
+      this.interruption = reason;
+    }
+  }
+
+  private canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (png) => (png ? resolve(png) : reject(createError('gif', 'Failed to write PNG'))),
+        'image/png'
+      );
+    });
+  }
+
+  private createGifId(): string {
+    return `gif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private reportCompleted(output: string): void {
+    this.stopMessageCycling();
+    this.progressCallback?.({
+      stage: 'COMPLETED',
+      stageNumber: 4,
+      totalStages: 4,
+      stageName: 'Complete',
+      message: `✅ ${output} created successfully!`,
+      progress: 100,
+    });
+  }
+
+  private createProvenance(
+    options: GifProcessingOptions,
+    encoded: EncodingResult
+  ): GifProvenance {
+    return createGifProvenance({
+      videoId: options.source?.videoId,
+      pageUrl: options.source?.pageUrl ?? window.location.href,
+      startTime: options.startTime,
+      endTime: options.endTime,
+      settings: {
+        frameRate: options.frameRate,
+        width: encoded.metadata.width,
+        height: encoded.metadata.height,
+        quality: options.quality,
+        speed: options.speed,
+        speedRamp: options.speedRamp && JSON.stringify(options.speedRamp),
+        playbackMode: options.playbackMode,
+        loopCount: options.loopCount,
+        dithering: options.dithering,
+        maxColors: options.maxColors,
+        duplicateThreshold: options.duplicateThreshold,
+      },
+    });
+  }
+
+  /**
+   * Write provenance into an encoded GIF. A failure only loses the
+   * provenance, never the GIF.
+   */
+  private async embedProvenance(blob: Blob, provenance: GifProvenance): Promise<Blob> {
+    try {
+      const bytes = embedGifProvenance(new Uint8Array(await blob.arrayBuffer()), provenance);
+      return new Blob([bytes.buffer as ArrayBuffer], { type: blob.type || 'image/gif' });
+    } catch (error) {
+      logger.warn('[ContentScriptGifProcessor] Could not embed provenance', { error });
+      return blob;
+    }
+  }
+
+  /**
+   * Capture every frame, then encode them. Used for formats that cannot be
+   * streamed and for size budgets, which re-encode the same frames.
    */
-  private async captureFrames(
+  private async captureThenEncode(
+    videoElement: HTMLVideoElement,
+    samples: CaptureSample[],
+    options: GifProcessingOptions
+  ): Promise<EncodingResult> {
+    // Stage 1: Capturing Frames
+    this.updateStage('CAPTURING');
+    const frames = await this.captureClip(videoElement, samples, options);
+
+    // Stage 2: Analyzing Colors
+    this.updateStage('ANALYZING');
+    // Simulate color analysis time
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    // Stage 3: Encoding GIF
+    this.updateStage('ENCODING');
+    return this.encodeGif(
+      frames,
+      samples.map((sample) => sample.delay),
+      options
+    );
+  }
+
+  // One canvas per capture sample
+  private async captureClip(
     videoElement: HTMLVideoElement,
+    samples: CaptureSample[],
     options: GifProcessingOptions
   ): Promise<HTMLCanvasElement[]> {
-    const { startTime, endTime, frameRate = 5, width = 480, height = 270 } = options;
-    console.log('[gif-processor] captureFrames - frameRate from options:', options.frameRate, 'using:', frameRate);
-    const duration = endTime - startTime;
-    // Calculate proper frame count based on duration and frame rate
-    const rawFrameCount = Math.ceil(duration * frameRate);
-    const frameCount = rawFrameCount; // No artificial limit
-    const frameInterval = duration / frameCount;
+    const { width, height } = this.getCaptureDimensions(videoElement, options);
+    const frames: HTMLCanvasElement[] = [];
+    await this.withPausedVideo(videoElement, () =>
+      this.captureSamples(
+        videoElement,
+        samples,
+        options,
+        () => {
+          const canvas = this.createFrameCanvas(width, height);
+          this.drawVideoFrame(canvas, videoElement);
+          return canvas;
+        },
+        (canvas) => {
+          frames.push(canvas);
+        },
+        {
+          save: (canvas) => this.readFramePixels(canvas, frames.length, width, height),
+          restore: (imageData) => {
+            const canvas = this.createFrameCanvas(imageData.width, imageData.height);
+            canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+            return canvas;
+          },
+        }
+      )
+    );
+    logger.info('[ContentScriptGifProcessor] Frames captured', { count: frames.length });
+    return frames;
+  }
 
-    logger.info('[ContentScriptGifProcessor] Capturing frames', {
-      frameCount,
-      frameInterval,
-      dimensions: { width, height },
+  /**
+   * GIFs without a size budget can be encoded while they are captured.
+   * Other formats, budgets that re-encode the clip, and playback that does
+   * not start at the first frame need every frame.
+   */
+  private canStreamEncode(options: GifProcessingOptions): boolean {
+    return (
+      (options.format ?? 'gif') === 'gif' &&
+      !options.maxFileSize &&
+      (options.playbackMode ?? 'forward') === 'forward' &&
+      options.dithering !== 'auto' // Quality trials need the captured frames
+    );
+  }
+
+  /**
+   * Capture and encode in one pass: each frame is drawn into one reused
+   * canvas, handed to a streaming encoder and released, so memory stays
+   * bounded by a few frames whatever the clip length. Resolves to null when
+   * no streaming encoder is available.
+   */
+  private async captureAndEncode(
+    videoElement: HTMLVideoElement,
+    samples: CaptureSample[],
+    options: GifProcessingOptions
+  ): Promise<EncodingResult | null> {
+    const { frameRate = 5, quality = 'medium', lockedPalette, textOverlays } = options;
+    const { width, height } = this.getCaptureDimensions(videoElement, options);
+    const frameCount = samples.length;
+    // Exact delays; encoders round them to their own units without drifting
+    const timestamps = this.getFrameTimestamps(samples);
+
+    const canvas = this.createFrameCanvas(width, height);
+    const readFrame = (index: number): EncoderFrameData => {
+      this.drawVideoFrame(canvas, videoElement);
+      if (textOverlays && textOverlays.length > 0) {
+        this.drawTextOverlays(canvas, index, textOverlays);
+      }
+      return {
+        imageData: this.readFramePixels(canvas, index, width, height),
+        timestamp: timestamps[index],
+        delay: samples[index].delay,
+      };
+    };
+
+    this.updateStage('CAPTURING');
+
+    try {
+      return await this.withPausedVideo(videoElement, async () => {
+        // A palette locked to a frame is needed before the first frame is written
+        let paletteFrame: EncoderFrameData | undefined;
+        if (lockedPalette?.type === 'frame') {
+          const index = Math.max(0, Math.min(frameCount - 1, Math.round(lockedPalette.frameIndex)));
+          await new FrameSeeker(videoElement).seek(options.startTime + samples[index].time);
+          paletteFrame = readFrame(index);
+        }
+
+        const sink = await beginFrameStream(
+          {
+            width,
+            height,
+            quality,
+            frameRate,
+            loop: true,
+            loopCount: options.loopCount,
+            dithering: options.dithering === 'auto' ? undefined : options.dithering,
+            ditherStrength: options.ditherStrength,
+            maxColors: options.maxColors,
+            lockedPalette,
+          },
+          frameCount,
+          { paletteFrame }
+        );
+        if (!sink) {
+          logger.info('[ContentScriptGifProcessor] No streaming encoder; capturing first');
+          return null;
+        }
+
+        // Runs of still frames are held back and written once as a longer frame
+        const duplicateThreshold = options.duplicateThreshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+        const merger =
+          duplicateThreshold > 0
+            ? new DuplicateFrameMerger(1000 / frameRate, duplicateThreshold)
+            : null;
+
+        try {
+          const consume = async (frame: EncoderFrameData, index: number) => {
+            const ready = merger ? merger.push(frame) : frame;
+            if (ready) {
+              await sink.addFrame(ready);
+            }
+            this.reportStreamProgress(index, frameCount);
+          };
+          await this.captureSamples(videoElement, samples, options, readFrame, consume, {
+            // Copied, as the encoder may take over the pixels before the batch is written
+            save: ({ imageData }) =>
+              new ImageData(
+                new Uint8ClampedArray(imageData.data),
+                imageData.width,
+                imageData.height
+              ),
+            restore: (imageData, index) => ({
+              imageData,
+              timestamp: timestamps[index],
+              delay: samples[index].delay,
+            }),
+          });
+          const last = merger?.flush();
+          if (last) {
+            await sink.addFrame(last);
+          }
+          const result = await sink.finish();
+          if (merger) {
+            logger.info('[ContentScriptGifProcessor] Merged duplicate frames', {
+              merged: merger.merged,
+            });
+          }
+
+          logger.info('[ContentScriptGifProcessor] Streaming encode finished', {
+            size: result.blob.size,
+            metadata: result.metadata,
+          });
+          return result;
+        } catch (error) {
+          sink.abort();
+          throw error;
+        }
+      });
+    } catch (error) {
+      logger.error('[ContentScriptGifProcessor] Failed to encode', { error, format: 'gif' });
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw createError('gif', `Failed to encode GIF: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * While streaming, capture drives progress through the capture, analysis
+   * and encoding stages at once
+   */
+  private reportStreamProgress(index: number, frameCount: number): void {
+    this.stopMessageCycling();
+    this.progressCallback?.({
+      stage: 'CAPTURING',
+      stageNumber: this.getStageNumber('CAPTURING'),
+      totalStages: 4,
+      stageName: this.stages.CAPTURING.name,
+      message: `Capturing and encoding frame ${index + 1}/${frameCount}...`,
+      progress: ((index + 1) / frameCount) * 75,
+    });
+  }
+
+  /**
+   * Capture waits while an ad plays; the processing screen says why
+   */
+  private reportAdBreak(frameIndex: number, frameCount: number, targetTime: number): void {
+    this.stopMessageCycling();
+    this.progressCallback?.({
+      stage: 'CAPTURING',
+      stageNumber: this.getStageNumber('CAPTURING'),
+      totalStages: 4,
+      stageName: this.stages.CAPTURING.name,
+      message:
+        `Ad playing, capture paused at frame ${frameIndex + 1}/${frameCount}. ` +
+        `It continues from ${formatSheetTimestamp(targetTime)} once the video is back.`,
+      progress: this.getStageProgress('CAPTURING'),
     });
+  }
+
+  private reportContentResumed(
+    frameIndex: number,
+    frameCount: number,
+    summary: AdBreakSummary
+  ): void {
+    this.progressCallback?.({
+      stage: 'CAPTURING',
+      stageNumber: this.getStageNumber('CAPTURING'),
+      totalStages: 4,
+      stageName: this.stages.CAPTURING.name,
+      message: `Ad finished, capturing again from frame ${frameIndex + 1}/${frameCount}...`,
+      progress: this.getStageProgress('CAPTURING'),
+      notice: describeAdBreaks(summary),
+    });
+    this.startMessageCycling();
+  }
+
+  /**
+   * Moments to capture and how long each is shown, following the speed
+   * setting and any ramp
+   */
+  private getCaptureSamples(options: GifProcessingOptions): CaptureSample[] {
+    const { startTime, endTime, frameRate = 5, speed, speedRamp } = options;
+    return planCaptureSamples(endTime - startTime, frameRate, speed, speedRamp);
+  }
+
+  private getFrameTimestamps(samples: CaptureSample[]): number[] {
+    let elapsed = 0;
+    return samples.map((sample) => {
+      const timestamp = elapsed;
+      elapsed += sample.delay;
+      return timestamp;
+    });
+  }
+
+  /**
+   * Playback time in seconds for the planned frames in playback order
+   */
+  private getPlaybackDuration(samples: CaptureSample[], options: GifProcessingOptions): number {
+    const order = getPlaybackOrder(samples.length, options.playbackMode ?? 'forward');
+    return order.reduce((total, index) => total + samples[index].delay, 0) / 1000;
+  }
+
+  /**
+   * Output dimensions for the video, fitted within the requested size
+   */
+  private getCaptureDimensions(
+    videoElement: HTMLVideoElement,
+    options: GifProcessingOptions
+  ): { width: number; height: number } {
+    const { width = 480, height = 270 } = options;
 
     // Calculate actual dimensions maintaining aspect ratio
     const videoAspectRatio = videoElement.videoWidth / videoElement.videoHeight;
@@ -306,171 +1021,541 @@ export class ContentScriptGifProcessor {
       targetAspectRatio,
     });
 
-    const frames: HTMLCanvasElement[] = [];
+    return { width: actualWidth, height: actualHeight };
+  }
 
+  /**
+   * Pause the video for stable capture, restoring its position and
+   * playback afterwards
+   */
+  private async withPausedVideo<T>(
+    videoElement: HTMLVideoElement,
+    capture: () => Promise<T>
+  ): Promise<T> {
     // Store original state
     const originalTime = videoElement.currentTime;
     const wasPlaying = !videoElement.paused;
 
-    // Pause for stable capture
     videoElement.pause();
 
-    for (let i = 0; i < frameCount; i++) {
-      const captureTime = startTime + i * frameInterval;
-
-      // Seek to capture time
-      videoElement.currentTime = captureTime;
+    try {
+      return await capture();
+    } finally {
+      // Restore video state
+      videoElement.currentTime = originalTime;
+      if (wasPlaying) {
+        videoElement.play().catch(() => {});
+      }
+    }
+  }
 
-      // Wait for seek to complete
-      await new Promise((resolve) => setTimeout(resolve, 100));
+  /**
+   * Visit each capture time in turn: `grab` reads the frame while the video
+   * shows it, `consume` takes the grabbed frames in order. The capture
+   * strategy is the user's choice or picked for the clip; timing against
+   * the planned times is kept for the result. With a checkpoint job, frames
+   * it already holds are consumed first and only the rest are captured,
+   * each kept through `codec` as it is consumed.
+   */
+  private async captureSamples<F>(
+    videoElement: HTMLVideoElement,
+    samples: CaptureSample[],
+    options: GifProcessingOptions,
+    grab: (index: number) => F,
+    consume: (frame: F, index: number) => Promise<void> | void,
+    codec?: FrameCheckpointCodec<F>
+  ): Promise<void> {
+    const frameCount = samples.length;
+    const times = samples.map((sample) => options.startTime + sample.time);
+    const { width, height } = this.getCaptureDimensions(videoElement, options);
+    const { strategy, reason } = selectCaptureStrategy(
+      videoElement,
+      {
+        duration: options.endTime - options.startTime,
+        frameRate: options.frameRate ?? 5,
+        frameCount,
+        width,
+        height,
+      },
+      options.captureMode
+    );
 
-      // Create canvas for this frame
-      const canvas = document.createElement('canvas');
-      canvas.width = actualWidth;
-      canvas.height = actualHeight;
-      const ctx = canvas.getContext('2d');
+    const jobId = codec ? options.checkpointJobId : undefined;
+    const restored = jobId ? await this.loadCheckpoint(jobId, frameCount, width, height) : [];
+    const checkpoints = jobId ? new CheckpointWriter(captureCheckpoints, jobId) : null;
+    for (let i = 0; i < restored.length; i++) {
+      await consume(codec!.restore(restored[i], i), i);
+    }
 
-      if (!ctx) {
-        throw createError('gif', 'Failed to create canvas context');
-      }
+    logger.info('[ContentScriptGifProcessor] Capturing frames', {
+      frameCount,
+      resumedFrames: restored.length,
+      strategy: strategy.id,
+      reason,
+      speed: options.speed ?? 1,
+      speedRamp: options.speedRamp,
+    });
 
-      // Draw video frame to canvas
-      ctx.drawImage(videoElement, 0, 0, actualWidth, actualHeight);
-      frames.push(canvas);
-
-      // Export frame data for verification (in dev mode)
-      if (typeof window !== 'undefined') {
-        const win = window as Window & {
-          __DEBUG_CAPTURED_FRAMES?: Array<{
-            frameNumber: number;
-            videoTime: number;
-            width: number;
-            height: number;
-            dataUrl: string;
-          }>;
-        };
-        if (!win.__DEBUG_CAPTURED_FRAMES) {
-          win.__DEBUG_CAPTURED_FRAMES = [];
+    // Indexes from here on continue after the resumed frames
+    const offset = restored.length;
+    let captured: Awaited<ReturnType<typeof captureAroundAds>>;
+    try {
+      captured = await captureAroundAds(
+        strategy,
+        videoElement,
+        times.slice(offset),
+        (index) => {
+          if (this.interruption) {
+            throw createError('video', `Capture interrupted: ${this.interruption}`);
+          }
+          return grab(index + offset);
+        },
+        async (frame, index) => {
+          // Taken before the encoder sees the frame; written later in a batch
+          checkpoints?.add(index + offset, codec!.save(frame));
+          await consume(frame, index + offset);
+        },
+        {
+          isAdPlaying: () => youTubeDetector.isAdPlaying() || youTubeAPI.isAdPlaying(),
+          onAdBreak: (event) =>
+            this.reportAdBreak(event.frameIndex + offset, frameCount, event.targetTime),
+          onContentResumed: (event, summary) =>
+            this.reportContentResumed(event.frameIndex + offset, frameCount, summary),
         }
-        // Convert canvas to data URL for debugging
-        const frameDataUrl = canvas.toDataURL('image/png');
-        win.__DEBUG_CAPTURED_FRAMES.push({
-          frameNumber: i + 1,
-          videoTime: captureTime,
-          width: actualWidth,
-          height: actualHeight,
-          dataUrl: frameDataUrl,
-        });
-      }
+      );
+    } finally {
+      // An interrupted capture keeps what it captured for the resume
+      await checkpoints?.close();
+    }
+    const { timing, adBreaks } = captured;
+    this.captureTiming = timing;
+    this.adBreaks = adBreaks.breaks > 0 ? adBreaks : undefined;
 
-      logger.debug(`[ContentScriptGifProcessor] Captured frame ${i + 1}/${frameCount}`);
+    if (this.captureTiming.unverified > 0) {
+      logger.warn('[ContentScriptGifProcessor] Some frames could not be confirmed', {
+        ...this.captureTiming,
+      });
+    } else {
+      logger.info('[ContentScriptGifProcessor] Frame timing', { ...this.captureTiming });
     }
+  }
 
-    // Restore video state
-    videoElement.currentTime = originalTime;
-    if (wasPlaying) {
-      videoElement.play().catch(() => {});
+  /**
+   * Frames a checkpoint job already holds for this capture. A checkpoint
+   * planned for a different frame count or size is started over.
+   */
+  private async loadCheckpoint(
+    jobId: string,
+    frameCount: number,
+    width: number,
+    height: number
+  ): Promise<ImageData[]> {
+    try {
+      const job = await captureCheckpoints.getJob(jobId);
+      if (!job) {
+        return [];
+      }
+      const frames = await captureCheckpoints.loadFrames(jobId);
+      const matches =
+        job.frameCount === frameCount &&
+        frames.every((frame) => frame.width === width && frame.height === height);
+      if (!matches && frames.length > 0) {
+        logger.warn('[ContentScriptGifProcessor] Checkpoint does not match capture, restarting', {
+          jobId,
+          checkpointFrames: job.frameCount,
+          frameCount,
+        });
+        await captureCheckpoints.clearFrames(jobId);
+      }
+      await captureCheckpoints.updateJob(jobId, { frameCount, interruption: undefined });
+      return matches ? frames.slice(0, frameCount) : [];
+    } catch (error) {
+      logger.warn('[ContentScriptGifProcessor] Could not load capture checkpoint', { error });
+      return [];
     }
+  }
 
-    return frames;
+  private createFrameCanvas(width: number, height: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+
+  private drawVideoFrame(canvas: HTMLCanvasElement, videoElement: HTMLVideoElement): void {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw createError('gif', 'Failed to create canvas context');
+    }
+    ctx.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
   }
 
   /**
-   * Encode frames to GIF using encoder abstraction
+   * Encode frames to the requested output format using encoder abstraction.
+   * With a maxFileSize budget the frames are re-encoded at reduced settings until they fit.
    */
   private async encodeGif(
     frames: HTMLCanvasElement[],
+    delays: number[],
     options: GifProcessingOptions
-  ): Promise<Blob> {
-    const { frameRate = 10, quality = 'medium' } = options;
+  ): Promise<EncodingResult> {
+    const { frameRate = 10, format = 'gif' } = options;
     console.log('[gif-processor] encodeGif - frameRate from options:', options.frameRate, 'using:', frameRate);
 
     try {
-      // Convert canvas frames to encoder format
-      const frameData: EncoderFrameData[] = frames.map((canvas, index) => {
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          throw new Error(`Failed to get context for frame ${index + 1}`);
-        }
+      // Apply text overlays if specified
+      const { textOverlays } = options;
+      if (textOverlays && textOverlays.length > 0) {
+        frames.forEach((canvas, index) => this.drawTextOverlays(canvas, index, textOverlays));
+      }
 
-        // Apply text overlays if specified
-        if (options.textOverlays && options.textOverlays.length > 0) {
-          options.textOverlays.forEach((overlay) => {
-            ctx.save();
-
-            // Use font size directly - it's already resolution-appropriate from TextOverlayScreenV2
-            ctx.font = `${overlay.fontSize}px ${overlay.fontFamily}`;
-            ctx.fillStyle = overlay.color;
-            ctx.textAlign = 'center';
-            ctx.textBaseline = 'middle';
-
-            // Calculate actual position (overlay.position is in percentage)
-            const x = (overlay.position.x / 100) * canvas.width;
-            const y = (overlay.position.y / 100) * canvas.height;
-
-            // Use stroke width directly
-            const strokeWidth = overlay.strokeWidth || 2;
-
-            // Add text stroke for better visibility
-            if (overlay.strokeColor) {
-              ctx.strokeStyle = overlay.strokeColor;
-              ctx.lineWidth = strokeWidth;
-              ctx.strokeText(overlay.text, x, y);
-            } else {
-              // Default black stroke for better visibility
-              ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
-              ctx.lineWidth = strokeWidth;
-              ctx.strokeText(overlay.text, x, y);
-            }
+      const result = options.maxFileSize
+        ? await this.encodeWithinBudget(frames, delays, options, options.maxFileSize)
+        : await this.encodeFrameSet(frames, delays, options);
 
-            // Draw the text
-            ctx.fillText(overlay.text, x, y);
+      logger.info('[ContentScriptGifProcessor] Encoding finished', {
+        size: result.blob.size,
+        metadata: result.metadata
+      });
 
-            ctx.restore();
-          });
-        }
+      return result;
+    } catch (error) {
+      console.error(`[ContentScriptGifProcessor] Failed to encode ${format}:`, error);
+      logger.error('[ContentScriptGifProcessor] Failed to encode', { error, format });
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw createError('gif', `Failed to encode ${format.toUpperCase()}: ${errorMessage}`);
+    }
+  }
+
+  private drawTextOverlays(
+    canvas: HTMLCanvasElement,
+    index: number,
+    textOverlays: TextOverlay[]
+  ): void {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error(`Failed to get context for frame ${index + 1}`);
+    }
 
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    textOverlays.forEach((overlay) => {
+      ctx.save();
 
-        // Convert to EncoderFrameData format
-        return {
-          imageData: imageData,
-          timestamp: index * (1000 / frameRate),
-          delay: Math.round(1000 / frameRate)
-        };
+      // Use font size directly - it's already resolution-appropriate from TextOverlayScreenV2
+      ctx.font = `${overlay.fontSize}px ${overlay.fontFamily}`;
+      ctx.fillStyle = overlay.color;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+
+      // Calculate actual position (overlay.position is in percentage)
+      const x = (overlay.position.x / 100) * canvas.width;
+      const y = (overlay.position.y / 100) * canvas.height;
+
+      // Use stroke width directly
+      const strokeWidth = overlay.strokeWidth || 2;
+
+      // Add text stroke for better visibility
+      if (overlay.strokeColor) {
+        ctx.strokeStyle = overlay.strokeColor;
+        ctx.lineWidth = strokeWidth;
+        ctx.strokeText(overlay.text, x, y);
+      } else {
+        // Default black stroke for better visibility
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+        ctx.lineWidth = strokeWidth;
+        ctx.strokeText(overlay.text, x, y);
+      }
+
+      // Draw the text
+      ctx.fillText(overlay.text, x, y);
+
+      ctx.restore();
+    });
+  }
+
+  /**
+   * Encode repeatedly, reducing colours, lossiness, frame rate and resolution,
+   * until the output fits in maxFileSize. Every attempt is reported through
+   * the progress callback.
+   */
+  private async encodeWithinBudget(
+    frames: HTMLCanvasElement[],
+    delays: number[],
+    options: GifProcessingOptions,
+    maxFileSize: number
+  ): Promise<EncodingResult> {
+    const { frameRate = 10, quality = 'medium', format = 'gif' } = options;
+
+    // Attempt reports replace the cycling stage messages
+    this.stopMessageCycling();
+
+    // A locked colour list is used as given, so its colour count stays fixed
+    const { lockedPalette } = options;
+    const fixedPalette = lockedPalette?.type === 'colors';
+    let attempt: SizeBudgetAttempt | null = EncodingOptimizer.createInitialSizeAttempt(
+      frameRate,
+      quality,
+      fixedPalette ? lockedPalette.colors.length : options.maxColors
+    );
+    let smallest: EncodingResult | null = null;
+
+    let attemptNumber = 0;
+    while (attempt && attemptNumber < MAX_SIZE_BUDGET_ATTEMPTS) {
+      attemptNumber++;
+      const result = await this.encodeFrameSet(frames, delays, options, attempt);
+      const size = result.blob.size;
+      const fits = size <= maxFileSize;
+
+      this.reportSizeAttempt(attemptNumber, attempt, result, maxFileSize, fits);
+      logger.info('[ContentScriptGifProcessor] Size budget attempt', {
+        attemptNumber,
+        attempt,
+        size,
+        maxFileSize,
       });
 
-      // Create encoding options
-      const encodingOptions: EncodingOptions = {
-        width: frames[0].width,
-        height: frames[0].height,
-        quality: quality,
-        frameRate: frameRate,
-        loop: true
+      if (fits) {
+        return result;
+      }
+      if (!smallest || size < smallest.blob.size) {
+        smallest = result;
+      }
+      attempt = EncodingOptimizer.planNextSizeAttempt(
+        attempt,
+        size,
+        maxFileSize,
+        format,
+        fixedPalette
+      );
+    }
+
+    throw new Error(
+      `Could not fit under ${formatMegabytes(maxFileSize)}; smallest attempt was ` +
+        `${formatMegabytes(smallest?.blob.size ?? 0)}. Try a shorter clip.`
+    );
+  }
+
+  private reportSizeAttempt(
+    attemptNumber: number,
+    attempt: SizeBudgetAttempt,
+    result: EncodingResult,
+    maxFileSize: number,
+    fits: boolean
+  ): void {
+    const { width, height } = result.metadata;
+    const settings = [`${width}x${height}`, `${attempt.frameRate} fps`];
+    if (attempt.colors < 256) settings.push(`${attempt.colors} colours`);
+    if (attempt.lossiness > 0) settings.push(`lossiness ${attempt.lossiness}`);
+
+    const outcome = fits ? 'fits' : 'over';
+    this.progressCallback?.({
+      stage: 'ENCODING',
+      stageNumber: this.getStageNumber('ENCODING'),
+      totalStages: 4,
+      stageName: this.stages.ENCODING.name,
+      message:
+        `Attempt ${attemptNumber} (${settings.join(', ')}): ` +
+        `${formatMegabytes(result.blob.size)} ${outcome} ${formatMegabytes(maxFileSize)} budget`,
+      progress: this.getStageProgress('ENCODING'),
+    });
+  }
+
+  /**
+   * Forward encoder progress into the ENCODING stage, which spans a quarter
+   * of the overall progress
+   */
+  private reportEncoderProgress(progress: EncodingProgress): void {
+    if (progress.stage !== 'encoding' || !progress.currentOperation) return;
+
+    // Real frame progress replaces the cycling stage messages
+    this.stopMessageCycling();
+    this.progressCallback?.({
+      stage: 'ENCODING',
+      stageNumber: this.getStageNumber('ENCODING'),
+      totalStages: 4,
+      stageName: this.stages.ENCODING.name,
+      message: `${progress.currentOperation}...`,
+      progress: this.getStageProgress('ENCODING') + (progress.percentage / 100) * 25,
+    });
+  }
+
+  /**
+   * Encode the captured frames once, optionally resampled to an attempt's
+   * frame rate and resolution
+   */
+  private async encodeFrameSet(
+    frames: HTMLCanvasElement[],
+    delays: number[],
+    options: GifProcessingOptions,
+    attempt?: SizeBudgetAttempt
+  ): Promise<EncodingResult> {
+    const { frameRate = 10, quality = 'medium', format = 'gif' } = options;
+    const targetFrameRate = attempt?.frameRate ?? frameRate;
+    const scale = attempt?.scale ?? 1;
+    // Keep dimensions even for video encoding
+    const width = Math.max(2, Math.floor((frames[0].width * scale) / 2) * 2);
+    const height = Math.max(2, Math.floor((frames[0].height * scale) / 2) * 2);
+
+    // Convert canvas frames to encoder format. Exact delays; encoders round
+    // them to their own units without drifting
+    const kept = this.resampleFrames(frames.length, frameRate, targetFrameRate);
+    const frameDelay = 1000 / targetFrameRate;
+    let elapsed = 0;
+    let frameData: EncoderFrameData[] = kept.map((source, index) => {
+      // A kept frame is shown for the frames dropped after it as well
+      const end = index + 1 < kept.length ? kept[index + 1] : frames.length;
+      const delay = delays.slice(source, end).reduce((total, value) => total + value, 0);
+      const frame = {
+        imageData: this.readFramePixels(frames[source], index, width, height),
+        timestamp: elapsed,
+        delay,
       };
+      elapsed += delay;
+      return frame;
+    });
+    let lockedPalette = this.resampleLockedPalette(
+      options.lockedPalette,
+      frames.length,
+      kept.length
+    );
 
-      // Encode frames using the main encoder system
-      const result = await encodeFrames(
-        frameData,
-        encodingOptions,
-        {
-          encoder: 'auto', // Let the system choose the best encoder
-          format: 'gif'
-        }
-      );
+    // Collapse runs of still frames into single frames with summed delays
+    const duplicateThreshold = options.duplicateThreshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+    if (duplicateThreshold > 0) {
+      const merged = mergeDuplicateFrames(frameData, frameDelay, duplicateThreshold);
+      logger.info('[ContentScriptGifProcessor] Merged duplicate frames', {
+        merged: frameData.length - merged.frames.length,
+      });
+      frameData = merged.frames;
+      lockedPalette = this.mergeLockedPalette(lockedPalette, merged.sourceIndices);
+    }
 
-      logger.info('[ContentScriptGifProcessor] GIF encoding finished', {
-        size: result.blob.size,
-        metadata: result.metadata
+    // Reverse or bounce the final frames, keeping each frame's delay
+    const playbackMode = options.playbackMode ?? 'forward';
+    if (playbackMode !== 'forward') {
+      const order = getPlaybackOrder(frameData.length, playbackMode);
+      const ordered = order.map((index) => frameData[index]);
+      let timestamp = 0;
+      frameData = ordered.map((frame) => {
+        const retimed = { ...frame, timestamp };
+        timestamp += frame.delay ?? frameDelay;
+        return retimed;
       });
+      lockedPalette = this.reorderLockedPalette(lockedPalette, order);
+    }
 
-      return result.blob;
-    } catch (error) {
-      console.error('[ContentScriptGifProcessor] Failed to encode GIF:', error);
-      logger.error('[ContentScriptGifProcessor] Failed to encode GIF', { error });
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw createError('gif', `Failed to encode GIF: ${errorMessage}`);
+    // Create encoding options
+    const encodingOptions: EncodingOptions = {
+      width,
+      height,
+      quality: quality,
+      frameRate: targetFrameRate,
+      loop: true,
+      loopCount: options.loopCount,
+      lossless: options.lossless,
+      dithering: options.dithering === 'auto' ? undefined : options.dithering,
+      ditherStrength: options.ditherStrength,
+      maxColors: options.maxColors,
+      lockedPalette,
+      ...(attempt && { maxColors: attempt.colors, lossiness: attempt.lossiness })
+    };
+
+    // Encode frames using the main encoder system
+    return encodeFrames(
+      frameData,
+      encodingOptions,
+      {
+        encoder: 'auto', // Let the system choose the best encoder
+        format,
+        selectByQuality: options.dithering === 'auto',
+        onProgress: (progress) => this.reportEncoderProgress(progress)
+      }
+    );
+  }
+
+  /**
+   * Indices of the frames kept when dropping frames evenly to reach a lower
+   * frame rate over the same duration
+   */
+  private resampleFrames(
+    frameCount: number,
+    sourceFrameRate: number,
+    targetFrameRate: number
+  ): number[] {
+    if (targetFrameRate >= sourceFrameRate) {
+      return Array.from({ length: frameCount }, (_, i) => i);
+    }
+
+    const count = Math.max(1, Math.round((frameCount * targetFrameRate) / sourceFrameRate));
+    return Array.from({ length: count }, (_, i) => Math.floor((i * frameCount) / count));
+  }
+
+  /**
+   * Keep a frame-locked palette pointing at the same moment after resampling
+   */
+  private resampleLockedPalette(
+    lockedPalette: LockedPalette | undefined,
+    sourceCount: number,
+    targetCount: number
+  ): LockedPalette | undefined {
+    if (lockedPalette?.type !== 'frame' || sourceCount === targetCount) {
+      return lockedPalette;
+    }
+    const frameIndex = Math.floor((lockedPalette.frameIndex * targetCount) / sourceCount);
+    return { type: 'frame', frameIndex: Math.min(targetCount - 1, frameIndex) };
+  }
+
+  /**
+   * Point a frame-locked palette at the merged frame whose run contains it
+   */
+  private mergeLockedPalette(
+    lockedPalette: LockedPalette | undefined,
+    sourceIndices: number[]
+  ): LockedPalette | undefined {
+    if (lockedPalette?.type !== 'frame') {
+      return lockedPalette;
+    }
+    let frameIndex = 0;
+    while (
+      frameIndex + 1 < sourceIndices.length &&
+      sourceIndices[frameIndex + 1] <= lockedPalette.frameIndex
+    ) {
+      frameIndex++;
+    }
+    return { type: 'frame', frameIndex };
+  }
+
+  /**
+   * Point a frame-locked palette at the first time its frame is played
+   */
+  private reorderLockedPalette(
+    lockedPalette: LockedPalette | undefined,
+    order: number[]
+  ): LockedPalette | undefined {
+    if (lockedPalette?.type !== 'frame') {
+      return lockedPalette;
+    }
+    return { type: 'frame', frameIndex: Math.max(0, order.indexOf(lockedPalette.frameIndex)) };
+  }
+
+  private readFramePixels(
+    canvas: HTMLCanvasElement,
+    index: number,
+    width: number,
+    height: number
+  ): ImageData {
+    let source = canvas;
+    if (canvas.width !== width || canvas.height !== height) {
+      source = document.createElement('canvas');
+      source.width = width;
+      source.height = height;
+      source.getContext('2d')?.drawImage(canvas, 0, 0, width, height);
+    }
+
+    const ctx = source.getContext('2d');
+    if (!ctx) {
+      throw new Error(`Failed to get context for frame ${index + 1}`);
     }
+    return ctx.getImageData(0, 0, width, height);
   }
 
   /**
@@ -527,12 +1612,103 @@ export class ContentScriptGifProcessor {
     });
   }
 
+  /**
+   * List the GIFs saved in IndexedDB, newest first, as sources for editing.
+   * Other saved formats are left out since only GIFs can be decoded.
+   */
+  public async listSavedGifs(): Promise<GifEditSource[]> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open('YouTubeGifStore', 3);
+
+      request.onerror = () => {
+        reject(createError('storage', 'Failed to open IndexedDB'));
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains('gifs')) {
+          const gifsStore = db.createObjectStore('gifs', { keyPath: 'id' });
+          gifsStore.createIndex('createdAt', 'metadata.createdAt', { unique: false });
+        }
+      };
+
+      request.onsuccess = () => {
+        const store = request.result.transaction(['gifs'], 'readonly').objectStore('gifs');
+        const getAll = store.getAll();
+
+        getAll.onsuccess = () => {
+          const records = getAll.result as Array<{
+            id: string;
+            title?: string;
+            blob?: Blob;
+            metadata?: {
+              title?: string;
+              format?: FormatType;
+              createdAt?: string | Date;
+              originalGifId?: string;
+              editorVersion?: number;
+            };
+          }>;
+          const gifs = records
+            .filter((record) => record.blob && (record.metadata?.format ?? 'gif') === 'gif')
+            .map((record) => ({
+              blob: record.blob as Blob,
+              title: record.title || record.metadata?.title || 'Saved GIF',
+              gifId: record.id,
+              originalGifId: record.metadata?.originalGifId,
+              editorVersion: record.metadata?.editorVersion,
+              createdAt:
+                record.metadata?.createdAt && new Date(record.metadata.createdAt).toISOString(),
+            }));
+          gifs.sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''));
+          resolve(gifs);
+        };
+
+        getAll.onerror = () => {
+          reject(createError('storage', 'Failed to read GIFs from IndexedDB'));
+        };
+      };
+    });
+  }
+
+  /**
+   * Download a PNG sequence archive through the browser's downloads
+   */
+  public downloadPngSequence(blob: Blob, filename: string, frameCount: number): Promise<void> {
+    const url = URL.createObjectURL(blob);
+
+    return new Promise((resolve, reject) => {
+      chrome.runtime.sendMessage(
+        {
+          type: 'DOWNLOAD_FRAME_SEQUENCE',
+          data: { url, filename, frameCount },
+        },
+        (response) => {
+          // Clean up blob URL after download starts
+          setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+          if (response?.success) {
+            logger.info('[ContentScriptGifProcessor] PNG sequence download initiated', {
+              filename,
+            });
+            resolve();
+          } else {
+            reject(createError('gif', response?.error || 'Failed to download PNG sequence'));
+          }
+        }
+      );
+    });
+  }
+
   /**
    * Trigger download of GIF
    */
   public async downloadGif(blob: Blob, filename?: string): Promise<void> {
     const url = URL.createObjectURL(blob);
-    const name = filename || `youtube-gif-${Date.now()}.gif`;
+    // MIME subtypes of all output formats double as file extensions
+    const extension = blob.type.split('/')[1] || 'gif';
+    const name = filename || `youtube-gif-${Date.now()}.${extension}`;
 
     // Send download request to background script
     chrome.runtime.sendMessage(
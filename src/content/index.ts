@@ -24,13 +24,21 @@ import {
   SuccessResponse,
   ErrorResponse,
 } from '@/types';
-import { GifData, GifSettings } from '@/types/storage';
+import {
+  CaptureJob,
+  CaptureMode,
+  ExportSettings,
+  GifData,
+  GifEditSource,
+  GifSettings,
+} from '@/types/storage';
 import { youTubeDetector, YouTubeNavigationEvent } from './youtube-detector';
 import { injectionManager } from './injection-manager';
 import { extensionStateManager } from '@/shared';
 import { youTubeAPI, YouTubeAPIIntegration } from './youtube-api-integration';
 import { ContentScriptFrameExtractor, ContentFrameExtractionRequest } from './frame-extractor';
-import { gifProcessor } from './gif-processor';
+import { gifProcessor, StageProgressInfo } from './gif-processor';
+import { captureCheckpoints } from './capture-checkpoints';
 import { playerIntegration } from './player-integration';
 import { playerController } from './player-controller';
 import { TimelineOverlayWrapper } from './timeline-overlay-wrapper';
@@ -40,7 +48,15 @@ import { cleanupManager } from './cleanup-manager';
 import { initializeContentScriptFrameExtraction } from './frame-extractor';
 import { themeDetector, youtubeMatcher } from '@/themes';
 import { ResolutionScaler } from '@/processing/resolution-scaler';
+import type { PlaybackMode } from '@/processing/playback-mode';
+import type { SpriteSheetOptions } from '@/processing/sprite-sheet';
 import { parseResolution } from '@/utils/resolution-parser';
+import {
+  OUTPUT_FILE_EXTENSIONS,
+  type DitheringAlgorithm,
+  type FormatType,
+  type LockedPalette,
+} from '@/lib/encoders';
 
 class YouTubeGifMaker {
   private gifButton: HTMLButtonElement | null = null;
@@ -52,13 +68,24 @@ class YouTubeGifMaker {
   private videoElement: HTMLVideoElement | null = null;
   private navigationUnsubscribe: (() => void) | null = null;
   private processingStatus:
-    | { stage: string; stageNumber: number; totalStages: number; progress: number; message: string }
+    | {
+        stage: string;
+        stageNumber: number;
+        totalStages: number;
+        progress: number;
+        message: string;
+        notice?: string; // Kept across stage updates for the rest of the run
+      }
     | undefined = undefined;
   private isWizardMode = false;
   private wizardUpdateInterval: NodeJS.Timeout | null = null;
   private createdGifData:
     | { dataUrl: string; size: number; metadata: Record<string, unknown> }
     | undefined = undefined;
+  // One function for every render, so the library is loaded once per visit
+  private loadGifLibrary = () => gifProcessor.listSavedGifs();
+  private captureJob: CaptureJob | null = null; // Checkpoints of the running capture
+  private resumableCapture: CaptureJob | undefined = undefined; // Offered for the current video
   private buttonVisible = false; // Track button visibility state - default to hidden
 
   constructor() {
@@ -333,6 +360,11 @@ class YouTubeGifMaker {
       // Update overlay state manager with navigation info
       overlayStateManager.handleNavigation(navigationEvent.to, navigationEvent.videoId);
 
+      // Frames of another video must not join the capture; those captured stay resumable
+      if (this.captureJob && navigationEvent.videoId !== this.captureJob.videoId) {
+        gifProcessor.interruptCapture('left the video');
+      }
+
       // Clear local references if navigating away from video page
       if (navigationEvent.to !== 'watch' && navigationEvent.to !== 'shorts') {
         this.videoElement = null;
@@ -725,11 +757,16 @@ class YouTubeGifMaker {
             selection: TimelineSelection,
             textOverlays?: TextOverlay[],
             resolution?: string,
-            frameRate?: number
+            frameRate?: number,
+            exportSettings?: ExportSettings
           ) => {
             console.log('[Wizard callback] Called with frameRate:', frameRate);
-            this.handleCreateGif(selection, textOverlays, resolution, frameRate);
+            this.handleCreateGif(selection, textOverlays, resolution, frameRate, exportSettings);
           },
+          onReeditGif: this.handleReeditGif.bind(this),
+          loadGifLibrary: this.loadGifLibrary,
+          resumableCapture: this.resumableCapture,
+          onResumeCapture: this.handleResumeCapture.bind(this),
           onSeekTo: this.handleSeekTo.bind(this),
           isCreating: this.isCreatingGif,
           processingStatus: this.processingStatus,
@@ -742,6 +779,8 @@ class YouTubeGifMaker {
         currentTime,
         videoTitle,
       });
+
+      this.refreshResumableCapture();
     } catch (error) {
       console.error('[Wizard] Error showing overlay wizard:', error);
       this.log('error', '[Wizard] Failed to show overlay wizard', { error });
@@ -800,11 +839,16 @@ class YouTubeGifMaker {
             selection: TimelineSelection,
             textOverlays?: TextOverlay[],
             resolution?: string,
-            frameRate?: number
+            frameRate?: number,
+            exportSettings?: ExportSettings
           ) => {
             console.log('[Wizard callback] Called with frameRate:', frameRate);
-            this.handleCreateGif(selection, textOverlays, resolution, frameRate);
+            this.handleCreateGif(selection, textOverlays, resolution, frameRate, exportSettings);
           },
+          onReeditGif: this.handleReeditGif.bind(this),
+          loadGifLibrary: this.loadGifLibrary,
+          resumableCapture: this.resumableCapture,
+          onResumeCapture: this.handleResumeCapture.bind(this),
           onSeekTo: this.handleSeekTo.bind(this),
           isCreating: this.isCreatingGif,
           processingStatus: this.processingStatus,
@@ -955,7 +999,9 @@ class YouTubeGifMaker {
     selection?: TimelineSelection,
     textOverlays?: TextOverlay[],
     resolution?: string,
-    frameRate?: number
+    frameRate?: number,
+    exportSettings?: ExportSettings,
+    resumeJob?: CaptureJob
   ) {
     console.log('[handleCreateGif] Called with frameRate:', frameRate);
     // Use provided selection or fall back to current selection
@@ -1181,16 +1227,170 @@ class YouTubeGifMaker {
       videoHeight: this.videoElement?.videoHeight,
     });
 
-    console.log('[handleCreateGif] Using frameRate:', frameRate || 5);
-    const defaultSettings = {
-      frameRate: frameRate || 5, // Use provided frameRate or default to 5
-      width: scaledWidth,
-      height: scaledHeight,
-      quality: 'medium' as const,
-    };
+    // Frames are checkpointed as they are captured so an interrupted capture can resume
+    this.captureJob = await this.beginCaptureJob(
+      {
+        selection: gifSelection,
+        textOverlays: textOverlays || [],
+        resolution,
+        frameRate,
+        exportSettings,
+      },
+      resumeJob
+    );
+
+    try {
+      // Sprite sheets are captured like animations but laid out instead of encoded
+      if (exportSettings?.format === 'sprite-sheet') {
+        await this.processSpriteSheet(
+          {
+            frameRate: frameRate || 5,
+            width: scaledWidth,
+            height: scaledHeight,
+            speed: exportSettings.speed,
+            speedRamp: exportSettings.speedRamp,
+            captureMode: exportSettings.captureMode,
+            spriteSheet: exportSettings.spriteSheet,
+          },
+          textOverlays || []
+        );
+        return;
+      }
+
+      if (exportSettings?.format === 'png-sequence') {
+        await this.processPngSequence(
+          {
+            frameRate: frameRate || 5,
+            width: scaledWidth,
+            height: scaledHeight,
+            speed: exportSettings.speed,
+            speedRamp: exportSettings.speedRamp,
+            captureMode: exportSettings.captureMode,
+          },
+          textOverlays || []
+        );
+        return;
+      }
+
+      console.log('[handleCreateGif] Using frameRate:', frameRate || 5);
+      const defaultSettings = {
+        frameRate: frameRate || 5, // Use provided frameRate or default to 5
+        width: scaledWidth,
+        height: scaledHeight,
+        quality: 'medium' as const,
+        format: exportSettings?.format || 'gif',
+        lossless: exportSettings?.lossless,
+        maxFileSize: exportSettings?.maxFileSize,
+        dithering: exportSettings?.dithering,
+        ditherStrength: exportSettings?.ditherStrength,
+        maxColors: exportSettings?.maxColors,
+        lockedPalette: exportSettings?.lockedPalette,
+        duplicateThreshold: exportSettings?.duplicateThreshold,
+        playbackMode: exportSettings?.playbackMode,
+        loopCount: exportSettings?.loopCount,
+        speed: exportSettings?.speed,
+        speedRamp: exportSettings?.speedRamp,
+        captureMode: exportSettings?.captureMode,
+      };
+
+      // Process the GIF with text overlays if provided
+      await this.processGifWithSettings(defaultSettings, textOverlays || []);
+    } finally {
+      await this.endCaptureJob();
+    }
+  }
 
-    // Process the GIF with text overlays if provided
-    await this.processGifWithSettings(defaultSettings, textOverlays || []);
+  /**
+   * Start checkpointing a capture, or continue an interrupted one. A fresh
+   * capture replaces the earlier checkpoint of the video.
+   */
+  private async beginCaptureJob(
+    request: Pick<
+      CaptureJob,
+      'selection' | 'textOverlays' | 'resolution' | 'frameRate' | 'exportSettings'
+    >,
+    resumeJob?: CaptureJob
+  ): Promise<CaptureJob | null> {
+    const videoId = this.extractVideoIdFromUrl();
+    if (!videoId) return null;
+
+    try {
+      let job = resumeJob;
+      if (!job) {
+        if (this.resumableCapture) {
+          await captureCheckpoints.deleteJob(this.resumableCapture.id);
+        }
+        job = await captureCheckpoints.createJob({
+          ...request,
+          videoId,
+          pageUrl: window.location.href,
+          videoTitle: document.title.replace(' - YouTube', ''),
+        });
+      }
+      this.resumableCapture = undefined;
+      await extensionStateManager.addActiveJob(job.id);
+      return job;
+    } catch (error) {
+      this.log('warn', '[Content] Capture checkpoints unavailable', { error });
+      return null;
+    }
+  }
+
+  /**
+   * A finished capture's checkpoint is dropped; one that stopped early is
+   * kept and offered again while the user stays on its video
+   */
+  private async endCaptureJob(): Promise<void> {
+    const job = this.captureJob;
+    this.captureJob = null;
+    if (!job) return;
+
+    await extensionStateManager.removeActiveJob(job.id);
+    try {
+      if (this.processingStatus?.stage === 'COMPLETED') {
+        await captureCheckpoints.deleteJob(job.id);
+        return;
+      }
+
+      await captureCheckpoints.updateJob(job.id, { interruption: this.processingStatus?.message });
+      if (this.extractVideoIdFromUrl() === job.videoId) {
+        this.resumableCapture = await captureCheckpoints.findJobForVideo(job.videoId);
+        this.updateTimelineOverlay();
+      }
+      this.log('info', '[Content] Capture stopped early, checkpoint kept', { jobId: job.id });
+    } catch (error) {
+      this.log('warn', '[Content] Failed to settle capture checkpoint', { error });
+    }
+  }
+
+  // Offer to resume an interrupted capture of the current video
+  private async refreshResumableCapture(): Promise<void> {
+    const videoId = this.extractVideoIdFromUrl();
+    try {
+      this.resumableCapture = videoId
+        ? await captureCheckpoints.findJobForVideo(videoId)
+        : undefined;
+    } catch (error) {
+      this.log('warn', '[Content] Failed to look up capture checkpoints', { error });
+      this.resumableCapture = undefined;
+    }
+    this.updateTimelineOverlay();
+  }
+
+  private handleResumeCapture(job: CaptureJob) {
+    this.log('info', '[Content] Resuming capture', {
+      jobId: job.id,
+      capturedFrames: job.capturedFrames,
+      frameCount: job.frameCount,
+    });
+    this.handleCreateGif(
+      job.selection,
+      job.textOverlays,
+      job.resolution,
+      job.frameRate,
+      job.exportSettings,
+      job
+    );
   }
 
   private async processGifWithSettings(
@@ -1199,6 +1399,17 @@ class YouTubeGifMaker {
       width?: number;
       height?: number;
       quality?: string;
+      format?: FormatType;
+      lossless?: boolean;
+      maxFileSize?: number;
+      dithering?: DitheringAlgorithm | 'auto';
+      ditherStrength?: number;
+      maxColors?: number;
+      lockedPalette?: LockedPalette;
+      duplicateThreshold?: number;
+      playbackMode?: PlaybackMode;
+      loopCount?: number;
+      captureMode?: CaptureMode;
     },
     textOverlays: TextOverlay[] = [],
     download = false
@@ -1252,36 +1463,27 @@ class YouTubeGifMaker {
           width,
           height,
           quality: settings.quality || 'medium',
+          format: settings.format || 'gif',
+          lossless: settings.lossless,
+          maxFileSize: settings.maxFileSize,
+          dithering: settings.dithering,
+          ditherStrength: settings.ditherStrength,
+          maxColors: settings.maxColors,
+          lockedPalette: settings.lockedPalette,
+          duplicateThreshold: settings.duplicateThreshold,
+          playbackMode: settings.playbackMode,
+          loopCount: settings.loopCount,
+          speed: settings.speed,
+          speedRamp: settings.speedRamp,
+          captureMode: settings.captureMode,
+          source: {
+            videoId: this.extractVideoIdFromUrl() || undefined,
+            pageUrl: window.location.href,
+          },
+          checkpointJobId: this.captureJob?.id,
           textOverlays,
         },
-        (stageInfo) => {
-          this.processingStatus = {
-            stage: stageInfo.stage,
-            stageNumber: stageInfo.stageNumber,
-            totalStages: stageInfo.totalStages,
-            progress: stageInfo.progress,
-            message: stageInfo.message,
-          };
-          this.updateTimelineOverlay();
-          this.log(
-            'debug',
-            '[Content] GIF processing stage update',
-            stageInfo as unknown as Record<string, unknown>
-          );
-
-          // Post stage info to window for unified interface
-          window.postMessage(
-            {
-              type: 'GIF_PROGRESS',
-              stage: stageInfo.stage,
-              stageNumber: stageInfo.stageNumber,
-              totalStages: stageInfo.totalStages,
-              progress: stageInfo.progress,
-              message: stageInfo.message,
-            },
-            '*'
-          );
-        }
+        (stageInfo) => this.handleProcessingStage(stageInfo)
       );
 
       this.log('info', '[Content] GIF created successfully', {
@@ -1309,6 +1511,7 @@ class YouTubeGifMaker {
         duration: endTime - startTime,
         frameRate: settings.frameRate || 15,
         fileSize: result.blob.size,
+        format: result.metadata.format,
         createdAt: new Date(),
         tags: [],
       };
@@ -1345,7 +1548,7 @@ class YouTubeGifMaker {
         // Direct download
         const link = document.createElement('a');
         link.href = gifDataUrl;
-        link.download = `youtube-gif-${Date.now()}.gif`;
+        link.download = `youtube-gif-${Date.now()}.${OUTPUT_FILE_EXTENSIONS[result.metadata.format]}`;
         link.click();
       } else {
         // Preview modal removed - wizard handles everything
@@ -1404,6 +1607,263 @@ class YouTubeGifMaker {
     }
   }
 
+  private handleProcessingStage(stageInfo: StageProgressInfo) {
+    this.processingStatus = {
+      stage: stageInfo.stage,
+      stageNumber: stageInfo.stageNumber,
+      totalStages: stageInfo.totalStages,
+      progress: stageInfo.progress,
+      message: stageInfo.message,
+      notice: stageInfo.notice ?? this.processingStatus?.notice,
+    };
+    this.updateTimelineOverlay();
+    this.log(
+      'debug',
+      '[Content] GIF processing stage update',
+      stageInfo as unknown as Record<string, unknown>
+    );
+
+    // Post stage info to window for unified interface
+    window.postMessage(
+      {
+        type: 'GIF_PROGRESS',
+        stage: stageInfo.stage,
+        stageNumber: stageInfo.stageNumber,
+        totalStages: stageInfo.totalStages,
+        progress: stageInfo.progress,
+        message: stageInfo.message,
+      },
+      '*'
+    );
+  }
+
+  private async processSpriteSheet(
+    settings: Pick<GifSettings, 'frameRate'> &
+      Partial<Pick<GifSettings, 'speed' | 'speedRamp'>> & {
+        width: number;
+        height: number;
+        captureMode?: CaptureMode;
+        spriteSheet?: SpriteSheetOptions;
+      },
+    textOverlays: TextOverlay[]
+  ) {
+    if (!this.videoElement || !this.currentSelection) return;
+    const { startTime, endTime } = this.currentSelection;
+
+    try {
+      const result = await gifProcessor.processVideoToSpriteSheet(
+        this.videoElement,
+        {
+          ...settings,
+          startTime,
+          endTime,
+          source: {
+            videoId: this.extractVideoIdFromUrl() || undefined,
+            pageUrl: window.location.href,
+          },
+          checkpointJobId: this.captureJob?.id,
+          textOverlays,
+        },
+        (stageInfo) => this.handleProcessingStage(stageInfo)
+      );
+
+      const metadata = { ...result.metadata, format: 'sprite-sheet', atlas: result.atlas };
+      await gifProcessor.saveGifToStorage(result.blob, metadata);
+
+      // The atlas is offered for download next to the sheet
+      const atlasBlob = new Blob([JSON.stringify(result.atlas, null, 2)], {
+        type: 'application/json',
+      });
+      await this.presentCreatedOutput(
+        result.blob,
+        {
+          ...metadata,
+          title: document.title || 'YouTube GIF',
+          fileName: result.atlas.meta.image,
+          atlasDataUrl: await this.readDataUrl(atlasBlob),
+        },
+        'Sprite sheet'
+      );
+    } catch (error) {
+      this.log('error', '[Content] Failed to create sprite sheet', {
+        error,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      this.processingStatus = {
+        stage: 'ERROR',
+        stageNumber: 0,
+        totalStages: 4,
+        progress: 0,
+        message: error instanceof Error ? error.message : 'Failed to create sprite sheet',
+      };
+      this.updateTimelineOverlay();
+    } finally {
+      this.isCreatingGif = false;
+    }
+  }
+
+  // Every frame as a PNG in a ZIP, handed straight to the browser's downloads
+  private async processPngSequence(
+    settings: Pick<GifSettings, 'frameRate'> &
+      Partial<Pick<GifSettings, 'speed' | 'speedRamp'>> & {
+        width: number;
+        height: number;
+        captureMode?: CaptureMode;
+      },
+    textOverlays: TextOverlay[]
+  ) {
+    if (!this.videoElement || !this.currentSelection) return;
+    const { startTime, endTime } = this.currentSelection;
+
+    try {
+      const result = await gifProcessor.processVideoToPngSequence(
+        this.videoElement,
+        {
+          ...settings,
+          startTime,
+          endTime,
+          source: {
+            videoId: this.extractVideoIdFromUrl() || undefined,
+            pageUrl: window.location.href,
+          },
+          checkpointJobId: this.captureJob?.id,
+          textOverlays,
+        },
+        (stageInfo) => this.handleProcessingStage(stageInfo)
+      );
+
+      // The success screen can still download the archive if this fails
+      const fileName = `${result.metadata.id}.zip`;
+      await gifProcessor
+        .downloadPngSequence(result.blob, fileName, result.metadata.frameCount)
+        .catch((error) =>
+          this.log('warn', '[Content] PNG sequence download failed', { error })
+        );
+      await this.presentCreatedOutput(
+        result.blob,
+        {
+          ...result.metadata,
+          format: 'png-sequence',
+          title: document.title || 'YouTube GIF',
+          fileName,
+        },
+        'PNG sequence'
+      );
+    } catch (error) {
+      this.log('error', '[Content] Failed to create PNG sequence', {
+        error,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      this.processingStatus = {
+        stage: 'ERROR',
+        stageNumber: 0,
+        totalStages: 4,
+        progress: 0,
+        message: error instanceof Error ? error.message : 'Failed to create PNG sequence',
+      };
+      this.updateTimelineOverlay();
+    } finally {
+      this.isCreatingGif = false;
+    }
+  }
+
+  // Hand a finished output to the wizard's success screen
+  private async presentCreatedOutput(
+    blob: Blob,
+    metadata: Record<string, unknown>,
+    output = 'GIF'
+  ) {
+    this.createdGifData = {
+      dataUrl: await this.readDataUrl(blob),
+      size: blob.size,
+      metadata,
+    };
+    this.processingStatus = {
+      stage: 'COMPLETED',
+      stageNumber: 4,
+      totalStages: 4,
+      progress: 100,
+      message: `✅ ${output} created successfully!`,
+    };
+    this.updateTimelineOverlay();
+  }
+
+  private readDataUrl(blob: Blob): Promise<string> {
+    const reader = new FileReader();
+    return new Promise<string>((resolve) => {
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  // Trim, re-caption or re-optimize an existing GIF and save it as a new version
+  private async handleReeditGif(
+    source: GifEditSource,
+    selection: TimelineSelection,
+    textOverlays: TextOverlay[],
+    exportSettings?: ExportSettings
+  ) {
+    this.log('info', '[Content] Re-editing GIF', {
+      gifId: source.gifId,
+      selection,
+      hasTextOverlays: textOverlays.length > 0,
+    });
+
+    this.processingStatus = {
+      stage: 'CAPTURING',
+      stageNumber: 1,
+      totalStages: 4,
+      progress: 0,
+      message: 'Reading GIF...',
+    };
+    this.isCreatingGif = true;
+    this.createdGifData = undefined;
+    this.updateTimelineOverlay();
+
+    try {
+      const result = await gifProcessor.reeditGif(
+        source.blob,
+        {
+          startTime: selection.startTime,
+          endTime: selection.endTime,
+          maxFileSize: exportSettings?.maxFileSize,
+          dithering: exportSettings?.dithering,
+          ditherStrength: exportSettings?.ditherStrength,
+          maxColors: exportSettings?.maxColors,
+          lockedPalette: exportSettings?.lockedPalette,
+          duplicateThreshold: exportSettings?.duplicateThreshold,
+          loopCount: exportSettings?.loopCount,
+          textOverlays,
+        },
+        (stageInfo) => this.handleProcessingStage(stageInfo)
+      );
+
+      // Every edit points back at the first version it came from
+      const metadata = {
+        ...result.metadata,
+        originalGifId: source.originalGifId ?? source.gifId,
+        editorVersion: (source.editorVersion ?? 1) + 1,
+      };
+      await gifProcessor.saveGifToStorage(result.blob, metadata);
+      await this.presentCreatedOutput(result.blob, { ...metadata, title: source.title });
+    } catch (error) {
+      this.log('error', '[Content] Failed to re-edit GIF', {
+        error,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      this.processingStatus = {
+        stage: 'ERROR',
+        stageNumber: 0,
+        totalStages: 4,
+        progress: 0,
+        message: `Failed to edit GIF. ${error instanceof Error ? error.message : ''}`.trim(),
+      };
+      this.updateTimelineOverlay();
+    } finally {
+      this.isCreatingGif = false;
+    }
+  }
+
   private hideTimelineOverlay() {
     // Don't immediately reset wizard mode - let it persist through GIF save
     // It will be reset after the GIF is saved or on error
@@ -1,12 +1,35 @@
 import React, { useEffect } from 'react';
-import { TimelineSelection, TextOverlay } from '@/types';
+import {
+  CaptureJob,
+  ExportSettings,
+  FrameExportFormat,
+  GifEditSource,
+  TimelineSelection,
+  TextOverlay,
+} from '@/types';
+import { OUTPUT_FILE_EXTENSIONS, type FormatType } from '@/lib/encoders';
 import { useOverlayNavigation } from './hooks/useOverlayNavigation';
 import FeedbackScreen from './screens/FeedbackScreen';
 import QuickCaptureScreen from './screens/QuickCaptureScreen';
+import GifImportScreen, { type GifEditPreview } from './screens/GifImportScreen';
 import TextOverlayScreenV2 from './screens/TextOverlayScreenV2';
 import ProcessingScreen from './screens/ProcessingScreen';
 import SuccessScreen from './screens/SuccessScreen';
 
+// Caption sizes follow the resolution preset closest to an opened GIF's height
+const RESOLUTION_HEIGHTS: Array<[string, number]> = [
+  ['144p', 144],
+  ['240p', 240],
+  ['360p', 360],
+  ['480p', 480],
+];
+
+function closestResolution(height: number): string {
+  return RESOLUTION_HEIGHTS.reduce((best, candidate) =>
+    Math.abs(candidate[1] - height) < Math.abs(best[1] - height) ? candidate : best
+  )[0];
+}
+
 interface OverlayWizardProps {
   videoDuration: number;
   currentTime: number;
@@ -18,8 +41,18 @@ interface OverlayWizardProps {
     selection: TimelineSelection,
     textOverlays?: TextOverlay[],
     resolution?: string,
-    frameRate?: number
+    frameRate?: number,
+    exportSettings?: ExportSettings
   ) => void;
+  onReeditGif?: (
+    source: GifEditSource,
+    selection: TimelineSelection,
+    textOverlays: TextOverlay[],
+    exportSettings?: ExportSettings
+  ) => void;
+  loadGifLibrary?: () => Promise<GifEditSource[]>;
+  resumableCapture?: CaptureJob;
+  onResumeCapture?: (job: CaptureJob) => void;
   onSeekTo?: (time: number) => void;
   isCreating?: boolean;
   processingStatus?: {
@@ -28,6 +61,7 @@ interface OverlayWizardProps {
     totalStages: number;
     progress: number;
     message: string;
+    notice?: string; // Shown under the message until processing ends
   };
   gifData?: {
     dataUrl: string;
@@ -44,6 +78,10 @@ const OverlayWizard: React.FC<OverlayWizardProps> = ({
   onSelectionChange,
   onClose,
   onCreateGif,
+  onReeditGif,
+  loadGifLibrary,
+  resumableCapture,
+  onResumeCapture,
   onSeekTo,
   isCreating: _isCreating = false,
   processingStatus,
@@ -74,7 +112,8 @@ const OverlayWizard: React.FC<OverlayWizardProps> = ({
     startTime: number,
     endTime: number,
     frameRate?: number,
-    resolution?: string
+    resolution?: string,
+    exportSettings?: ExportSettings
   ) => {
     console.log('[OverlayWizard] handleConfirmQuickCapture - frameRate:', frameRate);
     const selection: TimelineSelection = {
@@ -88,6 +127,7 @@ const OverlayWizard: React.FC<OverlayWizardProps> = ({
       endTime,
       frameRate: frameRate || 5,
       resolution: resolution || '144p',
+      exportSettings: exportSettings || { format: 'gif' },
     });
     onSelectionChange(selection);
     // Go to text overlay screen instead of processing
@@ -95,6 +135,49 @@ const OverlayWizard: React.FC<OverlayWizardProps> = ({
     goToScreen('text-overlay');
   };
 
+  // An opened GIF takes the video's place: its own timeline, first frame and size
+  const handleConfirmGifImport = (
+    source: GifEditSource,
+    startTime: number,
+    endTime: number,
+    exportSettings: ExportSettings,
+    preview: GifEditPreview
+  ) => {
+    setScreenData({
+      startTime,
+      endTime,
+      exportSettings,
+      editSource: source,
+      editPreview: preview,
+      resolution: closestResolution(preview.height),
+      textOverlays: undefined,
+    });
+    goToScreen('text-overlay');
+  };
+
+  // Leave editing when capturing from the video again
+  const handleConfirmCapture = (...args: Parameters<typeof handleConfirmQuickCapture>) => {
+    setScreenData({ editSource: undefined, editPreview: undefined });
+    handleConfirmQuickCapture(...args);
+  };
+
+  // An interrupted capture continues with the settings it was started with
+  const handleResumeCapture = (job: CaptureJob) => {
+    setScreenData({
+      startTime: job.selection.startTime,
+      endTime: job.selection.endTime,
+      frameRate: job.frameRate,
+      resolution: job.resolution,
+      exportSettings: job.exportSettings,
+      textOverlays: job.textOverlays,
+      editSource: undefined,
+      editPreview: undefined,
+    });
+    onSelectionChange(job.selection);
+    onResumeCapture?.(job);
+    goToScreen('processing');
+  };
+
   // Store GIF data when it's created and transition to success
   React.useEffect(() => {
     if (gifData && gifData.dataUrl) {
@@ -107,6 +190,9 @@ const OverlayWizard: React.FC<OverlayWizardProps> = ({
           height: number;
           duration: number;
           frameCount?: number;
+          format?: FormatType | FrameExportFormat;
+          fileName?: string;
+          atlasDataUrl?: string;
         } | undefined,
       };
 
@@ -131,8 +217,14 @@ const OverlayWizard: React.FC<OverlayWizardProps> = ({
       duration: (data.endTime || 10) - (data.startTime || 0),
     };
 
+    if (data.editSource && onReeditGif) {
+      onReeditGif(data.editSource, selection, overlays, data.exportSettings);
+      goToScreen('processing');
+      return;
+    }
+
     console.log('[OverlayWizard] handleCreateGif - frameRate:', data.frameRate);
-    onCreateGif(selection, overlays, data.resolution, data.frameRate);
+    onCreateGif(selection, overlays, data.resolution, data.frameRate, data.exportSettings);
     goToScreen('processing');
   };
 
@@ -142,21 +234,27 @@ const OverlayWizard: React.FC<OverlayWizardProps> = ({
       endTime: data.endTime || 10,
       duration: (data.endTime || 10) - (data.startTime || 0),
     };
+    if (data.editSource && onReeditGif) {
+      onReeditGif(data.editSource, selection, [], data.exportSettings);
+      goToScreen('processing');
+      return;
+    }
     console.log('[OverlayWizard] handleSkipTextOverlay - frameRate:', data.frameRate);
     console.log('[OverlayWizard] Calling onCreateGif with params:', {
       selection,
       textOverlays: [],
       resolution: data.resolution,
-      frameRate: data.frameRate
+      frameRate: data.frameRate,
+      exportSettings: data.exportSettings
     });
-    onCreateGif(selection, [], data.resolution, data.frameRate);
+    onCreateGif(selection, [], data.resolution, data.frameRate, data.exportSettings);
     goToScreen('processing');
   };
 
   // Progress dots for navigation indicator
   const screens = ['capture', 'text', 'processing', 'success', 'feedback'];
   const currentIndex =
-    currentScreen === 'quick-capture'
+    currentScreen === 'quick-capture' || currentScreen === 'gif-import'
       ? 0
       : currentScreen === 'text-overlay'
         ? 1
@@ -201,9 +299,20 @@ const OverlayWizard: React.FC<OverlayWizardProps> = ({
               currentTime={currentTime}
               duration={videoDuration}
               videoElement={videoElement}
-              onConfirm={handleConfirmQuickCapture}
+              onConfirm={handleConfirmCapture}
               onBack={goBack}
               onSeekTo={onSeekTo}
+              onEditGif={onReeditGif && (() => goToScreen('gif-import'))}
+              resumableCapture={resumableCapture}
+              onResumeCapture={onResumeCapture && handleResumeCapture}
+            />
+          )}
+
+          {currentScreen === 'gif-import' && (
+            <GifImportScreen
+              loadLibrary={loadGifLibrary}
+              onConfirm={handleConfirmGifImport}
+              onBack={goBack}
             />
           )}
 
@@ -212,9 +321,11 @@ const OverlayWizard: React.FC<OverlayWizardProps> = ({
               startTime={data.startTime || 0}
               endTime={data.endTime || 4}
               videoDuration={videoDuration}
-              videoElement={videoElement}
+              videoElement={data.editSource ? undefined : videoElement}
               textOverlays={data.textOverlays}
               resolution={data.resolution || '144p'}
+              previewFrameUrl={data.editPreview?.frameUrl ?? undefined}
+              frameSize={data.editPreview}
               onConfirm={handleConfirmTextOverlay}
               onSkip={handleSkipTextOverlay}
               onBack={goBack}
@@ -240,8 +351,27 @@ const OverlayWizard: React.FC<OverlayWizardProps> = ({
               onDownload={() => {
                 // Handle download - this would trigger download from saved GIF
                 if (data.gifDataUrl) {
+                  const format = data.gifMetadata?.format || 'gif';
+                  const name = `youtube-gif-${Date.now()}`;
                   const link = document.createElement('a');
-                  link.download = `youtube-gif-${Date.now()}.gif`;
+                  if (format === 'sprite-sheet') {
+                    // Saved under the image name the atlas refers to
+                    const sheetName = data.gifMetadata?.fileName || `${name}.png`;
+                    link.download = sheetName;
+                    link.href = data.gifDataUrl;
+                    link.click();
+                    if (data.gifMetadata?.atlasDataUrl) {
+                      const atlasLink = document.createElement('a');
+                      atlasLink.download = sheetName.replace(/\.png$/, '.json');
+                      atlasLink.href = data.gifMetadata.atlasDataUrl;
+                      atlasLink.click();
+                    }
+                    return;
+                  }
+                  link.download =
+                    format === 'png-sequence'
+                      ? data.gifMetadata?.fileName || `${name}.zip`
+                      : `${name}.${OUTPUT_FILE_EXTENSIONS[format]}`;
                   link.href = data.gifDataUrl;
                   link.click();
                 }
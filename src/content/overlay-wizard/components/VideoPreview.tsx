@@ -1,5 +1,6 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { TextOverlay } from '@/types';
+import { getSpeedAt, type SpeedKeyframe } from '@/processing/speed-ramp';
 
 interface VideoPreviewProps {
   videoElement?: HTMLVideoElement;
@@ -12,6 +13,8 @@ interface VideoPreviewProps {
   onSeek?: (time: number) => void;
   showTimeControls?: boolean;
   overlays?: TextOverlay[];
+  speed?: number; // Playback speed, matching the output
+  speedRamp?: SpeedKeyframe[];
   width?: number;
   height?: number;
 }
@@ -24,6 +27,8 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
   isPlaying = false,
   onPlayStateChange,
   overlays = [],
+  speed = 1,
+  speedRamp,
   width = 480,
   height = 270,
 }) => {
@@ -33,6 +38,9 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
   const isLoopingRef = useRef(false);
   const savedVideoStateRef = useRef<{ currentTime: number; paused: boolean } | null>(null);
   const lastFrameTimeRef = useRef<number>(0);
+  // Read on every tick so speed changes apply without restarting playback
+  const speedRef = useRef({ speed, speedRamp });
+  speedRef.current = { speed, speedRamp };
 
   // Draw text overlays on canvas
   const drawTextOverlays = useCallback(
@@ -164,8 +172,10 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
 
       // Only update if enough time has passed (target 10 FPS = 100ms)
       if (deltaTime >= 0.1) {
-        // Update time
-        currentTime += deltaTime;
+        // Advance through the clip at the output's speed at this point
+        const position = (currentTime - startTime) / (endTime - startTime);
+        currentTime +=
+          deltaTime * getSpeedAt(position, speedRef.current.speed, speedRef.current.speedRamp);
 
         // Check if we've reached the end
         if (currentTime >= endTime) {
@@ -1,9 +1,11 @@
 import { useState, useCallback } from 'react';
-import { TextOverlay } from '@/types';
+import { ExportSettings, FrameExportFormat, GifEditSource, TextOverlay } from '@/types';
+import type { FormatType } from '@/lib/encoders';
 
 type OverlayScreenType =
   | 'welcome'
   | 'quick-capture'
+  | 'gif-import'
   | 'text-overlay'
   | 'processing'
   | 'success'
@@ -17,6 +19,9 @@ interface ScreenData {
   textOverlays?: TextOverlay[];
   resolution?: string;
   frameRate?: number;
+  exportSettings?: ExportSettings;
+  editSource?: GifEditSource; // Set while an existing GIF is being edited instead of the video
+  editPreview?: { frameUrl: string | null; width: number; height: number };
   gifSize?: number;
   gifDataUrl?: string;
   gifMetadata?: {
@@ -24,6 +29,9 @@ interface ScreenData {
     height: number;
     duration: number;
     frameCount?: number;
+    format?: FormatType | FrameExportFormat;
+    fileName?: string; // Sprite sheets: the image name the atlas refers to; PNG sequences: the ZIP
+    atlasDataUrl?: string; // Sprite sheets: the JSON atlas
   };
   [key: string]: unknown;
 }
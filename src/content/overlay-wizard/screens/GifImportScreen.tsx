@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { decodeGifFrames, type DitheringAlgorithm } from '@/lib/encoders';
+import { logger } from '@/lib/logger';
+import type { ExportSettings, GifEditSource } from '@/types';
+import { DITHERING_OPTIONS } from './QuickCaptureScreen';
+
+// First frame and size of the opened GIF, shown behind captions
+export interface GifEditPreview {
+  frameUrl: string | null;
+  width: number;
+  height: number;
+}
+
+interface OpenedGif {
+  source: GifEditSource;
+  duration: number; // Seconds
+  frameCount: number;
+  preview: GifEditPreview;
+}
+
+interface GifImportScreenProps {
+  loadLibrary?: () => Promise<GifEditSource[]>;
+  onConfirm: (
+    source: GifEditSource,
+    startTime: number,
+    endTime: number,
+    exportSettings: ExportSettings,
+    preview: GifEditPreview
+  ) => void;
+  onBack: () => void;
+}
+
+const GifImportScreen: React.FC<GifImportScreenProps> = ({ loadLibrary, onConfirm, onBack }) => {
+  const [library, setLibrary] = useState<GifEditSource[] | null>(null);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [opened, setOpened] = useState<OpenedGif | null>(null);
+  const [openError, setOpenError] = useState<string | null>(null);
+  const [startTime, setStartTime] = useState(0);
+  const [endTime, setEndTime] = useState(0);
+  const [maxColors, setMaxColors] = useState(256);
+  const [dithering, setDithering] = useState<DitheringAlgorithm | 'auto'>('none');
+
+  useEffect(() => {
+    if (!loadLibrary) return;
+    let cancelled = false;
+    loadLibrary()
+      .then((gifs) => !cancelled && setLibrary(gifs))
+      .catch((error) => {
+        logger.error('[GifImportScreen] Failed to load library', { error });
+        if (!cancelled) setLibraryError('Could not load your saved GIFs');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadLibrary]);
+
+  const openGif = useCallback(async (source: GifEditSource) => {
+    setOpenError(null);
+    try {
+      const frames = decodeGifFrames(new Uint8Array(await source.blob.arrayBuffer()));
+      if (frames.length === 0) {
+        throw new Error('The GIF has no frames');
+      }
+      const last = frames[frames.length - 1];
+      const duration = (last.timestamp + (last.delay ?? 0)) / 1000;
+      const { imageData } = frames[0];
+
+      // The first frame stands in for the video frame behind captions
+      let frameUrl: string | null = null;
+      const canvas = document.createElement('canvas');
+      canvas.width = imageData.width;
+      canvas.height = imageData.height;
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.putImageData(imageData, 0, 0);
+        frameUrl = canvas.toDataURL('image/png');
+      }
+
+      setOpened({
+        source,
+        duration,
+        frameCount: frames.length,
+        preview: { frameUrl, width: imageData.width, height: imageData.height },
+      });
+      setStartTime(0);
+      setEndTime(duration);
+    } catch (error) {
+      logger.error('[GifImportScreen] Failed to open GIF', { error });
+      setOpened(null);
+      setOpenError(`Could not read this GIF: ${(error as Error).message}`);
+    }
+  }, []);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      openGif({ blob: file, title: file.name.replace(/\.gif$/i, '') });
+    }
+  };
+
+  const rangeError =
+    opened && !(startTime >= 0 && endTime > startTime && endTime <= opened.duration + 0.001)
+      ? 'The end must come after the start, within the GIF'
+      : null;
+
+  return (
+    <div className="ytgif-wizard-screen ytgif-gif-import-screen">
+      <div className="ytgif-wizard-header">
+        <button onClick={onBack} className="ytgif-back-button">
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+        </button>
+        <h2 className="ytgif-wizard-title">Edit an Existing GIF</h2>
+        <div style={{ width: '20px' }}></div>
+      </div>
+
+      <div className="ytgif-wizard-content">
+        <p className="ytgif-wizard-helper">Trim, re-caption or re-optimize a GIF</p>
+
+        <div className="ytgif-control-group">
+          <label className="ytgif-control-label" htmlFor="ytgif-gif-file">
+            Open a GIF file
+          </label>
+          <input id="ytgif-gif-file" type="file" accept="image/gif" onChange={handleFileChange} />
+        </div>
+
+        {loadLibrary && (
+          <div className="ytgif-format-section">
+            <div className="ytgif-format-label">
+              <span>Your GIFs</span>
+            </div>
+            {libraryError && <p className="ytgif-import-error">{libraryError}</p>}
+            {!library && !libraryError && <p className="ytgif-wizard-helper">Loading…</p>}
+            {library && library.length === 0 && (
+              <p className="ytgif-wizard-helper">No saved GIFs yet</p>
+            )}
+            {library && library.length > 0 && (
+              <div className="ytgif-format-options ytgif-import-library">
+                {library.map((gif) => (
+                  <button
+                    key={gif.gifId}
+                    className={`ytgif-format-btn ${opened?.source.gifId === gif.gifId ? 'ytgif-format-btn--active' : ''}`}
+                    onClick={() => openGif(gif)}
+                  >
+                    {gif.title}
+                    <span className="ytgif-format-desc">
+                      {gif.createdAt ? new Date(gif.createdAt).toLocaleDateString() : 'Saved'}
+                      {(gif.editorVersion ?? 1) > 1 && ` • v${gif.editorVersion}`}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {openError && <p className="ytgif-import-error">{openError}</p>}
+
+        {opened && (
+          <>
+            {opened.preview.frameUrl && (
+              <img
+                className="ytgif-import-preview"
+                src={opened.preview.frameUrl}
+                alt={opened.source.title}
+              />
+            )}
+            <p className="ytgif-wizard-helper">
+              {opened.preview.width}×{opened.preview.height}px • {opened.frameCount} frames •{' '}
+              {opened.duration.toFixed(1)}s
+            </p>
+
+            <div className="ytgif-control-row">
+              <div className="ytgif-control-group ytgif-control-half">
+                <label className="ytgif-control-label" htmlFor="ytgif-trim-start">
+                  Start (s)
+                </label>
+                <input
+                  id="ytgif-trim-start"
+                  type="number"
+                  min={0}
+                  max={opened.duration}
+                  step={0.1}
+                  value={startTime}
+                  onChange={(e) => setStartTime(Number(e.target.value))}
+                  className="ytgif-text-input"
+                />
+              </div>
+              <div className="ytgif-control-group ytgif-control-half">
+                <label className="ytgif-control-label" htmlFor="ytgif-trim-end">
+                  End (s)
+                </label>
+                <input
+                  id="ytgif-trim-end"
+                  type="number"
+                  min={0}
+                  max={opened.duration}
+                  step={0.1}
+                  value={endTime}
+                  onChange={(e) => setEndTime(Number(e.target.value))}
+                  className="ytgif-text-input"
+                />
+              </div>
+            </div>
+            {rangeError && <p className="ytgif-import-error">{rangeError}</p>}
+
+            <div className="ytgif-control-group ytgif-format-options--sub">
+              <label className="ytgif-control-label" htmlFor="ytgif-edit-max-colors">
+                Colours
+              </label>
+              <input
+                id="ytgif-edit-max-colors"
+                type="range"
+                min={2}
+                max={256}
+                value={maxColors}
+                onChange={(e) => setMaxColors(Number(e.target.value))}
+                className="ytgif-range-input"
+              />
+              <span className="ytgif-range-value">{maxColors}</span>
+            </div>
+            <div className="ytgif-format-options ytgif-format-options--sub">
+              {DITHERING_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  className={`ytgif-format-btn ${dithering === option.value ? 'ytgif-format-btn--active' : ''}`}
+                  onClick={() => setDithering(option.value)}
+                >
+                  {option.label}
+                  <span className="ytgif-format-desc">{option.description}</span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="ytgif-wizard-actions">
+        <button
+          className="ytgif-button-primary"
+          disabled={!opened || rangeError !== null}
+          onClick={() => {
+            if (!opened) return;
+            const exportSettings: ExportSettings = { format: 'gif' };
+            if (maxColors < 256) exportSettings.maxColors = maxColors;
+            if (dithering !== 'none') {
+              exportSettings.dithering = dithering;
+              exportSettings.ditherStrength = 1;
+            }
+            onConfirm(opened.source, startTime, endTime, exportSettings, opened.preview);
+          }}
+        >
+          Continue to Customize →
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GifImportScreen;
@@ -7,6 +7,7 @@ interface ProcessingScreenProps {
     totalStages: number;
     progress: number;
     message: string;
+    notice?: string; // Shown under the message until processing ends
   };
   onComplete?: () => void;
   onError?: (error: string) => void;
@@ -135,6 +136,9 @@ const ProcessingScreen: React.FC<ProcessingScreenProps> = ({
           {/* Current Message */}
           <div className="ytgif-current-message">
             <div className="ytgif-message-text">{message}</div>
+            {processingStatus?.notice && (
+              <div className="ytgif-processing-notice">{processingStatus.notice}</div>
+            )}
             {!isError && !isCompleted && (
               <div className="ytgif-loading-dots">
                 <span className="ytgif-dot">⚬</span>
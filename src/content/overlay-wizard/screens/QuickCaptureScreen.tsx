@@ -1,6 +1,122 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import VideoPreview from '../components/VideoPreview';
 import TimelineScrubber from '../components/TimelineScrubber';
+import { parseHexColors, type DitheringAlgorithm } from '@/lib/encoders';
+import { DEFAULT_DUPLICATE_THRESHOLD } from '@/processing/duplicate-frames';
+import type { PlaybackMode } from '@/processing/playback-mode';
+import { findSampleIndex, planCaptureSamples, type SpeedKeyframe } from '@/processing/speed-ramp';
+import type { CaptureJob, CaptureMode, ExportSettings } from '@/types';
+
+// Frame rates offered; GIF timing diffuses rounding so every rate keeps the clip's duration
+const FRAME_RATE_OPTIONS: Array<{ fps: number; description: string }> = [
+  { fps: 5, description: 'Smaller file • Classic GIF feel' },
+  { fps: 10, description: 'Balanced • Recommended' },
+  { fps: 15, description: 'Smoother • Larger file' },
+  { fps: 20, description: 'Fluid motion' },
+  { fps: 24, description: 'Film rate' },
+  { fps: 30, description: 'Full motion • Largest file' },
+];
+
+// Seeking lands on exact frames; playing the clip once captures in about its duration.
+// Auto picks between them from the clip length, frame rate and device memory.
+const CAPTURE_MODE_OPTIONS: Array<{ label: string; value: CaptureMode; description: string }> = [
+  { label: 'Automatic', value: 'auto', description: 'Chosen for the clip' },
+  { label: 'Frame by frame', value: 'seek', description: 'Exact frames • Slower' },
+  { label: 'Real time', value: 'playback', description: 'Plays the clip once • Fast' },
+  { label: 'Quick', value: 'timed', description: 'Fixed waits • May repeat frames' },
+];
+
+// Byte budgets for the max size mode; the encoder reduces settings until the output fits
+const MAX_SIZE_OPTIONS: Array<{ label: string; bytes: number | null; description: string }> = [
+  { label: 'No limit', bytes: null, description: 'Use settings as chosen' },
+  { label: 'Max 8 MB', bytes: 8 * 1024 * 1024, description: 'Auto-reduce to fit' },
+  { label: 'Max 15 MB', bytes: 15 * 1024 * 1024, description: 'Auto-reduce to fit' },
+];
+
+// GIF dithering choices; diffusion hides banding best, ordered patterns compress better.
+// Auto trial-encodes sample frames and keeps the encoder and dithering that measure best.
+export const DITHERING_OPTIONS: Array<{
+  label: string;
+  value: DitheringAlgorithm | 'auto';
+  description: string;
+}> = [
+  { label: 'No dither', value: 'none', description: 'Smallest file' },
+  { label: 'Floyd–Steinberg', value: 'floyd-steinberg', description: 'Smooth gradients' },
+  { label: 'Atkinson', value: 'atkinson', description: 'Crisp, high contrast' },
+  { label: 'Sierra Lite', value: 'sierra-lite', description: 'Light diffusion' },
+  { label: 'Bayer 4×4', value: 'bayer4', description: 'Ordered • Compresses well' },
+  { label: 'Bayer 8×8', value: 'bayer8', description: 'Ordered • Finer pattern' },
+  { label: 'Auto', value: 'auto', description: 'Best measured quality' },
+];
+
+// Palette source for GIFs: quantized per clip, or locked to one frame or a colour list
+type PaletteMode = 'auto' | 'frame' | 'colors';
+
+const PALETTE_OPTIONS: Array<{ label: string; value: PaletteMode; description: string }> = [
+  { label: 'Auto palette', value: 'auto', description: 'Best colours per scene' },
+  { label: 'Lock to frame', value: 'frame', description: 'Palette of the previewed frame' },
+  { label: 'Brand colours', value: 'colors', description: 'Use your hex colours' },
+];
+
+// Frame order; a boomerang plays forwards then backwards and loops seamlessly
+const PLAYBACK_OPTIONS: Array<{ label: string; value: PlaybackMode; description: string }> = [
+  { label: 'Forward', value: 'forward', description: 'As recorded' },
+  { label: 'Reverse', value: 'reverse', description: 'Plays backwards' },
+  { label: 'Boomerang', value: 'boomerang', description: 'Forwards, then back' },
+];
+
+// Plays before the animation stops; 0 loops forever. MP4 players choose for themselves.
+const LOOP_OPTIONS: Array<{ label: string; count: number }> = [
+  { label: 'Loop forever', count: 0 },
+  { label: 'Play once', count: 1 },
+  { label: 'Play 2×', count: 2 },
+  { label: 'Play 3×', count: 3 },
+  { label: 'Play 5×', count: 5 },
+];
+
+// Playback speeds; slow motion lengthens frame delays, fast forward skips source frames
+const SPEED_OPTIONS = [0.25, 0.5, 1, 1.5, 2, 4];
+
+// Speed ramps as keyframes scaling the chosen speed over the clip
+type SpeedRampPreset = 'constant' | 'slow-middle' | 'speed-up' | 'slow-down';
+
+const SPEED_RAMP_OPTIONS: Array<{
+  label: string;
+  value: SpeedRampPreset;
+  description: string;
+  keyframes?: SpeedKeyframe[];
+}> = [
+  { label: 'Constant', value: 'constant', description: 'Same speed throughout' },
+  {
+    label: 'Slow-mo middle',
+    value: 'slow-middle',
+    description: 'Quarter speed in the middle third',
+    keyframes: [
+      { at: 0.3, speed: 1 },
+      { at: 0.36, speed: 0.25 },
+      { at: 0.64, speed: 0.25 },
+      { at: 0.7, speed: 1 },
+    ],
+  },
+  {
+    label: 'Speed up',
+    value: 'speed-up',
+    description: 'Starts slow, ends fast',
+    keyframes: [
+      { at: 0, speed: 0.5 },
+      { at: 1, speed: 2 },
+    ],
+  },
+  {
+    label: 'Slow down',
+    value: 'slow-down',
+    description: 'Starts fast, ends slow',
+    keyframes: [
+      { at: 0, speed: 2 },
+      { at: 1, speed: 0.5 },
+    ],
+  },
+];
 
 interface QuickCaptureScreenProps {
   startTime: number;
@@ -8,9 +124,18 @@ interface QuickCaptureScreenProps {
   currentTime: number;
   duration: number;
   videoElement?: HTMLVideoElement;
-  onConfirm: (startTime: number, endTime: number, frameRate?: number, resolution?: string) => void;
+  onConfirm: (
+    startTime: number,
+    endTime: number,
+    frameRate?: number,
+    resolution?: string,
+    exportSettings?: ExportSettings
+  ) => void;
   onBack: () => void;
   onSeekTo?: (time: number) => void;
+  onEditGif?: () => void; // Opens an existing GIF for editing instead
+  resumableCapture?: CaptureJob; // An interrupted capture of this video
+  onResumeCapture?: (job: CaptureJob) => void;
 }
 
 const QuickCaptureScreen: React.FC<QuickCaptureScreenProps> = ({
@@ -22,6 +147,9 @@ const QuickCaptureScreen: React.FC<QuickCaptureScreenProps> = ({
   onConfirm,
   onBack,
   onSeekTo,
+  onEditGif,
+  resumableCapture,
+  onResumeCapture,
 }) => {
   const [startTime, setStartTime] = useState(initialStartTime);
   const [endTime, setEndTime] = useState(initialEndTime);
@@ -33,7 +161,29 @@ const QuickCaptureScreen: React.FC<QuickCaptureScreenProps> = ({
   }, [isPreviewPlaying]);
   const [previewTime, setPreviewTime] = useState(startTime);
   const [selectedFrameRate, setSelectedFrameRate] = useState(5); // Default to 5 fps
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('auto');
+  const [showAdvanced, setShowAdvanced] = useState(false);
   const [selectedResolution, setSelectedResolution] = useState('144p'); // Default to 144p for smallest file size
+  const [selectedFormat, setSelectedFormat] = useState<ExportSettings['format']>('gif');
+  const [webpLossless, setWebpLossless] = useState(false);
+  const [maxFileSize, setMaxFileSize] = useState<number | null>(null);
+  const [dithering, setDithering] = useState<DitheringAlgorithm | 'auto'>('none');
+  const [ditherStrength, setDitherStrength] = useState(100); // Percent
+  const [maxColors, setMaxColors] = useState(256);
+  const [paletteMode, setPaletteMode] = useState<PaletteMode>('auto');
+  const [brandColors, setBrandColors] = useState('');
+  // Percent of pixels that may change between merged frames; 0 keeps every frame
+  const [duplicateThreshold, setDuplicateThreshold] = useState(DEFAULT_DUPLICATE_THRESHOLD * 100);
+  const [playbackMode, setPlaybackMode] = useState<PlaybackMode>('forward');
+  const [loopCount, setLoopCount] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [speedRampPreset, setSpeedRampPreset] = useState<SpeedRampPreset>('constant');
+  const [spriteColumns, setSpriteColumns] = useState(0); // 0 = roughly square grid
+  const [spriteSpacing, setSpriteSpacing] = useState(0);
+  const [spriteLabels, setSpriteLabels] = useState(false);
+  // Sprite sheets and PNG sequences are still images, so animation settings do not apply
+  const isSpriteSheet = selectedFormat === 'sprite-sheet';
+  const isFrameExport = isSpriteSheet || selectedFormat === 'png-sequence';
 
   const handleRangeChange = useCallback((newStart: number, newEnd: number) => {
     setStartTime(newStart);
@@ -53,6 +203,31 @@ const QuickCaptureScreen: React.FC<QuickCaptureScreenProps> = ({
   );
 
   const gifDuration = endTime - startTime;
+  // A boomerang plays the clip's frames twice
+  const playbackFrames = playbackMode === 'boomerang' ? 2 : 1;
+  const speedRamp = SPEED_RAMP_OPTIONS.find(
+    (option) => option.value === speedRampPreset
+  )?.keyframes;
+  // The frames the processor will capture, so estimates follow speed changes
+  const captureSamples = useMemo(
+    () => planCaptureSamples(gifDuration, selectedFrameRate, speed, speedRamp),
+    [gifDuration, selectedFrameRate, speed, speedRamp]
+  );
+  const frameEstimate = captureSamples.length * playbackFrames;
+  const playbackSeconds =
+    (captureSamples.reduce((total, sample) => total + sample.delay, 0) / 1000) * playbackFrames;
+
+  // Brand colours are validated as they are typed; the list must parse and be non-empty
+  let brandColorError: string | null = null;
+  if (selectedFormat === 'gif' && paletteMode === 'colors') {
+    try {
+      if (parseHexColors(brandColors).length === 0) {
+        brandColorError = 'Enter at least one hex colour';
+      }
+    } catch (error) {
+      brandColorError = (error as Error).message;
+    }
+  }
 
   return (
     <div className="ytgif-wizard-screen ytgif-quick-capture-screen">
@@ -73,7 +248,35 @@ const QuickCaptureScreen: React.FC<QuickCaptureScreenProps> = ({
 
       <div className="ytgif-wizard-content">
         {/* Helper text */}
-        <p className="ytgif-wizard-helper">Drag the timeline to choose your clip</p>
+        <p className="ytgif-wizard-helper">
+          Drag the timeline to choose your clip
+          {onEditGif && (
+            <>
+              {' '}
+              or{' '}
+              <button type="button" className="ytgif-link-button" onClick={onEditGif}>
+                edit an existing GIF
+              </button>
+            </>
+          )}
+        </p>
+        {/* An interrupted capture continues from its last saved frame */}
+        {resumableCapture && onResumeCapture && (
+          <div className="ytgif-resume-capture">
+            <span className="ytgif-resume-capture-status">
+              Interrupted capture: {resumableCapture.capturedFrames}
+              {resumableCapture.frameCount ? ` of ${resumableCapture.frameCount}` : ''} frames
+              saved
+            </span>
+            <button
+              type="button"
+              className="ytgif-button-secondary"
+              onClick={() => onResumeCapture(resumableCapture)}
+            >
+              Resume capture
+            </button>
+          </div>
+        )}
         {/* Video Preview */}
         {videoElement ? (
           <VideoPreview
@@ -82,6 +285,8 @@ const QuickCaptureScreen: React.FC<QuickCaptureScreenProps> = ({
             endTime={endTime}
             currentVideoTime={currentTime}
             isPlaying={isPreviewPlaying}
+            speed={speed}
+            speedRamp={speedRamp}
             onPlayStateChange={(playing) => {
               console.log('[QuickCaptureScreen] onPlayStateChange called with:', playing);
               setIsPreviewPlaying(playing);
@@ -163,28 +368,341 @@ const QuickCaptureScreen: React.FC<QuickCaptureScreenProps> = ({
             <span>Frame Rate</span>
           </div>
           <div className="ytgif-frame-rate-options">
+            {FRAME_RATE_OPTIONS.map((option) => (
+              <button
+                key={option.fps}
+                className={`ytgif-frame-rate-btn ${selectedFrameRate === option.fps ? 'ytgif-frame-rate-btn--active' : ''}`}
+                onClick={() => setSelectedFrameRate(option.fps)}
+              >
+                {option.fps} fps
+                <span className="ytgif-frame-rate-desc">{option.description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Output Format Options */}
+        <div className="ytgif-format-section">
+          <div className="ytgif-format-label">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"
+              />
+            </svg>
+            <span>Format</span>
+          </div>
+          <div className="ytgif-format-options">
+            <button
+              className={`ytgif-format-btn ${selectedFormat === 'gif' ? 'ytgif-format-btn--active' : ''}`}
+              onClick={() => setSelectedFormat('gif')}
+            >
+              GIF
+              <span className="ytgif-format-desc">Plays everywhere</span>
+            </button>
+            <button
+              className={`ytgif-format-btn ${selectedFormat === 'mp4' ? 'ytgif-format-btn--active' : ''}`}
+              onClick={() => setSelectedFormat('mp4')}
+            >
+              MP4
+              <span className="ytgif-format-desc">5-10x smaller • Chat & slides</span>
+            </button>
             <button
-              className={`ytgif-frame-rate-btn ${selectedFrameRate === 5 ? 'ytgif-frame-rate-btn--active' : ''}`}
-              onClick={() => setSelectedFrameRate(5)}
+              className={`ytgif-format-btn ${selectedFormat === 'webp' ? 'ytgif-format-btn--active' : ''}`}
+              onClick={() => setSelectedFormat('webp')}
             >
-              5 fps
-              <span className="ytgif-frame-rate-desc">Smaller file • Classic GIF feel</span>
+              WebP
+              <span className="ytgif-format-desc">Small • Full color & alpha</span>
             </button>
             <button
-              className={`ytgif-frame-rate-btn ${selectedFrameRate === 10 ? 'ytgif-frame-rate-btn--active' : ''}`}
-              onClick={() => setSelectedFrameRate(10)}
+              className={`ytgif-format-btn ${selectedFormat === 'apng' ? 'ytgif-format-btn--active' : ''}`}
+              onClick={() => setSelectedFormat('apng')}
             >
-              10 fps
-              <span className="ytgif-frame-rate-desc">Balanced • Recommended</span>
+              APNG
+              <span className="ytgif-format-desc">Lossless • Smooth transparency</span>
             </button>
             <button
-              className={`ytgif-frame-rate-btn ${selectedFrameRate === 15 ? 'ytgif-frame-rate-btn--active' : ''}`}
-              onClick={() => setSelectedFrameRate(15)}
+              className={`ytgif-format-btn ${isSpriteSheet ? 'ytgif-format-btn--active' : ''}`}
+              onClick={() => setSelectedFormat('sprite-sheet')}
             >
-              15 fps
-              <span className="ytgif-frame-rate-desc">Smoother • Larger file</span>
+              Sprite
+              <span className="ytgif-format-desc">PNG grid + JSON atlas</span>
+            </button>
+            <button
+              className={`ytgif-format-btn ${selectedFormat === 'png-sequence' ? 'ytgif-format-btn--active' : ''}`}
+              onClick={() => setSelectedFormat('png-sequence')}
+            >
+              Frames
+              <span className="ytgif-format-desc">Lossless PNGs in a ZIP</span>
             </button>
           </div>
+          {isSpriteSheet && (
+            <>
+              <div className="ytgif-control-group ytgif-format-options--sub">
+                <label className="ytgif-control-label" htmlFor="ytgif-sprite-columns">
+                  Columns
+                </label>
+                <input
+                  id="ytgif-sprite-columns"
+                  type="range"
+                  min={0}
+                  max={20}
+                  value={spriteColumns}
+                  onChange={(e) => setSpriteColumns(Number(e.target.value))}
+                  className="ytgif-range-input"
+                />
+                <span className="ytgif-range-value">{spriteColumns || 'Auto'}</span>
+              </div>
+              <div className="ytgif-control-group ytgif-format-options--sub">
+                <label className="ytgif-control-label" htmlFor="ytgif-sprite-spacing">
+                  Spacing
+                </label>
+                <input
+                  id="ytgif-sprite-spacing"
+                  type="range"
+                  min={0}
+                  max={16}
+                  value={spriteSpacing}
+                  onChange={(e) => setSpriteSpacing(Number(e.target.value))}
+                  className="ytgif-range-input"
+                />
+                <span className="ytgif-range-value">{spriteSpacing}px</span>
+              </div>
+              <div className="ytgif-format-options ytgif-format-options--sub">
+                <button
+                  className={`ytgif-format-btn ${!spriteLabels ? 'ytgif-format-btn--active' : ''}`}
+                  onClick={() => setSpriteLabels(false)}
+                >
+                  Sprite sheet
+                  <span className="ytgif-format-desc">Frames only • For CSS steps()</span>
+                </button>
+                <button
+                  className={`ytgif-format-btn ${spriteLabels ? 'ytgif-format-btn--active' : ''}`}
+                  onClick={() => setSpriteLabels(true)}
+                >
+                  Contact sheet
+                  <span className="ytgif-format-desc">Timestamp under each frame</span>
+                </button>
+              </div>
+            </>
+          )}
+          {selectedFormat === 'webp' && (
+            <div className="ytgif-format-options ytgif-format-options--sub">
+              <button
+                className={`ytgif-format-btn ${!webpLossless ? 'ytgif-format-btn--active' : ''}`}
+                onClick={() => setWebpLossless(false)}
+              >
+                Lossy
+                <span className="ytgif-format-desc">Smallest file</span>
+              </button>
+              <button
+                className={`ytgif-format-btn ${webpLossless ? 'ytgif-format-btn--active' : ''}`}
+                onClick={() => setWebpLossless(true)}
+              >
+                Lossless
+                <span className="ytgif-format-desc">Pixel-perfect • Larger file</span>
+              </button>
+            </div>
+          )}
+          {selectedFormat === 'gif' && (
+            <>
+              <div className="ytgif-format-options ytgif-format-options--sub">
+                {DITHERING_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    className={`ytgif-format-btn ${dithering === option.value ? 'ytgif-format-btn--active' : ''}`}
+                    onClick={() => setDithering(option.value)}
+                  >
+                    {option.label}
+                    <span className="ytgif-format-desc">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+              {dithering !== 'none' && (
+                <div className="ytgif-control-group ytgif-format-options--sub">
+                  <label className="ytgif-control-label" htmlFor="ytgif-dither-strength">
+                    Dither strength
+                  </label>
+                  <input
+                    id="ytgif-dither-strength"
+                    type="range"
+                    min={10}
+                    max={100}
+                    step={10}
+                    value={ditherStrength}
+                    onChange={(e) => setDitherStrength(Number(e.target.value))}
+                    className="ytgif-range-input"
+                  />
+                  <span className="ytgif-range-value">{ditherStrength}%</span>
+                </div>
+              )}
+            </>
+          )}
+          {selectedFormat === 'gif' && (
+            <>
+              <div className="ytgif-control-group ytgif-format-options--sub">
+                <label className="ytgif-control-label" htmlFor="ytgif-max-colors">
+                  Colours
+                </label>
+                <input
+                  id="ytgif-max-colors"
+                  type="range"
+                  min={2}
+                  max={256}
+                  value={maxColors}
+                  disabled={paletteMode === 'colors'}
+                  onChange={(e) => setMaxColors(Number(e.target.value))}
+                  className="ytgif-range-input"
+                />
+                <span className="ytgif-range-value">
+                  {paletteMode === 'colors' ? 'From list' : maxColors}
+                </span>
+              </div>
+              <div className="ytgif-format-options ytgif-format-options--sub">
+                {PALETTE_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    className={`ytgif-format-btn ${paletteMode === option.value ? 'ytgif-format-btn--active' : ''}`}
+                    onClick={() => setPaletteMode(option.value)}
+                  >
+                    {option.label}
+                    <span className="ytgif-format-desc">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+              {paletteMode === 'colors' && (
+                <div className="ytgif-control-group ytgif-format-options--sub">
+                  <label className="ytgif-control-label" htmlFor="ytgif-brand-colors">
+                    Brand colours
+                  </label>
+                  <input
+                    id="ytgif-brand-colors"
+                    type="text"
+                    className="ytgif-text-input"
+                    placeholder="#ff0000, #ffffff, #282828"
+                    value={brandColors}
+                    onChange={(e) => setBrandColors(e.target.value)}
+                  />
+                  {brandColorError && (
+                    <span className="ytgif-palette-error">{brandColorError}</span>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+          {!isFrameExport && (
+            <>
+              <div className="ytgif-format-options ytgif-format-options--sub">
+                {MAX_SIZE_OPTIONS.map((option) => (
+                  <button
+                    key={option.label}
+                    className={`ytgif-format-btn ${maxFileSize === option.bytes ? 'ytgif-format-btn--active' : ''}`}
+                    onClick={() => setMaxFileSize(option.bytes)}
+                  >
+                    {option.label}
+                    <span className="ytgif-format-desc">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+              <div className="ytgif-control-group ytgif-format-options--sub">
+                <label className="ytgif-control-label" htmlFor="ytgif-duplicate-threshold">
+                  Merge still frames
+                </label>
+                <input
+                  id="ytgif-duplicate-threshold"
+                  type="range"
+                  min={0}
+                  max={5}
+                  step={0.5}
+                  value={duplicateThreshold}
+                  onChange={(e) => setDuplicateThreshold(Number(e.target.value))}
+                  className="ytgif-range-input"
+                />
+                <span className="ytgif-range-value">
+                  {duplicateThreshold === 0 ? 'Off' : `${duplicateThreshold}% change`}
+                </span>
+              </div>
+              <div className="ytgif-format-options ytgif-format-options--sub">
+                {PLAYBACK_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    className={`ytgif-format-btn ${playbackMode === option.value ? 'ytgif-format-btn--active' : ''}`}
+                    onClick={() => setPlaybackMode(option.value)}
+                  >
+                    {option.label}
+                    <span className="ytgif-format-desc">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+              {selectedFormat !== 'mp4' && (
+                <div className="ytgif-format-options ytgif-format-options--sub">
+                  {LOOP_OPTIONS.map((option) => (
+                    <button
+                      key={option.count}
+                      className={`ytgif-format-btn ${loopCount === option.count ? 'ytgif-format-btn--active' : ''}`}
+                      onClick={() => setLoopCount(option.count)}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+          <div className="ytgif-format-options ytgif-format-options--sub">
+            {SPEED_OPTIONS.map((option) => (
+              <button
+                key={option}
+                className={`ytgif-format-btn ${speed === option ? 'ytgif-format-btn--active' : ''}`}
+                onClick={() => setSpeed(option)}
+              >
+                {option}×
+              </button>
+            ))}
+          </div>
+          <div className="ytgif-format-options ytgif-format-options--sub">
+            {SPEED_RAMP_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                className={`ytgif-format-btn ${speedRampPreset === option.value ? 'ytgif-format-btn--active' : ''}`}
+                onClick={() => setSpeedRampPreset(option.value)}
+              >
+                {option.label}
+                <span className="ytgif-format-desc">{option.description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Advanced Settings - capture method, picked automatically unless overridden */}
+        <div className="ytgif-advanced-section">
+          <button
+            type="button"
+            className="ytgif-advanced-toggle"
+            aria-expanded={showAdvanced}
+            onClick={() => setShowAdvanced((open) => !open)}
+          >
+            <span>Advanced</span>
+            <span className="ytgif-advanced-summary">
+              Capture: {CAPTURE_MODE_OPTIONS.find((option) => option.value === captureMode)?.label}
+            </span>
+          </button>
+          {showAdvanced && (
+            <div className="ytgif-format-options ytgif-format-options--sub">
+              {CAPTURE_MODE_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  className={`ytgif-format-btn ${captureMode === option.value ? 'ytgif-format-btn--active' : ''}`}
+                  onClick={() => setCaptureMode(option.value)}
+                >
+                  {option.label}
+                  <span className="ytgif-format-desc">{option.description}</span>
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* GIF Info */}
@@ -199,7 +717,7 @@ const QuickCaptureScreen: React.FC<QuickCaptureScreenProps> = ({
               />
             </svg>
             <span className="ytgif-info-label">Duration:</span>
-            <span className="ytgif-info-value">{gifDuration.toFixed(1)}s</span>
+            <span className="ytgif-info-value">{playbackSeconds.toFixed(1)}s</span>
           </div>
 
           <div className="ytgif-info-item">
@@ -212,7 +730,7 @@ const QuickCaptureScreen: React.FC<QuickCaptureScreenProps> = ({
               />
             </svg>
             <span className="ytgif-info-label">Frames:</span>
-            <span className="ytgif-info-value">~{Math.round(gifDuration * selectedFrameRate)}</span>
+            <span className="ytgif-info-value">~{frameEstimate}</span>
           </div>
 
           <div className="ytgif-info-item">
@@ -234,11 +752,21 @@ const QuickCaptureScreen: React.FC<QuickCaptureScreenProps> = ({
                   '360p': 0.7,
                   '480p': 1.0,
                 };
+                // H.264 typically lands well under a tenth of the GIF size
+                const formatMultipliers: Record<ExportSettings['format'], number> = {
+                  gif: 1,
+                  mp4: 0.15,
+                  webp: webpLossless ? 0.8 : 0.3,
+                  apng: 1.5,
+                  'sprite-sheet': 1.5,
+                  'png-sequence': 3,
+                };
+                const formatMultiplier = formatMultipliers[selectedFormat];
                 const sizeEstimate =
-                  gifDuration *
-                  selectedFrameRate *
+                  frameEstimate *
                   0.05 *
-                  resolutionMultipliers[selectedResolution];
+                  resolutionMultipliers[selectedResolution] *
+                  formatMultiplier;
                 return sizeEstimate.toFixed(1);
               })()}
               MB
@@ -267,9 +795,61 @@ const QuickCaptureScreen: React.FC<QuickCaptureScreenProps> = ({
         <div className="ytgif-wizard-actions">
           <button
             className="ytgif-button-primary"
+            disabled={brandColorError !== null}
             onClick={() => {
-              // Pass the current selection, frame rate, and resolution
-              onConfirm(startTime, endTime, selectedFrameRate, selectedResolution);
+              // Pass the current selection, frame rate, resolution, and output settings
+              if (isFrameExport) {
+                const frameSettings: ExportSettings = { format: selectedFormat };
+                if (isSpriteSheet) {
+                  frameSettings.spriteSheet = {
+                    ...(spriteColumns > 0 && { columns: spriteColumns }),
+                    ...(spriteSpacing > 0 && { spacing: spriteSpacing }),
+                    ...(spriteLabels && { labels: true }),
+                  };
+                }
+                if (speed !== 1) frameSettings.speed = speed;
+                if (speedRamp) frameSettings.speedRamp = speedRamp;
+                if (captureMode !== 'auto') frameSettings.captureMode = captureMode;
+                onConfirm(
+                  startTime,
+                  endTime,
+                  selectedFrameRate,
+                  selectedResolution,
+                  frameSettings
+                );
+                return;
+              }
+              const exportSettings: ExportSettings = { format: selectedFormat };
+              if (selectedFormat === 'webp') exportSettings.lossless = webpLossless;
+              if (maxFileSize) exportSettings.maxFileSize = maxFileSize;
+              if (duplicateThreshold !== DEFAULT_DUPLICATE_THRESHOLD * 100) {
+                exportSettings.duplicateThreshold = duplicateThreshold / 100;
+              }
+              if (playbackMode !== 'forward') exportSettings.playbackMode = playbackMode;
+              if (speed !== 1) exportSettings.speed = speed;
+              if (speedRamp) exportSettings.speedRamp = speedRamp;
+              if (captureMode !== 'auto') exportSettings.captureMode = captureMode;
+              if (selectedFormat !== 'mp4' && loopCount > 0) exportSettings.loopCount = loopCount;
+              if (selectedFormat === 'gif' && dithering !== 'none') {
+                exportSettings.dithering = dithering;
+                exportSettings.ditherStrength = ditherStrength / 100;
+              }
+              if (selectedFormat === 'gif') {
+                if (maxColors < 256) exportSettings.maxColors = maxColors;
+                if (paletteMode === 'frame') {
+                  // The captured frame closest to the previewed moment
+                  exportSettings.lockedPalette = {
+                    type: 'frame',
+                    frameIndex: findSampleIndex(captureSamples, previewTime - startTime),
+                  };
+                } else if (paletteMode === 'colors') {
+                  exportSettings.lockedPalette = {
+                    type: 'colors',
+                    colors: brandColors.split(/[\s,;]+/).filter(Boolean),
+                  };
+                }
+              }
+              onConfirm(startTime, endTime, selectedFrameRate, selectedResolution, exportSettings);
             }}
           >
             <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor">
@@ -1,4 +1,6 @@
 import React from 'react';
+import type { FormatType } from '@/lib/encoders';
+import type { FrameExportFormat } from '@/types';
 
 interface SuccessScreenProps {
   onDownload?: () => void;
@@ -12,9 +14,19 @@ interface SuccessScreenProps {
     height: number;
     duration: number;
     frameCount?: number;
+    format?: FormatType | FrameExportFormat;
   };
 }
 
+const FORMAT_LABELS: Record<FormatType | FrameExportFormat, string> = {
+  gif: 'GIF',
+  mp4: 'MP4',
+  webp: 'WebP',
+  apng: 'APNG',
+  'sprite-sheet': 'Sprite Sheet',
+  'png-sequence': 'PNG Sequence',
+};
+
 const SuccessScreen: React.FC<SuccessScreenProps> = ({
   onDownload,
   onBack,
@@ -30,11 +42,16 @@ const SuccessScreen: React.FC<SuccessScreenProps> = ({
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
+  const isVideo = gifMetadata?.format === 'mp4';
+  // ZIP archives have nothing to preview
+  const isArchive = gifMetadata?.format === 'png-sequence';
+  const formatLabel = FORMAT_LABELS[gifMetadata?.format || 'gif'];
+
   return (
     <div className="ytgif-wizard-screen ytgif-success-screen">
       <div className="ytgif-wizard-header">
         <div style={{ width: '20px' }}></div>
-        <h2 className="ytgif-wizard-title">GIF Created Successfully!</h2>
+        <h2 className="ytgif-wizard-title">{formatLabel} Created Successfully!</h2>
         <div style={{ width: '20px' }}></div>
       </div>
 
@@ -42,7 +59,25 @@ const SuccessScreen: React.FC<SuccessScreenProps> = ({
         {/* GIF Preview */}
         {gifDataUrl && (
           <div className="ytgif-success-preview">
-            <img src={gifDataUrl} alt="Created GIF" className="ytgif-success-preview-image" />
+            {isVideo ? (
+              <video
+                src={gifDataUrl}
+                className="ytgif-success-preview-image"
+                aria-label="Created MP4"
+                autoPlay
+                loop
+                muted
+                playsInline
+              />
+            ) : (
+              !isArchive && (
+                <img
+                  src={gifDataUrl}
+                  alt={`Created ${formatLabel}`}
+                  className="ytgif-success-preview-image"
+                />
+              )
+            )}
             {gifMetadata && (
               <div className="ytgif-success-metadata">
                 <span>
@@ -65,7 +100,7 @@ const SuccessScreen: React.FC<SuccessScreenProps> = ({
 
         {/* Success Message */}
         <div className="ytgif-success-message">
-          <h3>Your GIF is ready!</h3>
+          <h3>Your {formatLabel} is ready!</h3>
           {!gifDataUrl && gifSize && <p className="ytgif-gif-size">Size: {formatSize(gifSize)}</p>}
         </div>
 
@@ -89,7 +124,7 @@ const SuccessScreen: React.FC<SuccessScreenProps> = ({
               <polyline points="7 10 12 15 17 10" />
               <line x1="12" y1="15" x2="12" y2="3" />
             </svg>
-            Download GIF
+            Download {formatLabel}
           </button>
         </div>
 
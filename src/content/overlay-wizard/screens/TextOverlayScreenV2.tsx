@@ -8,6 +8,8 @@ interface TextOverlayScreenProps {
   videoElement?: HTMLVideoElement;
   textOverlays?: TextOverlay[];
   resolution?: string;
+  previewFrameUrl?: string; // Shown instead of a captured video frame, e.g. for an opened GIF
+  frameSize?: { width: number; height: number }; // Output size when it is not a resolution preset
   onConfirm: (overlays: TextOverlay[]) => void;
   onSkip: () => void;
   onBack?: () => void;
@@ -19,6 +21,8 @@ const TextOverlayScreenV2: React.FC<TextOverlayScreenProps> = ({
   endTime,
   videoElement,
   resolution = '144p',
+  previewFrameUrl,
+  frameSize,
   onConfirm,
   onSkip,
   onBack,
@@ -49,10 +53,11 @@ const TextOverlayScreenV2: React.FC<TextOverlayScreenProps> = ({
       '360p': { width: 640, height: 360 },
       '480p': { width: 854, height: 480 },
     };
-    return resolutionMap[resolution] || resolutionMap['144p'];
+    return frameSize || resolutionMap[resolution] || resolutionMap['144p'];
   };
 
   const gifDimensions = getGifDimensions();
+  const previewLabel = frameSize ? 'original size' : resolution;
 
   // Top text state
   const [topText, setTopText] = useState('');
@@ -67,7 +72,7 @@ const TextOverlayScreenV2: React.FC<TextOverlayScreenProps> = ({
   const [showTopAdvanced, setShowTopAdvanced] = useState(false);
   const [showBottomAdvanced, setShowBottomAdvanced] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [videoFrameUrl, setVideoFrameUrl] = useState<string | null>(null);
+  const [videoFrameUrl, setVideoFrameUrl] = useState<string | null>(previewFrameUrl ?? null);
 
   const handleAddText = useCallback(() => {
     const overlays: TextOverlay[] = [];
@@ -199,7 +204,7 @@ const TextOverlayScreenV2: React.FC<TextOverlayScreenProps> = ({
         <div className="ytgif-video-preview-section">
           <div className="ytgif-video-preview-frame">
             <p style={{ fontSize: '12px', color: '#999', marginBottom: '8px' }}>
-              Preview at {resolution} ({gifDimensions.width}×{gifDimensions.height}px)
+              Preview at {previewLabel} ({gifDimensions.width}×{gifDimensions.height}px)
             </p>
             {videoFrameUrl ? (
               <div
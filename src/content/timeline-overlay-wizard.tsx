@@ -1,5 +1,11 @@
 import React, { useCallback } from 'react';
-import { TimelineSelection, TextOverlay } from '@/types';
+import {
+  CaptureJob,
+  ExportSettings,
+  GifEditSource,
+  TimelineSelection,
+  TextOverlay,
+} from '@/types';
 import OverlayWizard from './overlay-wizard/OverlayWizard';
 
 interface TimelineOverlayWizardProps {
@@ -13,8 +19,18 @@ interface TimelineOverlayWizardProps {
     selection: TimelineSelection,
     textOverlays?: TextOverlay[],
     resolution?: string,
-    frameRate?: number
+    frameRate?: number,
+    exportSettings?: ExportSettings
   ) => void;
+  onReeditGif?: (
+    source: GifEditSource,
+    selection: TimelineSelection,
+    textOverlays: TextOverlay[],
+    exportSettings?: ExportSettings
+  ) => void;
+  loadGifLibrary?: () => Promise<GifEditSource[]>;
+  resumableCapture?: CaptureJob; // Offered on the capture screen to continue
+  onResumeCapture?: (job: CaptureJob) => void;
   onSeekTo?: (time: number) => void;
   isCreating?: boolean;
   processingStatus?: {
@@ -23,6 +39,7 @@ interface TimelineOverlayWizardProps {
     totalStages: number;
     progress: number;
     message: string;
+    notice?: string; // Shown under the message until processing ends
   };
   gifData?: {
     dataUrl: string;
@@ -39,6 +56,10 @@ export const TimelineOverlayWizard: React.FC<TimelineOverlayWizardProps> = ({
   onSelectionChange,
   onClose,
   onCreateGif,
+  onReeditGif,
+  loadGifLibrary,
+  resumableCapture,
+  onResumeCapture,
   onSeekTo,
   isCreating = false,
   processingStatus,
@@ -52,9 +73,15 @@ export const TimelineOverlayWizard: React.FC<TimelineOverlayWizardProps> = ({
   );
 
   const handleCreateGif = useCallback(
-    (finalSelection: TimelineSelection, textOverlays?: TextOverlay[], resolution?: string, frameRate?: number) => {
+    (
+      finalSelection: TimelineSelection,
+      textOverlays?: TextOverlay[],
+      resolution?: string,
+      frameRate?: number,
+      exportSettings?: ExportSettings
+    ) => {
       handleSelectionChange(finalSelection);
-      onCreateGif(finalSelection, textOverlays, resolution, frameRate);
+      onCreateGif(finalSelection, textOverlays, resolution, frameRate, exportSettings);
     },
     [handleSelectionChange, onCreateGif]
   );
@@ -68,6 +95,10 @@ export const TimelineOverlayWizard: React.FC<TimelineOverlayWizardProps> = ({
       onSelectionChange={handleSelectionChange}
       onClose={onClose}
       onCreateGif={handleCreateGif}
+      onReeditGif={onReeditGif}
+      loadGifLibrary={loadGifLibrary}
+      resumableCapture={resumableCapture}
+      onResumeCapture={onResumeCapture}
       onSeekTo={onSeekTo}
       isCreating={isCreating}
       processingStatus={processingStatus}
@@ -44,6 +44,7 @@ interface YouTubePlayer {
   getPlaybackRate(): number;
   setPlaybackRate(rate: number): void;
   getVideoUrl(): string;
+  getAdState?(): number; // Undocumented; 1 while an ad plays
   addEventListener(event: string, listener: (event: YouTubePlayerStateChangeEvent) => void): void;
   removeEventListener(event: string, listener: (event: YouTubePlayerStateChangeEvent) => void): void;
   destroy(): void;
@@ -71,6 +72,9 @@ export class YouTubeAPIIntegration {
     CUED: 5
   };
 
+  // getAdState() while an ad plays
+  private static readonly AD_PLAYING = 1;
+
   private constructor() {
     this.initializeAPI();
   }
@@ -329,6 +333,21 @@ export class YouTubeAPIIntegration {
     }
   }
 
+  // Whether the player reports an ad playing. The ad state is not part of
+  // the documented API, so players without it report no ad.
+  public isAdPlaying(): boolean {
+    if (!this.isReady() || !this.player?.getAdState) {
+      return false;
+    }
+
+    try {
+      return this.player.getAdState() === YouTubeAPIIntegration.AD_PLAYING;
+    } catch (error) {
+      logger.error('[YouTubeAPI] Failed to get ad state', { error });
+      return false;
+    }
+  }
+
   public getPlayerState(): number {
     if (!this.isReady() || !this.player) {
       return YouTubeAPIIntegration.PlayerState.UNSTARTED;
@@ -221,6 +221,16 @@ export class YouTubeDetector {
     });
   }
 
+  // Check if an ad is playing. Ads play in the page's own video element;
+  // the player is marked while one shows and its ad overlay exists only then
+  public isAdPlaying(): boolean {
+    const player = document.querySelector('#movie_player, .html5-video-player');
+    if (player?.classList.contains('ad-showing') || player?.classList.contains('ad-interrupting')) {
+      return true;
+    }
+    return document.querySelector('.ytp-ad-player-overlay, .ytp-ad-player-overlay-layout') !== null;
+  }
+
   // Detect current page state
   private detectCurrentState(): YouTubePageState {
     const url = window.location.href;
@@ -472,6 +482,7 @@ export class YouTubeDetector {
     playbackRate: number;
     buffered: TimeRanges | null;
     seekable: TimeRanges | null;
+    isAdPlaying: boolean; // Times and duration are the ad's while true
   } | null {
     const video = this.getVideoElement();
     if (!video || !this.isVideoReady(video)) {
@@ -486,7 +497,8 @@ export class YouTubeDetector {
       volume: video.volume,
       playbackRate: video.playbackRate,
       buffered: video.buffered,
-      seekable: video.seekable
+      seekable: video.seekable,
+      isAdPlaying: this.isAdPlaying()
     };
   }
 
@@ -0,0 +1,141 @@
+/**
+ * Ad-aware capture
+ * Mid-roll ads play in the same video element as the clip, so a frame
+ * grabbed while one shows belongs to the ad. Capture drops that frame,
+ * waits for the content to come back and captures again from the first
+ * frame not yet consumed, with whichever strategy it was using.
+ */
+
+import { logger } from '@/lib/logger';
+import { CaptureStrategy } from './capture-strategy';
+import { CaptureTimingSummary, combineTimingSummaries } from './frame-seeker';
+
+// ms between checks while an ad plays
+const AD_POLL_INTERVAL = 250;
+// An ad still playing after this long fails the capture
+const MAX_AD_WAIT = 3 * 60 * 1000;
+// Seconds the element's duration may differ from the clip's video before it counts as an ad
+const DURATION_TOLERANCE = 0.5;
+
+export interface AdBreakSummary {
+  breaks: number;
+  discardedFrames: number; // Frames grabbed while an ad showed; never consumed
+  waited: number; // ms spent waiting for the content to return
+}
+
+export interface AdBreakEvent {
+  frameIndex: number; // First frame not yet consumed; capture continues from it
+  targetTime: number; // Its time in seconds
+}
+
+export interface AdAwareCaptureOptions {
+  isAdPlaying: () => boolean; // Player signals; a changed video duration also counts
+  onAdBreak?: (event: AdBreakEvent) => void;
+  onContentResumed?: (event: AdBreakEvent, summary: AdBreakSummary) => void;
+  pollInterval?: number; // ms
+  maxAdWait?: number; // ms
+}
+
+export interface AdAwareCaptureResult {
+  timing: CaptureTimingSummary; // Of the runs no ad cut short
+  adBreaks: AdBreakSummary;
+}
+
+// Stops a strategy at a frame showing an ad
+class AdBreakInterruption extends Error {
+  constructor() {
+    super('Ad playing during capture');
+    this.name = 'AdBreakInterruption';
+  }
+}
+
+/**
+ * Capture like `strategy.capture`, suspending while ads play
+ */
+export async function captureAroundAds<F>(
+  strategy: CaptureStrategy,
+  videoElement: HTMLVideoElement,
+  times: number[],
+  grab: (index: number) => F,
+  consume: (frame: F, index: number) => Promise<void> | void,
+  options: AdAwareCaptureOptions
+): Promise<AdAwareCaptureResult> {
+  const { pollInterval = AD_POLL_INTERVAL, maxAdWait = MAX_AD_WAIT } = options;
+  const adBreaks: AdBreakSummary = { breaks: 0, discardedFrames: 0, waited: 0 };
+  const timings: CaptureTimingSummary[] = [];
+  let next = 0;
+
+  // Reports the break, then resolves once content plays again, paused
+  const waitOutAdBreak = async (adPlaying: () => boolean) => {
+    const event: AdBreakEvent = { frameIndex: next, targetTime: times[next] };
+    adBreaks.breaks++;
+    logger.info('[AdAwareCapture] Ad break, waiting for content', { ...event });
+    options.onAdBreak?.(event);
+
+    adBreaks.waited += await waitForContent(adPlaying, pollInterval, maxAdWait);
+    // The player resumes content playing; capture continues from a paused video
+    videoElement.pause();
+    logger.info('[AdAwareCapture] Content resumed', { ...event, ...adBreaks });
+    options.onContentResumed?.(event, { ...adBreaks });
+  };
+
+  // Ads replace the element's source, so its duration changes with them.
+  // Capture may start during an ad, so the content's duration is only read
+  // once the player reports none.
+  if (options.isAdPlaying()) {
+    await waitOutAdBreak(options.isAdPlaying);
+  }
+  const contentDuration = videoElement.duration;
+  const isAdPlaying = () =>
+    options.isAdPlaying() ||
+    (Number.isFinite(contentDuration) &&
+      !(Math.abs(videoElement.duration - contentDuration) <= DURATION_TOLERANCE));
+
+  while (next < times.length) {
+    const offset = next;
+    try {
+      const timing = await strategy.capture(
+        videoElement,
+        times.slice(offset),
+        (index) => {
+          const frame = grab(index + offset);
+          if (isAdPlaying()) {
+            adBreaks.discardedFrames++;
+            throw new AdBreakInterruption();
+          }
+          return frame;
+        },
+        async (frame, index) => {
+          await consume(frame, index + offset);
+          next = index + offset + 1;
+        }
+      );
+      timings.push(timing);
+    } catch (error) {
+      if (!(error instanceof AdBreakInterruption)) {
+        throw error;
+      }
+      await waitOutAdBreak(isAdPlaying);
+    }
+  }
+
+  return { timing: combineTimingSummaries(timings), adBreaks };
+}
+
+/**
+ * Resolves with the ms waited once no ad plays
+ */
+async function waitForContent(
+  isAdPlaying: () => boolean,
+  pollInterval: number,
+  maxAdWait: number
+): Promise<number> {
+  const start = Date.now();
+  while (isAdPlaying()) {
+    if (Date.now() - start > maxAdWait) {
+      throw new Error('The ad did not finish, so capture stopped');
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+  return Date.now() - start;
+}
@@ -0,0 +1,154 @@
+/**
+ * Capture strategy registry
+ * Holds the available strategies, probes which the current video supports,
+ * and picks one from the clip length, frame rate and device memory unless
+ * the user chose one
+ */
+
+import {
+  CapturePreference,
+  CaptureRequest,
+  CaptureSelection,
+  CaptureStrategy,
+  CaptureStrategyId,
+} from './capture-strategy';
+import {
+  PlaybackCaptureStrategy,
+  SeekCaptureStrategy,
+  TimedCaptureStrategy,
+} from './capture-strategies';
+
+// Clips shorter than this are not worth starting playback for
+const MIN_PLAYBACK_DURATION = 1;
+// Rough time one verified seek takes, in seconds
+const ESTIMATED_SEEK_TIME = 0.1;
+// Playback is chosen when seeking would take at least this many times as long
+const PLAYBACK_SPEEDUP = 2;
+// Share of device memory that frames waiting to be consumed may take up
+const PLAYBACK_MEMORY_SHARE = 1 / 8;
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+export class CaptureStrategyRegistry {
+  private static instance: CaptureStrategyRegistry;
+  private strategies = new Map<CaptureStrategyId, CaptureStrategy>();
+
+  static getInstance(): CaptureStrategyRegistry {
+    if (!CaptureStrategyRegistry.instance) {
+      CaptureStrategyRegistry.instance = new CaptureStrategyRegistry();
+      CaptureStrategyRegistry.instance.register(new SeekCaptureStrategy());
+      CaptureStrategyRegistry.instance.register(new PlaybackCaptureStrategy());
+      CaptureStrategyRegistry.instance.register(new TimedCaptureStrategy());
+    }
+    return CaptureStrategyRegistry.instance;
+  }
+
+  /**
+   * Add a strategy, replacing any registered under the same id
+   */
+  register(strategy: CaptureStrategy): void {
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  get(id: CaptureStrategyId): CaptureStrategy {
+    const strategy = this.strategies.get(id);
+    if (!strategy) {
+      throw new Error(`Unknown capture strategy: ${id}`);
+    }
+    return strategy;
+  }
+
+  /**
+   * Strategies that can capture from this video
+   */
+  getAvailable(videoElement: HTMLVideoElement): CaptureStrategy[] {
+    return [...this.strategies.values()].filter((strategy) => strategy.isSupported(videoElement));
+  }
+
+  /**
+   * The strategy to capture with. A preferred strategy the video does not
+   * support falls back to automatic selection.
+   */
+  select(
+    videoElement: HTMLVideoElement,
+    request: CaptureRequest,
+    preference: CapturePreference = 'auto'
+  ): CaptureSelection {
+    if (preference !== 'auto') {
+      const preferred = this.get(preference);
+      if (preferred.isSupported(videoElement)) {
+        return { strategy: preferred, reason: `User preference: ${preference}` };
+      }
+      const selection = this.selectAutomatically(videoElement, request);
+      return {
+        strategy: selection.strategy,
+        reason: `${preferred.name} is unsupported here; ${selection.reason}`,
+      };
+    }
+    return this.selectAutomatically(videoElement, request);
+  }
+
+  /**
+   * Seeking is exact and keeps one frame in flight, so it is the default.
+   * Playback is chosen when it is clearly faster and the frames it may
+   * buffer fit in memory.
+   */
+  private selectAutomatically(
+    videoElement: HTMLVideoElement,
+    request: CaptureRequest
+  ): CaptureSelection {
+    const seek = this.get('seek');
+    const playback = this.strategies.get('playback');
+
+    if (!playback?.isSupported(videoElement)) {
+      return { strategy: seek, reason: 'real-time capture is unsupported; seeking each frame' };
+    }
+    if (request.duration < MIN_PLAYBACK_DURATION) {
+      return { strategy: seek, reason: 'short clip; seeking each frame' };
+    }
+
+    const seekTime = request.frameCount * ESTIMATED_SEEK_TIME;
+    if (seekTime < request.duration * PLAYBACK_SPEEDUP) {
+      return {
+        strategy: seek,
+        reason: `seeking is fast enough at ${request.frameRate} fps`,
+      };
+    }
+
+    const deviceMemory = getDeviceMemory();
+    const bufferedBytes = request.frameCount * request.width * request.height * 4;
+    if (deviceMemory && bufferedBytes > deviceMemory * BYTES_PER_GB * PLAYBACK_MEMORY_SHARE) {
+      return {
+        strategy: seek,
+        reason: `frames could outgrow ${deviceMemory} GB of device memory; seeking each frame`,
+      };
+    }
+
+    return {
+      strategy: playback,
+      reason: `playing the clip once is faster at ${request.frameRate} fps`,
+    };
+  }
+}
+
+/**
+ * Approximate device RAM in GB, where the browser reports it
+ */
+export function getDeviceMemory(): number | undefined {
+  if (typeof navigator !== 'undefined' && 'deviceMemory' in navigator) {
+    return (navigator as unknown as { deviceMemory: number }).deviceMemory;
+  }
+  return undefined;
+}
+
+export const captureStrategies = CaptureStrategyRegistry.getInstance();
+
+/**
+ * Choose how to capture a clip from a video
+ */
+export function selectCaptureStrategy(
+  videoElement: HTMLVideoElement,
+  request: CaptureRequest,
+  preference: CapturePreference = 'auto'
+): CaptureSelection {
+  return captureStrategies.select(videoElement, request, preference);
+}
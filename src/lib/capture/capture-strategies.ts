@@ -0,0 +1,146 @@
+/**
+ * Built-in capture strategies
+ * Seeking confirms each frame, playback grabs frames as the clip plays
+ * once, and timed capture waits a fixed delay after each seek for when
+ * speed matters more than exact frames
+ */
+
+import { logger } from '@/lib/logger';
+import { CaptureStrategy } from './capture-strategy';
+import {
+  CaptureTimingSummary,
+  FrameSeeker,
+  FrameTiming,
+  summarizeFrameTimings,
+} from './frame-seeker';
+import { PlaybackCapture, isPlaybackCaptureSupported } from './playback-capture';
+
+// ms timed capture waits after setting the time before reading the frame
+const TIMED_SETTLE_DELAY = 50;
+
+export class SeekCaptureStrategy implements CaptureStrategy {
+  readonly id = 'seek';
+  readonly name = 'Frame by frame';
+  readonly characteristics = {
+    accuracy: 'exact',
+    speed: 'slow',
+    memoryUsage: 'low',
+  } as const;
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  async capture<F>(
+    videoElement: HTMLVideoElement,
+    times: number[],
+    grab: (index: number) => F,
+    consume: (frame: F, index: number) => Promise<void> | void
+  ): Promise<CaptureTimingSummary> {
+    const seeker = new FrameSeeker(videoElement);
+    for (let i = 0; i < times.length; i++) {
+      const timing = await seeker.seek(times[i], i);
+      await consume(grab(i), i);
+      logger.debug(`[SeekCaptureStrategy] Captured frame ${i + 1}/${times.length}`, {
+        error: timing.error,
+        attempts: timing.attempts,
+      });
+    }
+    return seeker.getSummary();
+  }
+}
+
+export class PlaybackCaptureStrategy implements CaptureStrategy {
+  readonly id = 'playback';
+  readonly name = 'Real time';
+  readonly characteristics = {
+    accuracy: 'close',
+    speed: 'fast',
+    memoryUsage: 'high',
+  } as const;
+
+  isSupported(videoElement: HTMLVideoElement): boolean {
+    return isPlaybackCaptureSupported(videoElement);
+  }
+
+  /**
+   * Frames are consumed one after another while playback keeps grabbing,
+   * so consuming may lag behind. Playback stops at the first frame grabbed
+   * after consuming failed. Frames grabbed before playback stopped are
+   * consumed before this settles, even when it rejects.
+   */
+  async capture<F>(
+    videoElement: HTMLVideoElement,
+    times: number[],
+    grab: (index: number) => F,
+    consume: (frame: F, index: number) => Promise<void> | void
+  ): Promise<CaptureTimingSummary> {
+    let consumed = Promise.resolve();
+    let failure: unknown;
+    let summary: CaptureTimingSummary;
+    try {
+      summary = await new PlaybackCapture(videoElement).capture(times, (index) => {
+        if (failure !== undefined) {
+          throw failure;
+        }
+        const frame = grab(index);
+        consumed = consumed
+          .then(() => (failure === undefined ? consume(frame, index) : undefined))
+          .catch((error) => {
+            failure = error;
+          });
+      });
+    } finally {
+      await consumed;
+    }
+    if (failure !== undefined) {
+      throw failure;
+    }
+    return summary;
+  }
+}
+
+export class TimedCaptureStrategy implements CaptureStrategy {
+  readonly id = 'timed';
+  readonly name = 'Quick';
+  readonly characteristics = {
+    accuracy: 'approximate',
+    speed: 'fast',
+    memoryUsage: 'low',
+  } as const;
+
+  constructor(private readonly settleDelay = TIMED_SETTLE_DELAY) {}
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  /**
+   * Frames are not confirmed, so each is counted as unverified
+   */
+  async capture<F>(
+    videoElement: HTMLVideoElement,
+    times: number[],
+    grab: (index: number) => F,
+    consume: (frame: F, index: number) => Promise<void> | void
+  ): Promise<CaptureTimingSummary> {
+    const timings: FrameTiming[] = [];
+    for (let i = 0; i < times.length; i++) {
+      videoElement.currentTime = times[i];
+      await new Promise((resolve) => setTimeout(resolve, this.settleDelay));
+
+      const frame = grab(i);
+      const presentedTime = videoElement.currentTime;
+      timings.push({
+        index: i,
+        targetTime: times[i],
+        presentedTime,
+        error: (presentedTime - times[i]) * 1000,
+        attempts: 1,
+        verified: false,
+      });
+      await consume(frame, i);
+    }
+    return summarizeFrameTimings(timings);
+  }
+}
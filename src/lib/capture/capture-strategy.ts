@@ -0,0 +1,51 @@
+/**
+ * Capture strategy interface
+ * Every way of reading frames from a video element implements this, so
+ * extractors and processors differ only in what they do with each frame
+ */
+
+import type { CaptureTimingSummary } from './frame-seeker';
+
+export type CaptureStrategyId = 'seek' | 'playback' | 'timed';
+export type CapturePreference = CaptureStrategyId | 'auto';
+
+// What a capture covers, used to choose a strategy automatically
+export interface CaptureRequest {
+  duration: number; // Seconds of source video
+  frameRate: number; // Frames captured per second of source video
+  frameCount: number;
+  width: number; // Output frame size, for memory estimates
+  height: number;
+}
+
+export interface CaptureStrategy {
+  readonly id: CaptureStrategyId;
+  readonly name: string;
+  readonly characteristics: {
+    accuracy: 'exact' | 'close' | 'approximate';
+    speed: 'fast' | 'medium' | 'slow';
+    memoryUsage: 'low' | 'high'; // Frames that may be grabbed before they are consumed
+  };
+
+  /**
+   * Whether this strategy can capture from the video in this browser
+   */
+  isSupported(videoElement: HTMLVideoElement): boolean;
+
+  /**
+   * Visit each time (seconds, ascending): `grab` reads the frame while the
+   * video shows it, `consume` takes the grabbed frames in order. Errors
+   * from either reject the capture.
+   */
+  capture<F>(
+    videoElement: HTMLVideoElement,
+    times: number[],
+    grab: (index: number) => F,
+    consume: (frame: F, index: number) => Promise<void> | void
+  ): Promise<CaptureTimingSummary>;
+}
+
+export interface CaptureSelection {
+  strategy: CaptureStrategy;
+  reason: string;
+}
@@ -0,0 +1,265 @@
+/**
+ * Frame-accurate seeking for capture
+ * Seeks a paused video and resolves once the frame for the target time is
+ * on screen: after `seeked`, and where supported after
+ * requestVideoFrameCallback reports the presented frame's media time.
+ * Frames that still show an older picture are sought again.
+ */
+
+import { logger } from '@/lib/logger';
+
+export interface FrameSeekerOptions {
+  seekTimeout?: number; // ms to wait for `seeked`
+  frameTimeout?: number; // ms to wait for a new frame once the seek completes
+  maxRetries?: number; // Extra seeks for a frame that did not advance
+  tolerance?: number; // Seconds a presented frame may start before or after its target
+}
+
+export interface FrameTiming {
+  index: number;
+  targetTime: number; // Seconds
+  presentedTime: number; // Media time of the frame on screen, in seconds
+  error: number; // presentedTime - targetTime, in ms
+  attempts: number;
+  verified: boolean; // The presented frame was confirmed to match the target
+}
+
+export interface CaptureTimingSummary {
+  frameCount: number;
+  retried: number; // Frames that needed more than one seek
+  unverified: number; // Frames that could not be confirmed
+  meanError: number; // Mean absolute timing error, ms
+  maxError: number; // Largest absolute timing error, ms
+  frameErrors: number[]; // Signed error of each frame, ms
+  stalls?: number; // Playback capture: times playback waited for data
+  resyncs?: number; // Playback capture: times capture seeked back after losing sync
+}
+
+const DEFAULT_OPTIONS: Required<FrameSeekerOptions> = {
+  seekTimeout: 5000,
+  frameTimeout: 250,
+  maxRetries: 2,
+  // Frames of videos down to 20 fps start within this of any moment they show
+  tolerance: 0.05,
+};
+
+/**
+ * Summarise per-frame timings for logs and output metadata
+ */
+export function summarizeFrameTimings(timings: FrameTiming[]): CaptureTimingSummary {
+  const errors = timings.map((timing) => Math.abs(timing.error));
+  return {
+    frameCount: timings.length,
+    retried: timings.filter((timing) => timing.attempts > 1).length,
+    unverified: timings.filter((timing) => !timing.verified).length,
+    meanError:
+      errors.length > 0 ? errors.reduce((sum, error) => sum + error, 0) / errors.length : 0,
+    maxError: errors.length > 0 ? Math.max(...errors) : 0,
+    frameErrors: timings.map((timing) => Math.round(timing.error * 10) / 10),
+  };
+}
+
+/**
+ * One summary for a clip captured over several runs
+ */
+export function combineTimingSummaries(summaries: CaptureTimingSummary[]): CaptureTimingSummary {
+  if (summaries.length === 1) {
+    return summaries[0];
+  }
+  const total = (field: 'frameCount' | 'retried' | 'unverified' | 'stalls' | 'resyncs') =>
+    summaries.reduce((sum, summary) => sum + (summary[field] ?? 0), 0);
+  const frameCount = total('frameCount');
+  const combined: CaptureTimingSummary = {
+    frameCount,
+    retried: total('retried'),
+    unverified: total('unverified'),
+    meanError:
+      frameCount > 0
+        ? summaries.reduce((sum, summary) => sum + summary.meanError * summary.frameCount, 0) /
+          frameCount
+        : 0,
+    maxError: Math.max(0, ...summaries.map((summary) => summary.maxError)),
+    frameErrors: summaries.flatMap((summary) => summary.frameErrors),
+  };
+  if (summaries.some((summary) => summary.stalls !== undefined)) {
+    combined.stalls = total('stalls');
+    combined.resyncs = total('resyncs');
+  }
+  return combined;
+}
+
+export class FrameSeeker {
+  private readonly options: Required<FrameSeekerOptions>;
+  private readonly timings: FrameTiming[] = [];
+  // Media time of the frame last confirmed on screen
+  private presentedTime: number | null = null;
+
+  constructor(
+    private readonly videoElement: HTMLVideoElement,
+    options: FrameSeekerOptions = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Seek to `targetTime` and resolve once its frame can be drawn. Frames
+   * that cannot be confirmed are still resolved, and counted as unverified.
+   */
+  public async seek(targetTime: number, index = this.timings.length): Promise<FrameTiming> {
+    const canVerify = typeof this.videoElement.requestVideoFrameCallback === 'function';
+
+    for (let attempt = 1; ; attempt++) {
+      const presented = await this.seekOnce(targetTime, canVerify);
+      const timing = this.confirmFrame(index, targetTime, presented, attempt, canVerify);
+      if (timing) {
+        this.timings.push(timing);
+        logger.debug('[FrameSeeker] Frame ready', { ...timing });
+        return timing;
+      }
+
+      logger.debug('[FrameSeeker] Frame did not advance, seeking again', {
+        index,
+        targetTime,
+        presented,
+        attempt,
+      });
+    }
+  }
+
+  public getTimings(): FrameTiming[] {
+    return [...this.timings];
+  }
+
+  public getSummary(): CaptureTimingSummary {
+    return summarizeFrameTimings(this.timings);
+  }
+
+  /**
+   * One seek. Resolves to the media time of the frame presented after it,
+   * or null if none was presented in time. Rejects as soon as the video
+   * fails to load.
+   */
+  private seekOnce(targetTime: number, canVerify: boolean): Promise<number | null> {
+    const video = this.videoElement;
+    const { seekTimeout, frameTimeout } = this.options;
+
+    if (video.error) {
+      return Promise.reject(new Error('Seek failed'));
+    }
+
+    return new Promise((resolve, reject) => {
+      let presented: number | null = null;
+      let seeked = false;
+      let frameTimer: ReturnType<typeof setTimeout> | null = null;
+      let callbackId: number | null = null;
+
+      const cleanup = () => {
+        clearTimeout(seekTimer);
+        if (frameTimer) clearTimeout(frameTimer);
+        if (callbackId !== null) video.cancelVideoFrameCallback(callbackId);
+        video.removeEventListener('seeked', onSeeked);
+        video.removeEventListener('error', onError);
+      };
+
+      const finish = () => {
+        cleanup();
+        resolve(presented);
+      };
+
+      const onError = () => {
+        cleanup();
+        logger.error('[FrameSeeker] Video failed while seeking', { targetTime });
+        reject(new Error('Seek failed'));
+      };
+
+      const onSeeked = () => {
+        seeked = true;
+        if (!canVerify || presented !== null) {
+          finish();
+        } else {
+          frameTimer = setTimeout(finish, frameTimeout);
+        }
+      };
+
+      // A seek that never completes still moves on; the frame is then unverified
+      const seekTimer = setTimeout(() => {
+        logger.warn('[FrameSeeker] Seek timed out', { targetTime });
+        finish();
+      }, seekTimeout);
+
+      if (canVerify) {
+        // Registered before seeking, so the first frame presented after it is caught
+        callbackId = video.requestVideoFrameCallback((_now, metadata) => {
+          callbackId = null;
+          presented = metadata.mediaTime;
+          if (seeked) finish();
+        });
+      }
+
+      video.addEventListener('seeked', onSeeked);
+      video.addEventListener('error', onError, { once: true });
+      video.currentTime = targetTime;
+    });
+  }
+
+  /**
+   * Timing of the frame on screen after a seek, or null if it should be
+   * sought again
+   */
+  private confirmFrame(
+    index: number,
+    targetTime: number,
+    presented: number | null,
+    attempt: number,
+    canVerify: boolean
+  ): FrameTiming | null {
+    const { maxRetries, tolerance } = this.options;
+
+    if (!canVerify) {
+      // Nothing reports presented frames; the seek position is the best measure
+      return this.createTiming(index, targetTime, this.videoElement.currentTime, attempt, false);
+    }
+    if (presented !== null && Math.abs(presented - targetTime) <= tolerance) {
+      this.presentedTime = presented;
+      return this.createTiming(index, targetTime, presented, attempt, true);
+    }
+    if (
+      presented === null &&
+      this.presentedTime !== null &&
+      Math.abs(this.presentedTime - targetTime) <= tolerance
+    ) {
+      // No new frame was presented because the one on screen already covers the target
+      return this.createTiming(index, targetTime, this.presentedTime, attempt, true);
+    }
+    if (attempt <= maxRetries) {
+      return null;
+    }
+
+    const timing = this.createTiming(
+      index,
+      targetTime,
+      presented ?? this.videoElement.currentTime,
+      attempt,
+      false
+    );
+    logger.warn('[FrameSeeker] Frame did not reach its target time', { ...timing });
+    return timing;
+  }
+
+  private createTiming(
+    index: number,
+    targetTime: number,
+    presentedTime: number,
+    attempts: number,
+    verified: boolean
+  ): FrameTiming {
+    return {
+      index,
+      targetTime,
+      presentedTime,
+      error: (presentedTime - targetTime) * 1000,
+      attempts,
+      verified,
+    };
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Frame capture module - every way of reading frames from a video element,
+ * behind one strategy interface with automatic selection, and capture that
+ * waits out ads
+ */
+
+export {
+  CaptureStrategyRegistry,
+  captureStrategies,
+  selectCaptureStrategy,
+  getDeviceMemory,
+} from './capture-registry';
+export {
+  SeekCaptureStrategy,
+  PlaybackCaptureStrategy,
+  TimedCaptureStrategy,
+} from './capture-strategies';
+export { FrameSeeker, combineTimingSummaries, summarizeFrameTimings } from './frame-seeker';
+export { PlaybackCapture, isPlaybackCaptureSupported } from './playback-capture';
+export { captureAroundAds } from './ad-breaks';
+
+export type {
+  CaptureStrategy,
+  CaptureStrategyId,
+  CapturePreference,
+  CaptureRequest,
+  CaptureSelection,
+} from './capture-strategy';
+export type { CaptureTimingSummary, FrameSeekerOptions, FrameTiming } from './frame-seeker';
+export type { PlaybackCaptureOptions } from './playback-capture';
+export type {
+  AdAwareCaptureOptions,
+  AdAwareCaptureResult,
+  AdBreakEvent,
+  AdBreakSummary,
+} from './ad-breaks';
@@ -0,0 +1,207 @@
+/**
+ * Real-time playback capture
+ * Plays the clip once, muted, and grabs frames as requestVideoFrameCallback
+ * presents them, so capture takes about as long as the clip instead of one
+ * seek per frame. Frames are matched to samples by media time, not wall
+ * clock, so buffering stalls do not shift them; when playback jumps past
+ * samples or stalls for too long, capture seeks back and resumes from the
+ * first missing sample.
+ */
+
+import { logger } from '@/lib/logger';
+import {
+  CaptureTimingSummary,
+  FrameSeeker,
+  FrameTiming,
+  summarizeFrameTimings,
+} from './frame-seeker';
+
+export interface PlaybackCaptureOptions {
+  stallTimeout?: number; // ms without a new frame before capture seeks instead
+  resyncThreshold?: number; // Seconds playback may pass a missing sample before seeking back
+}
+
+const DEFAULT_OPTIONS: Required<PlaybackCaptureOptions> = {
+  stallTimeout: 8000,
+  resyncThreshold: 0.1,
+};
+
+// Assumed frame duration until two presented frames have been seen
+const INITIAL_FRAME_DURATION = 1 / 60;
+
+/**
+ * Playback capture needs presented-frame callbacks to know which frame is
+ * on screen
+ */
+export function isPlaybackCaptureSupported(videoElement: HTMLVideoElement): boolean {
+  return typeof videoElement.requestVideoFrameCallback === 'function';
+}
+
+export class PlaybackCapture {
+  private readonly options: Required<PlaybackCaptureOptions>;
+  private readonly seeker: FrameSeeker;
+  private readonly timings: FrameTiming[] = [];
+  private stalls = 0;
+  private resyncs = 0;
+  private canPlay = true;
+
+  constructor(
+    private readonly videoElement: HTMLVideoElement,
+    options: PlaybackCaptureOptions = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.seeker = new FrameSeeker(videoElement);
+  }
+
+  /**
+   * Capture a frame for each time (seconds, ascending), calling onFrame
+   * while that frame is on screen. onFrame must draw the video before it
+   * returns; playback moves on straight after.
+   */
+  public async capture(
+    times: number[],
+    onFrame: (index: number) => void
+  ): Promise<CaptureTimingSummary> {
+    const video = this.videoElement;
+    const wasMuted = video.muted;
+    const onWaiting = () => {
+      this.stalls++;
+      logger.debug('[PlaybackCapture] Playback is buffering', { time: video.currentTime });
+    };
+    video.muted = true;
+    video.addEventListener('waiting', onWaiting);
+
+    try {
+      let next = 0;
+      while (next < times.length) {
+        // Playback starts, and resumes after losing sync, from a verified seek
+        const timing = await this.seeker.seek(times[next], next);
+        this.timings.push(timing);
+        onFrame(next);
+        next++;
+
+        if (next < times.length && this.canPlay) {
+          next = await this.playFrom(times, next, timing.presentedTime, onFrame);
+          if (next < times.length && this.canPlay) {
+            this.resyncs++;
+            logger.info('[PlaybackCapture] Resyncing by seeking', { index: next });
+          }
+        }
+      }
+    } finally {
+      video.pause();
+      video.muted = wasMuted;
+      video.removeEventListener('waiting', onWaiting);
+    }
+
+    const summary = summarizeFrameTimings(this.timings);
+    logger.info('[PlaybackCapture] Capture finished', {
+      meanError: summary.meanError,
+      maxError: summary.maxError,
+      stalls: this.stalls,
+      resyncs: this.resyncs,
+    });
+    return { ...summary, stalls: this.stalls, resyncs: this.resyncs };
+  }
+
+  /**
+   * Play from the current position, capturing samples from `next` on.
+   * Resolves to the first sample not captured: the end of `times` unless
+   * playback lost sync.
+   */
+  private playFrom(
+    times: number[],
+    next: number,
+    lastMediaTime: number,
+    onFrame: (index: number) => void
+  ): Promise<number> {
+    const video = this.videoElement;
+    const { stallTimeout, resyncThreshold } = this.options;
+
+    return new Promise((resolve, reject) => {
+      let frameDuration: number | null = null; // Shortest gap between presented frames
+      let callbackId: number | null = null;
+      let stallTimer: ReturnType<typeof setTimeout> | null = null;
+      let done = false;
+
+      const finish = (error?: unknown) => {
+        if (done) return;
+        done = true;
+        if (stallTimer) clearTimeout(stallTimer);
+        if (callbackId !== null) video.cancelVideoFrameCallback(callbackId);
+        video.removeEventListener('ended', onEnded);
+        video.removeEventListener('error', onError);
+        video.pause();
+        if (error) reject(error);
+        else resolve(next);
+      };
+
+      const watchForStall = () => {
+        if (stallTimer) clearTimeout(stallTimer);
+        stallTimer = setTimeout(() => {
+          logger.warn('[PlaybackCapture] No frame presented, falling back to seeking', {
+            index: next,
+          });
+          finish();
+        }, stallTimeout);
+      };
+
+      const onEnded = () => finish();
+      const onError = () => finish(new Error('Playback failed'));
+
+      const onVideoFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+        callbackId = null;
+        const mediaTime = metadata.mediaTime;
+        const delta = mediaTime - lastMediaTime;
+        if (delta > 0 && delta < 0.1) {
+          frameDuration = Math.min(frameDuration ?? delta, delta);
+        }
+        lastMediaTime = mediaTime;
+        const shownUntil = mediaTime + (frameDuration ?? INITIAL_FRAME_DURATION);
+
+        // Playback skipped past a sample, after a stall or dropped frames
+        if (mediaTime - times[next] > resyncThreshold) {
+          finish();
+          return;
+        }
+
+        try {
+          // The frame on screen shows every sample up to the next frame
+          while (next < times.length && times[next] < shownUntil) {
+            this.timings.push({
+              index: next,
+              targetTime: times[next],
+              presentedTime: mediaTime,
+              error: (mediaTime - times[next]) * 1000,
+              attempts: 1,
+              verified: true,
+            });
+            onFrame(next);
+            next++;
+          }
+        } catch (error) {
+          finish(error);
+          return;
+        }
+
+        if (next >= times.length) {
+          finish();
+          return;
+        }
+        watchForStall();
+        callbackId = video.requestVideoFrameCallback(onVideoFrame);
+      };
+
+      video.addEventListener('ended', onEnded);
+      video.addEventListener('error', onError);
+      callbackId = video.requestVideoFrameCallback(onVideoFrame);
+      watchForStall();
+      video.play().catch((error) => {
+        // Autoplay rules or a removed source; the rest is captured by seeking
+        logger.warn('[PlaybackCapture] Could not start playback', { error });
+        this.canPlay = false;
+        finish();
+      });
+    });
+  }
+}
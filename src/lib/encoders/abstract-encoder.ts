@@ -3,6 +3,18 @@
  * Provides a unified API for different encoding libraries
  */
 
+import type { QualityReport } from './quality-metrics';
+
+export type OutputFormat = 'gif' | 'mp4' | 'webp' | 'apng';
+
+// APNG is saved as .png so it opens in tools that don't know the .apng extension
+export const OUTPUT_FILE_EXTENSIONS: Record<OutputFormat, string> = {
+  gif: 'gif',
+  mp4: 'mp4',
+  webp: 'webp',
+  apng: 'png',
+};
+
 export interface EncodingProgress {
   stage: 'preparing' | 'encoding' | 'finalizing' | 'completed';
   frameIndex?: number;
@@ -22,26 +34,55 @@ export interface EncodingResult {
     fileSize: number;
     encodingTime: number;
     averageFrameTime: number;
-    format: 'gif' | 'mp4';
+    format: OutputFormat;
     encoder: string;
+    duration?: number; // Playback time written, in ms, where delays are rounded (GIF)
+    requestedDuration?: number; // Playback time the frame delays asked for, in ms
   };
   performance: {
     success: boolean;
     efficiency: number;
     recommendations: string[];
     peakMemoryUsage: number;
+    quality?: QualityReport; // Decoded output against the source frames, when measured
   };
 }
 
+// How GIF palettes are assigned: one for the clip, one per frame, or one per detected scene
+export type PaletteStrategy = 'global' | 'per-frame' | 'auto';
+
+// GIF dithering: error diffusion kernels or ordered Bayer matrices
+export type DitheringAlgorithm =
+  | 'none'
+  | 'floyd-steinberg'
+  | 'atkinson'
+  | 'sierra-lite'
+  | 'bayer4'
+  | 'bayer8';
+
+// GIF: one fixed palette for every frame instead of quantizing the clip
+export type LockedPalette =
+  | { type: 'frame'; frameIndex: number } // Quantized from this frame
+  | { type: 'colors'; colors: string[] }; // Hex colours such as '#ff6600'
+
 export interface EncodingOptions {
   width: number;
   height: number;
   frameRate: number;
   quality: 'low' | 'medium' | 'high' | number;
   loop: boolean;
-  dithering?: boolean;
+  loopCount?: number; // Times the animation plays, 0 = forever; overrides loop when set
+  dithering?: boolean | DitheringAlgorithm; // true means Floyd-Steinberg
+  ditherStrength?: number; // 0 to 1 (default 1)
   optimizeColors?: boolean;
   backgroundColor?: string;
+  lossless?: boolean;
+  paletteStrategy?: PaletteStrategy;
+  frameDelta?: boolean; // GIF: write only changed sub-rectangles over the previous frame (default on)
+  maxColors?: number; // GIF: palette size per quantized palette, 2-256 (default 256)
+  lockedPalette?: LockedPalette; // GIF: overrides paletteStrategy
+  lossiness?: number; // GIF: 0 (exact) to 100; higher treats larger pixel changes as unchanged
+  measureQuality?: boolean; // GIF, whole clips: decode the output and report PSNR, SSIM, banding
 }
 
 export interface FrameData {
@@ -50,6 +91,26 @@ export interface FrameData {
   delay?: number;
 }
 
+/**
+ * Times an animation plays, 0 meaning forever
+ */
+export function getPlayCount(options: Pick<EncodingOptions, 'loop' | 'loopCount'>): number {
+  if (options.loopCount !== undefined) {
+    return Math.max(0, Math.round(options.loopCount));
+  }
+  return options.loop ? 0 : 1;
+}
+
+/**
+ * Incremental encode: frames are added as they are captured and can be
+ * released as soon as addFrame resolves
+ */
+export interface FrameSink {
+  addFrame(frame: FrameData): Promise<void>;
+  finish(): Promise<EncodingResult>;
+  abort(): void;
+}
+
 export abstract class AbstractEncoder {
   protected isEncoding = false;
   protected abortController: AbortController | null = null;
@@ -105,7 +166,7 @@ export abstract class AbstractEncoder {
   /**
    * Get supported formats
    */
-  abstract get supportedFormats(): Array<'gif' | 'mp4'>;
+  abstract get supportedFormats(): OutputFormat[];
 
   /**
    * Get performance characteristics
@@ -0,0 +1,321 @@
+/**
+ * Animated PNG (APNG) encoder - 24-bit colour with true 8-bit alpha
+ * Writes acTL/fcTL/fdAT chunks around adaptively filtered, deflated RGBA frames
+ */
+
+import {
+  AbstractEncoder,
+  EncodingOptions,
+  EncodingResult,
+  EncodingProgress,
+  FrameData,
+  OutputFormat,
+  getPlayCount,
+} from './abstract-encoder';
+import { crc32 } from './crc32';
+import { zlibDeflate } from './deflate';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const BYTES_PER_PIXEL = 4;
+const COLOR_TYPE_RGBA = 6;
+
+// fcTL dispose/blend operations
+const APNG_DISPOSE_OP_NONE = 0;
+const APNG_BLEND_OP_SOURCE = 0;
+
+// PNG row filter types
+const FILTER_NONE = 0;
+const FILTER_SUB = 1;
+const FILTER_UP = 2;
+const FILTER_AVERAGE = 3;
+const FILTER_PAETH = 4;
+
+/**
+ * Serialise a PNG chunk: length, type, data, CRC over type + data
+ */
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk, 4, data.length + 8));
+  return chunk;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const p = left + up - upLeft;
+  const pLeft = Math.abs(p - left);
+  const pUp = Math.abs(p - up);
+  const pUpLeft = Math.abs(p - upLeft);
+  if (pLeft <= pUp && pLeft <= pUpLeft) return left;
+  return pUp <= pUpLeft ? up : upLeft;
+}
+
+export class ApngEncoder extends AbstractEncoder {
+  get name(): string {
+    return 'apng';
+  }
+
+  get supportedFormats(): OutputFormat[] {
+    return ['apng'];
+  }
+
+  get characteristics() {
+    return {
+      speed: 'slow' as const,
+      quality: 'high' as const,
+      memoryUsage: 'medium' as const,
+      browserSupport: 'excellent' as const,
+    };
+  }
+
+  isAvailable(): boolean {
+    // Pure TypeScript, no platform dependencies
+    return true;
+  }
+
+  async initialize(): Promise<void> {
+    // No initialization needed
+  }
+
+  async encode(
+    frames: FrameData[],
+    options: EncodingOptions,
+    onProgress?: (progress: EncodingProgress) => void,
+    abortSignal?: AbortSignal
+  ): Promise<EncodingResult> {
+    if (this.isEncoding) {
+      throw new Error('Encoding already in progress');
+    }
+    if (frames.length === 0) {
+      throw new Error('No frames to encode');
+    }
+
+    this.isEncoding = true;
+    this.progressCallback = onProgress;
+    this.abortController = new AbortController();
+    if (abortSignal?.aborted) {
+      this.abortController.abort();
+    }
+    const onAbort = () => this.abortController?.abort();
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+    this.startTime = performance.now();
+    this.frameCount = frames.length;
+
+    try {
+      return await this.performEncoding(frames, options);
+    } finally {
+      abortSignal?.removeEventListener('abort', onAbort);
+      this.cleanup();
+    }
+  }
+
+  private async performEncoding(
+    frames: FrameData[],
+    options: EncodingOptions
+  ): Promise<EncodingResult> {
+    this.reportProgress('preparing', 0, 'Initializing APNG encoder');
+
+    const { width, height } = options;
+    const maxChainLength = this.mapQualityToChainLength(options.quality);
+    const defaultDelay = 1000 / options.frameRate;
+    const chunks: Uint8Array[] = [Uint8Array.from(PNG_SIGNATURE), this.createHeader(width, height)];
+
+    // num_plays 0 means loop forever
+    const actl = new DataView(new ArrayBuffer(8));
+    actl.setUint32(0, frames.length);
+    actl.setUint32(4, getPlayCount(options));
+    chunks.push(createChunk('acTL', new Uint8Array(actl.buffer)));
+
+    this.reportProgress('preparing', 10, 'Encoding frames');
+
+    let sequenceNumber = 0;
+
+    for (let i = 0; i < frames.length; i++) {
+      if (this.abortController?.signal.aborted) {
+        throw new Error('Encoding cancelled');
+      }
+
+      const { imageData, delay } = frames[i];
+      if (imageData.width !== width || imageData.height !== height) {
+        throw new Error(
+          `Frame ${i} is ${imageData.width}x${imageData.height}, expected ${width}x${height}`
+        );
+      }
+
+      chunks.push(
+        createChunk(
+          'fcTL',
+          this.createFrameControl(sequenceNumber++, width, height, delay ?? defaultDelay)
+        )
+      );
+
+      const filtered = this.filterImage(imageData.data, width, height);
+      const compressed = zlibDeflate(filtered, { maxChainLength });
+
+      if (i === 0) {
+        // The first frame doubles as the default image for non-APNG decoders
+        chunks.push(createChunk('IDAT', compressed));
+      } else {
+        const fdat = new Uint8Array(compressed.length + 4);
+        new DataView(fdat.buffer).setUint32(0, sequenceNumber++);
+        fdat.set(compressed, 4);
+        chunks.push(createChunk('fdAT', fdat));
+      }
+
+      const progress = 10 + Math.round(((i + 1) / frames.length) * 80);
+      this.reportProgress('encoding', progress, `Encoding frame ${i + 1}/${frames.length}`);
+
+      // Yield so cancellation and progress updates get a chance to run
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    this.reportProgress('finalizing', 90, 'Writing APNG container');
+    chunks.push(createChunk('IEND', new Uint8Array(0)));
+
+    const blob = new Blob(chunks as BlobPart[], { type: 'image/png' });
+    const encodingTime = performance.now() - this.startTime;
+
+    this.reportProgress('completed', 100, 'Encoding complete');
+
+    return {
+      blob,
+      metadata: {
+        width,
+        height,
+        frameCount: frames.length,
+        fileSize: blob.size,
+        encodingTime,
+        averageFrameTime: encodingTime / frames.length,
+        format: 'apng',
+        encoder: this.name,
+      },
+      performance: {
+        success: true,
+        efficiency: Math.min(1, 5000 / encodingTime),
+        recommendations:
+          encodingTime > 5000
+            ? ['APNG is lossless; reduce resolution or frame count for faster encoding']
+            : [],
+        peakMemoryUsage: width * height * BYTES_PER_PIXEL * 3,
+      },
+    };
+  }
+
+  private createHeader(width: number, height: number): Uint8Array {
+    const ihdr = new DataView(new ArrayBuffer(13));
+    ihdr.setUint32(0, width);
+    ihdr.setUint32(4, height);
+    ihdr.setUint8(8, 8); // bit depth
+    ihdr.setUint8(9, COLOR_TYPE_RGBA);
+    // compression, filter and interlace methods are all 0
+    return createChunk('IHDR', new Uint8Array(ihdr.buffer));
+  }
+
+  private createFrameControl(
+    sequenceNumber: number,
+    width: number,
+    height: number,
+    delayMs: number
+  ): Uint8Array {
+    const fctl = new DataView(new ArrayBuffer(26));
+    fctl.setUint32(0, sequenceNumber);
+    fctl.setUint32(4, width);
+    fctl.setUint32(8, height);
+    fctl.setUint32(12, 0); // x_offset
+    fctl.setUint32(16, 0); // y_offset
+    fctl.setUint16(20, Math.min(0xffff, Math.round(delayMs))); // delay_num
+    fctl.setUint16(22, 1000); // delay_den: milliseconds
+    fctl.setUint8(24, APNG_DISPOSE_OP_NONE);
+    fctl.setUint8(25, APNG_BLEND_OP_SOURCE);
+    return new Uint8Array(fctl.buffer);
+  }
+
+  /**
+   * Apply PNG row filters, picking per row the filter with the smallest
+   * sum of absolute residuals (the heuristic recommended by the PNG spec)
+   */
+  private filterImage(pixels: Uint8ClampedArray, width: number, height: number): Uint8Array {
+    const stride = width * BYTES_PER_PIXEL;
+    const zeroRow = new Uint8Array(stride);
+    const output = new Uint8Array((stride + 1) * height);
+    const candidates = [1, 2, 3, 4].map(() => new Uint8Array(stride));
+
+    for (let y = 0; y < height; y++) {
+      const rowStart = y * stride;
+      const row = pixels.subarray(rowStart, rowStart + stride);
+      const up = y > 0 ? pixels.subarray(rowStart - stride, rowStart) : zeroRow;
+
+      let bestFilter = FILTER_NONE;
+      let bestRow: ArrayLike<number> = row;
+      let bestScore = this.scoreRow(row);
+
+      for (let filter = FILTER_SUB; filter <= FILTER_PAETH; filter++) {
+        const target = candidates[filter - 1];
+        for (let x = 0; x < stride; x++) {
+          const left = x >= BYTES_PER_PIXEL ? row[x - BYTES_PER_PIXEL] : 0;
+          const upLeft = x >= BYTES_PER_PIXEL ? up[x - BYTES_PER_PIXEL] : 0;
+          let predictor: number;
+          switch (filter) {
+            case FILTER_SUB:
+              predictor = left;
+              break;
+            case FILTER_UP:
+              predictor = up[x];
+              break;
+            case FILTER_AVERAGE:
+              predictor = (left + up[x]) >>> 1;
+              break;
+            default:
+              predictor = paeth(left, up[x], upLeft);
+          }
+          target[x] = (row[x] - predictor) & 0xff;
+        }
+
+        const score = this.scoreRow(target);
+        if (score < bestScore) {
+          bestScore = score;
+          bestFilter = filter;
+          bestRow = target;
+        }
+      }
+
+      const outStart = y * (stride + 1);
+      output[outStart] = bestFilter;
+      output.set(bestRow, outStart + 1);
+    }
+
+    return output;
+  }
+
+  private scoreRow(row: ArrayLike<number>): number {
+    let sum = 0;
+    for (let i = 0; i < row.length; i++) {
+      // Treat bytes as signed so small negative residuals score low
+      const value = row[i];
+      sum += value < 128 ? value : 256 - value;
+    }
+    return sum;
+  }
+
+  private mapQualityToChainLength(quality: EncodingOptions['quality']): number {
+    if (typeof quality === 'number') {
+      // Numeric quality follows the gif.js convention: 1 (best) to 30 (worst)
+      const clamped = Math.max(1, Math.min(30, quality));
+      return Math.round(256 - ((clamped - 1) / 29) * 240);
+    }
+
+    switch (quality) {
+      case 'low':
+        return 16;
+      case 'high':
+        return 256;
+      case 'medium':
+      default:
+        return 64;
+    }
+  }
+}
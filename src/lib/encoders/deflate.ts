@@ -0,0 +1,229 @@
+/**
+ * Small zlib (RFC 1950) / deflate (RFC 1951) compressor
+ * LZ77 with hash chains and fixed Huffman codes; enough for PNG image data
+ */
+
+const WINDOW_SIZE = 32768;
+const WINDOW_MASK = WINDOW_SIZE - 1;
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const END_OF_BLOCK = 256;
+
+const LENGTH_BASES = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+  163, 195, 227, 258,
+];
+const LENGTH_EXTRA_BITS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DISTANCE_BASES = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+  3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA_BITS = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+
+export interface DeflateOptions {
+  // Longest hash chain to search per position; higher compresses better but slower
+  maxChainLength?: number;
+}
+
+// Lookup tables mapping match lengths (3..258) and distances to their deflate codes
+const LENGTH_CODES = buildCodeLookup(LENGTH_BASES, MAX_MATCH + 1);
+const DISTANCE_CODES = buildCodeLookup(DISTANCE_BASES, WINDOW_SIZE + 1);
+
+function buildCodeLookup(bases: number[], size: number): Uint8Array {
+  const lookup = new Uint8Array(size);
+  let code = 0;
+  for (let value = bases[0]; value < size; value++) {
+    while (code + 1 < bases.length && bases[code + 1] <= value) code++;
+    lookup[value] = code;
+  }
+  return lookup;
+}
+
+function reverseBits(value: number, length: number): number {
+  let result = 0;
+  for (let i = 0; i < length; i++) {
+    result = (result << 1) | (value & 1);
+    value >>>= 1;
+  }
+  return result;
+}
+
+class BitWriter {
+  private buffer: Uint8Array;
+  private position = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(initialSize: number) {
+    this.buffer = new Uint8Array(Math.max(1024, initialSize));
+  }
+
+  writeBits(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.writeByte(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  // Huffman codes are stored most-significant bit first
+  writeCode(code: number, length: number): void {
+    this.writeBits(reverseBits(code, length), length);
+  }
+
+  writeByte(value: number): void {
+    if (this.position === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.position++] = value;
+  }
+
+  flush(): void {
+    if (this.bitCount > 0) {
+      this.writeByte(this.bitBuffer & 0xff);
+      this.bitBuffer = 0;
+      this.bitCount = 0;
+    }
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.position);
+  }
+}
+
+function writeLiteral(writer: BitWriter, symbol: number): void {
+  // Fixed Huffman literal/length code (RFC 1951 section 3.2.6)
+  if (symbol < 144) {
+    writer.writeCode(0x30 + symbol, 8);
+  } else if (symbol < 256) {
+    writer.writeCode(0x190 + symbol - 144, 9);
+  } else if (symbol < 280) {
+    writer.writeCode(symbol - 256, 7);
+  } else {
+    writer.writeCode(0xc0 + symbol - 280, 8);
+  }
+}
+
+function writeMatch(writer: BitWriter, length: number, distance: number): void {
+  const lengthCode = LENGTH_CODES[length];
+  writeLiteral(writer, 257 + lengthCode);
+  writer.writeBits(length - LENGTH_BASES[lengthCode], LENGTH_EXTRA_BITS[lengthCode]);
+
+  const distanceCode = DISTANCE_CODES[distance];
+  writer.writeCode(distanceCode, 5);
+  writer.writeBits(distance - DISTANCE_BASES[distanceCode], DISTANCE_EXTRA_BITS[distanceCode]);
+}
+
+function hashAt(data: Uint8Array, index: number): number {
+  return ((data[index] << 10) ^ (data[index + 1] << 5) ^ data[index + 2]) & (HASH_SIZE - 1);
+}
+
+/**
+ * Compress to a raw deflate stream (single fixed-Huffman block)
+ */
+function deflateRaw(data: Uint8Array, writer: BitWriter, maxChainLength: number): void {
+  writer.writeBits(1, 1); // BFINAL
+  writer.writeBits(1, 2); // BTYPE = fixed Huffman
+
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE).fill(-1);
+  const length = data.length;
+
+  const insert = (index: number) => {
+    const hash = hashAt(data, index);
+    prev[index & WINDOW_MASK] = head[hash];
+    head[hash] = index;
+  };
+
+  let i = 0;
+  while (i < length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (i + MIN_MATCH <= length) {
+      const maxLength = Math.min(MAX_MATCH, length - i);
+      let candidate = head[hashAt(data, i)];
+      let chain = maxChainLength;
+
+      while (candidate >= 0 && i - candidate <= WINDOW_SIZE && chain-- > 0) {
+        if (data[candidate + bestLength] === data[i + bestLength]) {
+          let matchLength = 0;
+          while (
+            matchLength < maxLength &&
+            data[candidate + matchLength] === data[i + matchLength]
+          ) {
+            matchLength++;
+          }
+          if (matchLength > bestLength) {
+            bestLength = matchLength;
+            bestDistance = i - candidate;
+            if (matchLength === maxLength) break;
+          }
+        }
+        const next = prev[candidate & WINDOW_MASK];
+        if (next >= candidate) break;
+        candidate = next;
+      }
+      insert(i);
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance);
+      const end = i + bestLength;
+      for (i++; i < end; i++) {
+        if (i + MIN_MATCH <= length) insert(i);
+      }
+    } else {
+      writeLiteral(writer, data[i]);
+      i++;
+    }
+  }
+
+  writeLiteral(writer, END_OF_BLOCK);
+  writer.flush();
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  // 5552 is the largest block that cannot overflow before the modulo
+  for (let offset = 0; offset < data.length; offset += 5552) {
+    const end = Math.min(offset + 5552, data.length);
+    for (let i = offset; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Compress data into a zlib stream, as required by PNG IDAT/fdAT chunks
+ */
+export function zlibDeflate(data: Uint8Array, options: DeflateOptions = {}): Uint8Array {
+  const writer = new BitWriter(Math.ceil(data.length / 2) + 16);
+  writer.writeByte(0x78); // CM = deflate, 32K window
+  writer.writeByte(0x9c); // default compression level, FCHECK
+
+  deflateRaw(data, writer, options.maxChainLength ?? 64);
+
+  const checksum = adler32(data);
+  writer.writeByte(checksum >>> 24);
+  writer.writeByte((checksum >>> 16) & 0xff);
+  writer.writeByte((checksum >>> 8) & 0xff);
+  writer.writeByte(checksum & 0xff);
+
+  return writer.toUint8Array();
+}
@@ -0,0 +1,226 @@
+/**
+ * Palette mapping with dithering for GIF encoding
+ * Error diffusion (Floyd-Steinberg, Atkinson, Sierra Lite) and ordered
+ * Bayer dithering trade a little noise for far less banding in gradients
+ */
+
+import type { DitheringAlgorithm } from './abstract-encoder';
+
+// [dx, dy, weight] neighbours that receive a share of the quantization error
+type DiffusionKernel = Array<[number, number, number]>;
+
+const DIFFUSION_KERNELS: Record<'floyd-steinberg' | 'atkinson' | 'sierra-lite', DiffusionKernel> = {
+  'floyd-steinberg': [
+    [1, 0, 7 / 16],
+    [-1, 1, 3 / 16],
+    [0, 1, 5 / 16],
+    [1, 1, 1 / 16],
+  ],
+  // Atkinson only diffuses 6/8 of the error, keeping highlights and shadows clean
+  atkinson: [
+    [1, 0, 1 / 8],
+    [2, 0, 1 / 8],
+    [-1, 1, 1 / 8],
+    [0, 1, 1 / 8],
+    [1, 1, 1 / 8],
+    [0, 2, 1 / 8],
+  ],
+  'sierra-lite': [
+    [1, 0, 2 / 4],
+    [-1, 1, 1 / 4],
+    [0, 1, 1 / 4],
+  ],
+};
+
+const BAYER_4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+
+const BAYER_8 = [
+  [0, 32, 8, 40, 2, 34, 10, 42],
+  [48, 16, 56, 24, 50, 18, 58, 26],
+  [12, 44, 4, 36, 14, 46, 6, 38],
+  [60, 28, 52, 20, 62, 30, 54, 22],
+  [3, 35, 11, 43, 1, 33, 9, 41],
+  [51, 19, 59, 27, 49, 17, 57, 25],
+  [15, 47, 7, 39, 13, 45, 5, 37],
+  [63, 31, 55, 23, 61, 29, 53, 21],
+];
+
+export interface DitherOptions {
+  algorithm: DitheringAlgorithm;
+  strength?: number; // 0 (none) to 1 (full), default 1
+  // Position of the pixels within the full frame, so ordered patterns stay
+  // aligned when only a sub-rectangle is mapped
+  offsetX?: number;
+  offsetY?: number;
+}
+
+/**
+ * Resolve the EncodingOptions.dithering value; `true` keeps its old meaning
+ * of "dither with the default algorithm"
+ */
+export function resolveDitheringAlgorithm(
+  dithering: boolean | DitheringAlgorithm | undefined
+): DitheringAlgorithm {
+  if (dithering === true) return 'floyd-steinberg';
+  if (!dithering) return 'none';
+  return dithering;
+}
+
+/**
+ * Nearest palette entry lookup, cached by 5-6-5 bit colour
+ */
+function createNearestColorLookup(
+  palette: number[][]
+): (r: number, g: number, b: number) => number {
+  const cache = new Int16Array(1 << 16).fill(-1);
+
+  return (r, g, b) => {
+    const key = ((r >> 3) << 11) | ((g >> 2) << 5) | (b >> 3);
+    const cached = cache[key];
+    if (cached >= 0) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      const dr = palette[i][0] - r;
+      const dg = palette[i][1] - g;
+      const db = palette[i][2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+}
+
+function clampChannel(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+function diffuseError(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: number[][],
+  kernel: DiffusionKernel,
+  strength: number
+): Uint8Array {
+  const nearest = createNearestColorLookup(palette);
+  const indices = new Uint8Array(width * height);
+  // Working copy that accumulates diffused error
+  const working = new Float32Array(width * height * 3);
+  for (let p = 0; p < width * height; p++) {
+    working[p * 3] = pixels[p * 4];
+    working[p * 3 + 1] = pixels[p * 4 + 1];
+    working[p * 3 + 2] = pixels[p * 4 + 2];
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const r = clampChannel(working[p * 3]);
+      const g = clampChannel(working[p * 3 + 1]);
+      const b = clampChannel(working[p * 3 + 2]);
+      const index = nearest(r, g, b);
+      indices[p] = index;
+
+      const color = palette[index];
+      const errorR = (r - color[0]) * strength;
+      const errorG = (g - color[1]) * strength;
+      const errorB = (b - color[2]) * strength;
+
+      for (const [dx, dy, weight] of kernel) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny >= height) continue;
+        const n = (ny * width + nx) * 3;
+        working[n] += errorR * weight;
+        working[n + 1] += errorG * weight;
+        working[n + 2] += errorB * weight;
+      }
+    }
+  }
+
+  return indices;
+}
+
+function orderedDither(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: number[][],
+  matrix: number[][],
+  strength: number,
+  offsetX: number,
+  offsetY: number
+): Uint8Array {
+  const nearest = createNearestColorLookup(palette);
+  const size = matrix.length;
+  const levels = size * size;
+  // Offsets span roughly one palette step: an evenly spread palette has
+  // cbrt(n) levels per channel
+  const spread = (255 / Math.cbrt(palette.length)) * strength;
+  const indices = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const row = matrix[(y + offsetY) % size];
+    for (let x = 0; x < width; x++) {
+      const offset = ((row[(x + offsetX) % size] + 0.5) / levels - 0.5) * spread;
+      const i = (y * width + x) * 4;
+      indices[y * width + x] = nearest(
+        clampChannel(pixels[i] + offset),
+        clampChannel(pixels[i + 1] + offset),
+        clampChannel(pixels[i + 2] + offset)
+      );
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Map RGBA pixels to palette indices with the chosen dithering algorithm.
+ * Returns null for 'none' so callers can use their plain nearest-colour path.
+ */
+export function ditherToPalette(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: number[][],
+  options: DitherOptions
+): Uint8Array | null {
+  const strength = Math.max(0, Math.min(1, options.strength ?? 1));
+  if (options.algorithm === 'none' || strength === 0) return null;
+
+  switch (options.algorithm) {
+    case 'bayer4':
+    case 'bayer8':
+      return orderedDither(
+        pixels,
+        width,
+        height,
+        palette,
+        options.algorithm === 'bayer4' ? BAYER_4 : BAYER_8,
+        strength,
+        options.offsetX ?? 0,
+        options.offsetY ?? 0
+      );
+    default:
+      return diffuseError(
+        pixels,
+        width,
+        height,
+        palette,
+        DIFFUSION_KERNELS[options.algorithm],
+        strength
+      );
+  }
+}
@@ -3,12 +3,23 @@
  * Handles feature detection and fallback strategies
  */
 
-import { AbstractEncoder } from './abstract-encoder';
+import { logger } from '@/lib/logger';
+import {
+  AbstractEncoder,
+  DitheringAlgorithm,
+  EncodingOptions,
+  FrameData,
+  OutputFormat,
+} from './abstract-encoder';
 import { GifencEncoder } from './gifenc-encoder';
 import { GifJsEncoder } from './gifjs-encoder';
+import { WebCodecsMp4Encoder } from './webcodecs-mp4-encoder';
+import { WebpEncoder } from './webp-encoder';
+import { ApngEncoder } from './apng-encoder';
+import type { QualityReport } from './quality-metrics';
 
-export type EncoderType = 'gifenc' | 'gif.js' | 'auto';
-export type FormatType = 'gif' | 'mp4';
+export type EncoderType = 'gifenc' | 'gif.js' | 'webcodecs' | 'webp' | 'apng' | 'auto';
+export type FormatType = OutputFormat;
 
 export interface EncoderPreference {
   primary: EncoderType;
@@ -27,10 +38,39 @@ export interface EncoderSelection {
   };
 }
 
+// One trial encode from a quality comparison
+export interface QualityTrial {
+  encoder: EncoderType;
+  dithering: DitheringAlgorithm;
+  quality: QualityReport;
+  fileSize: number;
+  score: number; // SSIM less a banding penalty; higher is better
+}
+
+// Encoder and dithering pairs tried when choosing a GIF encoder by measured quality
+const QUALITY_CANDIDATES: Array<Pick<QualityTrial, 'encoder' | 'dithering'>> = [
+  { encoder: 'gifenc', dithering: 'none' },
+  { encoder: 'gifenc', dithering: 'floyd-steinberg' },
+  { encoder: 'gifenc', dithering: 'bayer4' },
+  { encoder: 'gif.js', dithering: 'none' },
+  { encoder: 'gif.js', dithering: 'floyd-steinberg' },
+];
+const QUALITY_SAMPLE_FRAMES = 3;
+const BANDING_PENALTY = 2; // Score lost per unit of banding score
+const QUALITY_TIE = 0.005; // Scores this close are a tie, settled by file size
+
+// Formats served by a single dedicated encoder rather than the GIF selection chain
+const DEDICATED_FORMAT_ENCODERS: Partial<Record<FormatType, EncoderType>> = {
+  mp4: 'webcodecs',
+  webp: 'webp',
+  apng: 'apng',
+};
+
 export class EncoderFactory {
   private static instance: EncoderFactory;
   private availabilityCache = new Map<string, boolean>();
   private encoderInstances = new Map<string, AbstractEncoder>();
+  private measuredGifEncoder: EncoderType | null = null; // Winner of the last quality comparison
 
   static getInstance(): EncoderFactory {
     if (!EncoderFactory.instance) {
@@ -46,8 +86,9 @@ export class EncoderFactory {
     const format = preference.format;
     
     // Handle different format types
-    if (format === 'mp4') {
-      throw new Error(`Format ${format} not yet supported`);
+    const dedicatedEncoder = DEDICATED_FORMAT_ENCODERS[format];
+    if (dedicatedEncoder) {
+      return this.getDedicatedEncoder(dedicatedEncoder, preference);
     }
 
     let selectedEncoder: AbstractEncoder | null = null;
@@ -56,9 +97,15 @@ export class EncoderFactory {
     // Try primary encoder first
     if (preference.primary === 'auto') {
       selectedEncoder = await this.selectBestGifEncoder();
-      selectionReason = 'Auto-selected based on performance characteristics';
+      selectionReason =
+        this.measuredGifEncoder && selectedEncoder?.name === this.measuredGifEncoder
+          ? 'Auto-selected by measured output quality'
+          : 'Auto-selected based on performance characteristics';
     } else {
       selectedEncoder = await this.getSpecificEncoder(preference.primary);
+      if (selectedEncoder && !selectedEncoder.supportedFormats.includes(format)) {
+        selectedEncoder = null;
+      }
       if (selectedEncoder) {
         selectionReason = `User preference: ${preference.primary}`;
       }
@@ -67,6 +114,9 @@ export class EncoderFactory {
     // Fallback to secondary encoder if primary failed
     if (!selectedEncoder && preference.fallback) {
       selectedEncoder = await this.getSpecificEncoder(preference.fallback);
+      if (selectedEncoder && !selectedEncoder.supportedFormats.includes(format)) {
+        selectedEncoder = null;
+      }
       if (selectedEncoder) {
         selectionReason = `Fallback to ${preference.fallback} (primary unavailable)`;
       }
@@ -89,6 +139,30 @@ export class EncoderFactory {
     };
   }
 
+  /**
+   * Get the encoder for a format that has exactly one backend (MP4, WebP, APNG)
+   */
+  private async getDedicatedEncoder(
+    type: EncoderType,
+    preference: EncoderPreference
+  ): Promise<EncoderSelection> {
+    const formatLabel = preference.format.toUpperCase();
+    const encoder = await this.getSpecificEncoder(type);
+
+    if (!encoder) {
+      throw new Error(`No ${formatLabel} encoder available in this environment`);
+    }
+
+    return {
+      encoder,
+      reason:
+        preference.primary === type
+          ? `User preference: ${type}`
+          : `${type} selected for ${formatLabel} output`,
+      characteristics: encoder.characteristics,
+    };
+  }
+
   /**
    * Get a specific encoder by name
    */
@@ -113,6 +187,15 @@ export class EncoderFactory {
       case 'gif.js':
         encoder = new GifJsEncoder();
         break;
+      case 'webcodecs':
+        encoder = new WebCodecsMp4Encoder();
+        break;
+      case 'webp':
+        encoder = new WebpEncoder();
+        break;
+      case 'apng':
+        encoder = new ApngEncoder();
+        break;
       default:
         throw new Error(`Unknown encoder type: ${type}`);
     }
@@ -139,8 +222,12 @@ export class EncoderFactory {
    * Automatically select the best GIF encoder based on environment and performance
    */
   private async selectBestGifEncoder(): Promise<AbstractEncoder | null> {
-    // Priority order: gifenc (fast) -> gif.js (compatible)
+    // Priority order: gifenc (fast) -> gif.js (compatible), led by the
+    // winner of a quality comparison when one has run
     const encoderPriority: EncoderType[] = ['gifenc', 'gif.js'];
+    if (this.measuredGifEncoder) {
+      encoderPriority.unshift(this.measuredGifEncoder);
+    }
 
     for (const encoderType of encoderPriority) {
       const encoder = await this.getSpecificEncoder(encoderType);
@@ -153,6 +240,66 @@ export class EncoderFactory {
     return null;
   }
 
+  /**
+   * Trial-encode a few sample frames with each GIF encoder and dithering
+   * pair, decode the results and rank them by measured quality, best first.
+   * Near-ties go to the smaller file. The best encoder is then preferred
+   * for 'auto' selection.
+   */
+  async compareGifEncoders(frames: FrameData[], options: EncodingOptions): Promise<QualityTrial[]> {
+    const samples = this.pickQualitySamples(frames);
+    const trials: QualityTrial[] = [];
+
+    for (const candidate of QUALITY_CANDIDATES) {
+      const encoder = await this.getSpecificEncoder(candidate.encoder);
+      if (!encoder) continue;
+
+      try {
+        const result = await encoder.encode(samples, {
+          ...options,
+          dithering: candidate.dithering,
+          measureQuality: true,
+        });
+        const quality = result.performance.quality;
+        if (!quality) continue;
+
+        trials.push({
+          ...candidate,
+          quality,
+          fileSize: result.metadata.fileSize,
+          score: quality.ssim - quality.banding * BANDING_PENALTY,
+        });
+      } catch (error) {
+        logger.warn('[EncoderFactory] Quality trial failed', {
+          encoder: candidate.encoder,
+          dithering: candidate.dithering,
+          error,
+        });
+      }
+    }
+
+    const bestScore = Math.max(...trials.map((trial) => trial.score));
+    const isTied = (trial: QualityTrial) => trial.score >= bestScore - QUALITY_TIE;
+    trials.sort((a, b) => {
+      if (isTied(a) !== isTied(b)) {
+        return isTied(a) ? -1 : 1;
+      }
+      return isTied(a) ? a.fileSize - b.fileSize : b.score - a.score;
+    });
+
+    this.measuredGifEncoder = trials[0]?.encoder ?? null;
+    return trials;
+  }
+
+  // Evenly spaced frames standing in for the clip in quality trials
+  private pickQualitySamples(frames: FrameData[]): FrameData[] {
+    const count = Math.min(QUALITY_SAMPLE_FRAMES, frames.length);
+    return Array.from({ length: count }, (_, index) => {
+      const frame = frames[Math.floor((index * frames.length) / count)];
+      return { ...frame, timestamp: index * 100, delay: 100 };
+    });
+  }
+
   /**
    * Get any available GIF encoder as ultimate fallback
    */
@@ -205,7 +352,7 @@ export class EncoderFactory {
     characteristics: AbstractEncoder['characteristics'];
     supportedFormats: string[];
   }>> {
-    const encoderTypes: EncoderType[] = ['gifenc', 'gif.js'];
+    const encoderTypes: EncoderType[] = ['gifenc', 'gif.js', 'webcodecs', 'webp', 'apng'];
     const results = [];
 
     for (const type of encoderTypes) {
@@ -321,6 +468,7 @@ export class EncoderFactory {
   clearCache(): void {
     this.availabilityCache.clear();
     this.encoderInstances.clear();
+    this.measuredGifEncoder = null;
   }
 
   private createEncoderInstance(type: EncoderType): AbstractEncoder {
@@ -329,6 +477,12 @@ export class EncoderFactory {
         return new GifencEncoder();
       case 'gif.js':
         return new GifJsEncoder();
+      case 'webcodecs':
+        return new WebCodecsMp4Encoder();
+      case 'webp':
+        return new WebpEncoder();
+      case 'apng':
+        return new ApngEncoder();
       default:
         throw new Error(`Unknown encoder type: ${type}`);
     }
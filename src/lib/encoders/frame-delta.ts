@@ -0,0 +1,98 @@
+/**
+ * Inter-frame differencing for GIF encoding
+ * Finds the region that changed since the previously displayed frame so only
+ * that sub-rectangle is written, with unchanged pixels left transparent
+ */
+
+// Largest per-channel difference still treated as "unchanged"; absorbs the
+// noise that video decoding adds to otherwise static areas
+const DELTA_TOLERANCE = 8;
+
+// Extra tolerance added at lossiness 100
+const MAX_LOSSY_TOLERANCE = 40;
+
+export interface FrameDelta {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // RGBA of the current frame cropped to the rectangle
+  changed: Uint8Array; // 1 per cropped pixel that must be drawn, 0 where transparency suffices
+}
+
+/**
+ * Per-channel tolerance for a lossiness setting from 0 (exact) to 100
+ */
+export function toleranceForLossiness(lossiness = 0): number {
+  const clamped = Math.max(0, Math.min(100, lossiness));
+  return DELTA_TOLERANCE + Math.round((clamped / 100) * MAX_LOSSY_TOLERANCE);
+}
+
+function pixelChanged(
+  displayed: Uint8ClampedArray,
+  current: Uint8ClampedArray,
+  i: number,
+  tolerance: number
+): boolean {
+  return (
+    Math.abs(displayed[i] - current[i]) > tolerance ||
+    Math.abs(displayed[i + 1] - current[i + 1]) > tolerance ||
+    Math.abs(displayed[i + 2] - current[i + 2]) > tolerance ||
+    Math.abs(displayed[i + 3] - current[i + 3]) > tolerance
+  );
+}
+
+/**
+ * Compare a frame against what is currently on screen. Returns null when
+ * nothing changed beyond the tolerance.
+ *
+ * `displayed` is updated in place with the pixels the delta draws, so
+ * differences are always measured against what the viewer sees and small
+ * changes cannot accumulate into visible drift.
+ */
+export function computeFrameDelta(
+  displayed: Uint8ClampedArray,
+  current: Uint8ClampedArray,
+  width: number,
+  height: number,
+  tolerance = DELTA_TOLERANCE
+): FrameDelta | null {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * width * 4;
+    for (let x = 0; x < width; x++) {
+      if (pixelChanged(displayed, current, rowStart + x * 4, tolerance)) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        maxY = y;
+      }
+    }
+  }
+
+  if (maxX < 0) return null;
+
+  const rectWidth = maxX - minX + 1;
+  const rectHeight = maxY - minY + 1;
+  const pixels = new Uint8ClampedArray(rectWidth * rectHeight * 4);
+  const changed = new Uint8Array(rectWidth * rectHeight);
+
+  for (let y = 0; y < rectHeight; y++) {
+    for (let x = 0; x < rectWidth; x++) {
+      const source = ((minY + y) * width + minX + x) * 4;
+      const target = y * rectWidth + x;
+      pixels.set(current.subarray(source, source + 4), target * 4);
+
+      if (pixelChanged(displayed, current, source, tolerance)) {
+        changed[target] = 1;
+        displayed.set(current.subarray(source, source + 4), source);
+      }
+    }
+  }
+
+  return { x: minX, y: minY, width: rectWidth, height: rectHeight, pixels, changed };
+}
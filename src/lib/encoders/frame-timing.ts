@@ -0,0 +1,33 @@
+/**
+ * Frame timing for GIF output
+ * GIF stores delays in centiseconds, so rates like 15, 24 or 30 fps cannot be
+ * represented exactly. Rounding each delay on its own drifts from the source
+ * duration; instead the rounding error is carried into the next frame
+ * (alternating 3 and 4 cs at 30 fps) so the total tracks the request.
+ */
+
+export const GIF_DELAY_UNIT_MS = 10;
+
+// Browsers replace GIF delays below 2 cs with 10 cs
+const MIN_GIF_DELAY_MS = 20;
+
+export class FrameDelayQuantizer {
+  requestedMs = 0; // Sum of the delays asked for
+  achievedMs = 0; // Sum of the delays written
+
+  constructor(
+    private unitMs = GIF_DELAY_UNIT_MS,
+    private minimumMs = MIN_GIF_DELAY_MS
+  ) {}
+
+  /**
+   * Delay to write for the next frame, a whole number of units
+   */
+  next(delayMs: number): number {
+    this.requestedMs += delayMs;
+    const units = Math.round((this.requestedMs - this.achievedMs) / this.unitMs);
+    const delay = Math.max(this.minimumMs, units * this.unitMs);
+    this.achievedMs += delay;
+    return delay;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * GIF89a block writers for frames whose image data is compressed outside
+ * gifenc (lossy LZW). Writes into gifenc's output stream so both paths can
+ * share one encoder instance.
+ */
+
+interface ByteStream {
+  writeByte(byte: number): void;
+  writeBytes(data: Uint8Array | number[], offset?: number, byteLength?: number): void;
+}
+
+export interface GifImageBlock {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  delay: number; // Milliseconds
+  dispose: number;
+  transparentIndex?: number;
+  localPalette?: number[][];
+  data: Uint8Array; // LZW image data including the minimum code size byte
+}
+
+// Application identifier and authentication code of the XMP extension
+export const XMP_APPLICATION_ID = 'XMP DataXMP';
+
+function writeUInt16(stream: ByteStream, value: number): void {
+  stream.writeByte(value & 0xff);
+  stream.writeByte((value >> 8) & 0xff);
+}
+
+/**
+ * Bits needed to index a palette, as stored in GIF colour table size fields
+ */
+export function colorTableBits(paletteLength: number): number {
+  return Math.max(1, Math.ceil(Math.log2(paletteLength)));
+}
+
+function writeColorTable(stream: ByteStream, palette: number[][]): void {
+  const size = 1 << colorTableBits(palette.length);
+  for (let i = 0; i < size; i++) {
+    const color = palette[i] ?? [0, 0, 0];
+    stream.writeBytes([color[0], color[1], color[2]]);
+  }
+}
+
+/**
+ * NETSCAPE repeat value for a play count (0 = forever). The extension counts
+ * repeats after the first play; a single play omits it.
+ */
+export function toGifRepeat(playCount: number): number {
+  return playCount === 0 ? 0 : playCount === 1 ? -1 : playCount - 1;
+}
+
+/**
+ * Logical screen descriptor, global colour table and NETSCAPE loop extension.
+ * `repeat` follows gifenc: -1 plays once, 0 loops forever.
+ */
+export function writeGifHeader(
+  stream: ByteStream,
+  width: number,
+  height: number,
+  palette: number[][],
+  repeat: number
+): void {
+  stream.writeBytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+  writeUInt16(stream, width);
+  writeUInt16(stream, height);
+  // Global colour table present, 8-bit colour resolution
+  stream.writeBytes([0x80 | (7 << 4) | (colorTableBits(palette.length) - 1), 0, 0]);
+  writeColorTable(stream, palette);
+
+  if (repeat >= 0) {
+    stream.writeBytes([0x21, 0xff, 11]);
+    stream.writeBytes(Array.from('NETSCAPE2.0', (char) => char.charCodeAt(0)));
+    stream.writeBytes([3, 1]);
+    writeUInt16(stream, repeat);
+    stream.writeByte(0);
+  }
+}
+
+/**
+ * Graphic control extension, image descriptor, optional local colour table
+ * and the compressed image data
+ */
+export function writeGifImage(stream: ByteStream, image: GifImageBlock): void {
+  const transparent = image.transparentIndex !== undefined;
+  stream.writeBytes([0x21, 0xf9, 4, ((image.dispose & 7) << 2) | (transparent ? 1 : 0)]);
+  writeUInt16(stream, Math.round(image.delay / 10));
+  stream.writeBytes([transparent ? image.transparentIndex! : 0, 0]);
+
+  stream.writeByte(0x2c);
+  writeUInt16(stream, image.x);
+  writeUInt16(stream, image.y);
+  writeUInt16(stream, image.width);
+  writeUInt16(stream, image.height);
+  if (image.localPalette) {
+    stream.writeByte(0x80 | (colorTableBits(image.localPalette.length) - 1));
+    writeColorTable(stream, image.localPalette);
+  } else {
+    stream.writeByte(0);
+  }
+
+  stream.writeBytes(image.data);
+}
+
+/**
+ * Comment extension, split into data sub-blocks of up to 255 bytes
+ */
+export function writeGifComment(stream: ByteStream, text: Uint8Array): void {
+  stream.writeBytes([0x21, 0xfe]);
+  writeSubBlocks(stream, text);
+}
+
+/**
+ * XMP application extension. Adobe's layout writes the packet raw, followed
+ * by a 257-byte "magic trailer" (0x01, 0xff ... 0x00) that makes decoders
+ * reading it as sub-blocks land on the block terminator.
+ */
+export function writeXmpExtension(stream: ByteStream, packet: Uint8Array): void {
+  stream.writeBytes([0x21, 0xff, 11]);
+  stream.writeBytes(Array.from(XMP_APPLICATION_ID, (char) => char.charCodeAt(0)));
+  stream.writeBytes(packet);
+  stream.writeByte(1);
+  for (let byte = 0xff; byte >= 0; byte--) {
+    stream.writeByte(byte);
+  }
+  stream.writeByte(0);
+}
+
+function writeSubBlocks(stream: ByteStream, data: Uint8Array): void {
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const length = Math.min(255, data.length - offset);
+    stream.writeByte(length);
+    stream.writeBytes(data, offset, length);
+  }
+  stream.writeByte(0);
+}
@@ -0,0 +1,347 @@
+/**
+ * GIF decoder
+ * Parses a GIF into full-canvas RGBA frames as a viewer would show them:
+ * LZW image data, interlacing, global and local palettes, transparency and
+ * the three disposal methods
+ */
+
+import type { FrameData } from './abstract-encoder';
+
+export interface DecodedGifFrame {
+  pixels: Uint8ClampedArray<ArrayBuffer>; // Whole canvas, RGBA, while this frame is shown
+  delay: number; // ms
+}
+
+export interface DecodedGif {
+  width: number;
+  height: number;
+  playCount: number; // Times the animation plays, 0 = forever
+  frames: DecodedGifFrame[];
+}
+
+const EXTENSION_INTRODUCER = 0x21;
+const IMAGE_SEPARATOR = 0x2c;
+const GIF_TRAILER = 0x3b;
+const GRAPHIC_CONTROL_LABEL = 0xf9;
+const APPLICATION_LABEL = 0xff;
+const MAX_LZW_CODES = 4096;
+// Browsers show frames with delays this short or shorter for 100 ms
+const MIN_BROWSER_DELAY = 10;
+const BROWSER_DEFAULT_DELAY = 100;
+
+// Rows of an interlaced image are stored in four passes
+const INTERLACE_PASSES = [
+  { start: 0, step: 8 },
+  { start: 4, step: 8 },
+  { start: 2, step: 4 },
+  { start: 1, step: 2 },
+];
+
+interface GraphicControl {
+  delay: number;
+  disposal: number;
+  transparentIndex: number | null;
+}
+
+/**
+ * Decode every frame of a GIF. Throws for data that is not a GIF; a
+ * truncated file yields the frames that are complete.
+ */
+export function decodeGif(bytes: Uint8Array): DecodedGif {
+  const signature = String.fromCharCode(...Array.from(bytes.subarray(0, 6)));
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+    throw new Error('Not a GIF file');
+  }
+
+  const width = readUint16(bytes, 6);
+  const height = readUint16(bytes, 8);
+  let offset = 13;
+  let globalPalette: Uint8Array | null = null;
+  if (bytes[10] & 0x80) {
+    const size = colorTableSize(bytes[10]);
+    globalPalette = bytes.subarray(offset, offset + size);
+    offset += size;
+  }
+
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const frames: DecodedGifFrame[] = [];
+  let playCount = 1;
+  let control: GraphicControl | null = null;
+
+  while (offset < bytes.length && bytes[offset] !== GIF_TRAILER) {
+    const block = bytes[offset];
+
+    if (block === EXTENSION_INTRODUCER) {
+      const label = bytes[offset + 1];
+      offset += 2;
+      if (label === GRAPHIC_CONTROL_LABEL && bytes[offset] >= 4) {
+        const packed = bytes[offset + 1];
+        control = {
+          delay: readUint16(bytes, offset + 2) * 10,
+          disposal: (packed >> 2) & 7,
+          transparentIndex: packed & 1 ? bytes[offset + 4] : null,
+        };
+      } else if (
+        label === APPLICATION_LABEL &&
+        bytes[offset] === 11 &&
+        readAscii(bytes, offset + 1, 11) === 'NETSCAPE2.0' &&
+        bytes[offset + 12] >= 3 &&
+        bytes[offset + 13] === 1
+      ) {
+        // Repeat count: 0 loops forever, n plays n + 1 times
+        const repeat = readUint16(bytes, offset + 14);
+        playCount = repeat === 0 ? 0 : repeat + 1;
+      }
+      offset = skipSubBlocks(bytes, offset);
+    } else if (block === IMAGE_SEPARATOR) {
+      const left = readUint16(bytes, offset + 1);
+      const top = readUint16(bytes, offset + 3);
+      const imageWidth = readUint16(bytes, offset + 5);
+      const imageHeight = readUint16(bytes, offset + 7);
+      const packed = bytes[offset + 9];
+      offset += 10;
+
+      let palette = globalPalette;
+      if (packed & 0x80) {
+        const size = colorTableSize(packed);
+        palette = bytes.subarray(offset, offset + size);
+        offset += size;
+      }
+      if (!palette) {
+        throw new Error('GIF frame has no colour table');
+      }
+
+      const minCodeSize = bytes[offset];
+      const { data, end } = readSubBlocks(bytes, offset + 1);
+      if (end > bytes.length) {
+        break; // Truncated image data
+      }
+      offset = end;
+
+      const indices = decodeLzw(data, minCodeSize, imageWidth * imageHeight);
+      const rows = packed & 0x40 ? interlacedRows(imageHeight) : null;
+      const disposal = control?.disposal ?? 0;
+      const previous = disposal === 3 ? canvas.slice() : null;
+
+      drawImage(canvas, width, height, indices, palette, control?.transparentIndex ?? null, {
+        left,
+        top,
+        width: imageWidth,
+        height: imageHeight,
+        rows,
+      });
+      frames.push({ pixels: canvas.slice(), delay: control?.delay ?? 0 });
+
+      // Disposal prepares the canvas for the next frame
+      if (disposal === 2) {
+        clearRect(canvas, width, height, left, top, imageWidth, imageHeight);
+      } else if (previous) {
+        canvas.set(previous);
+      }
+      control = null;
+    } else {
+      break; // Not a GIF block; the rest cannot be walked
+    }
+  }
+
+  return { width, height, playCount, frames };
+}
+
+/**
+ * How long browsers show a frame with this GIF delay, in ms
+ */
+export function browserFrameDelay(delay: number | undefined): number {
+  return delay !== undefined && delay > MIN_BROWSER_DELAY ? delay : BROWSER_DEFAULT_DELAY;
+}
+
+/**
+ * Decode a GIF into encoder frames, timed as browsers play them, so it can
+ * be edited and encoded again
+ */
+export function decodeGifFrames(bytes: Uint8Array): FrameData[] {
+  const { width, height, frames } = decodeGif(bytes);
+  let timestamp = 0;
+  return frames.map((frame) => {
+    const delay = browserFrameDelay(frame.delay);
+    const decoded = { imageData: new ImageData(frame.pixels, width, height), timestamp, delay };
+    timestamp += delay;
+    return decoded;
+  });
+}
+
+/**
+ * Expand LZW-compressed image data into `pixelCount` palette indices.
+ * Missing trailing pixels are left as index 0.
+ */
+function decodeLzw(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const output = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const prefix = new Uint16Array(MAX_LZW_CODES);
+  const suffix = new Uint8Array(MAX_LZW_CODES);
+  const stack = new Uint8Array(MAX_LZW_CODES + 1);
+  for (let code = 0; code < clearCode; code++) {
+    suffix[code] = code;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let nextCode = clearCode + 2;
+  let previous = -1;
+  let first = 0;
+  let bits = 0;
+  let datum = 0;
+  let written = 0;
+
+  for (let i = 0; i < data.length && written < pixelCount; i++) {
+    datum |= data[i] << bits;
+    bits += 8;
+
+    while (bits >= codeSize && written < pixelCount) {
+      const code = datum & codeMask;
+      datum >>= codeSize;
+      bits -= codeSize;
+
+      if (code === clearCode) {
+        codeSize = minCodeSize + 1;
+        codeMask = (1 << codeSize) - 1;
+        nextCode = clearCode + 2;
+        previous = -1;
+        continue;
+      }
+      if (code === endCode) {
+        return output;
+      }
+      if (previous === -1) {
+        output[written++] = suffix[code];
+        first = suffix[code];
+        previous = code;
+        continue;
+      }
+
+      let top = 0;
+      let current = code;
+      if (code >= nextCode) {
+        // The code being defined: the previous string plus its first index
+        stack[top++] = first;
+        current = previous;
+      }
+      while (current >= clearCode) {
+        stack[top++] = suffix[current];
+        current = prefix[current];
+      }
+      first = suffix[current];
+      stack[top++] = first;
+
+      if (nextCode < MAX_LZW_CODES) {
+        prefix[nextCode] = previous;
+        suffix[nextCode] = first;
+        nextCode++;
+        if ((nextCode & codeMask) === 0 && nextCode < MAX_LZW_CODES) {
+          codeSize++;
+          codeMask = (1 << codeSize) - 1;
+        }
+      }
+      previous = code;
+
+      while (top > 0 && written < pixelCount) {
+        output[written++] = stack[--top];
+      }
+    }
+  }
+
+  return output;
+}
+
+// Canvas row for each stored row of an interlaced image
+function interlacedRows(height: number): number[] {
+  const rows: number[] = [];
+  INTERLACE_PASSES.forEach(({ start, step }) => {
+    for (let row = start; row < height; row += step) {
+      rows.push(row);
+    }
+  });
+  return rows;
+}
+
+function drawImage(
+  canvas: Uint8ClampedArray,
+  canvasWidth: number,
+  canvasHeight: number,
+  indices: Uint8Array,
+  palette: Uint8Array,
+  transparentIndex: number | null,
+  image: { left: number; top: number; width: number; height: number; rows: number[] | null }
+): void {
+  for (let row = 0; row < image.height; row++) {
+    const y = image.top + (image.rows ? image.rows[row] : row);
+    if (y >= canvasHeight) continue;
+
+    for (let column = 0; column < image.width; column++) {
+      const x = image.left + column;
+      const index = indices[row * image.width + column];
+      if (x >= canvasWidth || index === transparentIndex) continue;
+
+      const pixel = (y * canvasWidth + x) * 4;
+      canvas[pixel] = palette[index * 3];
+      canvas[pixel + 1] = palette[index * 3 + 1];
+      canvas[pixel + 2] = palette[index * 3 + 2];
+      canvas[pixel + 3] = 255;
+    }
+  }
+}
+
+// Disposal to background: browsers clear the area to transparent
+function clearRect(
+  canvas: Uint8ClampedArray,
+  canvasWidth: number,
+  canvasHeight: number,
+  left: number,
+  top: number,
+  width: number,
+  height: number
+): void {
+  for (let y = top; y < Math.min(top + height, canvasHeight); y++) {
+    const start = (y * canvasWidth + left) * 4;
+    const end = (y * canvasWidth + Math.min(left + width, canvasWidth)) * 4;
+    canvas.fill(0, start, end);
+  }
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+}
+
+// Bytes of the colour table announced by a packed field
+function colorTableSize(packed: number): number {
+  return 3 * (1 << ((packed & 7) + 1));
+}
+
+function skipSubBlocks(bytes: Uint8Array, offset: number): number {
+  while (offset < bytes.length && bytes[offset] !== 0) {
+    offset += bytes[offset] + 1;
+  }
+  return offset + 1;
+}
+
+function readSubBlocks(bytes: Uint8Array, offset: number): { data: Uint8Array; end: number } {
+  let length = 0;
+  let end = offset;
+  while (end < bytes.length && bytes[end] !== 0) {
+    length += bytes[end];
+    end += bytes[end] + 1;
+  }
+
+  const data = new Uint8Array(length);
+  let written = 0;
+  for (let block = offset; block < end; block += bytes[block] + 1) {
+    const chunk = bytes.subarray(block + 1, block + 1 + bytes[block]);
+    data.set(chunk, written);
+    written += chunk.length;
+  }
+  return { data: data.subarray(0, written), end: end + 1 };
+}
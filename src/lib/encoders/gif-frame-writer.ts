@@ -0,0 +1,261 @@
+/**
+ * Frame-by-frame GIF writing for the gifenc encoder
+ * Diffs each frame against what is on screen, maps it to its palette and
+ * compresses it (on this thread or in the worker pool), writing images in
+ * frame order. Used by both whole-clip and streaming encodes.
+ */
+
+import type { GIFEncoder } from 'gifenc';
+import { FrameDelta, computeFrameDelta } from './frame-delta';
+import { writeGifHeader, writeGifImage } from './gif-blocks';
+import type { DitherOptions } from './dithering';
+import { GifImageTask, encodeGifImage, indexGifImage } from './gif-image-task';
+import type { GifWorkerPool } from './gif-worker-pool';
+import { FrameDelayQuantizer } from './frame-timing';
+
+// gifenc writes an 8-byte graphic control extension before each image descriptor
+const GRAPHIC_CONTROL_EXT_SIZE = 8;
+const IMAGE_SEPARATOR = 0x2c;
+
+// Palette entry reserved for transparent pixels when frame deltas are enabled
+const TRANSPARENT_ENTRY = [0, 0, 0];
+
+export interface GifFrameWriterOptions {
+  width: number;
+  height: number;
+  repeat: number; // 0 loops forever, -1 plays once
+  frameDelta: boolean;
+  deltaTolerance: number;
+  lzwTolerance: number;
+  dither: DitherOptions;
+}
+
+interface FrameWriteOptions {
+  delay: number;
+  dispose: number;
+  palette: number[][]; // Palette the indices refer to
+  writePalette: boolean; // Whether this frame carries the palette (global or local table)
+  transparentIndex?: number;
+  first: boolean;
+  repeat: number;
+}
+
+// An image compressed by a worker, waiting to be written in frame order
+interface PendingImage {
+  image: GifImageTask;
+  frame: FrameWriteOptions;
+  data: Promise<Uint8Array>;
+}
+
+export class GifFrameWriter {
+  deltaFrames = 0; // Frames written as a changed sub-rectangle
+  deltaArea = 0; // Sum of those rectangles' share of the frame
+  readonly timing = new FrameDelayQuantizer(); // Requested vs written playback time
+  private displayed: Uint8ClampedArray | null; // What the viewer currently sees
+  private pending: PendingImage[] = [];
+  private added = 0;
+  private written = 0;
+
+  constructor(
+    private encoder: GIFEncoder,
+    private options: GifFrameWriterOptions,
+    private pool: GifWorkerPool | null,
+    private onFrameWritten: (index: number) => void
+  ) {
+    this.displayed = options.frameDelta
+      ? new Uint8ClampedArray(options.width * options.height * 4)
+      : null;
+  }
+
+  /**
+   * Add the next frame, mapped to `palette`. The first frame's palette is the
+   * global colour table; `localPalette` gives a later frame its own table.
+   * `delay` is in ms and is rounded to centiseconds with error diffusion.
+   * The caller may reuse `pixels` once this resolves.
+   */
+  async add(
+    pixels: Uint8ClampedArray,
+    delay: number,
+    palette: number[][],
+    localPalette: boolean
+  ): Promise<void> {
+    const { width, height } = this.options;
+    const index = this.added++;
+    const fullFrame = { x: 0, y: 0, width, height, pixels };
+    const frameOptions = {
+      delay: this.timing.next(delay),
+      first: index === 0,
+      repeat: this.options.repeat,
+    };
+
+    let frameWrite: FrameWriteOptions;
+    let region: Pick<GifImageTask, 'x' | 'y' | 'width' | 'height' | 'pixels' | 'changed'>;
+
+    if (!this.displayed) {
+      region = fullFrame;
+      frameWrite = {
+        ...frameOptions,
+        palette,
+        writePalette: index === 0 || localPalette,
+        dispose: 2, // Clear to background color
+      };
+    } else {
+      const writtenPalette = [...palette, TRANSPARENT_ENTRY];
+
+      if (index === 0) {
+        // The first frame covers the whole canvas
+        this.displayed.set(pixels);
+        region = fullFrame;
+        frameWrite = {
+          ...frameOptions,
+          palette: writtenPalette,
+          writePalette: true,
+          dispose: 1, // Keep in place for the next frame to draw over
+        };
+      } else {
+        const delta = computeFrameDelta(
+          this.displayed,
+          pixels,
+          width,
+          height,
+          this.options.deltaTolerance
+        );
+        if (delta) {
+          this.deltaFrames++;
+          this.deltaArea += (delta.width * delta.height) / (width * height);
+        }
+        // Unchanged pixels map to the reserved transparent entry
+        region = delta ?? this.createEmptyDelta(pixels);
+        frameWrite = {
+          ...frameOptions,
+          palette: writtenPalette,
+          writePalette: localPalette,
+          dispose: 1, // Leave in place; later frames only draw what changes
+          transparentIndex: palette.length,
+        };
+      }
+    }
+
+    const image: GifImageTask = {
+      ...region,
+      palette,
+      colorTableLength: frameWrite.palette.length,
+      transparentIndex: frameWrite.transparentIndex,
+      dither: this.options.dither,
+      lzwTolerance: this.options.lzwTolerance,
+    };
+
+    if (!this.pool) {
+      this.writeImage(image, frameWrite);
+      this.onFrameWritten(this.written++);
+      return;
+    }
+
+    // Full frames are copied so the transfer leaves the caller's pixels intact
+    const data = this.pool.encodeImage(
+      image.pixels === pixels ? { ...image, pixels: pixels.slice() } : image
+    );
+    // Failures surface when the image is written; avoid unhandled rejections meanwhile
+    data.catch(() => undefined);
+    this.pending.push({ image, frame: frameWrite, data });
+
+    // Keep every worker busy without holding the whole clip in flight
+    while (this.pending.length >= this.pool.size * 2) {
+      await this.writeNextPending();
+    }
+  }
+
+  /**
+   * Write every image still waiting on a worker
+   */
+  async flush(abortSignal?: AbortSignal | null): Promise<void> {
+    while (this.pending.length > 0) {
+      if (abortSignal?.aborted) {
+        throw new Error('Encoding cancelled');
+      }
+      await this.writeNextPending();
+    }
+  }
+
+  private async writeNextPending(): Promise<void> {
+    const next = this.pending.shift()!;
+    this.writeImage(next.image, next.frame, await next.data);
+    this.onFrameWritten(this.written++);
+  }
+
+  /**
+   * Write one image. Exact frames compressed on this thread go through
+   * gifenc; lossy or worker-compressed data is written directly into
+   * gifenc's stream.
+   */
+  private writeImage(image: GifImageTask, frame: FrameWriteOptions, data?: Uint8Array): void {
+    const encoder = this.encoder;
+
+    if (data || image.lzwTolerance > 0) {
+      if (frame.first) {
+        writeGifHeader(encoder.stream, image.width, image.height, frame.palette, frame.repeat);
+      }
+      writeGifImage(encoder.stream, {
+        x: image.x,
+        y: image.y,
+        width: image.width,
+        height: image.height,
+        delay: frame.delay,
+        dispose: frame.dispose,
+        transparentIndex: frame.transparentIndex,
+        // The first frame's palette is already the global colour table
+        localPalette: frame.writePalette && !frame.first ? frame.palette : undefined,
+        data: data ?? encodeGifImage(image),
+      });
+      return;
+    }
+
+    const frameStart = encoder.bytesView().length;
+    encoder.writeFrame(indexGifImage(image), image.width, image.height, {
+      palette: frame.writePalette ? frame.palette : undefined,
+      delay: frame.delay,
+      dispose: frame.dispose,
+      first: frame.first,
+      repeat: frame.first ? frame.repeat : undefined,
+      ...(frame.transparentIndex !== undefined && {
+        transparent: true,
+        transparentIndex: frame.transparentIndex,
+      }),
+    });
+
+    if (image.x !== 0 || image.y !== 0) {
+      this.positionFrame(frameStart, image.x, image.y);
+    }
+  }
+
+  /**
+   * gifenc always places frames at (0, 0), so patch the offset into the
+   * image descriptor that follows the frame's graphic control extension
+   */
+  private positionFrame(frameStart: number, x: number, y: number): void {
+    const bytes = this.encoder.bytesView();
+    const descriptor = frameStart + GRAPHIC_CONTROL_EXT_SIZE;
+    if (bytes[descriptor] !== IMAGE_SEPARATOR) {
+      throw new Error('Unexpected GIF frame layout while positioning frame');
+    }
+    bytes[descriptor + 1] = x & 0xff;
+    bytes[descriptor + 2] = (x >> 8) & 0xff;
+    bytes[descriptor + 3] = y & 0xff;
+    bytes[descriptor + 4] = (y >> 8) & 0xff;
+  }
+
+  /**
+   * A frame identical to the previous one still needs an image; write a
+   * single transparent pixel so only its delay takes effect
+   */
+  private createEmptyDelta(pixels: Uint8ClampedArray): FrameDelta {
+    return {
+      x: 0,
+      y: 0,
+      width: 1,
+      height: 1,
+      pixels: pixels.slice(0, 4),
+      changed: new Uint8Array(1),
+    };
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Per-image GIF work shared by the main thread and the encoding workers:
+ * mapping a region's pixels to palette indices and LZW-compressing them
+ */
+
+import { applyPalette } from 'gifenc';
+import { DitherOptions, ditherToPalette } from './dithering';
+import { colorTableBits } from './gif-blocks';
+import { encodeLzw } from './lossy-lzw';
+
+export interface GifImageTask {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // RGBA of the region
+  palette: number[][]; // Colours the pixels are mapped to
+  colorTableLength: number; // Length of the written palette, which sets the LZW code size
+  changed?: Uint8Array; // Frame delta mask; unchanged pixels become transparentIndex
+  transparentIndex?: number;
+  dither: DitherOptions;
+  lzwTolerance: number;
+}
+
+/**
+ * Map a region's pixels to palette indices, dithered unless disabled.
+ * Ordered patterns are offset by the region position so sub-rectangles
+ * line up with the rest of the frame.
+ */
+export function mapRegionToPalette(
+  task: Pick<GifImageTask, 'x' | 'y' | 'width' | 'height' | 'pixels' | 'palette' | 'dither'>
+): Uint8Array {
+  const dithered = ditherToPalette(task.pixels, task.width, task.height, task.palette, {
+    ...task.dither,
+    offsetX: task.x,
+    offsetY: task.y,
+  });
+  return dithered ?? applyPalette(task.pixels, task.palette, 'rgb444');
+}
+
+/**
+ * Palette indices for an image, with unchanged delta pixels marked transparent
+ */
+export function indexGifImage(task: GifImageTask): Uint8Array {
+  const indices = mapRegionToPalette(task);
+  if (task.changed && task.transparentIndex !== undefined) {
+    for (let p = 0; p < task.changed.length; p++) {
+      if (!task.changed[p]) {
+        indices[p] = task.transparentIndex;
+      }
+    }
+  }
+  return indices;
+}
+
+/**
+ * Compressed GIF image data (minimum code size byte and sub-blocks)
+ */
+export function encodeGifImage(task: GifImageTask): Uint8Array {
+  return encodeLzw(indexGifImage(task), Math.max(2, colorTableBits(task.colorTableLength)), {
+    palette: task.palette,
+    pixels: task.pixels,
+    tolerance: task.lzwTolerance,
+    transparentIndex: task.transparentIndex,
+  });
+}
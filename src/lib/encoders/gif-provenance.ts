@@ -0,0 +1,260 @@
+/**
+ * Source provenance for GIFs
+ * Records which video moment a GIF came from, and how it was made, in both
+ * a GIF comment extension (read by simple tools) and an XMP application
+ * extension (read by asset managers and exiftool), and parses either back.
+ */
+
+import { XMP_APPLICATION_ID, writeGifComment, writeXmpExtension } from './gif-blocks';
+
+export interface GifProvenance {
+  videoId?: string;
+  url: string; // Source video URL, timestamped at the clip's start
+  startTime: number; // Seconds into the video
+  endTime: number;
+  createdAt: string; // ISO 8601
+  settings: Record<string, string | number | boolean>; // Creation settings
+}
+
+const COMMENT_PREFIX = 'YTgify provenance: ';
+const XMP_NAMESPACE = 'https://github.com/neonwatty/ytgify/ns/provenance/1.0/';
+const GIF_TRAILER = 0x3b;
+const XMP_TRAILER_LENGTH = 258; // Magic trailer plus block terminator
+
+export interface GifProvenanceSource {
+  videoId?: string;
+  pageUrl: string; // Page the clip was captured on, used without a video ID
+  startTime: number;
+  endTime: number;
+  settings: Record<string, string | number | boolean | undefined>;
+}
+
+/**
+ * Provenance for a clip; settings left undefined are omitted
+ */
+export function createGifProvenance(source: GifProvenanceSource): GifProvenance {
+  const start = Math.floor(source.startTime);
+  let url: string;
+  if (source.videoId) {
+    url = `https://www.youtube.com/watch?v=${encodeURIComponent(source.videoId)}&t=${start}s`;
+  } else {
+    const pageUrl = new URL(source.pageUrl);
+    pageUrl.searchParams.set('t', `${start}s`);
+    url = pageUrl.toString();
+  }
+
+  const settings: GifProvenance['settings'] = {};
+  Object.entries(source.settings).forEach(([key, value]) => {
+    if (value !== undefined) settings[key] = value;
+  });
+
+  return {
+    ...(source.videoId && { videoId: source.videoId }),
+    url,
+    startTime: source.startTime,
+    endTime: source.endTime,
+    createdAt: new Date().toISOString(),
+    settings,
+  };
+}
+
+/**
+ * Copy of a complete GIF with the provenance extensions written before its
+ * trailer
+ */
+export function embedGifProvenance(gif: Uint8Array, provenance: GifProvenance): Uint8Array {
+  if (gif.length < 14 || gif[gif.length - 1] !== GIF_TRAILER) {
+    throw new Error('Cannot embed provenance: GIF is incomplete');
+  }
+
+  const extensions: number[] = [];
+  const stream = {
+    writeByte: (byte: number) => extensions.push(byte),
+    writeBytes: (data: Uint8Array | number[], offset = 0, byteLength = data.length - offset) => {
+      for (let i = 0; i < byteLength; i++) extensions.push(data[offset + i]);
+    },
+  };
+  writeGifComment(stream, asciiBytes(COMMENT_PREFIX + toAsciiJson(provenance)));
+  writeXmpExtension(stream, new TextEncoder().encode(formatXmp(provenance)));
+
+  const output = new Uint8Array(gif.length + extensions.length);
+  output.set(gif.subarray(0, gif.length - 1));
+  output.set(extensions, gif.length - 1);
+  output[output.length - 1] = GIF_TRAILER;
+  return output;
+}
+
+/**
+ * Provenance embedded in a GIF, from its comment or, failing that, its XMP
+ * packet. Null for GIFs without either.
+ */
+export function readGifProvenance(gif: Uint8Array): GifProvenance | null {
+  if (readAscii(gif, 0, 3) !== 'GIF' || gif.length < 13) {
+    return null;
+  }
+
+  const comments: string[] = [];
+  let xmp: string | null = null;
+  let offset = 13 + colorTableSize(gif[10]);
+
+  while (offset < gif.length && gif[offset] !== GIF_TRAILER) {
+    if (gif[offset] === 0x2c) {
+      // Image descriptor, local colour table, LZW code size, image data
+      offset += 10 + colorTableSize(gif[offset + 9]) + 1;
+      offset = skipSubBlocks(gif, offset);
+    } else if (gif[offset] === 0x21) {
+      const label = gif[offset + 1];
+      offset += 2;
+      if (label === 0xfe) {
+        const { data, end } = readSubBlocks(gif, offset);
+        comments.push(readAscii(data, 0, data.length));
+        offset = end;
+      } else if (
+        label === 0xff &&
+        gif[offset] === 11 &&
+        readAscii(gif, offset + 1, 11) === XMP_APPLICATION_ID
+      ) {
+        const start = offset + 12;
+        const end = findXmpTrailer(gif, start);
+        xmp = new TextDecoder().decode(gif.subarray(start, end));
+        offset = end + XMP_TRAILER_LENGTH;
+      } else {
+        offset = skipSubBlocks(gif, offset);
+      }
+    } else {
+      break; // Not a GIF block; the rest cannot be walked
+    }
+  }
+
+  const comment = comments.find((text) => text.startsWith(COMMENT_PREFIX));
+  if (comment) {
+    try {
+      return JSON.parse(comment.slice(COMMENT_PREFIX.length)) as GifProvenance;
+    } catch {
+      // Fall back to the XMP packet
+    }
+  }
+  return xmp ? parseXmp(xmp) : null;
+}
+
+function formatXmp(provenance: GifProvenance): string {
+  const attributes = [
+    ['xmp:CreatorTool', 'YTgify'],
+    ['xmp:CreateDate', provenance.createdAt],
+    ['dc:source', provenance.url],
+    ['ytgify:videoId', provenance.videoId],
+    ['ytgify:startTime', String(provenance.startTime)],
+    ['ytgify:endTime', String(provenance.endTime)],
+    ['ytgify:settings', JSON.stringify(provenance.settings)],
+  ]
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `\n    ${name}="${escapeXml(value!)}"`)
+    .join('');
+
+  return (
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">\n' +
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">\n' +
+    '  <rdf:Description rdf:about=""\n' +
+    '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"\n' +
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"\n' +
+    `    xmlns:ytgify="${XMP_NAMESPACE}"${attributes}/>\n` +
+    ' </rdf:RDF>\n' +
+    '</x:xmpmeta>\n' +
+    '<?xpacket end="r"?>'
+  );
+}
+
+function parseXmp(xmp: string): GifProvenance | null {
+  const attribute = (name: string): string | undefined => {
+    const match = xmp.match(new RegExp(`${name}="([^"]*)"`));
+    return match ? unescapeXml(match[1]) : undefined;
+  };
+
+  const url = attribute('dc:source');
+  const startTime = Number(attribute('ytgify:startTime'));
+  const endTime = Number(attribute('ytgify:endTime'));
+  if (!url || Number.isNaN(startTime) || Number.isNaN(endTime)) {
+    return null;
+  }
+
+  let settings: GifProvenance['settings'] = {};
+  try {
+    settings = JSON.parse(attribute('ytgify:settings') ?? '{}');
+  } catch {
+    // Keep the source even when settings are unreadable
+  }
+  const videoId = attribute('ytgify:videoId');
+  return {
+    ...(videoId && { videoId }),
+    url,
+    startTime,
+    endTime,
+    createdAt: attribute('xmp:CreateDate') ?? '',
+    settings,
+  };
+}
+
+// GIF comments are ASCII; escape anything else as JSON unicode escapes
+function toAsciiJson(value: unknown): string {
+  return JSON.stringify(value).replace(
+    /[\u007f-\uffff]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+}
+
+function asciiBytes(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&');
+}
+
+// Bytes of the colour table announced by a packed field, if any
+function colorTableSize(packed: number): number {
+  return packed & 0x80 ? 3 * (1 << ((packed & 7) + 1)) : 0;
+}
+
+function skipSubBlocks(bytes: Uint8Array, offset: number): number {
+  while (offset < bytes.length && bytes[offset] !== 0) {
+    offset += bytes[offset] + 1;
+  }
+  return offset + 1;
+}
+
+function readSubBlocks(bytes: Uint8Array, offset: number): { data: Uint8Array; end: number } {
+  const chunks: number[] = [];
+  while (offset < bytes.length && bytes[offset] !== 0) {
+    chunks.push(...bytes.subarray(offset + 1, offset + 1 + bytes[offset]));
+    offset += bytes[offset] + 1;
+  }
+  return { data: Uint8Array.from(chunks), end: offset + 1 };
+}
+
+// The XMP packet ends where the magic trailer (0x01, 0xff, 0xfe, ...) starts;
+// those bytes never occur in UTF-8 text
+function findXmpTrailer(bytes: Uint8Array, offset: number): number {
+  for (let i = offset; i + 2 < bytes.length; i++) {
+    if (bytes[i] === 0x01 && bytes[i + 1] === 0xff && bytes[i + 2] === 0xfe) {
+      return i;
+    }
+  }
+  return bytes.length;
+}
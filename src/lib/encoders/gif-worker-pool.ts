@@ -0,0 +1,189 @@
+/**
+ * Pool of Web Workers for the gifenc path
+ * Quantization and per-frame palette mapping and LZW compression run off the
+ * page's main thread, so the YouTube player stays responsive during encodes
+ */
+
+import { logger } from '@/lib/logger';
+import type { GifImageTask } from './gif-image-task';
+
+// Bundled separately by webpack (see webpack.config.cjs)
+const WORKER_SCRIPT = 'gifenc-worker.js';
+const MAX_POOL_SIZE = 4;
+// How long a new pool has to answer its first request
+const PROBE_TIMEOUT = 5000;
+
+export type GifWorkerRequest =
+  | { id: number; type: 'quantize'; pixels: Uint8ClampedArray; maxColors: number }
+  | { id: number; type: 'encode-image'; task: GifImageTask };
+
+export type GifWorkerResponse =
+  | { id: number; type: 'quantize'; palette: number[][] }
+  | { id: number; type: 'encode-image'; data: Uint8Array }
+  | { id: number; type: 'error'; message: string };
+
+type WorkerJob = {
+  request: GifWorkerRequest;
+  transfer: Transferable[];
+  resolve: (response: GifWorkerResponse) => void;
+  reject: (error: Error) => void;
+};
+
+let sharedPool: Promise<GifWorkerPool | null> | null = null;
+
+export class GifWorkerPool {
+  private idle: Worker[];
+  private queue: WorkerJob[] = [];
+  private running = new Map<Worker, WorkerJob>();
+  private nextId = 0;
+  private terminated = false;
+
+  constructor(private workers: Worker[]) {
+    this.idle = [...workers];
+    workers.forEach((worker) => {
+      worker.onmessage = (event: MessageEvent<GifWorkerResponse>) =>
+        this.finish(worker, event.data);
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        this.fail(worker, new Error(event.message || 'GIF worker failed'));
+      };
+    });
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Quantize sampled pixels to a palette. Samples can alias a frame's own
+   * buffer, so they are copied rather than transferred.
+   */
+  async quantize(pixels: Uint8ClampedArray, maxColors: number): Promise<number[][]> {
+    const response = await this.run({ id: this.nextId++, type: 'quantize', pixels, maxColors }, []);
+    return (response as Extract<GifWorkerResponse, { type: 'quantize' }>).palette;
+  }
+
+  /**
+   * Map and compress one image. Its pixel and mask buffers are transferred.
+   */
+  async encodeImage(task: GifImageTask): Promise<Uint8Array> {
+    const transfer: Transferable[] = [task.pixels.buffer];
+    if (task.changed) transfer.push(task.changed.buffer);
+    const response = await this.run({ id: this.nextId++, type: 'encode-image', task }, transfer);
+    return (response as Extract<GifWorkerResponse, { type: 'encode-image' }>).data;
+  }
+
+  terminate(): void {
+    this.terminated = true;
+    this.workers.forEach((worker) => worker.terminate());
+    const error = new Error('GIF worker pool terminated');
+    [...this.queue, ...this.running.values()].forEach((job) => job.reject(error));
+    this.queue = [];
+    this.running.clear();
+    this.idle = [];
+  }
+
+  private run(request: GifWorkerRequest, transfer: Transferable[]): Promise<GifWorkerResponse> {
+    if (this.terminated) {
+      return Promise.reject(new Error('GIF worker pool terminated'));
+    }
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request, transfer, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const job = this.queue.shift()!;
+      this.running.set(worker, job);
+      worker.postMessage(job.request, job.transfer);
+    }
+  }
+
+  private finish(worker: Worker, response: GifWorkerResponse): void {
+    const job = this.running.get(worker);
+    if (!job) return;
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if (response.type === 'error') {
+      job.reject(new Error(response.message));
+    } else {
+      job.resolve(response);
+    }
+    this.dispatch();
+  }
+
+  private fail(worker: Worker, error: Error): void {
+    const job = this.running.get(worker);
+    if (!job) return;
+    this.running.delete(worker);
+    this.idle.push(worker);
+    job.reject(error);
+    this.dispatch();
+  }
+}
+
+/**
+ * Load the worker script as a same-origin blob URL. Content scripts run with
+ * the page's origin and cannot start workers from chrome-extension:// URLs.
+ */
+async function loadWorkerUrl(): Promise<string> {
+  const response = await fetch(chrome.runtime.getURL(WORKER_SCRIPT));
+  if (!response.ok) {
+    throw new Error(`Failed to load ${WORKER_SCRIPT}: ${response.status}`);
+  }
+  return URL.createObjectURL(await response.blob());
+}
+
+async function createPool(): Promise<GifWorkerPool | null> {
+  if (typeof Worker === 'undefined' || typeof chrome === 'undefined' || !chrome.runtime?.getURL) {
+    return null;
+  }
+
+  try {
+    const url = await loadWorkerUrl();
+    const cores = navigator.hardwareConcurrency || 2;
+    // Leave a core for the page itself
+    const size = Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+    const pool = new GifWorkerPool(Array.from({ length: size }, () => new Worker(url)));
+    await probe(pool);
+    return pool;
+  } catch (error) {
+    // Page CSP can block blob workers; encoding then stays on the main thread
+    logger.warn('[GifWorkerPool] Workers unavailable, encoding on main thread', { error });
+    return null;
+  }
+}
+
+/**
+ * A worker blocked by the page fails with an error event after it is
+ * created rather than on `new Worker`, so the pool is handed out only once
+ * it has answered one request
+ */
+async function probe(pool: GifWorkerPool): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('GIF worker did not respond')), PROBE_TIMEOUT);
+  });
+  try {
+    await Promise.race([pool.quantize(new Uint8ClampedArray(4), 2), timeout]);
+  } catch (error) {
+    pool.terminate();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Shared pool, created on first use; resolves to null where workers cannot run
+ */
+export function getGifWorkerPool(): Promise<GifWorkerPool | null> {
+  if (!sharedPool) {
+    sharedPool = createPool();
+  }
+  return sharedPool;
+}
@@ -3,14 +3,49 @@
  * Often 2x faster than gif.js with similar quality
  */
 
-import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import { GIFEncoder, quantize } from 'gifenc';
+import { logger } from '@/lib/logger';
 import {
   AbstractEncoder,
   EncodingOptions,
   EncodingResult,
   EncodingProgress,
   FrameData,
+  FrameSink,
+  LockedPalette,
+  OutputFormat,
+  PaletteStrategy,
+  getPlayCount,
 } from './abstract-encoder';
+import {
+  PaletteSegment,
+  StreamingPaletteSegmenter,
+  planPaletteSegments,
+  samplePalettePixels,
+} from './palette-strategy';
+import { toleranceForLossiness } from './frame-delta';
+import { lossinessForQuality, lzwToleranceForLossiness } from './lossy-lzw';
+import { resolveDitheringAlgorithm } from './dithering';
+import { measureGifQuality } from './quality-metrics';
+import { resolveLockedPalette } from './locked-palette';
+import { GifFrameWriter } from './gif-frame-writer';
+import { toGifRepeat } from './gif-blocks';
+import { GifWorkerPool, getGifWorkerPool } from './gif-worker-pool';
+
+// An open streaming encode
+interface StreamState {
+  options: EncodingOptions;
+  writer: GifFrameWriter;
+  pool: GifWorkerPool | null;
+  segmenter: StreamingPaletteSegmenter | null; // Null when the palette is locked
+  paletteColors: number;
+  palette: number[][] | null;
+  paletteStarts: number[]; // First frame of each palette
+  window: FrameData[]; // Next frame to write followed by the lookahead
+  frameDelay: number;
+  framesWritten: number;
+  stopAbortListener: () => void; // Unlinks the caller's abort signal
+}
 
 export class GifencEncoder extends AbstractEncoder {
   private encoder: GIFEncoder | null = null;
@@ -19,7 +54,7 @@ export class GifencEncoder extends AbstractEncoder {
     return 'gifenc';
   }
 
-  get supportedFormats(): Array<'gif' | 'mp4'> {
+  get supportedFormats(): OutputFormat[] {
     return ['gif'];
   }
 
@@ -77,90 +112,57 @@ export class GifencEncoder extends AbstractEncoder {
   ): Promise<EncodingResult> {
     this.reportProgress('preparing', 0, 'Initializing encoder');
 
-    const frameDelay = Math.round(1000 / options.frameRate); // Convert to milliseconds
+    const frameDelay = 1000 / options.frameRate; // Milliseconds; the writer rounds to centiseconds
     console.log('[GifencEncoder] frameRate:', options.frameRate, 'frameDelay:', frameDelay, 'ms');
 
     // Create GIFEncoder instance
     this.encoder = new GIFEncoder();
+    // Heavy per-frame work goes to workers where the page allows them
+    const pool = await getGifWorkerPool();
 
     this.reportProgress('preparing', 10, 'Processing frames');
 
-    // Decision: Use global palette for smaller file size and consistency
-    // Alternative: per-frame palettes for better quality but larger files
-    const useGlobalPalette = true;
-    let globalPalette: number[][] | null = null;
-
-    if (useGlobalPalette && frames.length > 0) {
-      // Sample multiple frames for better color representation
-      const samplesToTake = Math.min(5, frames.length); // Sample up to 5 frames
-      const sampleInterval = Math.max(1, Math.floor(frames.length / samplesToTake));
-
-      // Collect pixel data from sampled frames
-      const sampledPixelArrays: Uint8ClampedArray[] = [];
-      let totalPixels = 0;
-
-      for (let i = 0; i < frames.length; i += sampleInterval) {
-        if (sampledPixelArrays.length >= samplesToTake) break;
-        const frameData = frames[i].imageData.data;
-        sampledPixelArrays.push(frameData);
-        totalPixels += frameData.length;
-      }
-
-      // Combine all sampled pixel data into a single array for quantization
-      const combinedPixels = new Uint8ClampedArray(totalPixels);
-      let offset = 0;
-      for (const pixels of sampledPixelArrays) {
-        combinedPixels.set(pixels, offset);
-        offset += pixels.length;
-      }
-
-      // Generate global palette from combined samples
-      console.log(`[GifencEncoder] Generating palette from ${sampledPixelArrays.length} sampled frames`);
-      globalPalette = quantize(combinedPixels, 256, {
-        format: 'rgb444',
-        clearAlpha: false
-      });
-    }
+    // Assign palettes: one for the clip, one per frame, or one per detected scene.
+    // A locked palette is shared by the whole clip.
+    const { lockedPalette } = options;
+    const paletteStrategy = options.paletteStrategy ?? 'auto';
+    const segments = lockedPalette
+      ? [{ start: 0, end: frames.length }]
+      : planPaletteSegments(frames, paletteStrategy);
+    const { colors, slots } = this.paletteBudget(options);
+    const segmentPalettes = lockedPalette
+      ? [resolveLockedPalette(lockedPalette, frames, colors, slots)]
+      : await Promise.all(
+          segments.map((segment) => this.quantizeSegment(frames, segment, colors, pool))
+        );
+    logger.debug('[GifencEncoder] Palette strategy', {
+      strategy: lockedPalette ? 'locked' : paletteStrategy,
+      palettes: segments.length,
+      workers: pool?.size ?? 0,
+    });
+
+    const writer = this.createFrameWriter(options, pool, frames.length);
 
     // Process each frame
+    let segmentIndex = 0;
     for (let i = 0; i < frames.length; i++) {
       if (this.abortController?.signal.aborted) {
         throw new Error('Encoding cancelled');
       }
 
-      const frame = frames[i];
-      const customDelay = frame.delay !== undefined ? frame.delay : frameDelay;
-
-      // Get the pixel data
-      const pixels = frame.imageData.data;
-
-      let palette: number[][];
-      let indices: Uint8Array;
-
-      if (useGlobalPalette && globalPalette) {
-        // Use the global palette
-        palette = globalPalette;
-        indices = applyPalette(pixels, palette, 'rgb444');
-      } else {
-        // Generate per-frame palette
-        palette = quantize(pixels, 256, {
-          format: 'rgb444',
-          clearAlpha: false
-        });
-        indices = applyPalette(pixels, palette, 'rgb444');
+      if (i >= segments[segmentIndex].end) {
+        segmentIndex++;
       }
 
-      // Write frame to encoder
-      this.encoder.writeFrame(indices, options.width, options.height, {
-        palette: palette,
-        delay: customDelay,
-        dispose: 2, // Clear to background color
-        first: i === 0,
-        repeat: i === 0 ? (options.loop ? 0 : -1) : undefined
-      });
-
-      const progress = 10 + Math.round((i / frames.length) * 80);
-      this.reportProgress('encoding', progress, `Encoding frame ${i + 1}/${frames.length}`);
+      // The first segment's palette is the global color table; frames in
+      // later segments carry their own local color table
+      const frame = frames[i];
+      await writer.add(
+        frame.imageData.data,
+        frame.delay !== undefined ? frame.delay : frameDelay,
+        segmentPalettes[segmentIndex],
+        segmentIndex > 0
+      );
 
       // Yield control periodically
       if (i % 10 === 0) {
@@ -168,13 +170,222 @@ export class GifencEncoder extends AbstractEncoder {
       }
     }
 
+    await writer.flush(this.abortController?.signal);
+
+    const result = this.finishEncoding(
+      options,
+      frames.length,
+      writer,
+      lockedPalette
+        ? this.describeLockedPalette(lockedPalette, segmentPalettes[0].length)
+        : this.describePaletteChoice(
+            paletteStrategy,
+            segments.map((segment) => segment.start)
+          ),
+      frames.length
+    );
+    if (options.measureQuality) {
+      result.performance.quality = measureGifQuality(frames, this.encoder!.bytesView());
+    }
+    return result;
+  }
+
+  /**
+   * Start a streaming encode of about `frameCount` frames. Each frame is
+   * encoded once a short palette lookahead has been captured after it, so
+   * memory stays bounded however long the clip is. A palette locked to a
+   * frame is quantized from `paletteFrame`, captured ahead of the stream.
+   */
+  async beginStream(
+    options: EncodingOptions,
+    frameCount: number,
+    onProgress?: (progress: EncodingProgress) => void,
+    abortSignal?: AbortSignal,
+    paletteFrame?: FrameData
+  ): Promise<FrameSink> {
+    if (this.isEncoding) {
+      throw new Error('Encoding already in progress');
+    }
+    if (options.lockedPalette?.type === 'frame' && !paletteFrame) {
+      throw new Error('A palette locked to a frame needs that frame before streaming');
+    }
+
+    this.isEncoding = true;
+    this.progressCallback = onProgress;
+    this.abortController = new AbortController();
+    if (abortSignal?.aborted) {
+      this.abortController.abort();
+    }
+    const onAbort = () => this.abortController?.abort();
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+    const stopAbortListener = () => abortSignal?.removeEventListener('abort', onAbort);
+    this.startTime = performance.now();
+    this.frameCount = frameCount;
+
+    try {
+      this.reportProgress('preparing', 0, 'Initializing encoder');
+      this.encoder = new GIFEncoder();
+      const pool = await getGifWorkerPool();
+
+      const { lockedPalette } = options;
+      const { colors, slots } = this.paletteBudget(options);
+      const state: StreamState = {
+        options,
+        writer: this.createFrameWriter(options, pool, frameCount),
+        pool,
+        segmenter: lockedPalette
+          ? null
+          : new StreamingPaletteSegmenter(options.paletteStrategy ?? 'auto'),
+        paletteColors: colors,
+        palette: lockedPalette
+          ? resolveLockedPalette(lockedPalette, paletteFrame ? [paletteFrame] : [], colors, slots)
+          : null,
+        paletteStarts: [],
+        window: [],
+        frameDelay: 1000 / options.frameRate,
+        framesWritten: 0,
+        stopAbortListener,
+      };
+
+      this.reportProgress('preparing', 10, 'Processing frames');
+
+      return {
+        addFrame: (frame) => this.addStreamFrame(state, frame),
+        finish: () => this.finishStream(state),
+        abort: () => {
+          stopAbortListener();
+          this.abort();
+        },
+      };
+    } catch (error) {
+      stopAbortListener();
+      this.cleanup();
+      throw error;
+    }
+  }
+
+  private async addStreamFrame(state: StreamState, frame: FrameData): Promise<void> {
+    if (!this.encoder || this.abortController?.signal.aborted) {
+      throw new Error('Encoding cancelled');
+    }
+
+    state.window.push(frame);
+    if (state.window.length > (state.segmenter?.lookahead ?? 0)) {
+      await this.writeStreamFrame(state);
+    }
+  }
+
+  private async finishStream(state: StreamState): Promise<EncodingResult> {
+    try {
+      while (state.window.length > 0) {
+        if (!this.encoder || this.abortController?.signal.aborted) {
+          throw new Error('Encoding cancelled');
+        }
+        await this.writeStreamFrame(state);
+      }
+      await state.writer.flush(this.abortController?.signal);
+
+      if (state.framesWritten === 0) {
+        throw new Error('No frames were added to the stream');
+      }
+
+      const { lockedPalette, paletteStrategy } = state.options;
+      return this.finishEncoding(
+        state.options,
+        state.framesWritten,
+        state.writer,
+        lockedPalette
+          ? this.describeLockedPalette(lockedPalette, state.palette!.length)
+          : this.describePaletteChoice(paletteStrategy ?? 'auto', state.paletteStarts),
+        (state.segmenter?.lookahead ?? 0) + 1
+      );
+    } finally {
+      state.stopAbortListener();
+      this.cleanup();
+    }
+  }
+
+  /**
+   * Write the oldest buffered frame, starting a new palette first when the
+   * segmenter sees a scene change
+   */
+  private async writeStreamFrame(state: StreamState): Promise<void> {
+    const frame = state.window[0];
+    const sample = state.segmenter?.next(state.window);
+    if (sample) {
+      state.palette = await this.quantizeSegment(
+        sample,
+        { start: 0, end: sample.length },
+        state.paletteColors,
+        state.pool
+      );
+      state.paletteStarts.push(state.framesWritten);
+    }
+
+    await state.writer.add(
+      frame.imageData.data,
+      frame.delay !== undefined ? frame.delay : state.frameDelay,
+      state.palette!,
+      state.paletteStarts.length > 1
+    );
+    state.window.shift();
+    state.framesWritten++;
+  }
+
+  /**
+   * Colours per quantized palette and the slots a locked palette can use.
+   * With frame deltas one palette slot is kept free for transparency.
+   */
+  private paletteBudget(options: EncodingOptions): { colors: number; slots: number } {
+    const useFrameDelta = options.frameDelta ?? true;
+    const maxColors = Math.max(2, Math.min(256, options.maxColors ?? 256));
+    return {
+      colors: useFrameDelta ? maxColors - 1 : maxColors,
+      slots: useFrameDelta ? 255 : 256,
+    };
+  }
+
+  private createFrameWriter(
+    options: EncodingOptions,
+    pool: GifWorkerPool | null,
+    frameCount: number
+  ): GifFrameWriter {
+    // Quality presets pick a default lossiness; it drives both the frame delta
+    // tolerance and lossy LZW matching
+    const lossiness = options.lossiness ?? lossinessForQuality(options.quality);
+    return new GifFrameWriter(
+      this.encoder!,
+      {
+        width: options.width,
+        height: options.height,
+        repeat: toGifRepeat(getPlayCount(options)),
+        frameDelta: options.frameDelta ?? true,
+        deltaTolerance: toleranceForLossiness(lossiness),
+        lzwTolerance: lzwToleranceForLossiness(lossiness),
+        dither: {
+          algorithm: resolveDitheringAlgorithm(options.dithering),
+          strength: options.ditherStrength,
+        },
+      },
+      pool,
+      (index) => this.reportFrameProgress(index, frameCount)
+    );
+  }
+
+  private finishEncoding(
+    options: EncodingOptions,
+    frameCount: number,
+    writer: GifFrameWriter,
+    paletteSummary: string,
+    heldFrames: number
+  ): EncodingResult {
     this.reportProgress('finalizing', 90, 'Finalizing GIF');
 
     // Finish writing the GIF (adds trailer)
-    this.encoder.finish();
+    this.encoder!.finish();
 
     // Get the complete GIF data
-    const gifData = this.encoder.bytes();
+    const gifData = this.encoder!.bytes();
     // Ensure we have a proper ArrayBuffer-backed Uint8Array
     const gifBuffer = new Uint8Array(gifData);
     const blob = new Blob([gifBuffer], { type: 'image/gif' });
@@ -187,24 +398,76 @@ export class GifencEncoder extends AbstractEncoder {
       metadata: {
         width: options.width,
         height: options.height,
-        frameCount: frames.length,
+        frameCount,
         fileSize: blob.size,
         encodingTime,
-        averageFrameTime: encodingTime / frames.length,
+        averageFrameTime: encodingTime / frameCount,
         format: 'gif' as const,
         encoder: this.name,
+        duration: writer.timing.achievedMs,
+        requestedDuration: writer.timing.requestedMs,
       },
       performance: {
         success: true,
         efficiency: Math.min(1, 5000 / encodingTime), // Efficiency based on encoding speed
-        recommendations: encodingTime > 5000
-          ? ['Consider reducing frame count or resolution for faster encoding']
-          : [],
-        peakMemoryUsage: frames.length * options.width * options.height * 4, // Rough estimate
+        recommendations: [
+          paletteSummary,
+          ...((options.frameDelta ?? true) && frameCount > 1
+            ? [this.describeFrameDelta(frameCount - 1, writer.deltaFrames, writer.deltaArea)]
+            : []),
+          ...(encodingTime > 5000
+            ? ['Consider reducing frame count or resolution for faster encoding']
+            : []),
+        ],
+        peakMemoryUsage: heldFrames * options.width * options.height * 4, // Rough estimate
       },
     };
   }
 
+  private describePaletteChoice(strategy: PaletteStrategy, paletteStarts: number[]): string {
+    const plural = paletteStarts.length === 1 ? '' : 's';
+    const summary = `Palette strategy: ${strategy} (${paletteStarts.length} palette${plural})`;
+    if (strategy !== 'auto' || paletteStarts.length === 1) {
+      return summary;
+    }
+    return `${summary}, scene changes at frames ${paletteStarts.slice(1).join(', ')}`;
+  }
+
+  private describeLockedPalette(locked: LockedPalette, colors: number): string {
+    const source = locked.type === 'frame' ? `frame ${locked.frameIndex + 1}` : 'colour list';
+    return `Palette: locked to ${colors} colours from ${source}`;
+  }
+
+  private async quantizeSegment(
+    frames: FrameData[],
+    segment: PaletteSegment,
+    colors: number,
+    pool: GifWorkerPool | null
+  ): Promise<number[][]> {
+    const sampledPixels = samplePalettePixels(frames, segment);
+    if (pool) {
+      return pool.quantize(sampledPixels, colors);
+    }
+    return quantize(sampledPixels, colors, {
+      format: 'rgb444',
+      clearAlpha: false
+    });
+  }
+
+  private reportFrameProgress(index: number, frameCount: number): void {
+    const progress = 10 + Math.round(Math.min(1, index / frameCount) * 80);
+    this.reportProgress('encoding', progress, `Encoding frame ${index + 1}/${frameCount}`);
+  }
+
+  private describeFrameDelta(candidates: number, deltaFrames: number, deltaArea: number): string {
+    const unchanged = candidates - deltaFrames;
+    const averageArea = deltaFrames > 0 ? Math.round((deltaArea / deltaFrames) * 100) : 0;
+    return (
+      `Frame delta: ${deltaFrames}/${candidates} frames written as changed regions ` +
+      `(avg ${averageArea}% of frame), ${unchanged} unchanged`
+    );
+  }
+
   protected cleanup(): void {
     super.cleanup();
     this.encoder = null;
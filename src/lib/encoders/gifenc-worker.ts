@@ -0,0 +1,38 @@
+/**
+ * Web Worker entry for GIF encoding (bundled as gifenc-worker.js)
+ * Runs quantization and per-image mapping and compression for GifWorkerPool
+ */
+
+import { quantize } from 'gifenc';
+import { encodeGifImage } from './gif-image-task';
+import type { GifWorkerRequest, GifWorkerResponse } from './gif-worker-pool';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<GifWorkerRequest>) => void) | null;
+  postMessage(message: GifWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = (event) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'quantize') {
+      const palette = quantize(request.pixels, request.maxColors, {
+        format: 'rgb444',
+        clearAlpha: false,
+      });
+      scope.postMessage({ id: request.id, type: 'quantize', palette });
+    } else {
+      const data = encodeGifImage(request.task);
+      scope.postMessage({ id: request.id, type: 'encode-image', data }, [data.buffer]);
+    }
+  } catch (error) {
+    scope.postMessage({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
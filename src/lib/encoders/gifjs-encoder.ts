@@ -5,11 +5,26 @@
 
 import {
   AbstractEncoder,
+  DitheringAlgorithm,
   EncodingOptions,
   EncodingResult,
   EncodingProgress,
   FrameData,
+  OutputFormat,
+  getPlayCount,
 } from './abstract-encoder';
+import { quantize } from 'gifenc';
+import {
+  flattenNearIdenticalRuns,
+  lossinessForQuality,
+  lzwToleranceForLossiness,
+} from './lossy-lzw';
+import { resolveDitheringAlgorithm } from './dithering';
+import { resolveLockedPalette, snapToPalette } from './locked-palette';
+import { toGifRepeat } from './gif-blocks';
+import { samplePalettePixels } from './palette-strategy';
+import { FrameDelayQuantizer } from './frame-timing';
+import { measureGifQuality } from './quality-metrics';
 
 // gif.js type definitions
 
@@ -44,7 +59,7 @@ export class GifJsEncoder extends AbstractEncoder {
     return 'gif.js';
   }
 
-  get supportedFormats(): Array<'gif' | 'mp4'> {
+  get supportedFormats(): OutputFormat[] {
     return ['gif'];
   }
 
@@ -130,8 +145,8 @@ export class GifJsEncoder extends AbstractEncoder {
       quality: quality,
       workers: 2,
       workerScript: workerScript,
-      repeat: options.loop ? 0 : -1, // 0 = loop forever, -1 = no loop
-      dither: options.dithering || false,
+      repeat: toGifRepeat(getPlayCount(options)), // 0 = loop forever, -1 = no loop
+      dither: this.mapDitheringToGifJs(resolveDitheringAlgorithm(options.dithering)),
       debug: false,
       background: options.backgroundColor || undefined,
     });
@@ -141,8 +156,19 @@ export class GifJsEncoder extends AbstractEncoder {
 
     this.reportProgress('preparing', 10, 'Adding frames');
 
-    // Calculate frame delay
-    const baseFrameDelay = Math.round(1000 / options.frameRate);
+    // Calculate frame delay; centisecond rounding error is carried between frames
+    const baseFrameDelay = 1000 / options.frameRate;
+    const timing = new FrameDelayQuantizer();
+
+    // gif.js compresses inside its workers, so lossiness is applied up front by
+    // flattening near-identical runs that its exact LZW can then match
+    const lossyTolerance = lzwToleranceForLossiness(
+      options.lossiness ?? lossinessForQuality(options.quality)
+    );
+
+    // gif.js always builds its own 256-colour palettes, so a locked palette or
+    // smaller colour count is enforced by snapping pixels to it beforehand
+    const snapPalette = this.createSnapPalette(frames, options);
 
     // Add frames to gif.js
     for (let i = 0; i < frames.length; i++) {
@@ -151,10 +177,25 @@ export class GifJsEncoder extends AbstractEncoder {
       }
 
       const frame = frames[i];
-      const frameDelay = frame.delay !== undefined ? frame.delay : baseFrameDelay;
+      const frameDelay = timing.next(frame.delay !== undefined ? frame.delay : baseFrameDelay);
 
       // Put ImageData onto canvas
-      this.ctx!.putImageData(frame.imageData, 0, 0);
+      let pixels = frame.imageData.data;
+      if (snapPalette) {
+        pixels = snapToPalette(pixels, snapPalette);
+      }
+      if (lossyTolerance > 0) {
+        pixels = flattenNearIdenticalRuns(pixels, frame.imageData.width, lossyTolerance);
+      }
+      const imageData =
+        pixels === frame.imageData.data
+          ? frame.imageData
+          : new ImageData(
+              pixels,
+              frame.imageData.width,
+              frame.imageData.height
+            );
+      this.ctx!.putImageData(imageData, 0, 0);
 
       // Add canvas frame to GIF (convert OffscreenCanvas to regular canvas context)
       const regularCanvas = document.createElement('canvas');
@@ -163,6 +204,7 @@ export class GifJsEncoder extends AbstractEncoder {
       const regularCtx = regularCanvas.getContext('2d');
       if (regularCtx) {
         regularCtx.drawImage(this.canvas!, 0, 0);
+        // gif.js cannot write sub-rectangles, so options.frameDelta is not applied here
         this.gifInstance!.addFrame(regularCtx, {
           copy: true,
           delay: frameDelay,
@@ -197,12 +239,17 @@ export class GifJsEncoder extends AbstractEncoder {
         averageFrameTime: encodingTime / frames.length,
         format: 'gif',
         encoder: this.name,
+        duration: timing.achievedMs,
+        requestedDuration: timing.requestedMs,
       },
       performance: {
         success: true,
         efficiency: this.calculateEfficiency(encodingTime, frames.length),
         recommendations: this.generateRecommendations(options, frames.length, encodingTime),
         peakMemoryUsage: this.getCurrentMemoryUsage() || 0,
+        ...(options.measureQuality && {
+          quality: measureGifQuality(frames, new Uint8Array(await blob.arrayBuffer())),
+        }),
       },
     };
   }
@@ -270,6 +317,33 @@ export class GifJsEncoder extends AbstractEncoder {
     }
   }
 
+  private createSnapPalette(frames: FrameData[], options: EncodingOptions): number[][] | null {
+    const maxColors = Math.max(2, Math.min(256, options.maxColors ?? 256));
+    if (options.lockedPalette) {
+      return resolveLockedPalette(options.lockedPalette, frames, maxColors);
+    }
+    if (maxColors < 256 && frames.length > 0) {
+      const sampledPixels = samplePalettePixels(frames, { start: 0, end: frames.length });
+      return quantize(sampledPixels, maxColors, { format: 'rgb444', clearAlpha: false });
+    }
+    return null;
+  }
+
+  /**
+   * gif.js only has error-diffusion kernels and no strength setting; Sierra
+   * Lite and the ordered Bayer patterns fall back to Floyd-Steinberg
+   */
+  private mapDitheringToGifJs(algorithm: DitheringAlgorithm): string | false {
+    switch (algorithm) {
+      case 'none':
+        return false;
+      case 'atkinson':
+        return 'Atkinson';
+      default:
+        return 'FloydSteinberg';
+    }
+  }
+
   private calculateEfficiency(encodingTime: number, frameCount: number): number {
     const timePerFrame = encodingTime / frameCount;
     // gif.js is generally slower, so adjust expectations
@@ -3,9 +3,27 @@
  * Provides backward compatibility while enabling new encoder features
  */
 
-export { AbstractEncoder } from './abstract-encoder';
+export { AbstractEncoder, OUTPUT_FILE_EXTENSIONS } from './abstract-encoder';
 export { GifencEncoder } from './gifenc-encoder';
 export { GifJsEncoder } from './gifjs-encoder';
+export { WebCodecsMp4Encoder } from './webcodecs-mp4-encoder';
+export { WebpEncoder } from './webp-encoder';
+export { ApngEncoder } from './apng-encoder';
+export { parseHexColors } from './locked-palette';
+export { createGifProvenance, embedGifProvenance, readGifProvenance } from './gif-provenance';
+export type { GifProvenance, GifProvenanceSource } from './gif-provenance';
+export { browserFrameDelay, decodeGif, decodeGifFrames } from './gif-decoder';
+export type { DecodedGif, DecodedGifFrame } from './gif-decoder';
+export { createZip } from './zip-writer';
+export type { ZipEntry } from './zip-writer';
+export {
+  computePsnr,
+  computeSsim,
+  computeBandingScore,
+  measureQuality,
+  measureGifQuality,
+} from './quality-metrics';
+export type { FrameQuality, QualityReport } from './quality-metrics';
 export { 
   EncoderFactory, 
   encoderFactory, 
@@ -17,31 +35,42 @@ export type {
   EncodingProgress, 
   EncodingResult, 
   EncodingOptions, 
-  FrameData 
+  FrameData,
+  FrameSink,
+  OutputFormat,
+  PaletteStrategy,
+  DitheringAlgorithm,
+  LockedPalette
 } from './abstract-encoder';
 
 export type { 
   EncoderType, 
   FormatType, 
   EncoderPreference, 
-  EncoderSelection 
+  EncoderSelection,
+  QualityTrial
 } from './encoder-factory';
 
 // Convenience functions for common operations
 import { 
   encoderFactory, 
   EncoderType, 
-  FormatType 
+  FormatType,
+  QualityTrial
 } from './encoder-factory';
 import { 
   EncodingOptions, 
   FrameData, 
+  FrameSink,
   EncodingResult, 
   EncodingProgress 
 } from './abstract-encoder';
+import { GifencEncoder } from './gifenc-encoder';
 
 /**
- * Encode frames using the best available encoder
+ * Encode frames using the best available encoder. With `selectByQuality`,
+ * an auto-selected GIF encoder and its dithering are chosen by trial
+ * encodes scored on measured output quality.
  */
 export async function encodeFrames(
   frames: FrameData[],
@@ -51,20 +80,68 @@ export async function encodeFrames(
     format?: FormatType;
     onProgress?: (progress: EncodingProgress) => void;
     abortSignal?: AbortSignal;
+    selectByQuality?: boolean;
   }
 ): Promise<EncodingResult> {
+  const format = preferences?.format || 'gif';
+  const primary = preferences?.encoder || 'auto';
+
+  let encodingOptions = options;
+  let measured: QualityTrial | undefined;
+  if (preferences?.selectByQuality && format === 'gif' && primary === 'auto') {
+    [measured] = await encoderFactory.compareGifEncoders(frames, options);
+    if (measured) {
+      encodingOptions = { ...options, dithering: measured.dithering };
+    }
+  }
+
   const selection = await encoderFactory.getEncoder({
-    primary: preferences?.encoder || 'auto',
-    fallback: 'gif.js',
-    format: preferences?.format || 'gif'
+    primary,
+    fallback: format === 'gif' ? 'gif.js' : undefined,
+    format
   });
 
-  return selection.encoder.encode(
+  const result = await selection.encoder.encode(
     frames,
-    options,
+    encodingOptions,
     preferences?.onProgress,
     preferences?.abortSignal
   );
+  if (measured) {
+    result.performance.recommendations.push(
+      `Selected ${measured.encoder} with ${measured.dithering} dithering by measured quality ` +
+        `(SSIM ${measured.quality.ssim.toFixed(3)}, banding ${measured.quality.banding.toFixed(3)})`
+    );
+  }
+  return result;
+}
+
+/**
+ * Start a streaming GIF encode, so frames can be released as soon as they
+ * are added. A palette locked to a frame is taken from `paletteFrame`.
+ * Resolves to null when no streaming-capable encoder is available.
+ */
+export async function beginFrameStream(
+  options: EncodingOptions,
+  frameCount: number,
+  preferences?: {
+    onProgress?: (progress: EncodingProgress) => void;
+    abortSignal?: AbortSignal;
+    paletteFrame?: FrameData;
+  }
+): Promise<FrameSink | null> {
+  const selection = await encoderFactory.getEncoder({ primary: 'gifenc', format: 'gif' });
+  if (!(selection.encoder instanceof GifencEncoder)) {
+    return null;
+  }
+
+  return selection.encoder.beginStream(
+    options,
+    frameCount,
+    preferences?.onProgress,
+    preferences?.abortSignal,
+    preferences?.paletteFrame
+  );
 }
 
 /**
@@ -0,0 +1,275 @@
+/**
+ * Loader for the bundled libwebp WebAssembly build (webpxmux.wasm)
+ * Instantiates the module without its Emscripten JS glue and exposes the raw
+ * libwebp encoder/mux C API used for animated WebP output.
+ *
+ * webp-wasm.wasm is an embind build whose exports are only reachable through
+ * generated glue code, so the C exports of webpxmux.wasm are used instead.
+ *
+ * The module is compiled in the content script. MV3 isolated worlds run
+ * under Chrome's default extension policy, which allows 'wasm-unsafe-eval'
+ * whatever the page's own CSP says; extension pages get it from the manifest.
+ */
+
+const WASM_FILENAME = 'webpxmux.wasm';
+
+// Import limits declared by webpxmux.wasm
+const INITIAL_MEMORY_PAGES = 256;
+const MAXIMUM_MEMORY_PAGES = 32768;
+const TABLE_SIZE = 1201;
+const WASM_PAGE_SIZE = 65536;
+
+// ABI versions passed to the libwebp *Internal initialisers (major byte must match v1.1)
+export const WEBP_ENCODER_ABI_VERSION = 0x020f;
+export const WEBP_MUX_ABI_VERSION = 0x0108;
+
+// Large enough for WebPConfig, WebPPicture and WebPAnimEncoderOptions
+const ABI_PROBE_SIZE = 512;
+
+// libc imports the encode path may reach that are safe as no-ops
+const NO_OP_IMPORTS = new Set([
+  'environ_get',
+  'setTempRet0',
+  '__cxa_atexit',
+  'pthread_mutexattr_init',
+  'pthread_mutexattr_settype',
+  'pthread_mutexattr_destroy',
+]);
+
+export interface LibWebPExports {
+  memory: WebAssembly.Memory;
+  malloc(size: number): number;
+  free(ptr: number): void;
+  WebPFree(ptr: number): void;
+  WebPConfigInitInternal(config: number, preset: number, quality: number, version: number): number;
+  WebPConfigLosslessPreset(config: number, level: number): number;
+  WebPValidateConfig(config: number): number;
+  WebPPictureInitInternal(picture: number, version: number): number;
+  WebPPictureImportRGBA(picture: number, rgba: number, stride: number): number;
+  WebPPictureFree(picture: number): void;
+  WebPAnimEncoderOptionsInitInternal(options: number, version: number): number;
+  WebPAnimEncoderNewInternal(
+    width: number,
+    height: number,
+    options: number,
+    version: number
+  ): number;
+  WebPAnimEncoderAdd(encoder: number, picture: number, timestamp: number, config: number): number;
+  WebPAnimEncoderAssemble(encoder: number, webpData: number): number;
+  WebPAnimEncoderGetError(encoder: number): number;
+  WebPAnimEncoderDelete(encoder: number): void;
+}
+
+interface RawExports {
+  sbrk(increment: number): number;
+  __heap_base: WebAssembly.Global;
+  emscripten_stack_get_current(): number;
+  __wasm_call_ctors(): void;
+}
+
+let libWebPPromise: Promise<LibWebPExports> | null = null;
+
+export function isWebAssemblySupported(): boolean {
+  return typeof WebAssembly !== 'undefined' && typeof WebAssembly.instantiate === 'function';
+}
+
+/**
+ * Load and initialise libwebp once per context
+ */
+export function loadLibWebP(): Promise<LibWebPExports> {
+  if (!libWebPPromise) {
+    libWebPPromise = instantiateLibWebP().catch((error) => {
+      // Allow a later retry if loading failed (e.g. transient fetch error)
+      libWebPPromise = null;
+      throw error;
+    });
+  }
+  return libWebPPromise;
+}
+
+/**
+ * Read a NUL-terminated string from module memory
+ */
+export function readCString(lib: LibWebPExports, ptr: number): string {
+  if (!ptr) return '';
+  const bytes = new Uint8Array(lib.memory.buffer);
+  let end = ptr;
+  while (bytes[end] !== 0) end++;
+  return String.fromCharCode(...Array.from(bytes.subarray(ptr, end)));
+}
+
+async function instantiateLibWebP(): Promise<LibWebPExports> {
+  if (!isWebAssemblySupported()) {
+    throw new Error('WebAssembly is not supported in this environment');
+  }
+
+  const wasmUrl =
+    typeof chrome !== 'undefined' && chrome.runtime?.getURL
+      ? chrome.runtime.getURL(WASM_FILENAME)
+      : `/${WASM_FILENAME}`;
+
+  const response = await fetch(wasmUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${WASM_FILENAME}: ${response.status}`);
+  }
+
+  const module = await WebAssembly.compile(await response.arrayBuffer());
+  const memory = new WebAssembly.Memory({
+    initial: INITIAL_MEMORY_PAGES,
+    maximum: MAXIMUM_MEMORY_PAGES,
+  });
+  const table = new WebAssembly.Table({ initial: TABLE_SIZE, element: 'anyfunc' });
+
+  const instance = await WebAssembly.instantiate(module, createImports(module, memory, table));
+  const exports = instance.exports as unknown as LibWebPExports & RawExports;
+
+  // The Emscripten glue normally seeds the sbrk pointer; without it the heap
+  // would start at address 0 and overwrite static data.
+  if (exports.sbrk(0) === 0) {
+    const heapStart = Math.max(
+      exports.__heap_base.value as number,
+      exports.emscripten_stack_get_current()
+    );
+    exports.sbrk((heapStart + 15) & ~15);
+  }
+  exports.__wasm_call_ctors();
+
+  const lib = Object.assign(Object.create(exports) as LibWebPExports, { memory });
+  checkAbiVersions(lib);
+  return lib;
+}
+
+/**
+ * The *InitInternal functions return 0 when the ABI version passed does not
+ * match the build, in which case the struct offsets used by the encoder
+ * cannot be trusted either
+ */
+function checkAbiVersions(lib: LibWebPExports): void {
+  const scratch = lib.malloc(ABI_PROBE_SIZE);
+  if (!scratch) {
+    throw new Error('Out of memory while loading libwebp');
+  }
+  try {
+    const checks: Array<[string, number, () => number]> = [
+      [
+        'WebPConfigInitInternal',
+        WEBP_ENCODER_ABI_VERSION,
+        () => lib.WebPConfigInitInternal(scratch, 0, 75, WEBP_ENCODER_ABI_VERSION),
+      ],
+      [
+        'WebPPictureInitInternal',
+        WEBP_ENCODER_ABI_VERSION,
+        () => lib.WebPPictureInitInternal(scratch, WEBP_ENCODER_ABI_VERSION),
+      ],
+      [
+        'WebPAnimEncoderOptionsInitInternal',
+        WEBP_MUX_ABI_VERSION,
+        () => lib.WebPAnimEncoderOptionsInitInternal(scratch, WEBP_MUX_ABI_VERSION),
+      ],
+    ];
+    for (const [name, version, init] of checks) {
+      if (!init()) {
+        throw new Error(
+          `${WASM_FILENAME} does not support ABI version 0x${version.toString(16)} (${name})`
+        );
+      }
+    }
+  } finally {
+    lib.free(scratch);
+  }
+}
+
+/**
+ * Build the import object. libwebp's encode path only needs heap growth and
+ * memcpy. A few libc imports are harmless no-ops; any other import throws,
+ * so a code path that needs the missing Emscripten glue fails loudly.
+ */
+function createImports(
+  module: WebAssembly.Module,
+  memory: WebAssembly.Memory,
+  table: WebAssembly.Table
+): WebAssembly.Imports {
+  const imports: Record<string, Record<string, WebAssembly.ImportValue>> = {};
+
+  for (const descriptor of WebAssembly.Module.imports(module)) {
+    imports[descriptor.module] ??= {};
+    if (descriptor.kind === 'function') {
+      const { module: importModule, name } = descriptor;
+      imports[importModule][name] = NO_OP_IMPORTS.has(name)
+        ? () => 0
+        : () => {
+            throw new Error(`libwebp called ${importModule}.${name}, which is not available`);
+          };
+    }
+  }
+
+  const writeU32 = (ptr: number, value: number) =>
+    new DataView(memory.buffer).setUint32(ptr, value, true);
+  const readString = (ptr: number) => readCString({ memory } as LibWebPExports, ptr);
+
+  Object.assign(imports.env, {
+    memory,
+    table,
+    abort: () => {
+      throw new Error('libwebp aborted');
+    },
+    __assert_fail: (condition: number, file: number, line: number, func: number) => {
+      throw new Error(
+        `libwebp assertion failed: ${readString(condition)} ` +
+          `(${readString(file)}:${line}, ${readString(func)})`
+      );
+    },
+    __handle_stack_overflow: () => {
+      throw new Error('libwebp stack overflow');
+    },
+    // Returning 0 makes malloc fail, which the encoder reports as out of memory
+    emscripten_resize_heap: (requestedSize: number) => {
+      const currentPages = memory.buffer.byteLength / WASM_PAGE_SIZE;
+      const neededPages = Math.ceil((requestedSize >>> 0) / WASM_PAGE_SIZE);
+      if (neededPages > MAXIMUM_MEMORY_PAGES) {
+        return 0;
+      }
+      // Grow geometrically, as the Emscripten glue does, so large frames
+      // do not grow memory one allocation at a time
+      const targetPages = Math.min(
+        MAXIMUM_MEMORY_PAGES,
+        Math.max(neededPages, Math.ceil(currentPages * 1.2))
+      );
+      try {
+        memory.grow(targetPages - currentPages);
+        return 1;
+      } catch {
+        try {
+          memory.grow(Math.max(0, neededPages - currentPages));
+          return 1;
+        } catch {
+          return 0;
+        }
+      }
+    },
+    emscripten_memcpy_big: (dest: number, src: number, count: number) => {
+      new Uint8Array(memory.buffer).copyWithin(dest, src, src + count);
+      return dest;
+    },
+  });
+
+  Object.assign(imports.wasi_snapshot_preview1 ?? {}, {
+    environ_sizes_get: (countPtr: number, sizePtr: number) => {
+      writeU32(countPtr, 0);
+      writeU32(sizePtr, 0);
+      return 0;
+    },
+    // Swallow stdio output but report it as fully written so callers don't retry
+    fd_write: (_fd: number, iovs: number, iovCount: number, writtenPtr: number) => {
+      const view = new DataView(memory.buffer);
+      let written = 0;
+      for (let i = 0; i < iovCount; i++) {
+        written += view.getUint32(iovs + i * 8 + 4, true);
+      }
+      writeU32(writtenPtr, written);
+      return 0;
+    },
+  });
+
+  return imports;
+}
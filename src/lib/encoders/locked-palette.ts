@@ -0,0 +1,90 @@
+/**
+ * Locked GIF palettes
+ * One fixed palette for every frame, taken from a chosen frame or from a
+ * list of brand colours, in place of quantizing the clip
+ */
+
+import { applyPalette, quantize } from 'gifenc';
+import type { FrameData, LockedPalette } from './abstract-encoder';
+
+// GIF colour tables hold at most 256 entries
+const MAX_PALETTE_SIZE = 256;
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Parse a list of hex colours separated by commas, spaces or new lines.
+ * Accepts #rgb and #rrggbb with or without the '#'; duplicates are dropped.
+ */
+export function parseHexColors(input: string): number[][] {
+  const colors: number[][] = [];
+  const seen = new Set<string>();
+
+  for (const token of input.split(/[\s,;]+/).filter(Boolean)) {
+    const match = HEX_COLOR.exec(token);
+    if (!match) {
+      throw new Error(`Invalid colour "${token}"; use hex values like #ff6600`);
+    }
+    const hex =
+      match[1].length === 3 ? Array.from(match[1], (digit) => digit + digit).join('') : match[1];
+    const key = hex.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    colors.push([0, 2, 4].map((offset) => parseInt(hex.slice(offset, offset + 2), 16)));
+  }
+
+  return colors;
+}
+
+/**
+ * Build the palette for a locked palette setting. A frame palette is
+ * quantized to `maxColors`; a colour list is used as given and only has to
+ * fit the `maxPaletteSize` slots the encoder has available.
+ */
+export function resolveLockedPalette(
+  locked: LockedPalette,
+  frames: FrameData[],
+  maxColors: number,
+  maxPaletteSize = MAX_PALETTE_SIZE
+): number[][] {
+  if (locked.type === 'frame') {
+    if (frames.length === 0) {
+      throw new Error('Cannot lock a palette to a frame of an empty clip');
+    }
+    const index = Math.max(0, Math.min(frames.length - 1, Math.round(locked.frameIndex)));
+    return quantize(frames[index].imageData.data, Math.min(maxColors, maxPaletteSize), {
+      format: 'rgb444',
+      clearAlpha: false,
+    });
+  }
+
+  const colors = parseHexColors(locked.colors.join(' '));
+  if (colors.length === 0) {
+    throw new Error('Locked palette has no colours');
+  }
+  if (colors.length > maxPaletteSize) {
+    throw new Error(
+      `Locked palette has ${colors.length} colours; at most ${maxPaletteSize} fit in a GIF palette`
+    );
+  }
+  return colors;
+}
+
+/**
+ * Replace every pixel with its nearest palette colour, for encoders that
+ * quantize internally and cannot be handed a palette
+ */
+export function snapToPalette(
+  pixels: Uint8ClampedArray,
+  palette: number[][]
+): Uint8ClampedArray<ArrayBuffer> {
+  const indices = applyPalette(pixels, palette, 'rgb444');
+  const output = new Uint8ClampedArray(pixels);
+  for (let p = 0; p < indices.length; p++) {
+    const color = palette[indices[p]];
+    output[p * 4] = color[0];
+    output[p * 4 + 1] = color[1];
+    output[p * 4 + 2] = color[2];
+  }
+  return output;
+}
@@ -0,0 +1,235 @@
+/**
+ * GIF LZW compression with gifsicle-style lossy matching
+ * While extending a dictionary string, an entry whose next colour is within
+ * tolerance of the actual pixel can stand in for an exact match, producing
+ * longer codes and smaller files at the cost of small colour errors
+ */
+
+import type { EncodingOptions } from './abstract-encoder';
+
+const MAX_CODES = 4096;
+const MAX_CODE_SIZE = 12;
+const MAX_SUB_BLOCK = 255;
+
+// Colour error allowed per channel at lossiness 100
+const MAX_LZW_TOLERANCE = 48;
+// gif.js default quality
+const DEFAULT_NUMERIC_QUALITY = 10;
+
+export interface LossyLzwOptions {
+  palette: number[][];
+  pixels: Uint8ClampedArray; // Source RGBA the indices were mapped from
+  tolerance: number; // Largest per-channel difference accepted for a substitute
+  transparentIndex?: number; // Never substituted, so transparency stays exact
+}
+
+/**
+ * Default lossiness for a quality preset; only 'low' gives up exact colours
+ */
+export function lossinessForQuality(quality: EncodingOptions['quality']): number {
+  if (typeof quality === 'number') {
+    // Numeric quality follows the gif.js convention: 1 (best) to 30 (worst),
+    // with its default of 10 and anything better staying lossless
+    const clamped = Math.max(DEFAULT_NUMERIC_QUALITY, Math.min(30, quality));
+    return Math.round(((clamped - DEFAULT_NUMERIC_QUALITY) / 20) * 80);
+  }
+
+  switch (quality) {
+    case 'low':
+      return 60;
+    case 'high':
+    case 'medium':
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Per-channel LZW match tolerance for a lossiness setting from 0 (exact) to 100
+ */
+export function lzwToleranceForLossiness(lossiness: number): number {
+  const clamped = Math.max(0, Math.min(100, lossiness));
+  return Math.round((clamped / 100) * MAX_LZW_TOLERANCE);
+}
+
+/**
+ * Snap horizontal runs of near-identical pixels to the run's first colour.
+ * Used where the LZW stage cannot be replaced (gif.js workers) so the
+ * encoder still sees the longer exact runs a lossy matcher would find.
+ */
+export function flattenNearIdenticalRuns(
+  pixels: Uint8ClampedArray,
+  width: number,
+  tolerance: number
+): Uint8ClampedArray<ArrayBuffer> {
+  const output = new Uint8ClampedArray(pixels);
+  if (tolerance <= 0) return output;
+
+  for (let rowStart = 0; rowStart < output.length; rowStart += width * 4) {
+    let anchor = rowStart;
+    for (let i = rowStart + 4; i < rowStart + width * 4; i += 4) {
+      if (
+        Math.abs(output[i] - output[anchor]) <= tolerance &&
+        Math.abs(output[i + 1] - output[anchor + 1]) <= tolerance &&
+        Math.abs(output[i + 2] - output[anchor + 2]) <= tolerance &&
+        output[i + 3] === output[anchor + 3]
+      ) {
+        output.copyWithin(i, anchor, anchor + 3);
+      } else {
+        anchor = i;
+      }
+    }
+  }
+  return output;
+}
+
+class CodeWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  write(code: number, size: number): void {
+    this.bitBuffer |= code << this.bitCount;
+    this.bitCount += size;
+    while (this.bitCount >= 8) {
+      this.push(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  flush(): void {
+    if (this.bitCount > 0) {
+      this.push(this.bitBuffer & 0xff);
+      this.bitBuffer = 0;
+      this.bitCount = 0;
+    }
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.bytes.subarray(0, this.length);
+  }
+
+  private push(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+/**
+ * LZW-compress palette indices into GIF image data: the minimum code size
+ * byte, the codes split into sub-blocks, and the block terminator.
+ * Without `lossy` (or with tolerance 0) the output is an exact encoding.
+ */
+export function encodeLzw(
+  indices: Uint8Array,
+  minCodeSize: number,
+  lossy?: LossyLzwOptions
+): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const tolerance = lossy?.tolerance ?? 0;
+
+  // Dictionary as a trie: each code lists its children through sibling links
+  const firstChild = new Int32Array(MAX_CODES).fill(-1);
+  const nextSibling = new Int32Array(MAX_CODES);
+  const suffix = new Uint8Array(MAX_CODES);
+
+  const writer = new CodeWriter();
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+
+  const findChild = (code: number, index: number): number => {
+    for (let child = firstChild[code]; child >= 0; child = nextSibling[child]) {
+      if (suffix[child] === index) return child;
+    }
+    return -1;
+  };
+
+  // Closest child whose colour is within tolerance of the source pixel
+  const findSubstitute = (code: number, position: number): number => {
+    const { palette, pixels, transparentIndex } = lossy!;
+    if (indices[position] === transparentIndex) return -1;
+
+    const p = position * 4;
+    let best = -1;
+    let bestError = tolerance + 1;
+    for (let child = firstChild[code]; child >= 0; child = nextSibling[child]) {
+      const candidate = suffix[child];
+      if (candidate === transparentIndex) continue;
+      const color = palette[candidate];
+      const error = Math.max(
+        Math.abs(color[0] - pixels[p]),
+        Math.abs(color[1] - pixels[p + 1]),
+        Math.abs(color[2] - pixels[p + 2])
+      );
+      if (error < bestError) {
+        best = child;
+        bestError = error;
+      }
+    }
+    return best;
+  };
+
+  writer.write(clearCode, codeSize);
+
+  if (indices.length > 0) {
+    let current = indices[0];
+
+    for (let i = 1; i < indices.length; i++) {
+      const index = indices[i];
+      let next = findChild(current, index);
+      if (next < 0 && tolerance > 0) {
+        next = findSubstitute(current, i);
+      }
+      if (next >= 0) {
+        current = next;
+        continue;
+      }
+
+      writer.write(current, codeSize);
+
+      if (nextCode === MAX_CODES) {
+        // Dictionary full: start over
+        writer.write(clearCode, codeSize);
+        firstChild.fill(-1);
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      } else {
+        if (nextCode >= 1 << codeSize && codeSize < MAX_CODE_SIZE) codeSize++;
+        suffix[nextCode] = index;
+        nextSibling[nextCode] = firstChild[current];
+        firstChild[nextCode] = -1;
+        firstChild[current] = nextCode;
+        nextCode++;
+      }
+      current = index;
+    }
+
+    writer.write(current, codeSize);
+  }
+
+  writer.write(endCode, codeSize);
+  writer.flush();
+
+  // Split into length-prefixed sub-blocks
+  const codes = writer.toUint8Array();
+  const blockCount = Math.ceil(codes.length / MAX_SUB_BLOCK);
+  const output = new Uint8Array(1 + codes.length + blockCount + 1);
+  output[0] = minCodeSize;
+  let offset = 1;
+  for (let start = 0; start < codes.length; start += MAX_SUB_BLOCK) {
+    const block = codes.subarray(start, start + MAX_SUB_BLOCK);
+    output[offset++] = block.length;
+    output.set(block, offset);
+    offset += block.length;
+  }
+  output[offset] = 0;
+
+  return output;
+}
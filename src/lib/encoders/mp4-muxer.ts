@@ -0,0 +1,274 @@
+/**
+ * Minimal ISO BMFF (MP4) muxer for a single H.264 video track
+ * Writes a fast-start file (moov before mdat) from encoded AVC samples
+ */
+
+export interface Mp4TrackConfig {
+  width: number;
+  height: number;
+  timescale: number;
+  // avcC decoder configuration record (VideoDecoderConfig.description)
+  decoderConfig: Uint8Array;
+}
+
+export interface Mp4Sample {
+  data: Uint8Array;
+  duration: number; // In track timescale units
+  isKeyframe: boolean;
+}
+
+const IDENTITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number): this {
+    this.bytes.push(value & 0xff);
+    return this;
+  }
+
+  u16(value: number): this {
+    return this.u8(value >>> 8).u8(value);
+  }
+
+  u32(value: number): this {
+    return this.u8(value >>> 24).u8(value >>> 16).u8(value >>> 8).u8(value);
+  }
+
+  zeros(count: number): this {
+    for (let i = 0; i < count; i++) this.bytes.push(0);
+    return this;
+  }
+
+  ascii(text: string): this {
+    for (let i = 0; i < text.length; i++) this.bytes.push(text.charCodeAt(i) & 0xff);
+    return this;
+  }
+
+  matrix(): this {
+    IDENTITY_MATRIX.forEach((value) => this.u32(value));
+    return this;
+  }
+
+  toUint8Array(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function box(type: string, ...payloads: Uint8Array[]): Uint8Array {
+  const body = concat(payloads);
+  const header = new ByteWriter().u32(body.length + 8).ascii(type).toUint8Array();
+  return concat([header, body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payloads: Uint8Array[]) {
+  const versionAndFlags = new ByteWriter().u8(version).u8(flags >>> 16).u16(flags).toUint8Array();
+  return box(type, versionAndFlags, ...payloads);
+}
+
+export class Mp4Muxer {
+  private samples: Mp4Sample[] = [];
+
+  constructor(private config: Mp4TrackConfig) {
+    if (config.width <= 0 || config.height <= 0) {
+      throw new Error('MP4 track dimensions must be positive');
+    }
+    if (config.decoderConfig.length === 0) {
+      throw new Error('MP4 track requires an avcC decoder configuration');
+    }
+  }
+
+  get sampleCount(): number {
+    return this.samples.length;
+  }
+
+  addSample(sample: Mp4Sample): void {
+    if (this.samples.length === 0 && !sample.isKeyframe) {
+      throw new Error('First MP4 sample must be a keyframe');
+    }
+    this.samples.push(sample);
+  }
+
+  /**
+   * Assemble the complete MP4 file
+   */
+  finalize(): Uint8Array {
+    if (this.samples.length === 0) {
+      throw new Error('Cannot finalize MP4 without samples');
+    }
+
+    const ftyp = box(
+      'ftyp',
+      new ByteWriter().ascii('isom').u32(0x200).ascii('isomiso2avc1mp41').toUint8Array()
+    );
+
+    // moov size does not depend on the chunk offset value, so build it once to
+    // measure and again with the real mdat data offset.
+    const provisionalMoov = this.buildMoov(0);
+    const dataOffset = ftyp.length + provisionalMoov.length + 8;
+    const moov = this.buildMoov(dataOffset);
+
+    const mdat = box('mdat', ...this.samples.map((sample) => sample.data));
+
+    return concat([ftyp, moov, mdat]);
+  }
+
+  private get totalDuration(): number {
+    return this.samples.reduce((sum, sample) => sum + sample.duration, 0);
+  }
+
+  private buildMoov(chunkOffset: number): Uint8Array {
+    const { timescale } = this.config;
+    const duration = this.totalDuration;
+
+    const mvhd = fullBox(
+      'mvhd',
+      0,
+      0,
+      new ByteWriter()
+        .u32(0) // creation_time
+        .u32(0) // modification_time
+        .u32(timescale)
+        .u32(duration)
+        .u32(0x00010000) // rate 1.0
+        .u16(0x0100) // volume 1.0
+        .zeros(10)
+        .matrix()
+        .zeros(24)
+        .u32(2) // next_track_ID
+        .toUint8Array()
+    );
+
+    return box('moov', mvhd, this.buildTrak(chunkOffset, duration));
+  }
+
+  private buildTrak(chunkOffset: number, duration: number): Uint8Array {
+    const { width, height, timescale } = this.config;
+
+    const tkhd = fullBox(
+      'tkhd',
+      0,
+      0x000003, // track enabled + in movie
+      new ByteWriter()
+        .u32(0)
+        .u32(0)
+        .u32(1) // track_ID
+        .zeros(4)
+        .u32(duration)
+        .zeros(8)
+        .u16(0) // layer
+        .u16(0) // alternate_group
+        .u16(0) // volume (video track)
+        .zeros(2)
+        .matrix()
+        .u32(width << 16)
+        .u32(height << 16)
+        .toUint8Array()
+    );
+
+    const mdhd = fullBox(
+      'mdhd',
+      0,
+      0,
+      new ByteWriter()
+        .u32(0)
+        .u32(0)
+        .u32(timescale)
+        .u32(duration)
+        .u16(0x55c4) // language 'und'
+        .u16(0)
+        .toUint8Array()
+    );
+
+    const hdlr = fullBox(
+      'hdlr',
+      0,
+      0,
+      new ByteWriter().u32(0).ascii('vide').zeros(12).ascii('VideoHandler').u8(0).toUint8Array()
+    );
+
+    const vmhd = fullBox('vmhd', 0, 1, new ByteWriter().zeros(8).toUint8Array());
+    const dref = fullBox(
+      'dref',
+      0,
+      0,
+      new ByteWriter().u32(1).toUint8Array(),
+      fullBox('url ', 0, 1)
+    );
+    const minf = box('minf', vmhd, box('dinf', dref), this.buildStbl(chunkOffset));
+
+    return box('trak', tkhd, box('mdia', mdhd, hdlr, minf));
+  }
+
+  private buildStbl(chunkOffset: number): Uint8Array {
+    const { width, height, decoderConfig } = this.config;
+
+    const avc1 = box(
+      'avc1',
+      new ByteWriter()
+        .zeros(6)
+        .u16(1) // data_reference_index
+        .zeros(16)
+        .u16(width)
+        .u16(height)
+        .u32(0x00480000) // 72 dpi
+        .u32(0x00480000)
+        .zeros(4)
+        .u16(1) // frame_count
+        .zeros(32) // compressorname
+        .u16(0x0018) // depth
+        .u16(0xffff) // pre_defined = -1
+        .toUint8Array(),
+      box('avcC', decoderConfig)
+    );
+    const stsd = fullBox('stsd', 0, 0, new ByteWriter().u32(1).toUint8Array(), avc1);
+
+    // Run-length encode sample durations
+    const sttsEntries: Array<[number, number]> = [];
+    for (const sample of this.samples) {
+      const last = sttsEntries[sttsEntries.length - 1];
+      if (last && last[1] === sample.duration) {
+        last[0]++;
+      } else {
+        sttsEntries.push([1, sample.duration]);
+      }
+    }
+    const sttsWriter = new ByteWriter().u32(sttsEntries.length);
+    sttsEntries.forEach(([count, delta]) => sttsWriter.u32(count).u32(delta));
+    const stts = fullBox('stts', 0, 0, sttsWriter.toUint8Array());
+
+    const keyframes = this.samples
+      .map((sample, index) => (sample.isKeyframe ? index + 1 : -1))
+      .filter((sampleNumber) => sampleNumber > 0);
+    const stssWriter = new ByteWriter().u32(keyframes.length);
+    keyframes.forEach((sampleNumber) => stssWriter.u32(sampleNumber));
+    const stss = fullBox('stss', 0, 0, stssWriter.toUint8Array());
+
+    // All samples live in a single chunk
+    const stsc = fullBox(
+      'stsc',
+      0,
+      0,
+      new ByteWriter().u32(1).u32(1).u32(this.samples.length).u32(1).toUint8Array()
+    );
+
+    const stszWriter = new ByteWriter().u32(0).u32(this.samples.length);
+    this.samples.forEach((sample) => stszWriter.u32(sample.data.length));
+    const stsz = fullBox('stsz', 0, 0, stszWriter.toUint8Array());
+
+    const stco = fullBox('stco', 0, 0, new ByteWriter().u32(1).u32(chunkOffset).toUint8Array());
+
+    return box('stbl', stsd, stts, stss, stsc, stsz, stco);
+  }
+}
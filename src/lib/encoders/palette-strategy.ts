@@ -0,0 +1,173 @@
+/**
+ * Palette planning for GIF encoding
+ * Splits a clip into segments that share one palette, detecting scene
+ * changes by colour histogram distance for the 'auto' strategy
+ */
+
+import type { FrameData, PaletteStrategy } from './abstract-encoder';
+
+// 3 bits per channel -> 512 colour bins
+const HISTOGRAM_BITS = 3;
+const HISTOGRAM_BINS = 1 << (HISTOGRAM_BITS * 3);
+const HISTOGRAM_SAMPLES = 4096;
+
+// Histogram distance (0 = identical, 1 = disjoint) above which a new palette is started
+const SCENE_CHANGE_THRESHOLD = 0.3;
+
+// Frames sampled when building a palette shared by several frames
+const MAX_PALETTE_SAMPLE_FRAMES = 5;
+
+export interface PaletteSegment {
+  start: number; // First frame index (inclusive)
+  end: number; // Last frame index (exclusive)
+}
+
+/**
+ * Normalised colour histogram from a fixed number of sampled pixels
+ */
+export function computeColorHistogram(pixels: Uint8ClampedArray): Float32Array {
+  const histogram = new Float32Array(HISTOGRAM_BINS);
+  const pixelCount = pixels.length / 4;
+  if (pixelCount === 0) return histogram;
+
+  const step = Math.max(1, Math.floor(pixelCount / HISTOGRAM_SAMPLES));
+  const shift = 8 - HISTOGRAM_BITS;
+  let samples = 0;
+
+  for (let p = 0; p < pixelCount; p += step) {
+    const i = p * 4;
+    const bin =
+      ((pixels[i] >> shift) << (HISTOGRAM_BITS * 2)) |
+      ((pixels[i + 1] >> shift) << HISTOGRAM_BITS) |
+      (pixels[i + 2] >> shift);
+    histogram[bin]++;
+    samples++;
+  }
+
+  for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+    histogram[bin] /= samples;
+  }
+  return histogram;
+}
+
+/**
+ * Total variation distance between two normalised histograms, in [0, 1]
+ */
+export function histogramDistance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let bin = 0; bin < a.length; bin++) {
+    sum += Math.abs(a[bin] - b[bin]);
+  }
+  return sum / 2;
+}
+
+/**
+ * Group frames into palette segments according to the strategy
+ */
+export function planPaletteSegments(
+  frames: FrameData[],
+  strategy: PaletteStrategy,
+  threshold = SCENE_CHANGE_THRESHOLD
+): PaletteSegment[] {
+  if (frames.length === 0) return [];
+
+  if (strategy === 'global') {
+    return [{ start: 0, end: frames.length }];
+  }
+  if (strategy === 'per-frame') {
+    return frames.map((_, index) => ({ start: index, end: index + 1 }));
+  }
+
+  // auto: compare against the first frame of the current segment so that
+  // gradual drift (pans, fades) also triggers a new palette eventually
+  const segments: PaletteSegment[] = [];
+  let segmentStart = 0;
+  let reference = computeColorHistogram(frames[0].imageData.data);
+
+  for (let i = 1; i < frames.length; i++) {
+    const histogram = computeColorHistogram(frames[i].imageData.data);
+    if (histogramDistance(reference, histogram) > threshold) {
+      segments.push({ start: segmentStart, end: i });
+      segmentStart = i;
+      reference = histogram;
+    }
+  }
+  segments.push({ start: segmentStart, end: frames.length });
+
+  return segments;
+}
+
+/**
+ * Concatenate pixels from evenly spaced frames of a segment for quantization
+ */
+export function samplePalettePixels(
+  frames: FrameData[],
+  segment: PaletteSegment
+): Uint8ClampedArray {
+  const length = segment.end - segment.start;
+  const sampleCount = Math.min(MAX_PALETTE_SAMPLE_FRAMES, length);
+  const interval = length / sampleCount;
+
+  const sampled: Uint8ClampedArray[] = [];
+  for (let s = 0; s < sampleCount; s++) {
+    sampled.push(frames[segment.start + Math.floor(s * interval)].imageData.data);
+  }
+  if (sampled.length === 1) return sampled[0];
+
+  const combined = new Uint8ClampedArray(sampled.reduce((sum, pixels) => sum + pixels.length, 0));
+  let offset = 0;
+  for (const pixels of sampled) {
+    combined.set(pixels, offset);
+    offset += pixels.length;
+  }
+  return combined;
+}
+
+/**
+ * Incremental counterpart of planPaletteSegments for frames that arrive one
+ * at a time. Each call sees the next frame to write followed by up to
+ * `lookahead` frames captured after it. It returns the frames to build a new
+ * palette from when that frame starts a segment, or null when the current
+ * palette carries on. A global palette is built from the opening frames.
+ */
+export class StreamingPaletteSegmenter {
+  readonly lookahead = MAX_PALETTE_SAMPLE_FRAMES - 1;
+  private reference: Float32Array | null = null;
+  private started = false;
+
+  constructor(
+    private strategy: PaletteStrategy,
+    private threshold = SCENE_CHANGE_THRESHOLD
+  ) {}
+
+  next(window: FrameData[]): FrameData[] | null {
+    const [frame, ...upcoming] = window;
+
+    if (this.strategy === 'per-frame') {
+      return [frame];
+    }
+    if (this.strategy === 'global') {
+      if (this.started) return null;
+      this.started = true;
+      return window;
+    }
+
+    const histogram = computeColorHistogram(frame.imageData.data);
+    if (this.reference && histogramDistance(this.reference, histogram) <= this.threshold) {
+      return null;
+    }
+    this.reference = histogram;
+
+    // Sample the upcoming frames that still belong to this scene
+    const scene = [frame];
+    for (const next of upcoming) {
+      if (
+        histogramDistance(histogram, computeColorHistogram(next.imageData.data)) > this.threshold
+      ) {
+        break;
+      }
+      scene.push(next);
+    }
+    return scene;
+  }
+}
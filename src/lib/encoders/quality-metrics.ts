@@ -0,0 +1,213 @@
+/**
+ * Objective quality metrics for encoded output
+ * Compares decoded frames with the source frames: PSNR for overall colour
+ * error, SSIM for preserved structure, and a banding score for smooth
+ * gradients that quantization turned into visible steps
+ */
+
+import type { FrameData } from './abstract-encoder';
+import { decodeGif } from './gif-decoder';
+
+export const MAX_PSNR = 100; // dB reported for identical frames
+
+const SSIM_WINDOW = 8; // Pixels per side of the windows SSIM is averaged over
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// Source steps at most this large (in luma) belong to a smooth gradient
+const SMOOTH_STEP = 3;
+// An output step at least this large between flat runs is a visible band edge
+const CONTOUR_STEP = 2;
+
+export interface FrameQuality {
+  psnr: number; // dB, capped at MAX_PSNR
+  ssim: number; // 0-1, 1 = identical
+  banding: number; // Share of smooth gradient positions showing a band edge, 0-1
+}
+
+export interface QualityReport {
+  psnr: number; // Mean over frames
+  ssim: number; // Mean over frames
+  minSsim: number; // Worst frame
+  banding: number; // Mean over frames
+  frames: FrameQuality[];
+}
+
+/**
+ * Peak signal-to-noise ratio over the RGB channels of two same-sized frames
+ */
+export function computePsnr(source: Uint8ClampedArray, decoded: Uint8ClampedArray): number {
+  let squaredError = 0;
+  for (let i = 0; i < source.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      const difference = source[i + channel] - decoded[i + channel];
+      squaredError += difference * difference;
+    }
+  }
+
+  const meanSquaredError = squaredError / ((source.length / 4) * 3);
+  if (meanSquaredError === 0) {
+    return MAX_PSNR;
+  }
+  return Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / meanSquaredError));
+}
+
+/**
+ * Structural similarity of the luma of two frames, averaged over
+ * non-overlapping windows
+ */
+export function computeSsim(
+  source: Uint8ClampedArray,
+  decoded: Uint8ClampedArray,
+  width: number,
+  height: number
+): number {
+  const a = toLuma(source);
+  const b = toLuma(decoded);
+  const windowWidth = Math.min(SSIM_WINDOW, width);
+  const windowHeight = Math.min(SSIM_WINDOW, height);
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top + windowHeight <= height; top += windowHeight) {
+    for (let left = 0; left + windowWidth <= width; left += windowWidth) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let y = top; y < top + windowHeight; y++) {
+        for (let x = left; x < left + windowWidth; x++) {
+          const valueA = a[y * width + x];
+          const valueB = b[y * width + x];
+          sumA += valueA;
+          sumB += valueB;
+          sumAA += valueA * valueA;
+          sumBB += valueB * valueB;
+          sumAB += valueA * valueB;
+        }
+      }
+
+      const count = windowWidth * windowHeight;
+      const meanA = sumA / count;
+      const meanB = sumB / count;
+      const varianceA = sumAA / count - meanA * meanA;
+      const varianceB = sumBB / count - meanB * meanB;
+      const covariance = sumAB / count - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varianceA + varianceB + SSIM_C2));
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 1;
+}
+
+/**
+ * Share of positions in smooth source gradients where the output shows a
+ * false contour: a step between two flat runs. Dither noise has no flat
+ * runs, so it lowers this score while posterized gradients raise it.
+ */
+export function computeBandingScore(
+  source: Uint8ClampedArray,
+  decoded: Uint8ClampedArray,
+  width: number,
+  height: number
+): number {
+  const a = toLuma(source);
+  const b = toLuma(decoded);
+  let gradientPositions = 0;
+  let contours = 0;
+
+  // Four consecutive pixels along a row (stride 1) or a column (stride width)
+  const inspect = (start: number, stride: number) => {
+    const s0 = a[start + stride] - a[start];
+    const s1 = a[start + 2 * stride] - a[start + stride];
+    const s2 = a[start + 3 * stride] - a[start + 2 * stride];
+    const smooth =
+      Math.max(Math.abs(s0), Math.abs(s1), Math.abs(s2)) <= SMOOTH_STEP &&
+      Math.abs(s0 + s1 + s2) >= 0.5;
+    if (!smooth) return;
+
+    gradientPositions++;
+    const d0 = b[start + stride] - b[start];
+    const d1 = b[start + 2 * stride] - b[start + stride];
+    const d2 = b[start + 3 * stride] - b[start + 2 * stride];
+    if (Math.abs(d1) >= CONTOUR_STEP && Math.abs(d0) < 0.5 && Math.abs(d2) < 0.5) {
+      contours++;
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x + 3 < width; x++) {
+      inspect(y * width + x, 1);
+    }
+  }
+  for (let y = 0; y + 3 < height; y++) {
+    for (let x = 0; x < width; x++) {
+      inspect(y * width + x, width);
+    }
+  }
+
+  return gradientPositions > 0 ? contours / gradientPositions : 0;
+}
+
+/**
+ * All metrics for one decoded frame against its source
+ */
+export function measureFrameQuality(source: ImageData, decoded: Uint8ClampedArray): FrameQuality {
+  if (decoded.length !== source.data.length) {
+    throw new Error('Cannot measure quality: decoded frame size differs from the source');
+  }
+  const { width, height, data } = source;
+  return {
+    psnr: computePsnr(data, decoded),
+    ssim: computeSsim(data, decoded, width, height),
+    banding: computeBandingScore(data, decoded, width, height),
+  };
+}
+
+/**
+ * Compare decoded frames with their sources, pairing them in order
+ */
+export function measureQuality(sources: ImageData[], decoded: Uint8ClampedArray[]): QualityReport {
+  const count = Math.min(sources.length, decoded.length);
+  if (count === 0) {
+    throw new Error('Cannot measure quality: no frames to compare');
+  }
+
+  const frames = Array.from({ length: count }, (_, index) =>
+    measureFrameQuality(sources[index], decoded[index])
+  );
+  const mean = (metric: keyof FrameQuality) =>
+    frames.reduce((total, frame) => total + frame[metric], 0) / count;
+
+  return {
+    psnr: mean('psnr'),
+    ssim: mean('ssim'),
+    minSsim: Math.min(...frames.map((frame) => frame.ssim)),
+    banding: mean('banding'),
+    frames,
+  };
+}
+
+/**
+ * Decode an encoded GIF and compare each frame with the frame it came from
+ */
+export function measureGifQuality(frames: FrameData[], gif: Uint8Array): QualityReport {
+  const decoded = decodeGif(gif);
+  return measureQuality(
+    frames.map((frame) => frame.imageData),
+    decoded.frames.map((frame) => frame.pixels)
+  );
+}
+
+// Rec. 601 luma per pixel
+function toLuma(pixels: Uint8ClampedArray): Float32Array {
+  const luma = new Float32Array(pixels.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+  }
+  return luma;
+}
@@ -0,0 +1,327 @@
+/**
+ * WebCodecs MP4 encoder - hardware-accelerated H.264 via VideoEncoder
+ * Produces MP4 files that are typically 5-10x smaller than equivalent GIFs
+ */
+
+import {
+  AbstractEncoder,
+  EncodingOptions,
+  EncodingResult,
+  EncodingProgress,
+  FrameData,
+  OutputFormat,
+} from './abstract-encoder';
+import { Mp4Muxer, Mp4Sample } from './mp4-muxer';
+
+// 90kHz is the conventional video timescale and represents common frame rates well
+const MP4_TIMESCALE = 90000;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE_SIZE = 8;
+
+// H.264 profile prefixes in preference order: High, Main, Constrained Baseline
+const AVC_PROFILES = ['avc1.6400', 'avc1.4d00', 'avc1.42e0'];
+
+// H.264 levels with their maximum frame size in macroblocks
+const AVC_LEVELS: Array<{ level: number; maxMacroblocks: number }> = [
+  { level: 0x1e, maxMacroblocks: 1620 }, // 3.0
+  { level: 0x1f, maxMacroblocks: 3600 }, // 3.1
+  { level: 0x28, maxMacroblocks: 8192 }, // 4.0
+  { level: 0x32, maxMacroblocks: 22080 }, // 5.0
+  { level: 0x33, maxMacroblocks: 36864 }, // 5.1
+];
+
+interface EncodedChunk {
+  data: Uint8Array;
+  timestamp: number;
+  duration: number;
+  isKeyframe: boolean;
+}
+
+export class WebCodecsMp4Encoder extends AbstractEncoder {
+  private videoEncoder: VideoEncoder | null = null;
+
+  get name(): string {
+    return 'webcodecs';
+  }
+
+  get supportedFormats(): OutputFormat[] {
+    return ['mp4'];
+  }
+
+  get characteristics() {
+    return {
+      speed: 'fast' as const,
+      quality: 'high' as const,
+      memoryUsage: 'low' as const,
+      browserSupport: 'good' as const,
+    };
+  }
+
+  isAvailable(): boolean {
+    return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.isAvailable()) {
+      throw new Error('WebCodecs VideoEncoder is not available');
+    }
+    // Codec support depends on frame size, so it is checked per encode
+  }
+
+  async encode(
+    frames: FrameData[],
+    options: EncodingOptions,
+    onProgress?: (progress: EncodingProgress) => void,
+    abortSignal?: AbortSignal
+  ): Promise<EncodingResult> {
+    if (this.isEncoding) {
+      throw new Error('Encoding already in progress');
+    }
+    if (frames.length === 0) {
+      throw new Error('No frames to encode');
+    }
+    if (options.width % 2 !== 0 || options.height % 2 !== 0) {
+      throw new Error('MP4 encoding requires even frame dimensions');
+    }
+
+    this.isEncoding = true;
+    this.progressCallback = onProgress;
+    this.abortController = new AbortController();
+    if (abortSignal?.aborted) {
+      this.abortController.abort();
+    }
+    const onAbort = () => this.abortController?.abort();
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+    this.startTime = performance.now();
+    this.frameCount = frames.length;
+
+    try {
+      return await this.performEncoding(frames, options);
+    } finally {
+      abortSignal?.removeEventListener('abort', onAbort);
+      this.cleanup();
+    }
+  }
+
+  private async performEncoding(
+    frames: FrameData[],
+    options: EncodingOptions
+  ): Promise<EncodingResult> {
+    this.reportProgress('preparing', 0, 'Configuring video encoder');
+
+    const config = await this.resolveEncoderConfig(options);
+    const chunks: EncodedChunk[] = [];
+    let decoderConfig: Uint8Array | null = null;
+    let encoderError: Error | null = null;
+
+    this.videoEncoder = new VideoEncoder({
+      output: (chunk, metadata) => {
+        const description = metadata?.decoderConfig?.description;
+        if (description && !decoderConfig) {
+          decoderConfig = this.toUint8Array(description);
+        }
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        chunks.push({
+          data,
+          timestamp: chunk.timestamp,
+          duration: chunk.duration ?? 0,
+          isKeyframe: chunk.type === 'key',
+        });
+      },
+      error: (error) => {
+        encoderError = error instanceof Error ? error : new Error(String(error));
+      },
+    });
+    this.videoEncoder.configure(config);
+
+    this.reportProgress('preparing', 10, 'Encoding frames');
+
+    const defaultDelay = 1000 / options.frameRate;
+    const keyframeInterval = Math.max(1, Math.round(options.frameRate * KEYFRAME_INTERVAL_SECONDS));
+    let timestampUs = 0;
+
+    for (let i = 0; i < frames.length; i++) {
+      if (this.abortController?.signal.aborted) {
+        throw new Error('Encoding cancelled');
+      }
+      if (encoderError) {
+        throw encoderError;
+      }
+
+      const frame = frames[i];
+      const durationUs = Math.round((frame.delay ?? defaultDelay) * 1000);
+      const videoFrame = new VideoFrame(frame.imageData.data, {
+        format: 'RGBA',
+        codedWidth: frame.imageData.width,
+        codedHeight: frame.imageData.height,
+        timestamp: timestampUs,
+        duration: durationUs,
+      });
+
+      try {
+        this.videoEncoder.encode(videoFrame, { keyFrame: i % keyframeInterval === 0 });
+      } finally {
+        videoFrame.close();
+      }
+      timestampUs += durationUs;
+
+      // Apply backpressure so queued frames don't pile up in memory
+      while (this.videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE_SIZE) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+
+      const progress = 10 + Math.round(((i + 1) / frames.length) * 80);
+      this.reportProgress('encoding', progress, `Encoding frame ${i + 1}/${frames.length}`);
+    }
+
+    this.reportProgress('finalizing', 90, 'Flushing encoder');
+    await this.videoEncoder.flush();
+    if (encoderError) {
+      throw encoderError;
+    }
+
+    if (!decoderConfig) {
+      throw new Error('Video encoder did not provide an H.264 decoder configuration');
+    }
+
+    this.reportProgress('finalizing', 95, 'Writing MP4 container');
+    const bytes = this.mux(chunks, decoderConfig, options, timestampUs);
+    // The muxer returns a freshly allocated array, so its buffer holds exactly the file
+    const blob = new Blob([bytes.buffer as ArrayBuffer], { type: 'video/mp4' });
+    const encodingTime = performance.now() - this.startTime;
+
+    this.reportProgress('completed', 100, 'Encoding complete');
+
+    return {
+      blob,
+      metadata: {
+        width: options.width,
+        height: options.height,
+        frameCount: frames.length,
+        fileSize: blob.size,
+        encodingTime,
+        averageFrameTime: encodingTime / frames.length,
+        format: 'mp4',
+        encoder: this.name,
+      },
+      performance: {
+        success: true,
+        efficiency: Math.min(1, 5000 / encodingTime),
+        recommendations: [],
+        peakMemoryUsage: this.getCurrentMemoryUsage() || 0,
+      },
+    };
+  }
+
+  /**
+   * Find the best H.264 configuration the browser supports for this frame size
+   */
+  private async resolveEncoderConfig(options: EncodingOptions): Promise<VideoEncoderConfig> {
+    const level = this.selectAvcLevel(options.width, options.height);
+
+    for (const profile of AVC_PROFILES) {
+      const config: VideoEncoderConfig = {
+        codec: `${profile}${level.toString(16).padStart(2, '0')}`,
+        width: options.width,
+        height: options.height,
+        bitrate: this.calculateBitrate(options),
+        framerate: options.frameRate,
+        avc: { format: 'avc' },
+      };
+
+      try {
+        const support = await VideoEncoder.isConfigSupported(config);
+        if (support.supported) {
+          return support.config ?? config;
+        }
+      } catch {
+        // Try the next profile
+      }
+    }
+
+    throw new Error(`H.264 encoding is not supported at ${options.width}x${options.height}`);
+  }
+
+  private selectAvcLevel(width: number, height: number): number {
+    const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+    const match = AVC_LEVELS.find((entry) => macroblocks <= entry.maxMacroblocks);
+    return (match ?? AVC_LEVELS[AVC_LEVELS.length - 1]).level;
+  }
+
+  private calculateBitrate(options: EncodingOptions): number {
+    const bitsPerPixel = this.mapQualityToBitsPerPixel(options.quality);
+    const bitrate = options.width * options.height * options.frameRate * bitsPerPixel;
+    return Math.max(100_000, Math.round(bitrate));
+  }
+
+  private mapQualityToBitsPerPixel(quality: EncodingOptions['quality']): number {
+    if (typeof quality === 'number') {
+      // Numeric quality follows the gif.js convention: 1 (best) to 30 (worst)
+      const clamped = Math.max(1, Math.min(30, quality));
+      return 0.25 - ((clamped - 1) / 29) * 0.2;
+    }
+
+    switch (quality) {
+      case 'low':
+        return 0.05;
+      case 'high':
+        return 0.2;
+      case 'medium':
+      default:
+        return 0.1;
+    }
+  }
+
+  private mux(
+    chunks: EncodedChunk[],
+    decoderConfig: Uint8Array,
+    options: EncodingOptions,
+    totalDurationUs: number
+  ): Uint8Array {
+    const muxer = new Mp4Muxer({
+      width: options.width,
+      height: options.height,
+      timescale: MP4_TIMESCALE,
+      decoderConfig,
+    });
+
+    // Samples are written in decode order without a ctts box, so presentation
+    // order must match; reordered (B-)frames cannot be written correctly
+    chunks.forEach((chunk, index) => {
+      if (index > 0 && chunk.timestamp <= chunks[index - 1].timestamp) {
+        throw new Error('Video encoder reordered frames, which the MP4 muxer cannot write');
+      }
+    });
+
+    // Derive sample durations from cumulative timestamps to avoid rounding drift
+    chunks.forEach((chunk, index) => {
+      const endUs = index + 1 < chunks.length ? chunks[index + 1].timestamp : totalDurationUs;
+      const start = Math.round((chunk.timestamp * MP4_TIMESCALE) / 1_000_000);
+      const end = Math.round((endUs * MP4_TIMESCALE) / 1_000_000);
+      const sample: Mp4Sample = {
+        data: chunk.data,
+        duration: Math.max(1, end - start),
+        isKeyframe: chunk.isKeyframe,
+      };
+      muxer.addSample(sample);
+    });
+
+    return muxer.finalize();
+  }
+
+  private toUint8Array(source: AllowSharedBufferSource): Uint8Array {
+    if (ArrayBuffer.isView(source)) {
+      return new Uint8Array(source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength));
+    }
+    return new Uint8Array(source.slice(0));
+  }
+
+  protected cleanup(): void {
+    super.cleanup();
+    if (this.videoEncoder && this.videoEncoder.state !== 'closed') {
+      this.videoEncoder.close();
+    }
+    this.videoEncoder = null;
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Animated WebP encoder backed by the bundled libwebp WebAssembly module
+ * Supports lossy (VP8) and lossless (VP8L) frames with full alpha
+ */
+
+import {
+  AbstractEncoder,
+  EncodingOptions,
+  EncodingResult,
+  EncodingProgress,
+  FrameData,
+  OutputFormat,
+  getPlayCount,
+} from './abstract-encoder';
+import {
+  LibWebPExports,
+  WEBP_ENCODER_ABI_VERSION,
+  WEBP_MUX_ABI_VERSION,
+  isWebAssemblySupported,
+  loadLibWebP,
+  readCString,
+} from './libwebp-module';
+
+// Byte offsets into libwebp structs (wasm32 layout, libwebp 1.1)
+const ANIM_OPTIONS_LOOP_COUNT = 4; // WebPAnimEncoderOptions.anim_params.loop_count
+const CONFIG_LOSSLESS = 0; // WebPConfig.lossless
+const CONFIG_QUALITY = 4; // WebPConfig.quality (float)
+const PICTURE_USE_ARGB = 0; // WebPPicture.use_argb
+const PICTURE_WIDTH = 8;
+const PICTURE_HEIGHT = 12;
+
+// Generous allocations; the init functions clear exactly sizeof(struct)
+const STRUCT_ALLOCATION_SIZE = 512;
+const WEBP_DATA_SIZE = 8; // WebPData { const uint8_t* bytes; size_t size; }
+
+const WEBP_PRESET_DEFAULT = 0;
+const LOSSLESS_PRESET_LEVEL = 6;
+
+export class WebpEncoder extends AbstractEncoder {
+  private lib: LibWebPExports | null = null;
+
+  get name(): string {
+    return 'webp';
+  }
+
+  get supportedFormats(): OutputFormat[] {
+    return ['webp'];
+  }
+
+  get characteristics() {
+    return {
+      speed: 'medium' as const,
+      quality: 'high' as const,
+      memoryUsage: 'medium' as const,
+      browserSupport: 'good' as const,
+    };
+  }
+
+  isAvailable(): boolean {
+    return isWebAssemblySupported();
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.isAvailable()) {
+      throw new Error('WebAssembly is not available for WebP encoding');
+    }
+    this.lib = await loadLibWebP();
+  }
+
+  async encode(
+    frames: FrameData[],
+    options: EncodingOptions,
+    onProgress?: (progress: EncodingProgress) => void,
+    abortSignal?: AbortSignal
+  ): Promise<EncodingResult> {
+    if (this.isEncoding) {
+      throw new Error('Encoding already in progress');
+    }
+    if (frames.length === 0) {
+      throw new Error('No frames to encode');
+    }
+
+    this.isEncoding = true;
+    this.progressCallback = onProgress;
+    this.abortController = new AbortController();
+    if (abortSignal?.aborted) {
+      this.abortController.abort();
+    }
+    const onAbort = () => this.abortController?.abort();
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+    this.startTime = performance.now();
+    this.frameCount = frames.length;
+
+    try {
+      if (!this.lib) {
+        await this.initialize();
+      }
+      return await this.performEncoding(this.lib!, frames, options);
+    } finally {
+      abortSignal?.removeEventListener('abort', onAbort);
+      this.cleanup();
+    }
+  }
+
+  private async performEncoding(
+    lib: LibWebPExports,
+    frames: FrameData[],
+    options: EncodingOptions
+  ): Promise<EncodingResult> {
+    this.reportProgress('preparing', 0, 'Initializing WebP encoder');
+
+    const { width, height } = options;
+    const frameBytes = width * height * 4;
+    const allocations: number[] = [];
+    const alloc = (size: number) => {
+      const ptr = lib.malloc(size);
+      if (!ptr) {
+        throw new Error('Out of memory while encoding WebP');
+      }
+      allocations.push(ptr);
+      return ptr;
+    };
+    const view = () => new DataView(lib.memory.buffer);
+
+    let animEncoder = 0;
+
+    try {
+      const animOptions = alloc(STRUCT_ALLOCATION_SIZE);
+      if (!lib.WebPAnimEncoderOptionsInitInternal(animOptions, WEBP_MUX_ABI_VERSION)) {
+        throw new Error('libwebp animation options version mismatch');
+      }
+      // loop_count 0 means loop forever
+      view().setInt32(animOptions + ANIM_OPTIONS_LOOP_COUNT, getPlayCount(options), true);
+
+      animEncoder = lib.WebPAnimEncoderNewInternal(
+        width,
+        height,
+        animOptions,
+        WEBP_MUX_ABI_VERSION
+      );
+      if (!animEncoder) {
+        throw new Error(`Failed to create WebP animation encoder at ${width}x${height}`);
+      }
+
+      const config = this.createConfig(lib, alloc(STRUCT_ALLOCATION_SIZE), options);
+      const picture = alloc(STRUCT_ALLOCATION_SIZE);
+      const pixels = alloc(frameBytes);
+
+      this.reportProgress('preparing', 10, 'Encoding frames');
+
+      const defaultDelay = 1000 / options.frameRate;
+      let timestampMs = 0;
+
+      for (let i = 0; i < frames.length; i++) {
+        if (this.abortController?.signal.aborted) {
+          throw new Error('Encoding cancelled');
+        }
+
+        const { imageData, delay } = frames[i];
+        if (imageData.width !== width || imageData.height !== height) {
+          throw new Error(
+            `Frame ${i} is ${imageData.width}x${imageData.height}, expected ${width}x${height}`
+          );
+        }
+
+        if (!lib.WebPPictureInitInternal(picture, WEBP_ENCODER_ABI_VERSION)) {
+          throw new Error('libwebp picture version mismatch');
+        }
+        const pictureView = view();
+        pictureView.setInt32(picture + PICTURE_USE_ARGB, 1, true);
+        pictureView.setInt32(picture + PICTURE_WIDTH, width, true);
+        pictureView.setInt32(picture + PICTURE_HEIGHT, height, true);
+
+        // Memory may have grown during the previous frame, so take a fresh view
+        new Uint8Array(lib.memory.buffer, pixels, frameBytes).set(imageData.data);
+
+        try {
+          if (!lib.WebPPictureImportRGBA(picture, pixels, width * 4)) {
+            throw new Error('Failed to import frame into WebP picture');
+          }
+          if (!lib.WebPAnimEncoderAdd(animEncoder, picture, Math.round(timestampMs), config)) {
+            throw new Error(this.getEncoderError(lib, animEncoder, `Failed to add frame ${i}`));
+          }
+        } finally {
+          lib.WebPPictureFree(picture);
+        }
+
+        timestampMs += delay ?? defaultDelay;
+
+        const progress = 10 + Math.round(((i + 1) / frames.length) * 80);
+        this.reportProgress('encoding', progress, `Encoding frame ${i + 1}/${frames.length}`);
+
+        // Yield so cancellation and progress updates get a chance to run
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+
+      this.reportProgress('finalizing', 90, 'Assembling animated WebP');
+
+      // A final NULL frame sets the duration of the last real frame
+      if (!lib.WebPAnimEncoderAdd(animEncoder, 0, Math.round(timestampMs), 0)) {
+        throw new Error(this.getEncoderError(lib, animEncoder, 'Failed to finish animation'));
+      }
+
+      const webpData = alloc(WEBP_DATA_SIZE);
+      new Uint8Array(lib.memory.buffer, webpData, WEBP_DATA_SIZE).fill(0);
+      if (!lib.WebPAnimEncoderAssemble(animEncoder, webpData)) {
+        throw new Error(this.getEncoderError(lib, animEncoder, 'Failed to assemble WebP'));
+      }
+
+      const dataView = view();
+      const bytesPtr = dataView.getUint32(webpData, true);
+      const size = dataView.getUint32(webpData + 4, true);
+      // slice() copies out of wasm memory so the blob owns its bytes
+      const bytes = new Uint8Array(lib.memory.buffer).slice(bytesPtr, bytesPtr + size);
+      lib.WebPFree(bytesPtr);
+
+      const blob = new Blob([bytes.buffer as ArrayBuffer], { type: 'image/webp' });
+      const encodingTime = performance.now() - this.startTime;
+
+      this.reportProgress('completed', 100, 'Encoding complete');
+
+      return {
+        blob,
+        metadata: {
+          width,
+          height,
+          frameCount: frames.length,
+          fileSize: blob.size,
+          encodingTime,
+          averageFrameTime: encodingTime / frames.length,
+          format: 'webp',
+          encoder: this.name,
+        },
+        performance: {
+          success: true,
+          efficiency: Math.min(1, 5000 / encodingTime),
+          recommendations: [],
+          peakMemoryUsage: lib.memory.buffer.byteLength,
+        },
+      };
+    } finally {
+      if (animEncoder) {
+        lib.WebPAnimEncoderDelete(animEncoder);
+      }
+      allocations.forEach((ptr) => lib.free(ptr));
+    }
+  }
+
+  private createConfig(lib: LibWebPExports, config: number, options: EncodingOptions): number {
+    const quality = this.mapQuality(options.quality);
+    if (
+      !lib.WebPConfigInitInternal(config, WEBP_PRESET_DEFAULT, quality, WEBP_ENCODER_ABI_VERSION)
+    ) {
+      throw new Error('libwebp config version mismatch');
+    }
+
+    if (options.lossless) {
+      lib.WebPConfigLosslessPreset(config, LOSSLESS_PRESET_LEVEL);
+    } else {
+      const configView = new DataView(lib.memory.buffer);
+      configView.setInt32(config + CONFIG_LOSSLESS, 0, true);
+      configView.setFloat32(config + CONFIG_QUALITY, quality, true);
+    }
+
+    if (!lib.WebPValidateConfig(config)) {
+      throw new Error('Invalid WebP encoder configuration');
+    }
+    return config;
+  }
+
+  private mapQuality(quality: EncodingOptions['quality']): number {
+    if (typeof quality === 'number') {
+      // Numeric quality follows the gif.js convention: 1 (best) to 30 (worst)
+      const clamped = Math.max(1, Math.min(30, quality));
+      return 95 - ((clamped - 1) / 29) * 65;
+    }
+
+    switch (quality) {
+      case 'low':
+        return 50;
+      case 'high':
+        return 90;
+      case 'medium':
+      default:
+        return 75;
+    }
+  }
+
+  private getEncoderError(lib: LibWebPExports, animEncoder: number, fallback: string): string {
+    const message = readCString(lib, lib.WebPAnimEncoderGetError(animEncoder));
+    return message ? `${fallback}: ${message}` : fallback;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * ZIP archive writer
+ * Stores entries uncompressed: PNG frames are already deflated, so a second
+ * pass would cost time for no gain
+ */
+
+import { crc32 } from './crc32';
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, '/' separated
+  data: Uint8Array;
+  modified?: Date; // Defaults to the time the archive is written
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const VERSION_NEEDED = 20; // 2.0: plain stored entries in folders
+const FLAG_UTF8_NAMES = 0x0800;
+const METHOD_STORED = 0;
+// Without ZIP64 records, sizes, offsets and entry counts must fit these
+const MAX_ZIP_BYTES = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+interface WrittenEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * Write entries into a ZIP archive. Throws if the archive would need ZIP64.
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`A ZIP archive holds at most ${MAX_ZIP_ENTRIES} entries`);
+  }
+
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const written: WrittenEntry[] = [];
+  let offset = 0;
+  entries.forEach((entry) => {
+    const { time, date } = toDosDateTime(entry.modified ?? now);
+    written.push({
+      name: encoder.encode(entry.name),
+      crc: crc32(entry.data),
+      size: entry.data.length,
+      offset,
+      time,
+      date,
+    });
+    offset += LOCAL_HEADER_SIZE + written[written.length - 1].name.length + entry.data.length;
+  });
+
+  const directoryOffset = offset;
+  const directorySize = written.reduce(
+    (total, entry) => total + CENTRAL_HEADER_SIZE + entry.name.length,
+    0
+  );
+  const totalSize = directoryOffset + directorySize + END_OF_CENTRAL_DIRECTORY_SIZE;
+  if (totalSize > MAX_ZIP_BYTES) {
+    throw new Error('ZIP archive would be larger than 4 GB');
+  }
+
+  const zip = new Uint8Array(totalSize);
+  const view = new DataView(zip.buffer);
+  let position = 0;
+
+  written.forEach((entry, index) => {
+    view.setUint32(position, LOCAL_HEADER_SIGNATURE, true);
+    writeEntryFields(view, position + 4, entry);
+    zip.set(entry.name, position + LOCAL_HEADER_SIZE);
+    position += LOCAL_HEADER_SIZE + entry.name.length;
+    zip.set(entries[index].data, position);
+    position += entry.size;
+  });
+
+  written.forEach((entry) => {
+    view.setUint32(position, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(position + 4, VERSION_NEEDED, true); // Version made by
+    writeEntryFields(view, position + 6, entry);
+    // Comment length, disk number, internal and external attributes stay 0
+    view.setUint32(position + 42, entry.offset, true);
+    zip.set(entry.name, position + CENTRAL_HEADER_SIZE);
+    position += CENTRAL_HEADER_SIZE + entry.name.length;
+  });
+
+  view.setUint32(position, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(position + 8, written.length, true); // Entries on this disk
+  view.setUint16(position + 10, written.length, true); // Entries in total
+  view.setUint32(position + 12, directorySize, true);
+  view.setUint32(position + 16, directoryOffset, true);
+
+  return zip;
+}
+
+// Fields shared by local and central headers, from "version needed" to "extra length"
+function writeEntryFields(view: DataView, offset: number, entry: WrittenEntry): void {
+  view.setUint16(offset, VERSION_NEEDED, true);
+  view.setUint16(offset + 2, FLAG_UTF8_NAMES, true);
+  view.setUint16(offset + 4, METHOD_STORED, true);
+  view.setUint16(offset + 6, entry.time, true);
+  view.setUint16(offset + 8, entry.date, true);
+  view.setUint32(offset + 10, entry.crc, true);
+  view.setUint32(offset + 14, entry.size, true); // Compressed size
+  view.setUint32(offset + 18, entry.size, true); // Uncompressed size
+  view.setUint16(offset + 22, entry.name.length, true);
+  view.setUint16(offset + 24, 0, true); // Extra field length
+}
+
+// MS-DOS timestamps count from 1980 in local time, to two-second precision
+function toDosDateTime(value: Date): { time: number; date: number } {
+  const year = Math.min(2107, Math.max(1980, value.getFullYear()));
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}
@@ -1,6 +1,10 @@
-// Instant frame capture - captures frames immediately without any seeking
+// Instant frame capture - captures frames with short fixed waits instead of confirming seeks
 import { logger } from './logger';
 import { createError } from './errors';
+import { captureStrategies } from './capture';
+
+// Instant capture is a quick fallback; it keeps to the start of the clip
+const MAX_INSTANT_FRAMES = 12;
 
 export interface InstantCaptureOptions {
   frameCount?: number;
@@ -63,41 +67,33 @@ export async function captureInstantFrames(
     // Store original time
     const originalTime = videoElement.currentTime;
     
-    // If video is outside range, move to start
-    if (videoElement.currentTime < startTime || videoElement.currentTime > endTime) {
-      videoElement.currentTime = startTime;
-      // Wait briefly for seek
-      await new Promise(resolve => setTimeout(resolve, 200));
-    }
-
-    // Capture frames with minimal seeking
+    // Capture frames with the timed strategy, which does not wait for seeks to confirm
     const duration = endTime - startTime;
     const interval = duration / frameCount;
-    
-    for (let i = 0; i < frameCount; i++) {
-      const targetTime = startTime + (i * interval);
-      
-      // Only seek if we're capturing multiple frames
-      if (i > 0) {
-        videoElement.currentTime = Math.min(targetTime, endTime);
-        // Very short wait - just enough for frame to update
-        await new Promise(resolve => setTimeout(resolve, 50));
-      }
-      
-      // Capture current frame
-      ctx.clearRect(0, 0, actualWidth, actualHeight);
-      ctx.drawImage(videoElement, 0, 0, actualWidth, actualHeight);
-      
-      const imageData = ctx.getImageData(0, 0, actualWidth, actualHeight);
-      frames.push(imageData);
-      
-      logger.debug(`[InstantCapture] Captured frame ${i + 1}/${frameCount}`);
-      
-      // If we got at least 5 frames and it's taking too long, stop
-      if (frames.length >= 5 && i > 10) {
-        logger.warn('[InstantCapture] Stopping early with partial frames');
-        break;
+    const times: number[] = [];
+    for (let i = 0; i < Math.min(frameCount, MAX_INSTANT_FRAMES); i++) {
+      times.push(Math.min(startTime + i * interval, endTime));
+    }
+
+    await captureStrategies.get('timed').capture(
+      videoElement,
+      times,
+      () => {
+        ctx.clearRect(0, 0, actualWidth, actualHeight);
+        ctx.drawImage(videoElement, 0, 0, actualWidth, actualHeight);
+        return ctx.getImageData(0, 0, actualWidth, actualHeight);
+      },
+      (imageData, i) => {
+        frames.push(imageData);
+        logger.debug(`[InstantCapture] Captured frame ${i + 1}/${frameCount}`);
       }
+    );
+
+    if (frames.length < frameCount) {
+      logger.warn('[InstantCapture] Captured only the start of the clip', {
+        captured: frames.length,
+        requested: frameCount
+      });
     }
     
     // Restore video state
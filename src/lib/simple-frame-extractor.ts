@@ -1,6 +1,7 @@
-// Simplified frame extraction that captures frames in real-time without seeking
+// Simplified frame extraction into ImageData, using the selected capture strategy
 import { logger } from './logger';
 import { createError } from './errors';
+import { CapturePreference, CaptureStrategyId, selectCaptureStrategy } from './capture';
 
 export interface SimpleFrameExtractionOptions {
   startTime: number;
@@ -9,6 +10,7 @@ export interface SimpleFrameExtractionOptions {
   quality: 'low' | 'medium' | 'high';
   maxWidth?: number;
   maxHeight?: number;
+  strategy?: CapturePreference; // Defaults to automatic selection
 }
 
 export interface SimpleFrameExtractionResult {
@@ -19,6 +21,7 @@ export interface SimpleFrameExtractionResult {
     dimensions: { width: number; height: number };
     duration: number;
     extractionMethod: 'simple-capture';
+    captureStrategy: CaptureStrategyId;
     processingTime: number;
   };
 }
@@ -94,52 +97,51 @@ export async function extractFramesSimple(
     const originalTime = videoElement.currentTime;
     const wasPlaying = !videoElement.paused;
     
-    // Ultra-simple approach: Just capture frames at current position with small increments
-    logger.info('[SimpleFrameExtractor] Using ultra-simple instant capture method');
-    
     // Pause video for stable capture
     videoElement.pause();
-    
-    // Move to start position if needed
-    if (videoElement.currentTime < options.startTime || videoElement.currentTime > options.endTime) {
-      videoElement.currentTime = options.startTime;
-    }
-    
+
     // Calculate frame times
     const frameInterval = duration / targetFrameCount;
-    
-    // Capture frames by incrementing currentTime
-    logger.info('[SimpleFrameExtractor] Starting frame capture loop', { targetFrameCount });
+    const times: number[] = [];
     for (let i = 0; i < targetFrameCount; i++) {
-      const captureTime = options.startTime + (i * frameInterval);
-      
-      logger.debug(`[SimpleFrameExtractor] Setting video time to ${captureTime.toFixed(2)}s for frame ${i + 1}`);
-      // Set video to capture time
-      videoElement.currentTime = Math.min(captureTime, options.endTime);
-      
-      // Small delay to let frame render
-      logger.debug(`[SimpleFrameExtractor] Waiting 100ms for frame to render`);
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      // Capture frame
-      ctx.clearRect(0, 0, width, height);
-      ctx.drawImage(videoElement, 0, 0, width, height);
-      
-      const imageData = ctx.getImageData(0, 0, width, height);
-      frames.push(imageData);
-      
-      // Report progress
-      if (onProgress) {
-        const progress = ((i + 1) / targetFrameCount) * 100;
-        onProgress({
-          progress,
-          message: `Captured ${i + 1}/${targetFrameCount} frames`,
-          stage: 'extracting'
-        });
-      }
-      
-      logger.info(`[SimpleFrameExtractor] Captured frame ${i + 1}/${targetFrameCount} at ${captureTime.toFixed(2)}s`);
+      times.push(Math.min(options.startTime + i * frameInterval, options.endTime));
     }
+
+    const { strategy, reason } = selectCaptureStrategy(
+      videoElement,
+      { duration, frameRate: options.frameRate, frameCount: targetFrameCount, width, height },
+      options.strategy
+    );
+
+    logger.info('[SimpleFrameExtractor] Starting frame capture loop', {
+      targetFrameCount,
+      strategy: strategy.id,
+      reason
+    });
+    await strategy.capture(
+      videoElement,
+      times,
+      () => {
+        ctx.clearRect(0, 0, width, height);
+        ctx.drawImage(videoElement, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height);
+      },
+      (imageData, i) => {
+        frames.push(imageData);
+
+        // Report progress
+        if (onProgress) {
+          const progress = ((i + 1) / targetFrameCount) * 100;
+          onProgress({
+            progress,
+            message: `Captured ${i + 1}/${targetFrameCount} frames`,
+            stage: 'extracting'
+          });
+        }
+
+        logger.info(`[SimpleFrameExtractor] Captured frame ${i + 1}/${targetFrameCount} at ${times[i].toFixed(2)}s`);
+      }
+    );
     logger.info('[SimpleFrameExtractor] Frame capture loop completed', { capturedFrames: frames.length });
     
     // Restore original state
@@ -163,6 +165,7 @@ export async function extractFramesSimple(
         dimensions: { width, height },
         duration,
         extractionMethod: 'simple-capture',
+        captureStrategy: strategy.id,
         processingTime
       }
     };
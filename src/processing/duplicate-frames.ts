@@ -0,0 +1,108 @@
+/**
+ * Duplicate frame merging
+ * Collapses runs of identical or near-identical consecutive frames into one
+ * frame shown for the run's combined delay, so static moments such as
+ * slides and paused scenes cost a single image
+ */
+
+import type { FrameData } from '@/lib/encoders';
+
+// Perceptual distance (0-255) below which a pixel counts as unchanged; absorbs
+// the noise video decoding adds to static areas
+const PIXEL_NOISE_DISTANCE = 10;
+
+// Default share of pixels that may visibly change within a merged run
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.005;
+
+export interface MergedFrames {
+  frames: FrameData[];
+  sourceIndices: number[]; // Index of the input frame each merged frame starts at
+}
+
+/**
+ * Whether two frames look the same: at most `threshold` (0-1) of their
+ * pixels differ visibly. Channel differences are weighted by how much they
+ * contribute to perceived brightness.
+ */
+export function isDuplicateFrame(a: ImageData, b: ImageData, threshold: number): boolean {
+  if (a.width !== b.width || a.height !== b.height) return false;
+
+  const pixelsA = a.data;
+  const pixelsB = b.data;
+  const maxChanged = Math.floor(threshold * a.width * a.height);
+  const noise = PIXEL_NOISE_DISTANCE * PIXEL_NOISE_DISTANCE;
+  let changed = 0;
+
+  for (let i = 0; i < pixelsA.length; i += 4) {
+    const dr = pixelsA[i] - pixelsB[i];
+    const dg = pixelsA[i + 1] - pixelsB[i + 1];
+    const db = pixelsA[i + 2] - pixelsB[i + 2];
+    if (0.299 * dr * dr + 0.587 * dg * dg + 0.114 * db * db > noise) {
+      if (++changed > maxChanged) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Merges frames as they arrive. Each frame is compared with the first frame
+ * of the current run, so slow drift still ends a run eventually.
+ */
+export class DuplicateFrameMerger {
+  merged = 0; // Frames folded into an earlier one
+  private held: FrameData | null = null;
+
+  constructor(
+    private defaultDelay: number,
+    private threshold = DEFAULT_DUPLICATE_THRESHOLD
+  ) {}
+
+  /**
+   * Add the next frame. Returns the previous run's frame, carrying the run's
+   * summed delay, when this frame starts a new run; otherwise null.
+   */
+  push(frame: FrameData): FrameData | null {
+    const delay = frame.delay ?? this.defaultDelay;
+
+    if (this.held && isDuplicateFrame(this.held.imageData, frame.imageData, this.threshold)) {
+      this.held = { ...this.held, delay: (this.held.delay ?? this.defaultDelay) + delay };
+      this.merged++;
+      return null;
+    }
+
+    const finished = this.held;
+    this.held = { ...frame, delay };
+    return finished;
+  }
+
+  /**
+   * The frame of the final run, once all frames have been pushed
+   */
+  flush(): FrameData | null {
+    const finished = this.held;
+    this.held = null;
+    return finished;
+  }
+}
+
+/**
+ * Merge duplicate runs in a captured clip
+ */
+export function mergeDuplicateFrames(
+  frames: FrameData[],
+  defaultDelay: number,
+  threshold = DEFAULT_DUPLICATE_THRESHOLD
+): MergedFrames {
+  const merger = new DuplicateFrameMerger(defaultDelay, threshold);
+  const merged: MergedFrames = { frames: [], sourceIndices: [] };
+
+  frames.forEach((frame, index) => {
+    const finished = merger.push(frame);
+    if (finished) merged.frames.push(finished);
+    if (finished || index === 0) merged.sourceIndices.push(index);
+  });
+  const last = merger.flush();
+  if (last) merged.frames.push(last);
+
+  return merged;
+}
@@ -4,6 +4,8 @@
  */
 
 import { GifSettings } from '@/types';
+import type { FormatType, QualityReport } from '@/lib/encoders';
+import { lossinessForQuality } from '@/lib/encoders/lossy-lzw';
 import { getResolutionDimensions } from '@/utils/resolution-parser';
 
 export interface GifEncodingOptions {
@@ -127,6 +129,28 @@ interface ContentAnalysis {
   resolution: { width: number; height: number };
 }
 
+/**
+ * Settings for one encode of a size-budgeted job, relative to what the user asked for
+ */
+export interface SizeBudgetAttempt {
+  colors: number; // Palette size (GIF only)
+  frameRate: number;
+  scale: number; // Resolution factor applied to the requested dimensions
+  lossiness: number; // 0-100 (GIF only)
+}
+
+// Degradation steps, tried in order from least to most visible
+const SIZE_BUDGET_LOSSINESS_LEVELS = [0, 40, 80];
+const SIZE_BUDGET_COLOR_LEVELS = [256, 128, 64];
+const SIZE_BUDGET_MIN_FRAME_RATE = 5;
+const SIZE_BUDGET_MIN_SCALE = 0.25;
+
+// Aim slightly below the budget when rescaling since size does not track pixel count exactly
+const SIZE_BUDGET_HEADROOM = 0.9;
+
+// Overshoot beyond which only a resolution cut can close the gap in one step
+const SIZE_BUDGET_LARGE_OVERSHOOT = 2;
+
 /**
  * Encoding optimization utilities
  */
@@ -247,6 +271,83 @@ export class EncodingOptimizer {
     return this.adjustQualityForPerformance(baseOptions, targetTime, estimatedFrames);
   }
 
+  /**
+   * First attempt of a size-budgeted job: exactly what the user asked for
+   */
+  static createInitialSizeAttempt(
+    frameRate: number,
+    quality: 'low' | 'medium' | 'high' = 'medium',
+    colors: number = SIZE_BUDGET_COLOR_LEVELS[0]
+  ): SizeBudgetAttempt {
+    return {
+      colors,
+      frameRate,
+      scale: 1,
+      lossiness: lossinessForQuality(quality),
+    };
+  }
+
+  /**
+   * Choose the next attempt after an output of `outputSize` bytes missed the
+   * `maxFileSize` budget, or null when nothing is left to reduce.
+   * Lossiness, colours and frame rate are stepped one at a time; resolution
+   * is cut last, or straight away when the output is far over budget.
+   * A `fixedPalette` (locked colour list) keeps its colour count.
+   */
+  static planNextSizeAttempt(
+    previous: SizeBudgetAttempt,
+    outputSize: number,
+    maxFileSize: number,
+    format: FormatType = 'gif',
+    fixedPalette = false
+  ): SizeBudgetAttempt | null {
+    const overshoot = outputSize / maxFileSize;
+    // Palette and lossiness settings only affect GIF output
+    const paletteFormat = format === 'gif';
+    const nextLossiness = paletteFormat
+      ? SIZE_BUDGET_LOSSINESS_LEVELS.find((level) => level > previous.lossiness)
+      : undefined;
+
+    if (overshoot > SIZE_BUDGET_LARGE_OVERSHOOT) {
+      const scale = this.reduceScale(previous.scale, overshoot);
+      if (scale < previous.scale) {
+        return { ...previous, scale, lossiness: nextLossiness ?? previous.lossiness };
+      }
+    }
+
+    if (nextLossiness !== undefined) {
+      return { ...previous, lossiness: nextLossiness };
+    }
+
+    const nextColors =
+      paletteFormat && !fixedPalette
+        ? SIZE_BUDGET_COLOR_LEVELS.find((level) => level < previous.colors)
+        : undefined;
+    if (nextColors !== undefined) {
+      return { ...previous, colors: nextColors };
+    }
+
+    if (previous.frameRate > SIZE_BUDGET_MIN_FRAME_RATE) {
+      const frameRate = Math.max(
+        SIZE_BUDGET_MIN_FRAME_RATE,
+        Math.round(previous.frameRate * Math.min(0.75, SIZE_BUDGET_HEADROOM / overshoot))
+      );
+      return { ...previous, frameRate };
+    }
+
+    const scale = this.reduceScale(previous.scale, overshoot);
+    return scale < previous.scale ? { ...previous, scale } : null;
+  }
+
+  /**
+   * Shrink the resolution factor so the pixel count drops roughly in
+   * proportion to the overshoot, by at least 10% per step
+   */
+  private static reduceScale(scale: number, overshoot: number): number {
+    const target = scale * Math.min(0.9, Math.sqrt(SIZE_BUDGET_HEADROOM / overshoot));
+    return Math.max(SIZE_BUDGET_MIN_SCALE, Math.round(target * 100) / 100);
+  }
+
   /**
    * Calculate frame delay from frame rate
    */
@@ -338,6 +439,7 @@ export class EncodingProfiler {
     peakMemoryUsage: 0,
     errors: 0
   };
+  private quality: QualityReport | null = null;
 
   start(): void {
     this.startTime = performance.now();
@@ -349,6 +451,7 @@ export class EncodingProfiler {
       peakMemoryUsage: 0,
       errors: 0
     };
+    this.quality = null;
   }
 
   startFrame(frameIndex: number): void {
@@ -384,10 +487,18 @@ export class EncodingProfiler {
     this.metrics.errors++;
   }
 
+  /**
+   * Record how the decoded output compares with the source frames
+   */
+  recordQuality(report: QualityReport): void {
+    this.quality = report;
+  }
+
   finish(totalFrames: number): typeof this.metrics & { 
     success: boolean; 
     efficiency: number; 
-    recommendations: string[] 
+    recommendations: string[];
+    quality?: QualityReport;
   } {
     this.metrics.encodingTime = performance.now() - this.startTime;
     this.metrics.totalFrames = totalFrames;
@@ -408,12 +519,24 @@ export class EncodingProfiler {
     if (this.metrics.peakMemoryUsage > 100 * 1024 * 1024) {
       recommendations.push('High memory usage detected, consider processing in smaller batches');
     }
+
+    if (this.quality && this.quality.minSsim < 0.9) {
+      recommendations.push(
+        `Some frames lose detail (SSIM ${this.quality.minSsim.toFixed(2)}), ` +
+          'consider more colours or a higher quality'
+      );
+    }
+
+    if (this.quality && this.quality.banding > 0.05) {
+      recommendations.push('Gradients show visible banding, consider enabling dithering');
+    }
     
     return {
       ...this.metrics,
       success,
       efficiency,
-      recommendations
+      recommendations,
+      ...(this.quality && { quality: this.quality })
     };
   }
 }
\ No newline at end of file
@@ -7,6 +7,7 @@ import { GifSettings, TimelineSelection } from '@/types';
 import { performanceTracker } from '@/monitoring/performance-tracker';
 import { metricsCollector } from '@/monitoring/metrics-collector';
 import { parseResolution } from '@/utils/resolution-parser';
+import { CapturePreference, selectCaptureStrategy } from '@/lib/capture';
 
 interface FrameExtractionConfig {
   startTime: number;
@@ -15,6 +16,7 @@ interface FrameExtractionConfig {
   quality: 'low' | 'medium' | 'high';
   maxWidth?: number;
   maxHeight?: number;
+  captureMode?: CapturePreference; // Capture strategy; chosen automatically by default
 }
 
 export interface ExtractedFrame {
@@ -170,27 +172,40 @@ class FrameExtractor {
       }
     }
 
-    // Process each timestamp
-    for (let i = 0; i < timestamps.length; i++) {
-      if (this.abortController?.signal.aborted) {
-        throw new Error('Frame extraction cancelled');
-      }
-
-      const timestamp = timestamps[i];
-      const frame = await this.extractFrameAtTime(videoElement, timestamp, i);
-      this.extractedFrames.push(frame);
-
-      // Report progress
-      if (this.progressCallback) {
-        const elapsedTime = performance.now() - this.startTime;
-        this.progressCallback({
-          framesExtracted: i + 1,
-          totalFrames: timestamps.length,
-          currentTimestamp: timestamp,
-          elapsedTime
-        });
+    // Capture through the selected strategy, checking for cancellation between frames
+    const { strategy } = selectCaptureStrategy(
+      videoElement,
+      {
+        duration,
+        frameRate: config.frameRate,
+        frameCount: timestamps.length,
+        width: dimensions.width,
+        height: dimensions.height
+      },
+      config.captureMode
+    );
+    await strategy.capture(
+      videoElement,
+      timestamps,
+      (i) => this.grabFrame(videoElement, timestamps[i], i),
+      (frame, i) => {
+        if (this.abortController?.signal.aborted) {
+          throw new Error('Frame extraction cancelled');
+        }
+        this.extractedFrames.push(frame);
+
+        // Report progress
+        if (this.progressCallback) {
+          const elapsedTime = performance.now() - this.startTime;
+          this.progressCallback({
+            framesExtracted: i + 1,
+            totalFrames: timestamps.length,
+            currentTimestamp: timestamps[i],
+            elapsedTime
+          });
+        }
       }
-    }
+    );
 
     return {
       frames: this.extractedFrames,
@@ -204,47 +219,20 @@ class FrameExtractor {
     };
   }
 
-  private async extractFrameAtTime(
+  /**
+   * Read the frame on screen, which the capture strategy has moved to `timestamp`
+   */
+  private grabFrame(
     videoElement: HTMLVideoElement,
     timestamp: number,
     frameIndex: number
-  ): Promise<ExtractedFrame> {
+  ): ExtractedFrame {
     const frameStartTime = performance.now();
     const operationId = `frame-extraction-${frameIndex}`;
     
     // Start monitoring this frame extraction
     performanceTracker.startTimer(operationId);
 
-    // Seek to the timestamp
-    videoElement.currentTime = timestamp;
-    
-    // Wait for seek to complete
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        cleanup();
-        reject(new Error('Seek timeout'));
-      }, 5000);
-
-      const onSeeked = () => {
-        cleanup();
-        resolve();
-      };
-
-      const onError = () => {
-        cleanup();
-        reject(new Error('Seek failed'));
-      };
-
-      const cleanup = () => {
-        clearTimeout(timeout);
-        videoElement.removeEventListener('seeked', onSeeked);
-        videoElement.removeEventListener('error', onError);
-      };
-
-      videoElement.addEventListener('seeked', onSeeked, { once: true });
-      videoElement.addEventListener('error', onError, { once: true });
-    });
-
     // Draw frame to canvas
     this.ctx.drawImage(
       videoElement,
@@ -0,0 +1,24 @@
+/**
+ * Playback modes
+ * Reorders captured frames before encoding so a clip can play backwards or
+ * as a boomerang (forwards, then backwards) without an external editor
+ */
+
+export type PlaybackMode = 'forward' | 'reverse' | 'boomerang';
+
+/**
+ * Source frame index for each output frame. A boomerang skips repeating the
+ * turning frames so the bounce and the wrap back to the start stay smooth.
+ */
+export function getPlaybackOrder(frameCount: number, mode: PlaybackMode): number[] {
+  const forward = Array.from({ length: frameCount }, (_, index) => index);
+
+  switch (mode) {
+    case 'reverse':
+      return forward.reverse();
+    case 'boomerang':
+      return [...forward, ...forward.slice(1, -1).reverse()];
+    default:
+      return forward;
+  }
+}
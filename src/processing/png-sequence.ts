@@ -0,0 +1,98 @@
+/**
+ * PNG frame sequences
+ * Packs every captured frame as a lossless PNG into one ZIP, with a
+ * manifest of timings and source for tools that post-process the frames
+ */
+
+import { createZip } from '@/lib/encoders';
+
+export const PNG_SEQUENCE_MANIFEST = 'manifest.json';
+
+// Frame numbers are padded to at least this many digits, so patterns like
+// ffmpeg's frame_%04d.png match short clips too
+const MIN_FRAME_DIGITS = 4;
+
+export interface PngSequenceFrame {
+  file: string;
+  timestamp: number; // ms from the start of playback
+  delay: number; // ms the frame is shown for
+  sourceTime: number; // Seconds into the source video the frame was captured at
+}
+
+export interface PngSequenceManifest {
+  version: 1;
+  source?: { url: string; videoId?: string };
+  startTime: number; // Seconds of the source video
+  endTime: number;
+  width: number;
+  height: number;
+  frameRate?: number;
+  duration: number; // ms
+  frames: PngSequenceFrame[];
+}
+
+export interface PngSequenceOptions {
+  width: number;
+  height: number;
+  startTime: number;
+  endTime: number;
+  frameRate?: number;
+  source?: { url: string; videoId?: string };
+}
+
+/**
+ * Describe captured frames, given when each was sampled (seconds from the
+ * clip's start) and how long it plays for
+ */
+export function createPngSequenceManifest(
+  samples: Array<{ time: number; delay: number }>,
+  options: PngSequenceOptions
+): PngSequenceManifest {
+  const digits = Math.max(MIN_FRAME_DIGITS, String(samples.length - 1).length);
+  let timestamp = 0;
+  const frames = samples.map((sample, index) => {
+    const frame: PngSequenceFrame = {
+      file: `frame_${String(index).padStart(digits, '0')}.png`,
+      timestamp,
+      delay: sample.delay,
+      sourceTime: options.startTime + sample.time,
+    };
+    timestamp += sample.delay;
+    return frame;
+  });
+
+  return {
+    version: 1,
+    source: options.source,
+    startTime: options.startTime,
+    endTime: options.endTime,
+    width: options.width,
+    height: options.height,
+    frameRate: options.frameRate,
+    duration: timestamp,
+    frames,
+  };
+}
+
+/**
+ * Write the PNGs under the names the manifest gives them, followed by the
+ * manifest itself
+ */
+export function packPngSequence(
+  pngs: Uint8Array[],
+  manifest: PngSequenceManifest
+): Uint8Array<ArrayBuffer> {
+  if (pngs.length !== manifest.frames.length) {
+    throw new Error(
+      `Manifest lists ${manifest.frames.length} frames but ${pngs.length} PNGs were written`
+    );
+  }
+
+  return createZip([
+    ...manifest.frames.map((frame, index) => ({ name: frame.file, data: pngs[index] })),
+    {
+      name: PNG_SEQUENCE_MANIFEST,
+      data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+    },
+  ]);
+}
@@ -0,0 +1,100 @@
+/**
+ * Playback speed and speed ramps
+ * Plans which moments of the clip are captured and how long each frame is
+ * shown so the output plays at the chosen speed. Speeding up samples the
+ * clip more sparsely; slowing down keeps the capture rate and lengthens
+ * frame delays, so slow motion never invents frames the video lacks.
+ */
+
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 4;
+
+export interface SpeedKeyframe {
+  at: number; // Position through the clip, 0-1
+  speed: number; // Multiplier applied to the base speed
+}
+
+export interface CaptureSample {
+  time: number; // Seconds from the start of the clip
+  delay: number; // Display time in ms
+}
+
+export function clampSpeed(speed: number): number {
+  return Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed));
+}
+
+/**
+ * Speed at a position through the clip. Ramp keyframes are interpolated
+ * linearly and hold their first and last values beyond either end; two
+ * keyframes at one position make an instant change.
+ */
+export function getSpeedAt(position: number, speed = 1, ramp?: SpeedKeyframe[]): number {
+  if (!ramp || ramp.length === 0) {
+    return clampSpeed(speed);
+  }
+
+  const keyframes = [...ramp].sort((a, b) => a.at - b.at);
+  let factor = keyframes[keyframes.length - 1].speed;
+  if (position <= keyframes[0].at) {
+    factor = keyframes[0].speed;
+  } else {
+    for (let i = 1; i < keyframes.length; i++) {
+      const next = keyframes[i];
+      if (position < next.at) {
+        const previous = keyframes[i - 1];
+        const t = (position - previous.at) / (next.at - previous.at);
+        factor = previous.speed + (next.speed - previous.speed) * t;
+        break;
+      }
+    }
+  }
+  return clampSpeed(speed * factor);
+}
+
+// Source seconds between captures and the delay showing each one, at a speed
+function sampleStep(speed: number, frameRate: number): { step: number; delay: number } {
+  const step = Math.max(speed, 1) / frameRate;
+  return { step, delay: (step * 1000) / speed };
+}
+
+/**
+ * Capture times and frame delays for a clip of `duration` seconds. At 1x
+ * this is one frame every 1/frameRate seconds, each shown for as long.
+ */
+export function planCaptureSamples(
+  duration: number,
+  frameRate: number,
+  speed = 1,
+  ramp?: SpeedKeyframe[]
+): CaptureSample[] {
+  if (!ramp || ramp.length === 0) {
+    const constant = clampSpeed(speed);
+    const { delay } = sampleStep(constant, frameRate);
+    const count = Math.ceil((duration * frameRate) / Math.max(constant, 1));
+    return Array.from({ length: count }, (_, index) => ({
+      time: (index * duration) / count,
+      delay,
+    }));
+  }
+
+  const samples: CaptureSample[] = [];
+  for (let time = 0; time < duration; ) {
+    const { step, delay } = sampleStep(getSpeedAt(time / duration, speed, ramp), frameRate);
+    samples.push({ time, delay });
+    time += step;
+  }
+  return samples;
+}
+
+/**
+ * Index of the sample captured closest to a time within the clip
+ */
+export function findSampleIndex(samples: CaptureSample[], time: number): number {
+  let closest = 0;
+  samples.forEach((sample, index) => {
+    if (Math.abs(sample.time - time) < Math.abs(samples[closest].time - time)) {
+      closest = index;
+    }
+  });
+  return closest;
+}
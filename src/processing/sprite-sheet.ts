@@ -0,0 +1,153 @@
+/**
+ * Sprite sheets and contact sheets
+ * Lays captured frames out in one grid image and describes it with a JSON
+ * atlas of frame rectangles and delays, for CSS steps() animations, game
+ * engines, or skimming a clip at a glance
+ */
+
+// Height of the strip under each frame that holds its timestamp label
+export const SPRITE_LABEL_HEIGHT = 16;
+
+// Browsers refuse to draw canvases with a side longer than this
+const MAX_SHEET_SIDE = 16384;
+
+export interface SpriteSheetOptions {
+  columns?: number; // Frames per row; defaults to a roughly square grid
+  spacing?: number; // Pixels between frames and around the edge
+  labels?: boolean; // Print each frame's source timestamp under it
+}
+
+export interface SpriteFrame {
+  filename: string;
+  frame: { x: number; y: number; w: number; h: number }; // Excludes the label strip
+  duration: number; // ms the frame is shown for
+  timestamp: number; // ms from the start of playback
+}
+
+export interface SpriteAtlas {
+  frames: SpriteFrame[];
+  meta: {
+    image: string;
+    size: { w: number; h: number };
+    frameSize: { w: number; h: number };
+    columns: number;
+    rows: number;
+    spacing: number;
+    labelHeight: number; // 0 without labels
+    duration: number; // ms
+    source?: string; // Page the frames were captured from
+  };
+}
+
+/**
+ * Place frames of one size in a grid. Throws if the sheet would be larger
+ * than a canvas can be.
+ */
+export function layoutSpriteSheet(
+  frameWidth: number,
+  frameHeight: number,
+  delays: number[],
+  options: SpriteSheetOptions = {},
+  image = 'sprite-sheet.png'
+): SpriteAtlas {
+  if (delays.length === 0) {
+    throw new Error('Cannot lay out a sprite sheet without frames');
+  }
+
+  const frameCount = delays.length;
+  const requestedColumns = options.columns ?? Math.ceil(Math.sqrt(frameCount));
+  const columns = Math.max(1, Math.min(frameCount, Math.round(requestedColumns)));
+  const rows = Math.ceil(frameCount / columns);
+  const spacing = Math.max(0, Math.round(options.spacing ?? 0));
+  const labelHeight = options.labels ? SPRITE_LABEL_HEIGHT : 0;
+  const cellHeight = frameHeight + labelHeight;
+
+  const width = spacing + columns * (frameWidth + spacing);
+  const height = spacing + rows * (cellHeight + spacing);
+  if (width > MAX_SHEET_SIDE || height > MAX_SHEET_SIDE) {
+    throw new Error(
+      `Sprite sheet would be ${width}×${height}px, larger than browsers can draw; ` +
+        'use fewer frames, a lower resolution or a different column count'
+    );
+  }
+
+  const digits = String(frameCount - 1).length;
+  let timestamp = 0;
+  const frames = delays.map((delay, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    const frame: SpriteFrame = {
+      filename: `frame_${String(index).padStart(digits, '0')}`,
+      frame: {
+        x: spacing + column * (frameWidth + spacing),
+        y: spacing + row * (cellHeight + spacing),
+        w: frameWidth,
+        h: frameHeight,
+      },
+      duration: delay,
+      timestamp,
+    };
+    timestamp += delay;
+    return frame;
+  });
+
+  return {
+    frames,
+    meta: {
+      image,
+      size: { w: width, h: height },
+      frameSize: { w: frameWidth, h: frameHeight },
+      columns,
+      rows,
+      spacing,
+      labelHeight,
+      duration: timestamp,
+    },
+  };
+}
+
+/**
+ * Draw frames onto a canvas sized to the atlas, with a label under each
+ * frame when the atlas leaves room for one
+ */
+export function drawSpriteSheet(
+  canvas: HTMLCanvasElement,
+  frames: CanvasImageSource[],
+  atlas: SpriteAtlas,
+  labels: string[] = []
+): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context for the sprite sheet');
+  }
+
+  canvas.width = atlas.meta.size.w;
+  canvas.height = atlas.meta.size.h;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  const { labelHeight } = atlas.meta;
+  atlas.frames.forEach(({ frame }, index) => {
+    ctx.drawImage(frames[index], frame.x, frame.y, frame.w, frame.h);
+
+    const label = labels[index];
+    if (labelHeight > 0 && label) {
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(frame.x, frame.y + frame.h, frame.w, labelHeight);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.font = `${labelHeight - 4}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(label, frame.x + frame.w / 2, frame.y + frame.h + labelHeight / 2, frame.w);
+    }
+  });
+}
+
+/**
+ * Video time as m:ss.cc for contact sheet labels
+ */
+export function formatSheetTimestamp(seconds: number): string {
+  const centiseconds = Math.round(Math.max(0, seconds) * 100);
+  const minutes = Math.floor(centiseconds / 6000);
+  const rest = (centiseconds % 6000) / 100;
+  return `${minutes}:${rest.toFixed(2).padStart(5, '0')}`;
+}
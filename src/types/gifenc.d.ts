@@ -12,15 +12,17 @@ declare module 'gifenc' {
         delay?: number;
         dispose?: number;
         transparent?: boolean | number;
+        transparentIndex?: number;
         first?: boolean;
         repeat?: number;
       }
     ): void;
     finish(): void;
     bytes(): Uint8Array;
+    bytesView(): Uint8Array;
     stream: {
       writeByte(byte: number): void;
-      writeBytes(data: Uint8Array, offset?: number, byteLength?: number): void;
+      writeBytes(data: Uint8Array | number[], offset?: number, byteLength?: number): void;
     };
   }
 
@@ -4,7 +4,11 @@ export {
   GifSettings,
   TextOverlay,
   TimelineSelection,
-  
+  ExportSettings,
+  FrameExportFormat,
+  CaptureMode,
+  GifEditSource,
+  CaptureJob,
 } from './storage';
 
 // Re-export all message types for Chrome extension communication
@@ -25,6 +29,7 @@ export {
   ErrorResponse,
   SuccessResponse,
   DownloadGifRequest,
+  DownloadFrameSequenceRequest,
   GetJobStatusRequest,
   
   
@@ -45,6 +50,7 @@ export {
   
   isLogMessage,
   isDownloadGifRequest,
+  isDownloadFrameSequenceRequest,
   isGetJobStatusRequest,
   
 } from './messages';
\ No newline at end of file
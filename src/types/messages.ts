@@ -149,6 +149,15 @@ export interface DownloadGifRequest extends BaseMessage {
   };
 }
 
+export interface DownloadFrameSequenceRequest extends BaseMessage {
+  type: 'DOWNLOAD_FRAME_SEQUENCE';
+  data: {
+    url: string;
+    filename: string;
+    frameCount: number;
+  };
+}
+
 export interface GetJobStatusRequest extends BaseMessage {
   type: 'GET_JOB_STATUS';
   data: {
@@ -315,6 +324,7 @@ export type ExtensionMessage =
   | ErrorResponse
   | SuccessResponse
   | DownloadGifRequest
+  | DownloadFrameSequenceRequest
   | GetJobStatusRequest
   | GetJobStatusResponse
   | CancelJobRequest
@@ -364,6 +374,12 @@ export function isDownloadGifRequest(message: BaseMessage): message is DownloadG
   return message.type === 'DOWNLOAD_GIF';
 }
 
+export function isDownloadFrameSequenceRequest(
+  message: BaseMessage
+): message is DownloadFrameSequenceRequest {
+  return message.type === 'DOWNLOAD_FRAME_SEQUENCE';
+}
+
 export function isGetJobStatusRequest(message: BaseMessage): message is GetJobStatusRequest {
   return message.type === 'GET_JOB_STATUS';
 }
@@ -1,3 +1,13 @@
+import type {
+  DitheringAlgorithm,
+  LockedPalette,
+  OutputFormat,
+} from '@/lib/encoders/abstract-encoder';
+import type { CapturePreference } from '@/lib/capture/capture-strategy';
+import type { PlaybackMode } from '@/processing/playback-mode';
+import type { SpeedKeyframe } from '@/processing/speed-ramp';
+import type { SpriteSheetOptions } from '@/processing/sprite-sheet';
+
 export interface GifData {
   id: string;
   title: string;
@@ -51,11 +61,65 @@ export interface GifSettings {
   resolution: string;
   quality: 'low' | 'medium' | 'high';
   speed: number;
+  speedRamp?: SpeedKeyframe[]; // Keyframes scaling speed over the clip
   brightness: number;
   contrast: number;
   textOverlays?: TextOverlay[];
 }
 
+// How frames are read from the video: one seek per frame, by playing the clip once,
+// or with fixed waits; 'auto' chooses from the clip and device
+export type CaptureMode = CapturePreference;
+
+// Exports of the captured frames as still images rather than an animation
+export type FrameExportFormat = 'sprite-sheet' | 'png-sequence';
+
+// Output settings chosen in the wizard and passed through to the encoder
+export interface ExportSettings {
+  format: OutputFormat | FrameExportFormat;
+  lossless?: boolean; // WebP only
+  maxFileSize?: number; // Byte budget; settings are reduced until the output fits
+  dithering?: DitheringAlgorithm | 'auto'; // GIF only; 'auto' is chosen by measured quality
+  ditherStrength?: number; // 0 to 1
+  maxColors?: number; // GIF palette size, 2-256
+  lockedPalette?: LockedPalette; // GIF only
+  duplicateThreshold?: number; // Still-frame merging, as a 0-1 share of changed pixels; 0 = off
+  playbackMode?: PlaybackMode; // Forward, reverse or boomerang
+  loopCount?: number; // Times the animation plays, 0 = forever
+  speed?: GifSettings['speed']; // 0.25-4
+  speedRamp?: GifSettings['speedRamp'];
+  spriteSheet?: SpriteSheetOptions; // Sprite sheet only
+  captureMode?: CaptureMode; // Defaults to 'auto'
+}
+
+// An existing GIF opened in the editing flow, from the library or a file
+export interface GifEditSource {
+  blob: Blob;
+  title: string;
+  gifId?: string; // Library id; unset for files
+  originalGifId?: string; // First version of the GIF, when this one is itself an edit
+  editorVersion?: number; // 1 for GIFs never edited
+  createdAt?: string;
+}
+
+// A capture whose frames are checkpointed so it can resume after an interruption
+export interface CaptureJob {
+  id: string;
+  videoId: string;
+  pageUrl: string;
+  videoTitle?: string;
+  selection: TimelineSelection;
+  textOverlays: TextOverlay[];
+  resolution?: string;
+  frameRate?: number;
+  exportSettings?: ExportSettings;
+  frameCount?: number; // Planned frames, known once capture starts
+  capturedFrames: number; // Frames checkpointed from the start of the clip
+  createdAt: string;
+  updatedAt: string;
+  interruption?: string; // Why the last attempt stopped
+}
+
 // Timeline selection interface
 export interface TimelineSelection {
   startTime: number;
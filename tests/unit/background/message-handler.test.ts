@@ -19,6 +19,7 @@ import {
   SaveGifRequest,
   SaveGifResponse,
   DownloadGifRequest,
+  DownloadFrameSequenceRequest,
   GetJobStatusRequest,
   GifCreationComplete
 } from '@/types';
@@ -623,6 +624,59 @@ describe('BackgroundMessageHandler', () => {
           error: 'Download failed'
         });
       });
+
+      it('should download a PNG sequence archive', async () => {
+        const request: DownloadFrameSequenceRequest = {
+          type: 'DOWNLOAD_FRAME_SEQUENCE',
+          data: {
+            url: 'blob:chrome-extension://test-id/test-zip',
+            filename: 'frames.zip',
+            frameCount: 24
+          }
+        };
+
+        (chromeMock.runtime as any).lastError = undefined;
+        (chromeMock as any).downloads = {
+          download: jest.fn((options, callback) => {
+            callback(456);
+          })
+        };
+
+        const returnValue = await messageHandler.handleMessage(request, mockSender, mockSendResponse);
+        expect(returnValue).toBe(true);
+
+        expect((chromeMock as any).downloads.download).toHaveBeenCalledWith(
+          { url: request.data.url, filename: 'frames.zip', saveAs: false },
+          expect.any(Function)
+        );
+        expect(mockSendResponse).toHaveBeenCalledWith({
+          type: 'SUCCESS_RESPONSE',
+          success: true,
+          data: { downloadId: 456 }
+        });
+      });
+
+      it('should refuse a PNG sequence that is not a ZIP', async () => {
+        const request: DownloadFrameSequenceRequest = {
+          type: 'DOWNLOAD_FRAME_SEQUENCE',
+          data: {
+            url: 'blob:chrome-extension://test-id/test',
+            filename: 'frames.png',
+            frameCount: 1
+          }
+        };
+
+        (chromeMock as any).downloads = { download: jest.fn() };
+
+        await messageHandler.handleMessage(request, mockSender, mockSendResponse);
+
+        expect((chromeMock as any).downloads.download).not.toHaveBeenCalled();
+        expect(mockSendResponse).toHaveBeenCalledWith({
+          type: 'ERROR_RESPONSE',
+          success: false,
+          error: 'PNG sequences are downloaded as ZIP archives'
+        });
+      });
     });
 
     describe('job status requests', () => {
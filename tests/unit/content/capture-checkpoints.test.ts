@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { CaptureCheckpointStore, CheckpointWriter } from '@/content/capture-checkpoints';
+import type { CaptureJob } from '@/types';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+type Row = Record<string, unknown>;
+
+/**
+ * Just enough IndexedDB for the checkpoint store: requests succeed on the
+ * next tick and a transaction completes once it has no requests pending
+ */
+class FakeTransaction {
+  oncomplete: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+  private pending = 0;
+
+  constructor(private readonly tables: Map<string, FakeTable>) {
+    this.settle();
+  }
+
+  objectStore(name: string) {
+    return this.tables.get(name)!.bind(this);
+  }
+
+  request<T>(run: () => T) {
+    const request: { result?: T; onsuccess: (() => void) | null; onerror: null } = {
+      onsuccess: null,
+      onerror: null,
+    };
+    this.pending++;
+    setTimeout(() => {
+      request.result = run();
+      request.onsuccess?.();
+      this.pending--;
+      this.settle();
+    }, 0);
+    return request;
+  }
+
+  private settle() {
+    setTimeout(() => {
+      if (this.pending === 0) this.oncomplete?.();
+    }, 0);
+  }
+}
+
+class FakeTable {
+  rows = new Map<string, Row>();
+  indexes = new Map<string, string>();
+
+  constructor(private readonly keyPath: string) {}
+
+  createIndex(name: string, keyPath: string) {
+    this.indexes.set(name, keyPath);
+  }
+
+  bind(transaction: FakeTransaction) {
+    const matching = (name: string, value: unknown) =>
+      [...this.rows.entries()].filter(([, row]) => row[this.indexes.get(name)!] === value);
+    return {
+      put: (row: Row) =>
+        transaction.request(() => this.rows.set(String(row[this.keyPath]), { ...row })),
+      get: (key: string) => transaction.request(() => this.rows.get(key)),
+      getAll: () => transaction.request(() => [...this.rows.values()]),
+      delete: (key: string) => transaction.request(() => this.rows.delete(key)),
+      index: (name: string) => ({
+        getAll: (value: unknown) =>
+          transaction.request(() => matching(name, value).map(([, row]) => row)),
+        getAllKeys: (value: unknown) =>
+          transaction.request(() => matching(name, value).map(([key]) => key)),
+      }),
+    };
+  }
+}
+
+function installFakeIndexedDB(): Map<string, FakeTable> {
+  const tables = new Map<string, FakeTable>();
+  const db = {
+    objectStoreNames: { contains: (name: string) => tables.has(name) },
+    createObjectStore: (name: string, { keyPath }: { keyPath: string }) => {
+      const table = new FakeTable(keyPath);
+      tables.set(name, table);
+      return table;
+    },
+    transaction: () => new FakeTransaction(tables),
+  };
+  (global as unknown as { indexedDB: unknown }).indexedDB = {
+    open: () => {
+      const request = {
+        result: db,
+        onupgradeneeded: null as (() => void) | null,
+        onsuccess: null as (() => void) | null,
+        onerror: null,
+      };
+      setTimeout(() => {
+        request.onupgradeneeded?.();
+        request.onsuccess?.();
+      }, 0);
+      return request;
+    },
+  };
+  return tables;
+}
+
+function frame(value: number): ImageData {
+  return { width: 2, height: 1, data: new Uint8ClampedArray(8).fill(value) } as ImageData;
+}
+
+const request: Omit<CaptureJob, 'id' | 'capturedFrames' | 'createdAt' | 'updatedAt'> = {
+  videoId: 'abc123',
+  pageUrl: 'https://www.youtube.com/watch?v=abc123',
+  selection: { startTime: 10, endTime: 20, duration: 10 },
+  textOverlays: [],
+  frameRate: 10,
+};
+
+describe('CaptureCheckpointStore', () => {
+  let tables: Map<string, FakeTable>;
+  let store: CaptureCheckpointStore;
+
+  beforeEach(() => {
+    tables = installFakeIndexedDB();
+    store = new CaptureCheckpointStore();
+  });
+
+  it('should count frames towards the job as they are saved', async () => {
+    const job = await store.createJob(request);
+    expect(job.capturedFrames).toBe(0);
+
+    await store.saveFrame(job.id, 0, frame(1));
+    await store.saveFrame(job.id, 1, frame(2));
+
+    const saved = await store.getJob(job.id);
+    expect(saved?.capturedFrames).toBe(2);
+    const frames = await store.loadFrames(job.id);
+    expect(frames.map((imageData) => imageData.data[0])).toEqual([1, 2]);
+  });
+
+  it('should count a batch of frames towards the job', async () => {
+    const job = await store.createJob(request);
+    await store.saveFrames(job.id, [
+      { index: 0, imageData: frame(1) },
+      { index: 1, imageData: frame(2) },
+      { index: 2, imageData: frame(3) },
+    ]);
+
+    expect((await store.getJob(job.id))?.capturedFrames).toBe(3);
+    expect((await store.loadFrames(job.id)).map((f) => f.data[0])).toEqual([1, 2, 3]);
+  });
+
+  it('should load frames only up to the first one missing', async () => {
+    const job = await store.createJob(request);
+    await store.saveFrame(job.id, 0, frame(1));
+    await store.saveFrame(job.id, 2, frame(3));
+
+    expect(await store.loadFrames(job.id)).toHaveLength(1);
+  });
+
+  it('should offer the latest capture of a video that has frames', async () => {
+    const empty = await store.createJob(request);
+    const other = await store.createJob({ ...request, videoId: 'other' });
+    await store.saveFrame(other.id, 0, frame(1));
+
+    expect(await store.findJobForVideo('abc123')).toBeUndefined();
+
+    await store.saveFrame(empty.id, 0, frame(1));
+    const found = await store.findJobForVideo('abc123');
+    expect(found?.id).toBe(empty.id);
+    expect(found?.selection).toEqual(request.selection);
+  });
+
+  it('should remove checkpoints that have expired', async () => {
+    const job = await store.createJob(request);
+    await store.saveFrame(job.id, 0, frame(1));
+    tables.get('jobs')!.rows.get(job.id)!.updatedAt = '2000-01-01T00:00:00.000Z';
+
+    expect(await store.findJobForVideo('abc123')).toBeUndefined();
+    expect(await store.getJob(job.id)).toBeUndefined();
+    expect(tables.get('frames')!.rows.size).toBe(0);
+  });
+
+  it('should clear frames but keep the job when starting over', async () => {
+    const job = await store.createJob(request);
+    await store.saveFrame(job.id, 0, frame(1));
+
+    await store.clearFrames(job.id);
+
+    expect((await store.getJob(job.id))?.capturedFrames).toBe(0);
+    expect(await store.loadFrames(job.id)).toEqual([]);
+  });
+
+  it('should delete a job with its frames', async () => {
+    const job = await store.createJob(request);
+    const other = await store.createJob(request);
+    await store.saveFrame(job.id, 0, frame(1));
+    await store.saveFrame(other.id, 0, frame(2));
+
+    await store.deleteJob(job.id);
+
+    expect(await store.getJob(job.id)).toBeUndefined();
+    expect(await store.loadFrames(other.id)).toHaveLength(1);
+  });
+});
+
+describe('CheckpointWriter', () => {
+  let store: CaptureCheckpointStore;
+
+  beforeEach(() => {
+    installFakeIndexedDB();
+    store = new CaptureCheckpointStore();
+  });
+
+  it('should write frames in batches without waiting on them', async () => {
+    const job = await store.createJob(request);
+    const saveFrames = jest.spyOn(store, 'saveFrames');
+    const writer = new CheckpointWriter(store, job.id, 2);
+
+    for (let index = 0; index < 5; index++) {
+      writer.add(index, frame(index));
+    }
+    expect(saveFrames).toHaveBeenCalledTimes(0);
+    await writer.close();
+
+    expect(saveFrames.mock.calls.map(([, frames]) => frames.map((f) => f.index))).toEqual([
+      [0, 1],
+      [2, 3],
+      [4],
+    ]);
+    expect((await store.getJob(job.id))?.capturedFrames).toBe(5);
+  });
+
+  it('should stop checkpointing once a write fails', async () => {
+    const job = await store.createJob(request);
+    const saveFrames = jest
+      .spyOn(store, 'saveFrames')
+      .mockRejectedValueOnce(new Error('Quota exceeded'));
+    const writer = new CheckpointWriter(store, job.id, 2);
+
+    writer.add(0, frame(1));
+    writer.add(1, frame(2));
+    await writer.close();
+    writer.add(2, frame(3));
+    writer.add(3, frame(4));
+    await writer.close();
+
+    expect(saveFrames).toHaveBeenCalledTimes(1);
+    expect(await store.loadFrames(job.id)).toEqual([]);
+  });
+});
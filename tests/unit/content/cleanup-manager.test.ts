@@ -0,0 +1,50 @@
+import { describe, it, expect, jest, afterAll } from '@jest/globals';
+import { cleanupManager } from '@/content/cleanup-manager';
+
+jest.mock('@/content/overlay-state', () => ({
+  overlayStateManager: {
+    getMode: jest.fn(() => 'inactive'),
+    getElements: jest.fn(() => ({ root: null, container: null })),
+    setElements: jest.fn(),
+    deactivate: jest.fn(),
+    handleNavigation: jest.fn(),
+  },
+}));
+
+jest.mock('@/shared/state-manager', () => ({
+  extensionStateManager: {
+    updateComponentState: jest.fn(async () => undefined),
+    updatePlayerReady: jest.fn(async () => undefined),
+  },
+}));
+
+// Back/forward navigation; the test page is not on youtube.com, so every
+// navigation leads somewhere that needs cleanup
+async function navigate(path: string) {
+  window.history.pushState({}, '', path);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+  // Past the popstate delay and the navigation debounce
+  await new Promise((resolve) => setTimeout(resolve, 250));
+}
+
+describe('CleanupManager', () => {
+  afterAll(async () => {
+    await cleanupManager.destroy();
+  });
+
+  it('should keep watching navigation after a manual cleanup', async () => {
+    const cleanup = jest.fn<() => void>();
+    cleanupManager.registerCleanupTask({ id: 'test', name: 'Test', priority: 1, cleanup });
+
+    await cleanupManager.runCleanup();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+
+    await navigate('/feed/subscriptions');
+    expect(cleanup).toHaveBeenCalledTimes(2);
+
+    await cleanupManager.emergencyCleanup();
+    expect(cleanup).toHaveBeenCalledTimes(3);
+    await navigate('/feed/trending');
+    expect(cleanup).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,159 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import GifImportScreen from '../../../../src/content/overlay-wizard/screens/GifImportScreen';
+import { decodeGifFrames } from '@/lib/encoders';
+import { logger } from '@/lib/logger';
+import type { GifEditSource } from '@/types';
+
+jest.mock('@/lib/encoders', () => ({
+  decodeGifFrames: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockDecodeGifFrames = decodeGifFrames as jest.MockedFunction<typeof decodeGifFrames>;
+
+// Four frames of 500 ms: a 2 second GIF
+function decodedFrames() {
+  return [0, 1, 2, 3].map((index) => ({
+    imageData: new ImageData(new Uint8ClampedArray(40 * 20 * 4), 40, 20),
+    timestamp: index * 500,
+    delay: 500,
+  }));
+}
+
+describe('GifImportScreen', () => {
+  const mockOnConfirm = jest.fn();
+  const mockOnBack = jest.fn();
+
+  const savedGif: GifEditSource = {
+    blob: new Blob(['gif']),
+    title: 'Cat jump',
+    gifId: 'gif_1',
+    editorVersion: 2,
+    originalGifId: 'gif_0',
+    createdAt: '2024-01-02T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDecodeGifFrames.mockReturnValue(decodedFrames());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should list saved GIFs from the library', async () => {
+    render(
+      <GifImportScreen
+        loadLibrary={() => Promise.resolve([savedGif])}
+        onConfirm={mockOnConfirm}
+        onBack={mockOnBack}
+      />
+    );
+
+    expect(await screen.findByText('Cat jump')).toBeTruthy();
+    expect(screen.getByText(/v2/)).toBeTruthy();
+  });
+
+  it('should report a library that cannot be loaded', async () => {
+    render(
+      <GifImportScreen
+        loadLibrary={() => Promise.reject(new Error('blocked'))}
+        onConfirm={mockOnConfirm}
+        onBack={mockOnBack}
+      />
+    );
+
+    expect(await screen.findByText('Could not load your saved GIFs')).toBeTruthy();
+    expect(logger.error).toHaveBeenCalledWith(
+      '[GifImportScreen] Failed to load library',
+      expect.any(Object)
+    );
+  });
+
+  it('should open a saved GIF and confirm the trimmed range and settings', async () => {
+    render(
+      <GifImportScreen
+        loadLibrary={() => Promise.resolve([savedGif])}
+        onConfirm={mockOnConfirm}
+        onBack={mockOnBack}
+      />
+    );
+
+    fireEvent.click(await screen.findByText('Cat jump'));
+    expect(await screen.findByText(/40×20px • 4 frames • 2.0s/)).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Start (s)'), { target: { value: '0.5' } });
+    fireEvent.change(screen.getByLabelText('End (s)'), { target: { value: '1.5' } });
+    fireEvent.change(screen.getByLabelText('Colours'), { target: { value: '64' } });
+    fireEvent.click(screen.getByText('Floyd–Steinberg'));
+    fireEvent.click(screen.getByText('Continue to Customize →'));
+
+    expect(mockOnConfirm).toHaveBeenCalledWith(
+      savedGif,
+      0.5,
+      1.5,
+      { format: 'gif', maxColors: 64, dithering: 'floyd-steinberg', ditherStrength: 1 },
+      { frameUrl: 'data:image/png;base64,mock-data', width: 40, height: 20 }
+    );
+  });
+
+  it('should not continue with an empty range', async () => {
+    render(
+      <GifImportScreen
+        loadLibrary={() => Promise.resolve([savedGif])}
+        onConfirm={mockOnConfirm}
+        onBack={mockOnBack}
+      />
+    );
+
+    fireEvent.click(await screen.findByText('Cat jump'));
+    await screen.findByText(/4 frames/);
+    fireEvent.change(screen.getByLabelText('End (s)'), { target: { value: '0' } });
+
+    expect(screen.getByText('The end must come after the start, within the GIF')).toBeTruthy();
+    expect((screen.getByText('Continue to Customize →') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('should open a GIF file from the picker', async () => {
+    render(<GifImportScreen onConfirm={mockOnConfirm} onBack={mockOnBack} />);
+
+    const file = new File(['gif'], 'reaction.gif', { type: 'image/gif' });
+    fireEvent.change(screen.getByLabelText('Open a GIF file'), { target: { files: [file] } });
+    await screen.findByText(/4 frames/);
+    fireEvent.click(screen.getByText('Continue to Customize →'));
+
+    expect(mockOnConfirm).toHaveBeenCalledWith(
+      { blob: file, title: 'reaction' },
+      0,
+      2,
+      { format: 'gif' },
+      expect.objectContaining({ width: 40, height: 20 })
+    );
+  });
+
+  it('should show why a file cannot be read', async () => {
+    mockDecodeGifFrames.mockImplementation(() => {
+      throw new Error('Not a GIF file');
+    });
+    render(<GifImportScreen onConfirm={mockOnConfirm} onBack={mockOnBack} />);
+
+    const file = new File(['png'], 'photo.gif', { type: 'image/gif' });
+    fireEvent.change(screen.getByLabelText('Open a GIF file'), { target: { files: [file] } });
+
+    await waitFor(() =>
+      expect(screen.getByText('Could not read this GIF: Not a GIF file')).toBeTruthy()
+    );
+    expect((screen.getByText('Continue to Customize →') as HTMLButtonElement).disabled).toBe(true);
+  });
+});
@@ -297,6 +297,31 @@ describe('ProcessingScreen', () => {
     });
   });
 
+  describe('Notices', () => {
+    it('should show a notice under the current message', () => {
+      render(
+        <ProcessingScreen
+          processingStatus={{
+            stage: 'CAPTURING',
+            stageNumber: 1,
+            totalStages: 4,
+            progress: 0,
+            message: 'Ad finished, capturing again from frame 13/50...',
+            notice: 'Waited out 1 ad break (15s); discarded 1 frame showing an ad',
+          }}
+        />
+      );
+
+      const notice = screen.getByText(
+        'Waited out 1 ad break (15s); discarded 1 frame showing an ad'
+      );
+      expect(notice).toHaveClass('ytgif-processing-notice');
+      expect(
+        screen.getByText('Ad finished, capturing again from frame 13/50...').nextElementSibling
+      ).toBe(notice);
+    });
+  });
+
   describe('Loading Animation', () => {
     it('should show loading dots when processing', () => {
       render(
@@ -3,6 +3,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { act } from 'react';
 import React from 'react';
 import QuickCaptureScreen from '@/content/overlay-wizard/screens/QuickCaptureScreen';
+import type { CaptureJob } from '@/types';
 
 // Mock the child components to isolate testing
 jest.mock('@/content/overlay-wizard/components/VideoPreview');
@@ -161,12 +162,12 @@ describe('QuickCaptureScreen', () => {
   });
 
   describe('Frame Rate Selection', () => {
-    it('should render all three frame rate options', () => {
+    it('should render every frame rate option', () => {
       render(<QuickCaptureScreen {...defaultProps} />);
 
-      expect(screen.getByText('5 fps')).toBeTruthy();
-      expect(screen.getByText('10 fps')).toBeTruthy();
-      expect(screen.getByText('15 fps')).toBeTruthy();
+      for (const rate of [5, 10, 15, 20, 24, 30]) {
+        expect(screen.getByText(`${rate} fps`)).toBeTruthy();
+      }
     });
 
     it('should have 5 fps selected by default', () => {
@@ -246,7 +247,7 @@ describe('QuickCaptureScreen', () => {
       const confirmButton = screen.getByText(/Continue to Customize/);
       fireEvent.click(confirmButton);
 
-      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p');
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', { format: 'gif' });
     });
 
     it('should pass selected resolution when confirm is clicked', () => {
@@ -258,7 +259,7 @@ describe('QuickCaptureScreen', () => {
       const confirmButton = screen.getByText(/Continue to Customize/);
       fireEvent.click(confirmButton);
 
-      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '360p');
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '360p', { format: 'gif' });
     });
 
     it('should pass selected frame rate when confirm is clicked', () => {
@@ -270,7 +271,16 @@ describe('QuickCaptureScreen', () => {
       const confirmButton = screen.getByText(/Continue to Customize/);
       fireEvent.click(confirmButton);
 
-      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 15, '144p');
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 15, '144p', { format: 'gif' });
+    });
+
+    it('should pass rates that are not whole centiseconds per frame', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('24 fps').closest('button')!);
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 24, '144p', { format: 'gif' });
     });
 
     it('should pass all selected options when confirm is clicked', () => {
@@ -284,7 +294,238 @@ describe('QuickCaptureScreen', () => {
       const confirmButton = screen.getByText(/Continue to Customize/);
       fireEvent.click(confirmButton);
 
-      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 10, '144p');
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 10, '144p', { format: 'gif' });
+    });
+
+    it('should pass selected output format when confirm is clicked', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('MP4').closest('button')!);
+
+      const confirmButton = screen.getByText(/Continue to Customize/);
+      fireEvent.click(confirmButton);
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', { format: 'mp4' });
+    });
+
+    it('should pass the WebP compression mode when confirm is clicked', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      expect(screen.queryByText('Lossless')).toBeNull();
+      fireEvent.click(screen.getByText('WebP').closest('button')!);
+      fireEvent.click(screen.getByText('Lossless').closest('button')!);
+
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', {
+        format: 'webp',
+        lossless: true,
+      });
+    });
+
+    it('should pass the max size budget when one is selected', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Max 8 MB').closest('button')!);
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', {
+        format: 'gif',
+        maxFileSize: 8 * 1024 * 1024,
+      });
+    });
+
+    it('should pass the dithering algorithm and strength for GIFs', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      expect(screen.queryByText('Dither strength')).toBeNull();
+      fireEvent.click(screen.getByText('Bayer 4×4').closest('button')!);
+      fireEvent.change(screen.getByLabelText('Dither strength'), { target: { value: '60' } });
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', {
+        format: 'gif',
+        dithering: 'bayer4',
+        ditherStrength: 0.6,
+      });
+    });
+
+    it('should pass auto dithering for GIFs', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Auto').closest('button')!);
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', {
+        format: 'gif',
+        dithering: 'auto',
+        ditherStrength: 1,
+      });
+    });
+
+    it('should pass sprite sheet layout without animation settings', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Sprite').closest('button')!);
+      expect(screen.queryByText('Loop forever')).toBeNull();
+      fireEvent.change(screen.getByLabelText('Columns'), { target: { value: '6' } });
+      fireEvent.change(screen.getByLabelText('Spacing'), { target: { value: '2' } });
+      fireEvent.click(screen.getByText('Contact sheet').closest('button')!);
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', {
+        format: 'sprite-sheet',
+        spriteSheet: { columns: 6, spacing: 2, labels: true },
+      });
+    });
+
+    it('should keep the capture method under Advanced, set to automatic', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      expect(screen.queryByText('Real time')).toBeNull();
+      expect(screen.getByText('Capture: Automatic')).toBeTruthy();
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', { format: 'gif' });
+    });
+
+    it('should pass real-time capture when chosen', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Advanced'));
+      fireEvent.click(screen.getByText('Real time').closest('button')!);
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', {
+        format: 'gif',
+        captureMode: 'playback',
+      });
+    });
+
+    it('should pass a PNG sequence without animation settings', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Frames').closest('button')!);
+      expect(screen.queryByText('Loop forever')).toBeNull();
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', { format: 'png-sequence' });
+    });
+
+    it('should pass the palette size and a brand palette for GIFs', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText('Colours'), { target: { value: '16' } });
+      fireEvent.click(screen.getByText('Brand colours').closest('button')!);
+      const confirmButton = screen.getByText(/Continue to Customize/).closest('button')!;
+      expect(confirmButton.disabled).toBe(true);
+
+      fireEvent.change(screen.getByLabelText('Brand colours'), {
+        target: { value: '#ff0000, nope' },
+      });
+      expect(screen.queryByText(/Invalid colour "nope"/)).not.toBeNull();
+
+      fireEvent.change(screen.getByLabelText('Brand colours'), {
+        target: { value: '#ff0000, #fff' },
+      });
+      fireEvent.click(confirmButton);
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', {
+        format: 'gif',
+        maxColors: 16,
+        lockedPalette: { type: 'colors', colors: ['#ff0000', '#fff'] },
+      });
+    });
+
+    it('should lock the palette to the previewed frame', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Lock to frame').closest('button')!);
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', {
+        format: 'gif',
+        lockedPalette: { type: 'frame', frameIndex: 0 },
+      });
+    });
+
+    it('should pass the still-frame merge threshold when changed from the default', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      expect(screen.queryByText('0.5% change')).not.toBeNull();
+      fireEvent.change(screen.getByLabelText('Merge still frames'), { target: { value: '0' } });
+      expect(screen.queryByText('Off')).not.toBeNull();
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', {
+        format: 'gif',
+        duplicateThreshold: 0,
+      });
+    });
+
+    it('should pass the playback mode and loop count when changed', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Boomerang').closest('button')!);
+      fireEvent.click(screen.getByText('Play 3×'));
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', {
+        format: 'gif',
+        playbackMode: 'boomerang',
+        loopCount: 3,
+      });
+    });
+
+    it('should pass the speed and ramp keyframes when changed', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('2×'));
+      fireEvent.click(screen.getByText('Slow-mo middle').closest('button')!);
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith(
+        10,
+        20,
+        5,
+        '144p',
+        expect.objectContaining({
+          format: 'gif',
+          speed: 2,
+          speedRamp: expect.arrayContaining([{ at: 0.36, speed: 0.25 }]),
+        })
+      );
+    });
+
+    it('should estimate frames and duration at the chosen speed', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('2×'));
+      expect(screen.getByText('~25')).toBeTruthy();
+      expect(screen.getAllByText('5.0s').length).toBeGreaterThan(0);
+
+      fireEvent.click(screen.getByText('0.5×'));
+      expect(screen.getByText('~50')).toBeTruthy();
+      expect(screen.getAllByText('20.0s').length).toBeGreaterThan(0);
+    });
+
+    it('should not offer loop counts for MP4', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Play once'));
+      fireEvent.click(screen.getByText('MP4').closest('button')!);
+
+      expect(screen.queryByText('Loop forever')).toBeNull();
+      fireEvent.click(screen.getByText(/Continue to Customize/));
+      expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 5, '144p', { format: 'mp4' });
+    });
+
+    it('should hide dithering options for other formats', () => {
+      render(<QuickCaptureScreen {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('MP4').closest('button')!);
+
+      expect(screen.queryByText('Atkinson')).toBeNull();
     });
   });
 
@@ -303,6 +544,44 @@ describe('QuickCaptureScreen', () => {
     });
   });
 
+  describe('Resume Capture', () => {
+    const job: CaptureJob = {
+      id: 'capture_1',
+      videoId: 'abc123',
+      pageUrl: 'https://www.youtube.com/watch?v=abc123',
+      selection: { startTime: 30, endTime: 40, duration: 10 },
+      textOverlays: [],
+      frameCount: 100,
+      capturedFrames: 42,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+
+    it('should offer an interrupted capture with its progress', () => {
+      const onResumeCapture = jest.fn<(job: CaptureJob) => void>();
+      const { container } = render(
+        <QuickCaptureScreen
+          {...defaultProps}
+          resumableCapture={job}
+          onResumeCapture={onResumeCapture}
+        />
+      );
+
+      expect(container.querySelector('.ytgif-resume-capture-status')?.textContent).toBe(
+        'Interrupted capture: 42 of 100 frames saved'
+      );
+      fireEvent.click(screen.getByText('Resume capture'));
+
+      expect(onResumeCapture).toHaveBeenCalledWith(job);
+    });
+
+    it('should not offer resuming without a capture to resume', () => {
+      render(<QuickCaptureScreen {...defaultProps} onResumeCapture={jest.fn()} />);
+
+      expect(screen.queryByText('Resume capture')).toBeNull();
+    });
+  });
+
   describe('UI Elements', () => {
     it('should display resolution section header', () => {
       render(<QuickCaptureScreen {...defaultProps} />);
@@ -701,6 +980,17 @@ describe('QuickCaptureScreen', () => {
         );
       });
 
+      it('should pass the chosen speed to VideoPreview', () => {
+        render(<QuickCaptureScreen {...defaultProps} videoElement={mockVideoElement} />);
+
+        fireEvent.click(screen.getByText('0.25×'));
+
+        expect(VideoPreview).toHaveBeenLastCalledWith(
+          expect.objectContaining({ speed: 0.25, speedRamp: undefined }),
+          {}
+        );
+      });
+
       it('should pass startTime and endTime to VideoPreview', () => {
         render(<QuickCaptureScreen {...defaultProps} videoElement={mockVideoElement} />);
 
@@ -879,7 +1169,7 @@ describe('QuickCaptureScreen', () => {
         const confirmButton = screen.getByText(/Continue to Customize/);
         fireEvent.click(confirmButton);
 
-        expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 10, '360p');
+        expect(mockOnConfirm).toHaveBeenCalledWith(10, 20, 10, '360p', { format: 'gif' });
       });
 
       it('should update frame count when duration changes', () => {
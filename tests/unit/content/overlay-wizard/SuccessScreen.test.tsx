@@ -391,6 +391,36 @@ describe('SuccessScreen', () => {
       expect(screen.queryByText('×')).not.toBeInTheDocument();
     });
 
+    it('should render a video preview and MP4 labels for mp4 output', () => {
+      const videoDataUrl = 'data:video/mp4;base64,test';
+      render(
+        <SuccessScreen
+          {...defaultProps}
+          gifDataUrl={videoDataUrl}
+          gifMetadata={{ ...mockGifMetadata, format: 'mp4' }}
+        />
+      );
+
+      expect(screen.getByLabelText('Created MP4')).toHaveAttribute('src', videoDataUrl);
+      expect(screen.queryByAltText('Created GIF')).not.toBeInTheDocument();
+      expect(screen.getByText('MP4 Created Successfully!')).toBeInTheDocument();
+      expect(screen.getByText('Download MP4')).toBeInTheDocument();
+    });
+
+    it('should render an image preview and WebP labels for webp output', () => {
+      render(
+        <SuccessScreen
+          {...defaultProps}
+          gifDataUrl="data:image/webp;base64,test"
+          gifMetadata={{ ...mockGifMetadata, format: 'webp' }}
+        />
+      );
+
+      expect(screen.getByAltText('Created WebP')).toBeInTheDocument();
+      expect(screen.getByText('WebP Created Successfully!')).toBeInTheDocument();
+      expect(screen.getByText('Download WebP')).toBeInTheDocument();
+    });
+
     it('should continue rendering when all callbacks are undefined', () => {
       render(<SuccessScreen />);
 
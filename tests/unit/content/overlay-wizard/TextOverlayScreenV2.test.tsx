@@ -470,6 +470,22 @@ describe('TextOverlayScreenV2', () => {
       expect(screen.getByText('Preview at unknown (256×144px)')).toBeInTheDocument();
     });
 
+    it('shows a given frame at its own size instead of capturing the video', () => {
+      render(
+        <TextOverlayScreenV2
+          {...defaultProps}
+          previewFrameUrl="data:image/png;base64,frame"
+          frameSize={{ width: 320, height: 180 }}
+        />
+      );
+
+      expect(screen.getByText('Preview at original size (320×180px)')).toBeInTheDocument();
+      expect(document.querySelector('.ytgif-frame-preview')).toHaveStyle(
+        'background-image: url(data:image/png;base64,frame)'
+      );
+      expect(mockContext.drawImage).not.toHaveBeenCalled();
+    });
+
     it('sets canvas dimensions based on resolution', () => {
       render(<TextOverlayScreenV2 {...defaultProps} resolution="480p" videoElement={mockVideoElement} />);
 
@@ -76,7 +76,8 @@ describe('QuickCaptureScreen Resolution Options', () => {
       mockProps.startTime,
       mockProps.endTime,
       5, // default frame rate
-      '360p'
+      '360p',
+      { format: 'gif' } // default export settings
     );
   });
 
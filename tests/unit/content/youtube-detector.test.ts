@@ -368,7 +368,8 @@ describe('YouTubeDetector', () => {
         volume: 1,
         playbackRate: 1,
         buffered: expect.any(Object),
-        seekable: expect.any(Object)
+        seekable: expect.any(Object),
+        isAdPlaying: false
       });
     });
 
@@ -463,6 +464,35 @@ describe('YouTubeDetector', () => {
     });
   });
 
+  describe('Ad Detection', () => {
+    beforeEach(async () => {
+      const module = await import('@/content/youtube-detector');
+      youTubeDetector = module.youTubeDetector;
+    });
+
+    afterEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('should detect an ad from the player class', () => {
+      const player = document.createElement('div');
+      player.id = 'movie_player';
+      document.body.appendChild(player);
+      expect(youTubeDetector.isAdPlaying()).toBe(false);
+
+      player.classList.add('ad-showing');
+      expect(youTubeDetector.isAdPlaying()).toBe(true);
+    });
+
+    it('should detect an ad from its overlay', () => {
+      const overlay = document.createElement('div');
+      overlay.className = 'ytp-ad-player-overlay';
+      document.body.appendChild(overlay);
+
+      expect(youTubeDetector.isAdPlaying()).toBe(true);
+    });
+  });
+
   describe('Cleanup', () => {
     it('should clean up resources on destroy', async () => {
       const module = await import('@/content/youtube-detector');
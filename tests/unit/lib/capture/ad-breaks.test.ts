@@ -0,0 +1,166 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { captureAroundAds } from '@/lib/capture/ad-breaks';
+import { TimedCaptureStrategy } from '@/lib/capture/capture-strategies';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function createVideo() {
+  return { currentTime: 0, duration: 100, pause: jest.fn() };
+}
+
+describe('captureAroundAds', () => {
+  const times = [1, 1.5, 2, 2.5, 3];
+  const strategy = new TimedCaptureStrategy(1);
+
+  it('should drop the frame an ad showed in and capture again from it', async () => {
+    const video = createVideo();
+    let adChecks = 0;
+    // An ad shows when frame 2 is grabbed and ends after two more checks
+    let adShowing = false;
+    const consumed: Array<[number, number]> = [];
+    const onAdBreak = jest.fn();
+    const onContentResumed = jest.fn();
+
+    const result = await captureAroundAds(
+      strategy,
+      video as unknown as HTMLVideoElement,
+      times,
+      (index) => {
+        if (index === 2 && adChecks === 0) adShowing = true;
+        return video.currentTime;
+      },
+      (shown, index) => {
+        consumed.push([index, shown]);
+      },
+      {
+        isAdPlaying: () => {
+          if (adShowing && ++adChecks > 2) adShowing = false;
+          return adShowing;
+        },
+        onAdBreak,
+        onContentResumed,
+        pollInterval: 1,
+      }
+    );
+
+    expect(consumed).toEqual([
+      [0, 1],
+      [1, 1.5],
+      [2, 2],
+      [3, 2.5],
+      [4, 3],
+    ]);
+    expect(result.adBreaks).toMatchObject({ breaks: 1, discardedFrames: 1 });
+    expect(result.timing.frameCount).toBe(3);
+    expect(onAdBreak).toHaveBeenCalledWith({ frameIndex: 2, targetTime: 2 });
+    expect(onContentResumed).toHaveBeenCalledWith(
+      { frameIndex: 2, targetTime: 2 },
+      expect.objectContaining({ breaks: 1 })
+    );
+    expect(video.pause).toHaveBeenCalledTimes(1);
+  });
+
+  it('should treat a changed video duration as an ad', async () => {
+    const video = createVideo();
+    const consumed: number[] = [];
+    let adShown = false;
+
+    const result = await captureAroundAds(
+      strategy,
+      video as unknown as HTMLVideoElement,
+      times,
+      (index) => {
+        // A 15 second ad replaces the video, then the content comes back
+        if (index === 1 && !adShown) {
+          adShown = true;
+          video.duration = 15;
+          setTimeout(() => (video.duration = 100), 5);
+        }
+        return index;
+      },
+      (index) => {
+        consumed.push(index);
+      },
+      { isAdPlaying: () => false, pollInterval: 1 }
+    );
+
+    expect(consumed).toEqual([0, 1, 2, 3, 4]);
+    expect(result.adBreaks.breaks).toBe(1);
+  });
+
+  it('should wait for an ad playing at the start before reading the duration', async () => {
+    // A 15 second pre-roll plays for two checks, then the content loads
+    const video = { ...createVideo(), duration: 15 };
+    let adChecks = 0;
+    const consumed: number[] = [];
+    const onAdBreak = jest.fn();
+
+    const result = await captureAroundAds(
+      strategy,
+      video as unknown as HTMLVideoElement,
+      times,
+      (index) => index,
+      (index) => {
+        consumed.push(index);
+      },
+      {
+        isAdPlaying: () => {
+          if (++adChecks <= 2) return true;
+          video.duration = 100;
+          return false;
+        },
+        onAdBreak,
+        pollInterval: 1,
+        maxAdWait: 1000,
+      }
+    );
+
+    expect(consumed).toEqual([0, 1, 2, 3, 4]);
+    expect(result.adBreaks).toMatchObject({ breaks: 1, discardedFrames: 0 });
+    expect(onAdBreak).toHaveBeenCalledWith({ frameIndex: 0, targetTime: 1 });
+    expect(video.pause).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop when the ad does not finish', async () => {
+    const video = createVideo();
+
+    await expect(
+      captureAroundAds(
+        strategy,
+        video as unknown as HTMLVideoElement,
+        times,
+        () => 0,
+        () => undefined,
+        { isAdPlaying: () => true, pollInterval: 1, maxAdWait: 5 }
+      )
+    ).rejects.toThrow('The ad did not finish');
+  });
+
+  it('should pass on other failures without waiting', async () => {
+    const video = createVideo();
+    const isAdPlaying = jest.fn(() => false);
+
+    await expect(
+      captureAroundAds(
+        strategy,
+        video as unknown as HTMLVideoElement,
+        times,
+        () => 0,
+        () => {
+          throw new Error('Out of memory');
+        },
+        { isAdPlaying }
+      )
+    ).rejects.toThrow('Out of memory');
+    // Once before capture starts and once for the first frame
+    expect(isAdPlaying).toHaveBeenCalledTimes(2);
+    expect(video.pause).not.toHaveBeenCalled();
+  });
+});
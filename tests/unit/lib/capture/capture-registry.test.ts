@@ -0,0 +1,118 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import {
+  CaptureStrategyRegistry,
+  captureStrategies,
+  getDeviceMemory,
+  selectCaptureStrategy,
+} from '@/lib/capture/capture-registry';
+import { CaptureRequest, CaptureStrategy } from '@/lib/capture/capture-strategy';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function createVideo(withFrameCallbacks: boolean) {
+  return {
+    requestVideoFrameCallback: withFrameCallbacks ? jest.fn() : undefined,
+  } as unknown as HTMLVideoElement;
+}
+
+function createRequest(overrides: Partial<CaptureRequest> = {}): CaptureRequest {
+  const request = { duration: 5, frameRate: 30, width: 480, height: 270, ...overrides };
+  return { frameCount: Math.ceil(request.duration * request.frameRate), ...request };
+}
+
+function setDeviceMemory(gigabytes: number | undefined) {
+  if (gigabytes === undefined) {
+    delete (navigator as unknown as { deviceMemory?: number }).deviceMemory;
+  } else {
+    Object.defineProperty(navigator, 'deviceMemory', { value: gigabytes, configurable: true });
+  }
+}
+
+describe('CaptureStrategyRegistry', () => {
+  afterEach(() => {
+    setDeviceMemory(undefined);
+  });
+
+  it('should register the built-in strategies', () => {
+    expect(captureStrategies.get('seek').id).toBe('seek');
+    expect(captureStrategies.get('playback').id).toBe('playback');
+    expect(captureStrategies.get('timed').id).toBe('timed');
+    expect(CaptureStrategyRegistry.getInstance()).toBe(captureStrategies);
+  });
+
+  it('should probe which strategies a video supports', () => {
+    const ids = (video: HTMLVideoElement) =>
+      captureStrategies.getAvailable(video).map((strategy) => strategy.id);
+
+    expect(ids(createVideo(true))).toEqual(['seek', 'playback', 'timed']);
+    expect(ids(createVideo(false))).toEqual(['seek', 'timed']);
+  });
+
+  it('should play long, high frame rate clips once', () => {
+    const { strategy, reason } = selectCaptureStrategy(createVideo(true), createRequest());
+
+    expect(strategy.id).toBe('playback');
+    expect(reason).toContain('30 fps');
+  });
+
+  it('should seek when seeking is fast enough', () => {
+    const selection = selectCaptureStrategy(createVideo(true), createRequest({ frameRate: 10 }));
+
+    expect(selection.strategy.id).toBe('seek');
+  });
+
+  it('should seek short clips and videos without frame callbacks', () => {
+    expect(
+      selectCaptureStrategy(createVideo(true), createRequest({ duration: 0.5 })).strategy.id
+    ).toBe('seek');
+    expect(selectCaptureStrategy(createVideo(false), createRequest()).strategy.id).toBe('seek');
+  });
+
+  it('should seek when buffered frames could outgrow device memory', () => {
+    const request = createRequest({ duration: 20, width: 640, height: 360 });
+    setDeviceMemory(2);
+
+    const selection = selectCaptureStrategy(createVideo(true), request);
+
+    expect(getDeviceMemory()).toBe(2);
+    expect(selection.strategy.id).toBe('seek');
+    expect(selection.reason).toContain('2 GB');
+
+    setDeviceMemory(16);
+    expect(selectCaptureStrategy(createVideo(true), request).strategy.id).toBe('playback');
+  });
+
+  it('should honour a supported preference', () => {
+    const selection = selectCaptureStrategy(createVideo(true), createRequest(), 'timed');
+
+    expect(selection.strategy.id).toBe('timed');
+    expect(selection.reason).toBe('User preference: timed');
+  });
+
+  it('should fall back to automatic selection for an unsupported preference', () => {
+    const selection = selectCaptureStrategy(createVideo(false), createRequest(), 'playback');
+
+    expect(selection.strategy.id).toBe('seek');
+    expect(selection.reason).toMatch(/^Real time is unsupported here/);
+  });
+
+  it('should let a registered strategy replace a built-in one', () => {
+    const registry = new CaptureStrategyRegistry();
+    const custom = {
+      id: 'seek',
+      name: 'Custom',
+      isSupported: () => true,
+    } as unknown as CaptureStrategy;
+    registry.register(custom);
+
+    expect(registry.get('seek')).toBe(custom);
+    expect(() => registry.get('timed')).toThrow('Unknown capture strategy: timed');
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  PlaybackCaptureStrategy,
+  SeekCaptureStrategy,
+  TimedCaptureStrategy,
+} from '@/lib/capture/capture-strategies';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+/**
+ * A paused video without frame callbacks whose seeks complete on the next
+ * tick, recording the time shown when each frame is grabbed
+ */
+function createVideo() {
+  let time = 0;
+  const seekedListeners = new Set<() => void>();
+  const video = {
+    get currentTime() {
+      return time;
+    },
+    set currentTime(value: number) {
+      time = value;
+      setTimeout(() => seekedListeners.forEach((listener) => listener()), 0);
+    },
+    addEventListener: jest.fn((type: string, listener: () => void) => {
+      if (type === 'seeked') seekedListeners.add(listener);
+    }),
+    removeEventListener: (_type: string, listener: () => void) => seekedListeners.delete(listener),
+  };
+  return video as unknown as HTMLVideoElement;
+}
+
+describe('capture strategies', () => {
+  const times = [1, 1.5, 2];
+
+  it('should grab and consume each frame in order when seeking', async () => {
+    const video = createVideo();
+    const consumed: Array<[number, number]> = [];
+
+    const summary = await new SeekCaptureStrategy().capture(
+      video,
+      times,
+      () => video.currentTime,
+      (shown, index) => {
+        consumed.push([index, shown]);
+      }
+    );
+
+    expect(consumed).toEqual([
+      [0, 1],
+      [1, 1.5],
+      [2, 2],
+    ]);
+    expect(summary.frameCount).toBe(3);
+  });
+
+  it('should wait for each consume before seeking on', async () => {
+    const video = createVideo();
+    const events: string[] = [];
+
+    await new SeekCaptureStrategy().capture(
+      video,
+      times,
+      (index) => {
+        events.push(`grab ${index}`);
+        return index;
+      },
+      async (index) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        events.push(`consumed ${index}`);
+      }
+    );
+
+    expect(events).toEqual([
+      'grab 0',
+      'consumed 0',
+      'grab 1',
+      'consumed 1',
+      'grab 2',
+      'consumed 2',
+    ]);
+  });
+
+  it('should capture with fixed waits and count every frame as unverified', async () => {
+    const video = createVideo();
+    const shown: number[] = [];
+
+    const summary = await new TimedCaptureStrategy(1).capture(
+      video,
+      times,
+      () => video.currentTime,
+      (frame) => {
+        shown.push(frame);
+      }
+    );
+
+    expect(shown).toEqual(times);
+    expect(video.addEventListener).not.toHaveBeenCalled();
+    expect(summary.frameCount).toBe(3);
+    expect(summary.unverified).toBe(3);
+    expect(summary.meanError).toBe(0);
+  });
+
+  it('should reject when a frame cannot be consumed', async () => {
+    await expect(
+      new TimedCaptureStrategy(1).capture(
+        createVideo(),
+        times,
+        (index) => index,
+        (index) => {
+          if (index === 1) throw new Error('Encoder failed');
+        }
+      )
+    ).rejects.toThrow('Encoder failed');
+  });
+
+  it('should only offer playback capture with presented-frame callbacks', () => {
+    const strategy = new PlaybackCaptureStrategy();
+
+    expect(strategy.isSupported(createVideo())).toBe(false);
+    expect(
+      strategy.isSupported({ requestVideoFrameCallback: jest.fn() } as unknown as HTMLVideoElement)
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  FrameSeeker,
+  FrameTiming,
+  combineTimingSummaries,
+  summarizeFrameTimings,
+} from '@/lib/capture/frame-seeker';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const FRAME = 1 / 30;
+
+/**
+ * A paused video that completes seeks asynchronously. `present` decides
+ * which frame a seek shows: its media time, null when no new frame is
+ * presented, or 'error' when the video fails instead.
+ */
+function createVideo(
+  present: (time: number, seek: number) => number | 'error' | null,
+  withFrameCallbacks = true
+) {
+  let time = 0;
+  let seeks = 0;
+  const listeners: Record<string, Set<() => void>> = { seeked: new Set(), error: new Set() };
+  const frameCallbacks = new Map<number, VideoFrameRequestCallback>();
+  let nextId = 1;
+
+  const video = {
+    get currentTime() {
+      return time;
+    },
+    set currentTime(value: number) {
+      time = value;
+      const presented = present(value, seeks++);
+      setTimeout(() => {
+        if (presented === 'error') {
+          listeners.error.forEach((listener) => listener());
+          return;
+        }
+        listeners.seeked.forEach((listener) => listener());
+        if (presented !== null) {
+          const callbacks = [...frameCallbacks.values()];
+          frameCallbacks.clear();
+          callbacks.forEach((callback) =>
+            callback(0, { mediaTime: presented } as VideoFrameCallbackMetadata)
+          );
+        }
+      }, 0);
+    },
+    addEventListener: (type: string, listener: () => void) => listeners[type].add(listener),
+    removeEventListener: (type: string, listener: () => void) => listeners[type].delete(listener),
+    requestVideoFrameCallback: withFrameCallbacks
+      ? (callback: VideoFrameRequestCallback) => {
+          frameCallbacks.set(nextId, callback);
+          return nextId++;
+        }
+      : undefined,
+    cancelVideoFrameCallback: (id: number) => frameCallbacks.delete(id),
+  };
+  return video as unknown as HTMLVideoElement;
+}
+
+// The frame of a 30 fps video showing at `time`
+const frameAt = (time: number) => Math.floor(time / FRAME + 1e-9) * FRAME;
+
+describe('FrameSeeker', () => {
+  it('should resolve with the presented frame and its timing error', async () => {
+    const seeker = new FrameSeeker(createVideo(frameAt));
+
+    const timing = await seeker.seek(1.01, 0);
+
+    expect(timing.verified).toBe(true);
+    expect(timing.attempts).toBe(1);
+    expect(timing.presentedTime).toBeCloseTo(1, 6);
+    expect(timing.error).toBeCloseTo(-10, 3);
+  });
+
+  it('should seek again when the old frame is still presented', async () => {
+    // The first seek re-presents the previous frame, as a stalled decoder does
+    const seeker = new FrameSeeker(createVideo((time, seek) => (seek === 0 ? 0 : frameAt(time))));
+
+    const timing = await seeker.seek(2, 0);
+
+    expect(timing.attempts).toBe(2);
+    expect(timing.verified).toBe(true);
+    expect(timing.presentedTime).toBeCloseTo(2, 6);
+  });
+
+  it('should accept an unchanged frame that already covers the target', async () => {
+    // A second seek within the same frame presents nothing new
+    const seeker = new FrameSeeker(
+      createVideo((time, seek) => (seek === 0 ? frameAt(time) : null)),
+      { frameTimeout: 5 }
+    );
+
+    await seeker.seek(1, 0);
+    const timing = await seeker.seek(1.02, 1);
+
+    expect(timing.attempts).toBe(1);
+    expect(timing.verified).toBe(true);
+    expect(timing.presentedTime).toBeCloseTo(1, 6);
+  });
+
+  it('should give up on a frame that never advances', async () => {
+    const seeker = new FrameSeeker(
+      createVideo(() => 0),
+      { maxRetries: 2 }
+    );
+
+    const timing = await seeker.seek(5, 0);
+
+    expect(timing.attempts).toBe(3);
+    expect(timing.verified).toBe(false);
+    expect(timing.error).toBeCloseTo(-5000, 3);
+  });
+
+  it('should fail straight away when the video errors', async () => {
+    const video = createVideo(() => 'error');
+    const seeker = new FrameSeeker(video, { seekTimeout: 60000 });
+
+    await expect(seeker.seek(1, 0)).rejects.toThrow('Seek failed');
+    expect(seeker.getTimings()).toEqual([]);
+  });
+
+  it('should use the seek position where frames cannot be verified', async () => {
+    const seeker = new FrameSeeker(createVideo(frameAt, false));
+
+    const timing = await seeker.seek(3.3, 0);
+
+    expect(timing.presentedTime).toBe(3.3);
+    expect(timing.verified).toBe(false);
+    expect(timing.attempts).toBe(1);
+  });
+
+  it('should keep the timing of every frame', async () => {
+    const seeker = new FrameSeeker(createVideo(frameAt));
+
+    await seeker.seek(0.5);
+    await seeker.seek(0.6);
+
+    expect(seeker.getTimings().map((timing) => timing.index)).toEqual([0, 1]);
+    expect(seeker.getSummary().frameCount).toBe(2);
+  });
+});
+
+describe('summarizeFrameTimings', () => {
+  const timing = (error: number, attempts: number, verified: boolean): FrameTiming => ({
+    index: 0,
+    targetTime: 1,
+    presentedTime: 1 + error / 1000,
+    error,
+    attempts,
+    verified,
+  });
+
+  it('should count retries and unverified frames and average absolute errors', () => {
+    const summary = summarizeFrameTimings([
+      timing(-10, 1, true),
+      timing(20, 2, true),
+      timing(-30.04, 3, false),
+    ]);
+
+    expect(summary).toEqual({
+      frameCount: 3,
+      retried: 2,
+      unverified: 1,
+      meanError: expect.any(Number),
+      maxError: 30.04,
+      frameErrors: [-10, 20, -30],
+    });
+    expect(summary.meanError).toBeCloseTo(20.013, 3);
+  });
+
+  it('should report no error without frames', () => {
+    expect(summarizeFrameTimings([])).toMatchObject({ frameCount: 0, meanError: 0, maxError: 0 });
+  });
+});
+
+describe('combineTimingSummaries', () => {
+  it('should add up runs and weight the mean error by frames', () => {
+    const combined = combineTimingSummaries([
+      {
+        frameCount: 1,
+        retried: 1,
+        unverified: 0,
+        meanError: 10,
+        maxError: 10,
+        frameErrors: [10],
+      },
+      {
+        frameCount: 3,
+        retried: 0,
+        unverified: 2,
+        meanError: 2,
+        maxError: 4,
+        frameErrors: [-4, 2, 0],
+        stalls: 1,
+        resyncs: 1,
+      },
+    ]);
+
+    expect(combined).toEqual({
+      frameCount: 4,
+      retried: 1,
+      unverified: 2,
+      meanError: 4,
+      maxError: 10,
+      frameErrors: [10, -4, 2, 0],
+      stalls: 1,
+      resyncs: 1,
+    });
+  });
+
+  it('should report no frames without runs', () => {
+    expect(combineTimingSummaries([])).toMatchObject({ frameCount: 0, meanError: 0, maxError: 0 });
+  });
+});
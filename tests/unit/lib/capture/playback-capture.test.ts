@@ -0,0 +1,205 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { PlaybackCapture, isPlaybackCaptureSupported } from '@/lib/capture/playback-capture';
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const FRAME = 1 / 30;
+
+// The frame of a 30 fps video showing at `time`
+const frameAt = (time: number) => Math.floor(time / FRAME + 1e-9) * FRAME;
+
+interface FakeVideoOptions {
+  // Media time playback jumps to after presenting the frame at `from`
+  jump?: { from: number; to: number };
+  // Fire `waiting` once playback reaches this time
+  stallAt?: number;
+  playRejects?: boolean;
+  // Fire `error` once playback reaches this time
+  failAt?: number;
+}
+
+/**
+ * A video that presents a 30 fps frame per tick while playing, and one
+ * frame after each seek
+ */
+function createVideo(options: FakeVideoOptions = {}) {
+  let time = 0;
+  let playing = false;
+  let jumped = false;
+  let stalled = false;
+  const listeners = new Map<string, Set<() => void>>();
+  const frameCallbacks = new Map<number, VideoFrameRequestCallback>();
+  let nextId = 1;
+  const stats = { seeks: 0, plays: 0 };
+
+  const emit = (type: string) => listeners.get(type)?.forEach((listener) => listener());
+  const present = (mediaTime: number) => {
+    const callbacks = [...frameCallbacks.values()];
+    frameCallbacks.clear();
+    callbacks.forEach((callback) => callback(0, { mediaTime } as VideoFrameCallbackMetadata));
+  };
+  const tick = () => {
+    if (!playing) return;
+    time = frameAt(time) + FRAME;
+    if (options.jump && !jumped && time >= options.jump.from) {
+      jumped = true;
+      time = options.jump.to;
+    }
+    if (options.stallAt !== undefined && !stalled && time >= options.stallAt) {
+      stalled = true;
+      emit('waiting');
+    }
+    if (options.failAt !== undefined && time >= options.failAt) {
+      playing = false;
+      emit('error');
+      return;
+    }
+    present(frameAt(time));
+    setTimeout(tick, 0);
+  };
+
+  const video = {
+    muted: false,
+    get paused() {
+      return !playing;
+    },
+    get currentTime() {
+      return time;
+    },
+    set currentTime(value: number) {
+      time = value;
+      stats.seeks++;
+      setTimeout(() => {
+        emit('seeked');
+        present(frameAt(value));
+      }, 0);
+    },
+    play: () => {
+      stats.plays++;
+      if (options.playRejects) {
+        return Promise.reject(new Error('NotAllowedError'));
+      }
+      playing = true;
+      setTimeout(tick, 0);
+      return Promise.resolve();
+    },
+    pause: () => {
+      playing = false;
+    },
+    addEventListener: (type: string, listener: () => void) => {
+      if (!listeners.has(type)) listeners.set(type, new Set());
+      listeners.get(type)!.add(listener);
+    },
+    removeEventListener: (type: string, listener: () => void) =>
+      listeners.get(type)?.delete(listener),
+    requestVideoFrameCallback: (callback: VideoFrameRequestCallback) => {
+      frameCallbacks.set(nextId, callback);
+      return nextId++;
+    },
+    cancelVideoFrameCallback: (id: number) => frameCallbacks.delete(id),
+  };
+  return { video: video as unknown as HTMLVideoElement, stats };
+}
+
+// Capture times of a 10 fps clip from 1s to 2s
+const times = Array.from({ length: 10 }, (_, index) => 1 + index / 10);
+
+describe('PlaybackCapture', () => {
+  it('should capture every sample in one pass of playback', async () => {
+    const { video, stats } = createVideo();
+    const captured: Array<{ index: number; time: number }> = [];
+
+    const summary = await new PlaybackCapture(video).capture(times, (index) =>
+      captured.push({ index, time: video.currentTime })
+    );
+
+    expect(captured.map((frame) => frame.index)).toEqual(times.map((_, index) => index));
+    captured.forEach((frame, index) => {
+      expect(Math.abs(frame.time - times[index])).toBeLessThan(FRAME + 1e-9);
+    });
+    expect(stats.seeks).toBe(1);
+    expect(stats.plays).toBe(1);
+    expect(summary).toMatchObject({ frameCount: 10, resyncs: 0, unverified: 0 });
+    expect(summary.maxError).toBeLessThan(FRAME * 1000);
+    expect(video.paused).toBe(true);
+  });
+
+  it('should seek back to samples that playback jumped past', async () => {
+    const { video, stats } = createVideo({ jump: { from: 1.3, to: 1.75 } });
+    const captured: number[] = [];
+
+    const summary = await new PlaybackCapture(video).capture(times, (index) =>
+      captured.push(index)
+    );
+
+    expect(captured).toEqual(times.map((_, index) => index));
+    expect(summary.resyncs).toBe(1);
+    expect(stats.seeks).toBe(2);
+    expect(summary.maxError).toBeLessThan(FRAME * 1000);
+  });
+
+  it('should count buffering stalls without shifting frames', async () => {
+    const { video } = createVideo({ stallAt: 1.5 });
+
+    const summary = await new PlaybackCapture(video).capture(times, () => {});
+
+    expect(summary.stalls).toBe(1);
+    expect(summary.frameCount).toBe(10);
+    expect(summary.maxError).toBeLessThan(FRAME * 1000);
+  });
+
+  it('should seek to every sample when playback cannot start', async () => {
+    const { video, stats } = createVideo({ playRejects: true });
+    const captured: number[] = [];
+
+    await new PlaybackCapture(video).capture(times, (index) => captured.push(index));
+
+    expect(captured).toEqual(times.map((_, index) => index));
+    expect(stats.seeks).toBe(10);
+    expect(stats.plays).toBe(1);
+  });
+
+  it('should mute the video while capturing and restore it after', async () => {
+    const { video } = createVideo();
+    const muted: boolean[] = [];
+
+    await new PlaybackCapture(video).capture(times, () => muted.push(video.muted));
+
+    expect(muted.every(Boolean)).toBe(true);
+    expect(video.muted).toBe(false);
+  });
+
+  it('should stop and report a frame that fails to draw', async () => {
+    const { video } = createVideo();
+
+    await expect(
+      new PlaybackCapture(video).capture(times, (index) => {
+        if (index === 4) throw new Error('Canvas lost');
+      })
+    ).rejects.toThrow('Canvas lost');
+    expect(video.paused).toBe(true);
+  });
+
+  it('should stop straight away when the video fails while playing', async () => {
+    const { video, stats } = createVideo({ failAt: 1.3 });
+
+    await expect(new PlaybackCapture(video).capture(times, () => undefined)).rejects.toThrow(
+      'Playback failed'
+    );
+    expect(stats.seeks).toBe(1);
+  });
+});
+
+describe('isPlaybackCaptureSupported', () => {
+  it('should need presented-frame callbacks', () => {
+    expect(isPlaybackCaptureSupported(createVideo().video)).toBe(true);
+    expect(isPlaybackCaptureSupported({} as HTMLVideoElement)).toBe(false);
+  });
+});
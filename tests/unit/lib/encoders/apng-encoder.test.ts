@@ -0,0 +1,202 @@
+/**
+ * Tests for ApngEncoder
+ * Parses the generated chunks and inflates frame data with Node's zlib
+ */
+
+import { inflateSync } from 'zlib';
+import { ApngEncoder } from '@/lib/encoders/apng-encoder';
+import { EncodingOptions, FrameData } from '@/lib/encoders/abstract-encoder';
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function blobBytes(blob: Blob): Uint8Array {
+  const parts = (blob as unknown as { parts: Uint8Array[] }).parts;
+  return Buffer.concat(parts.map((part) => Buffer.from(part)));
+}
+
+function readChunks(bytes: Uint8Array): PngChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 8)));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += length + 12;
+  }
+  return chunks;
+}
+
+function u32(data: Uint8Array, offset: number): number {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(offset);
+}
+
+function u16(data: Uint8Array, offset: number): number {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength).getUint16(offset);
+}
+
+/**
+ * Reverse PNG row filtering for 8-bit RGBA
+ */
+function unfilter(filtered: Uint8Array, width: number, height: number): Uint8Array {
+  const stride = width * 4;
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = filtered[y * (stride + 1)];
+    for (let x = 0; x < stride; x++) {
+      const raw = filtered[y * (stride + 1) + 1 + x];
+      const left = x >= 4 ? pixels[y * stride + x - 4] : 0;
+      const up = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+      const upLeft = x >= 4 && y > 0 ? pixels[(y - 1) * stride + x - 4] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >>> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      pixels[y * stride + x] = (raw + predictor) & 0xff;
+    }
+  }
+  return pixels;
+}
+
+function createFrame(width: number, height: number, seed: number, delay?: number): FrameData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    const pixel = i / 4;
+    data[i] = (pixel * 7 + seed) % 256;
+    data[i + 1] = (pixel * 3) % 256;
+    data[i + 2] = seed;
+    data[i + 3] = pixel % width; // Horizontal alpha gradient
+  }
+  return { imageData: new ImageData(data, width, height), timestamp: 0, delay };
+}
+
+describe('ApngEncoder', () => {
+  let encoder: ApngEncoder;
+  let options: EncodingOptions;
+
+  beforeEach(() => {
+    encoder = new ApngEncoder();
+    options = { width: 24, height: 8, frameRate: 10, quality: 'medium', loop: true };
+  });
+
+  it('should identify as APNG encoder', () => {
+    expect(encoder.name).toBe('apng');
+    expect(encoder.supportedFormats).toEqual(['apng']);
+    expect(encoder.isAvailable()).toBe(true);
+  });
+
+  it('should write a valid APNG chunk sequence', async () => {
+    const frames = [createFrame(24, 8, 0), createFrame(24, 8, 50), createFrame(24, 8, 100)];
+    const result = await encoder.encode(frames, options);
+    const bytes = blobBytes(result.blob);
+
+    expect(result.blob.type).toBe('image/png');
+    expect(result.metadata.format).toBe('apng');
+    expect(Array.from(bytes.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+    expect(readChunks(bytes).map((chunk) => chunk.type)).toEqual([
+      'IHDR',
+      'acTL',
+      'fcTL',
+      'IDAT',
+      'fcTL',
+      'fdAT',
+      'fcTL',
+      'fdAT',
+      'IEND',
+    ]);
+  });
+
+  it('should use consecutive sequence numbers across fcTL and fdAT', async () => {
+    const frames = [createFrame(24, 8, 0), createFrame(24, 8, 1), createFrame(24, 8, 2)];
+    const chunks = readChunks(blobBytes((await encoder.encode(frames, options)).blob));
+
+    const sequence = chunks
+      .filter((chunk) => chunk.type === 'fcTL' || chunk.type === 'fdAT')
+      .map((chunk) => u32(chunk.data, 0));
+    expect(sequence).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should write an explicit loop count as the number of plays', async () => {
+    const frames = [createFrame(24, 8, 0), createFrame(24, 8, 1)];
+    const chunks = readChunks(
+      blobBytes((await encoder.encode(frames, { ...options, loopCount: 3 })).blob)
+    );
+
+    const actl = chunks.find((chunk) => chunk.type === 'acTL')!;
+    expect(u32(actl.data, 4)).toBe(3); // num_plays
+  });
+
+  it('should honour frame delays and loop setting', async () => {
+    const frames = [createFrame(24, 8, 0, 40), createFrame(24, 8, 1)];
+    const chunks = readChunks(
+      blobBytes((await encoder.encode(frames, { ...options, loop: false })).blob)
+    );
+
+    const actl = chunks.find((chunk) => chunk.type === 'acTL')!;
+    expect(u32(actl.data, 0)).toBe(2); // num_frames
+    expect(u32(actl.data, 4)).toBe(1); // num_plays
+
+    const delays = chunks
+      .filter((chunk) => chunk.type === 'fcTL')
+      .map((chunk) => [u16(chunk.data, 20), u16(chunk.data, 22)]);
+    expect(delays).toEqual([
+      [40, 1000],
+      [100, 1000],
+    ]);
+  });
+
+  it('should preserve 8-bit alpha losslessly', async () => {
+    const frames = [createFrame(24, 8, 10), createFrame(24, 8, 200)];
+    const chunks = readChunks(blobBytes((await encoder.encode(frames, options)).blob));
+
+    const ihdr = chunks.find((chunk) => chunk.type === 'IHDR')!;
+    expect(ihdr.data[8]).toBe(8); // bit depth
+    expect(ihdr.data[9]).toBe(6); // RGBA
+
+    const idat = chunks.find((chunk) => chunk.type === 'IDAT')!;
+    const fdat = chunks.find((chunk) => chunk.type === 'fdAT')!;
+
+    expect(Array.from(unfilter(inflateSync(idat.data), 24, 8))).toEqual(
+      Array.from(frames[0].imageData.data)
+    );
+    expect(Array.from(unfilter(inflateSync(fdat.data.subarray(4)), 24, 8))).toEqual(
+      Array.from(frames[1].imageData.data)
+    );
+  });
+
+  it('should reject mismatched frame sizes and empty input', async () => {
+    await expect(encoder.encode([createFrame(8, 8, 0)], options)).rejects.toThrow(
+      'Frame 0 is 8x8, expected 24x8'
+    );
+    await expect(encoder.encode([], options)).rejects.toThrow('No frames to encode');
+  });
+
+  it('should abort when the signal fires', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      encoder.encode([createFrame(24, 8, 0)], options, undefined, controller.signal)
+    ).rejects.toThrow('Encoding cancelled');
+    expect(encoder.status.isEncoding).toBe(false);
+  });
+
+  it('should stop listening to the signal once encoding ends', async () => {
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+    await encoder.encode([createFrame(24, 8, 0)], options, undefined, controller.signal);
+
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for the zlib/deflate compressor
+ * Round-trips through Node's zlib to verify stream validity
+ */
+
+import { inflateSync } from 'zlib';
+import { zlibDeflate } from '@/lib/encoders/deflate';
+
+function roundTrip(data: Uint8Array, maxChainLength?: number): Uint8Array {
+  return new Uint8Array(inflateSync(zlibDeflate(data, { maxChainLength })));
+}
+
+describe('zlibDeflate', () => {
+  it('should handle empty and single-byte input', () => {
+    expect(roundTrip(new Uint8Array(0))).toEqual(new Uint8Array(0));
+    expect(roundTrip(new Uint8Array([42]))).toEqual(new Uint8Array([42]));
+  });
+
+  it('should compress repetitive data using back-references', () => {
+    const data = new Uint8Array(100_000).fill(7);
+    const compressed = zlibDeflate(data);
+
+    expect(compressed.length).toBeLessThan(1000);
+    expect(roundTrip(data)).toEqual(data);
+  });
+
+  it('should round-trip data with matches across the whole window', () => {
+    const text = new TextEncoder().encode('frame pixels frame rows '.repeat(4000));
+    const noise = new Uint8Array(70_000);
+    let seed = 12345;
+    for (let i = 0; i < noise.length; i++) {
+      seed = (seed * 1664525 + 1013904223) >>> 0;
+      noise[i] = seed >>> 24;
+    }
+    const data = new Uint8Array(text.length + noise.length * 2);
+    data.set(noise, 0);
+    data.set(text, noise.length);
+    data.set(noise, noise.length + text.length); // repeat beyond the 32K window
+
+    expect(roundTrip(data)).toEqual(data);
+    expect(roundTrip(data, 1)).toEqual(data);
+  });
+
+  it('should write a zlib header and Adler-32 trailer', () => {
+    const compressed = zlibDeflate(new TextEncoder().encode('Wikipedia'));
+
+    expect(compressed[0]).toBe(0x78);
+    expect(((compressed[0] << 8) | compressed[1]) % 31).toBe(0);
+    // Adler-32 of "Wikipedia" is 0x11E60398
+    expect(Array.from(compressed.subarray(-4))).toEqual([0x11, 0xe6, 0x03, 0x98]);
+  });
+});
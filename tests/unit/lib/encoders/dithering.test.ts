@@ -0,0 +1,95 @@
+/**
+ * Tests for GIF palette dithering
+ */
+
+import { ditherToPalette, resolveDitheringAlgorithm } from '@/lib/encoders/dithering';
+import type { DitheringAlgorithm } from '@/lib/encoders/abstract-encoder';
+
+const BLACK_AND_WHITE = [
+  [0, 0, 0],
+  [255, 255, 255],
+];
+
+function solidGrey(width: number, height: number, value: number): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels.set([value, value, value, 255], i);
+  }
+  return pixels;
+}
+
+function whiteShare(indices: Uint8Array): number {
+  return indices.reduce((sum, index) => sum + index, 0) / indices.length;
+}
+
+describe('resolveDitheringAlgorithm', () => {
+  it('should keep boolean options working', () => {
+    expect(resolveDitheringAlgorithm(true)).toBe('floyd-steinberg');
+    expect(resolveDitheringAlgorithm(false)).toBe('none');
+    expect(resolveDitheringAlgorithm(undefined)).toBe('none');
+    expect(resolveDitheringAlgorithm('bayer8')).toBe('bayer8');
+  });
+});
+
+describe('ditherToPalette', () => {
+  const grey = solidGrey(16, 16, 64);
+
+  it('should leave plain mapping to the caller when disabled', () => {
+    expect(ditherToPalette(grey, 16, 16, BLACK_AND_WHITE, { algorithm: 'none' })).toBeNull();
+    expect(
+      ditherToPalette(grey, 16, 16, BLACK_AND_WHITE, { algorithm: 'atkinson', strength: 0 })
+    ).toBeNull();
+  });
+
+  it.each<DitheringAlgorithm>(['floyd-steinberg', 'sierra-lite', 'bayer4', 'bayer8'])(
+    'should approximate a mid-tone with a mix of colours (%s)',
+    (algorithm) => {
+      const indices = ditherToPalette(grey, 16, 16, BLACK_AND_WHITE, { algorithm })!;
+
+      // 64/255 grey is roughly a quarter white
+      expect(whiteShare(indices)).toBeGreaterThan(0.15);
+      expect(whiteShare(indices)).toBeLessThan(0.35);
+    }
+  );
+
+  it('should clip small errors with Atkinson diffusion', () => {
+    // Atkinson drops a quarter of the error, so a dark grey stays black
+    const dark = solidGrey(16, 16, 24);
+
+    expect(
+      whiteShare(ditherToPalette(dark, 16, 16, BLACK_AND_WHITE, { algorithm: 'atkinson' })!)
+    ).toBeLessThan(
+      whiteShare(ditherToPalette(dark, 16, 16, BLACK_AND_WHITE, { algorithm: 'floyd-steinberg' })!)
+    );
+  });
+
+  it('should reduce the pattern as strength drops', () => {
+    const palette = [
+      [0, 0, 0],
+      [128, 128, 128],
+      [255, 255, 255],
+    ];
+    const nearGrey = solidGrey(8, 8, 110);
+
+    const full = ditherToPalette(nearGrey, 8, 8, palette, { algorithm: 'bayer8' })!;
+    const weak = ditherToPalette(nearGrey, 8, 8, palette, { algorithm: 'bayer8', strength: 0.1 })!;
+
+    expect(new Set(full).size).toBeGreaterThan(1);
+    expect(Array.from(weak).every((index) => index === 1)).toBe(true);
+  });
+
+  it('should keep ordered patterns aligned for offset regions', () => {
+    const frame = ditherToPalette(grey, 16, 16, BLACK_AND_WHITE, { algorithm: 'bayer4' })!;
+    const region = ditherToPalette(solidGrey(4, 4, 64), 4, 4, BLACK_AND_WHITE, {
+      algorithm: 'bayer4',
+      offsetX: 6,
+      offsetY: 5,
+    })!;
+
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < 4; x++) {
+        expect(region[y * 4 + x]).toBe(frame[(y + 5) * 16 + x + 6]);
+      }
+    }
+  });
+});
@@ -6,16 +6,25 @@
 import { EncoderFactory, encoderFactory, selectEncoder, getPerformanceRecommendations } from '@/lib/encoders/encoder-factory';
 import { GifencEncoder } from '@/lib/encoders/gifenc-encoder';
 import { GifJsEncoder } from '@/lib/encoders/gifjs-encoder';
+import { WebCodecsMp4Encoder } from '@/lib/encoders/webcodecs-mp4-encoder';
+import { WebpEncoder } from '@/lib/encoders/webp-encoder';
+import { ApngEncoder } from '@/lib/encoders/apng-encoder';
 import { AbstractEncoder } from '@/lib/encoders/abstract-encoder';
 
 // Mock the encoder modules
 jest.mock('@/lib/encoders/gifenc-encoder');
 jest.mock('@/lib/encoders/gifjs-encoder');
+jest.mock('@/lib/encoders/webcodecs-mp4-encoder');
+jest.mock('@/lib/encoders/webp-encoder');
+jest.mock('@/lib/encoders/apng-encoder');
 
 describe('EncoderFactory', () => {
   let factory: EncoderFactory;
   let mockGifencEncoder: jest.Mocked<GifencEncoder>;
   let mockGifJsEncoder: jest.Mocked<GifJsEncoder>;
+  let mockWebCodecsEncoder: jest.Mocked<WebCodecsMp4Encoder>;
+  let mockWebpEncoder: jest.Mocked<WebpEncoder>;
+  let mockApngEncoder: jest.Mocked<ApngEncoder>;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -51,8 +60,53 @@ describe('EncoderFactory', () => {
       encode: jest.fn().mockResolvedValue(new Blob(['gifjs-data'], { type: 'image/gif' }))
     } as any;
 
+    mockWebCodecsEncoder = {
+      name: 'webcodecs',
+      supportedFormats: ['mp4'],
+      characteristics: {
+        speed: 'fast',
+        quality: 'high',
+        memoryUsage: 'low',
+        browserSupport: 'good'
+      },
+      isAvailable: jest.fn().mockReturnValue(true),
+      initialize: jest.fn().mockResolvedValue(undefined),
+      encode: jest.fn().mockResolvedValue(new Blob(['mp4-data'], { type: 'video/mp4' }))
+    } as any;
+
+    mockWebpEncoder = {
+      name: 'webp',
+      supportedFormats: ['webp'],
+      characteristics: {
+        speed: 'medium',
+        quality: 'high',
+        memoryUsage: 'medium',
+        browserSupport: 'good'
+      },
+      isAvailable: jest.fn().mockReturnValue(true),
+      initialize: jest.fn().mockResolvedValue(undefined),
+      encode: jest.fn().mockResolvedValue(new Blob(['webp-data'], { type: 'image/webp' }))
+    } as any;
+
+    mockApngEncoder = {
+      name: 'apng',
+      supportedFormats: ['apng'],
+      characteristics: {
+        speed: 'slow',
+        quality: 'high',
+        memoryUsage: 'medium',
+        browserSupport: 'excellent'
+      },
+      isAvailable: jest.fn().mockReturnValue(true),
+      initialize: jest.fn().mockResolvedValue(undefined),
+      encode: jest.fn().mockResolvedValue(new Blob(['apng-data'], { type: 'image/png' }))
+    } as any;
+
     (GifencEncoder as jest.MockedClass<typeof GifencEncoder>).mockImplementation(() => mockGifencEncoder);
     (GifJsEncoder as jest.MockedClass<typeof GifJsEncoder>).mockImplementation(() => mockGifJsEncoder);
+    (WebCodecsMp4Encoder as jest.MockedClass<typeof WebCodecsMp4Encoder>).mockImplementation(() => mockWebCodecsEncoder);
+    (WebpEncoder as jest.MockedClass<typeof WebpEncoder>).mockImplementation(() => mockWebpEncoder);
+    (ApngEncoder as jest.MockedClass<typeof ApngEncoder>).mockImplementation(() => mockApngEncoder);
   });
 
   describe('getInstance', () => {
@@ -120,11 +174,63 @@ describe('EncoderFactory', () => {
       })).rejects.toThrow('No GIF encoder available in this environment');
     });
 
-    it('should throw error for unsupported format', async () => {
+    it('should select WebCodecs encoder for mp4 format', async () => {
+      const result = await factory.getEncoder({
+        primary: 'auto',
+        format: 'mp4'
+      });
+
+      expect(result.encoder).toBe(mockWebCodecsEncoder);
+      expect(result.reason).toBe('webcodecs selected for MP4 output');
+    });
+
+    it('should throw error when no mp4 encoder available', async () => {
+      mockWebCodecsEncoder.isAvailable.mockReturnValue(false);
+
       await expect(factory.getEncoder({
         primary: 'auto',
         format: 'mp4'
-      })).rejects.toThrow('Format mp4 not yet supported');
+      })).rejects.toThrow('No MP4 encoder available in this environment');
+    });
+
+    it('should select WebP encoder for webp format', async () => {
+      const result = await factory.getEncoder({
+        primary: 'webp',
+        format: 'webp'
+      });
+
+      expect(result.encoder).toBe(mockWebpEncoder);
+      expect(result.reason).toBe('User preference: webp');
+    });
+
+    it('should throw error when no webp encoder available', async () => {
+      mockWebpEncoder.isAvailable.mockReturnValue(false);
+
+      await expect(factory.getEncoder({
+        primary: 'auto',
+        format: 'webp'
+      })).rejects.toThrow('No WEBP encoder available in this environment');
+    });
+
+    it('should select APNG encoder for apng format', async () => {
+      const result = await factory.getEncoder({
+        primary: 'auto',
+        format: 'apng'
+      });
+
+      expect(result.encoder).toBe(mockApngEncoder);
+      expect(result.reason).toBe('apng selected for APNG output');
+    });
+
+    it('should ignore a preferred encoder that cannot produce the requested format', async () => {
+      const result = await factory.getEncoder({
+        primary: 'webcodecs',
+        fallback: 'gif.js',
+        format: 'gif'
+      });
+
+      expect(result.encoder).toBe(mockGifJsEncoder);
+      expect(result.reason).toBe('Fallback to gif.js (primary unavailable)');
     });
 
     it('should cache encoder instances', async () => {
@@ -188,7 +294,7 @@ describe('EncoderFactory', () => {
     it('should return information about all encoders', async () => {
       const encoders = await factory.getAvailableEncoders();
 
-      expect(encoders).toHaveLength(2);
+      expect(encoders).toHaveLength(5);
       expect(encoders[0]).toEqual({
         name: 'gifenc',
         type: 'gifenc',
@@ -203,6 +309,23 @@ describe('EncoderFactory', () => {
         characteristics: mockGifJsEncoder.characteristics,
         supportedFormats: ['gif']
       });
+      expect(encoders[2]).toEqual({
+        name: 'webcodecs',
+        type: 'webcodecs',
+        available: true,
+        characteristics: mockWebCodecsEncoder.characteristics,
+        supportedFormats: ['mp4']
+      });
+      expect(encoders[3]).toMatchObject({
+        name: 'webp',
+        type: 'webp',
+        supportedFormats: ['webp']
+      });
+      expect(encoders[4]).toMatchObject({
+        name: 'apng',
+        type: 'apng',
+        supportedFormats: ['apng']
+      });
     });
 
     it('should handle encoder availability check errors', async () => {
@@ -230,7 +353,7 @@ describe('EncoderFactory', () => {
     it('should benchmark available encoders', async () => {
       const results = await factory.benchmarkEncoders(10);
 
-      expect(results).toHaveLength(2);
+      expect(results).toHaveLength(5);
       expect(results[0]).toMatchObject({
         name: 'gifenc',
         type: 'gifenc',
@@ -295,6 +418,126 @@ describe('EncoderFactory', () => {
     });
   });
 
+  describe('compareGifEncoders', () => {
+    const frames = Array.from({ length: 10 }, (_, i) => ({
+      imageData: new ImageData(2, 2),
+      timestamp: i * 100
+    }));
+    const options = { width: 2, height: 2, frameRate: 10, quality: 'medium' as const, loop: true };
+
+    // Encode results whose measured quality depends on the dithering tried
+    const mockQuality = (
+      encoder: jest.Mocked<any>,
+      byDithering: Record<string, { ssim: number; banding: number; fileSize: number }>
+    ) => {
+      encoder.encode.mockImplementation(async (_frames: unknown, opts: { dithering: string }) => {
+        const { ssim, banding, fileSize } = byDithering[opts.dithering];
+        return {
+          blob: new Blob(['gif']),
+          metadata: { fileSize },
+          performance: { quality: { psnr: 30, ssim, minSsim: ssim, banding, frames: [] } }
+        };
+      });
+    };
+
+    it('should rank encoder and dithering pairs by measured quality', async () => {
+      mockQuality(mockGifencEncoder, {
+        none: { ssim: 0.9, banding: 0.05, fileSize: 1000 },
+        'floyd-steinberg': { ssim: 0.93, banding: 0.01, fileSize: 1400 },
+        bayer4: { ssim: 0.92, banding: 0.02, fileSize: 1200 }
+      });
+      mockQuality(mockGifJsEncoder, {
+        none: { ssim: 0.95, banding: 0, fileSize: 1100 },
+        'floyd-steinberg': { ssim: 0.94, banding: 0, fileSize: 1500 }
+      });
+
+      const trials = await factory.compareGifEncoders(frames, options);
+
+      expect(trials.map((trial) => [trial.encoder, trial.dithering])).toEqual([
+        ['gif.js', 'none'],
+        ['gif.js', 'floyd-steinberg'],
+        ['gifenc', 'floyd-steinberg'],
+        ['gifenc', 'bayer4'],
+        ['gifenc', 'none']
+      ]);
+      expect(trials[0].score).toBeCloseTo(0.95);
+      expect(trials[4].score).toBeCloseTo(0.8);
+    });
+
+    it('should settle near-ties by file size', async () => {
+      mockQuality(mockGifencEncoder, {
+        none: { ssim: 0.8, banding: 0, fileSize: 500 },
+        'floyd-steinberg': { ssim: 0.95, banding: 0, fileSize: 1400 },
+        bayer4: { ssim: 0.948, banding: 0, fileSize: 900 }
+      });
+      mockQuality(mockGifJsEncoder, {
+        none: { ssim: 0.8, banding: 0, fileSize: 500 },
+        'floyd-steinberg': { ssim: 0.8, banding: 0, fileSize: 500 }
+      });
+
+      const [best] = await factory.compareGifEncoders(frames, options);
+
+      expect(best).toMatchObject({ encoder: 'gifenc', dithering: 'bayer4' });
+    });
+
+    it('should trial a few sample frames with quality measurement on', async () => {
+      mockQuality(mockGifencEncoder, {
+        none: { ssim: 0.9, banding: 0, fileSize: 1000 },
+        'floyd-steinberg': { ssim: 0.9, banding: 0, fileSize: 1000 },
+        bayer4: { ssim: 0.9, banding: 0, fileSize: 1000 }
+      });
+      mockGifJsEncoder.isAvailable.mockReturnValue(false);
+
+      const trials = await factory.compareGifEncoders(frames, options);
+
+      expect(trials).toHaveLength(3);
+      const [sampleFrames, sampleOptions] = mockGifencEncoder.encode.mock.calls[0] as any[];
+      expect(sampleFrames.map((frame: { imageData: ImageData }) => frame.imageData)).toEqual([
+        frames[0].imageData,
+        frames[3].imageData,
+        frames[6].imageData
+      ]);
+      expect(sampleOptions).toMatchObject({ dithering: 'none', measureQuality: true });
+    });
+
+    it('should skip trials that fail', async () => {
+      mockGifencEncoder.encode.mockRejectedValue(new Error('Encode failed'));
+      mockQuality(mockGifJsEncoder, {
+        none: { ssim: 0.9, banding: 0, fileSize: 1000 },
+        'floyd-steinberg': { ssim: 0.9, banding: 0, fileSize: 1000 }
+      });
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const trials = await factory.compareGifEncoders(frames, options);
+
+      expect(trials.map((trial) => trial.encoder)).toEqual(['gif.js', 'gif.js']);
+      consoleSpy.mockRestore();
+    });
+
+    it('should auto-select the measured winner until the cache is cleared', async () => {
+      mockQuality(mockGifencEncoder, {
+        none: { ssim: 0.8, banding: 0, fileSize: 1000 },
+        'floyd-steinberg': { ssim: 0.8, banding: 0, fileSize: 1000 },
+        bayer4: { ssim: 0.8, banding: 0, fileSize: 1000 }
+      });
+      mockQuality(mockGifJsEncoder, {
+        none: { ssim: 0.95, banding: 0, fileSize: 1000 },
+        'floyd-steinberg': { ssim: 0.9, banding: 0, fileSize: 1000 }
+      });
+
+      await factory.compareGifEncoders(frames, options);
+      const measured = await factory.getEncoder({ primary: 'auto', format: 'gif' });
+
+      expect(measured.encoder).toBe(mockGifJsEncoder);
+      expect(measured.reason).toBe('Auto-selected by measured output quality');
+
+      factory.clearCache();
+      const reset = await factory.getEncoder({ primary: 'auto', format: 'gif' });
+
+      expect(reset.encoder).toBe(mockGifencEncoder);
+    });
+  });
+
   describe('clearCache', () => {
     it('should clear availability and instance caches', async () => {
       // Populate caches
@@ -0,0 +1,66 @@
+/**
+ * Tests for inter-frame differencing
+ */
+
+import { computeFrameDelta } from '@/lib/encoders/frame-delta';
+
+const WIDTH = 8;
+const HEIGHT = 6;
+
+function solid(value: number): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(value);
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  return data;
+}
+
+function setPixel(data: Uint8ClampedArray, x: number, y: number, value: number): void {
+  const i = (y * WIDTH + x) * 4;
+  data[i] = data[i + 1] = data[i + 2] = value;
+}
+
+describe('computeFrameDelta', () => {
+  it('should return null when nothing changed', () => {
+    expect(computeFrameDelta(solid(100), solid(100), WIDTH, HEIGHT)).toBeNull();
+  });
+
+  it('should ignore noise within the tolerance', () => {
+    expect(computeFrameDelta(solid(100), solid(106), WIDTH, HEIGHT)).toBeNull();
+    expect(computeFrameDelta(solid(100), solid(106), WIDTH, HEIGHT, 2)).not.toBeNull();
+  });
+
+  it('should crop to the bounding box of changed pixels', () => {
+    const current = solid(100);
+    setPixel(current, 2, 1, 200);
+    setPixel(current, 5, 3, 0);
+
+    const delta = computeFrameDelta(solid(100), current, WIDTH, HEIGHT)!;
+
+    expect(delta).toMatchObject({ x: 2, y: 1, width: 4, height: 3 });
+    expect(delta.pixels.length).toBe(4 * 3 * 4);
+    expect(Array.from(delta.pixels.subarray(0, 4))).toEqual([200, 200, 200, 255]);
+    // Only the two corner pixels need drawing, the rest of the box stays transparent
+    expect(Array.from(delta.changed)).toEqual([1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]);
+  });
+
+  it('should update the displayed frame with drawn pixels only', () => {
+    const displayed = solid(100);
+    const current = solid(104);
+    setPixel(current, 0, 0, 250);
+
+    computeFrameDelta(displayed, current, WIDTH, HEIGHT);
+
+    expect(Array.from(displayed.subarray(0, 4))).toEqual([250, 250, 250, 255]);
+    expect(Array.from(displayed.subarray(4, 8))).toEqual([100, 100, 100, 255]);
+  });
+
+  it('should not let small changes accumulate into drift', () => {
+    const displayed = solid(100);
+
+    // Each step is within tolerance of the last, but not of what is displayed
+    expect(computeFrameDelta(displayed, solid(106), WIDTH, HEIGHT)).toBeNull();
+    const delta = computeFrameDelta(displayed, solid(112), WIDTH, HEIGHT);
+
+    expect(delta).toMatchObject({ x: 0, y: 0, width: WIDTH, height: HEIGHT });
+    expect(displayed[0]).toBe(112);
+  });
+});
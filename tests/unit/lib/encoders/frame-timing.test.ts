@@ -0,0 +1,37 @@
+/**
+ * Tests for GIF frame timing with centisecond error diffusion
+ */
+
+import { FrameDelayQuantizer } from '@/lib/encoders/frame-timing';
+
+function quantize(delays: number[]): { delays: number[]; quantizer: FrameDelayQuantizer } {
+  const quantizer = new FrameDelayQuantizer();
+  return { delays: delays.map((delay) => quantizer.next(delay)), quantizer };
+}
+
+describe('FrameDelayQuantizer', () => {
+  it('should alternate 3 and 4 centiseconds at 30 fps', () => {
+    const { delays } = quantize(Array(6).fill(1000 / 30));
+
+    expect(delays).toEqual([30, 40, 30, 30, 40, 30]);
+  });
+
+  it.each([15, 20, 24, 30])('should keep a 30 second clip at %i fps on time', (fps) => {
+    const { delays, quantizer } = quantize(Array(30 * fps).fill(1000 / fps));
+
+    expect(delays.every((delay) => delay % 10 === 0)).toBe(true);
+    expect(Math.abs(quantizer.achievedMs - 30000)).toBeLessThanOrEqual(5);
+    expect(quantizer.requestedMs).toBeCloseTo(30000);
+  });
+
+  it('should keep delays that are already whole centiseconds', () => {
+    expect(quantize([100, 250, 1500]).delays).toEqual([100, 250, 1500]);
+  });
+
+  it('should never write delays browsers would slow down, carrying the excess', () => {
+    const { delays, quantizer } = quantize(Array(6).fill(1000 / 60));
+
+    expect(Math.min(...delays)).toBe(20);
+    expect(quantizer.achievedMs).toBe(120);
+  });
+});
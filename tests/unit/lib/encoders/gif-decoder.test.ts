@@ -0,0 +1,164 @@
+/**
+ * Tests for the GIF decoder
+ * Decodes GIFs written by gifenc back into composited frames
+ */
+
+import { GIFEncoder } from 'gifenc';
+import { browserFrameDelay, decodeGif, decodeGifFrames } from '@/lib/encoders/gif-decoder';
+
+const BLACK = [0, 0, 0];
+const WHITE = [255, 255, 255];
+const RED = [255, 0, 0];
+const CLEAR = [0, 0, 0, 0];
+
+function pixel(pixels: Uint8ClampedArray, index: number): number[] {
+  return Array.from(pixels.subarray(index * 4, index * 4 + 4));
+}
+
+describe('decodeGif', () => {
+  it('should decode frames, delays and colours', () => {
+    const encoder = new GIFEncoder();
+    const palette = [BLACK, WHITE];
+    encoder.writeFrame(new Uint8Array(16).fill(1), 4, 4, { palette, delay: 100 });
+    encoder.writeFrame(new Uint8Array(16).fill(0), 4, 4, { delay: 50 });
+    encoder.finish();
+
+    const gif = decodeGif(encoder.bytes());
+
+    expect(gif.width).toBe(4);
+    expect(gif.height).toBe(4);
+    expect(gif.frames.map((frame) => frame.delay)).toEqual([100, 50]);
+    expect(pixel(gif.frames[0].pixels, 5)).toEqual([...WHITE, 255]);
+    expect(pixel(gif.frames[1].pixels, 5)).toEqual([...BLACK, 255]);
+  });
+
+  it('should round-trip a large image through every LZW code size', () => {
+    const width = 128;
+    const height = 128;
+    const palette = Array.from({ length: 256 }, (_, i) => [i, 255 - i, (i * 7) % 256]);
+    // Mixed runs and noise grow the code table past 4096 entries and force clear codes
+    const indices = Uint8Array.from({ length: width * height }, (_, i) =>
+      i % 3 === 0 ? (i * 37) % 256 : Math.floor(i / 50) % 256
+    );
+    const encoder = new GIFEncoder();
+    encoder.writeFrame(indices, width, height, { palette });
+    encoder.finish();
+
+    const [frame] = decodeGif(encoder.bytes()).frames;
+
+    const expected = Array.from(indices).flatMap((index) => [...palette[index], 255]);
+    expect(Array.from(frame.pixels)).toEqual(expected);
+  });
+
+  it('should composite transparency, local palettes and each disposal method', () => {
+    const encoder = new GIFEncoder();
+    const palette = [BLACK, WHITE, [9, 9, 9]];
+    const transparent = { transparent: true, transparentIndex: 2 };
+    // Frame 1: white, left in place
+    encoder.writeFrame(new Uint8Array(16).fill(1), 4, 4, { palette, dispose: 1 });
+    // Frame 2: black top half over it, then cleared to background
+    encoder.writeFrame(
+      Uint8Array.from({ length: 16 }, (_, i) => (i < 8 ? 0 : 2)),
+      4,
+      4,
+      { dispose: 2, ...transparent }
+    );
+    // Frame 3: one red pixel from a local palette, then restored to the previous state
+    encoder.writeFrame(
+      Uint8Array.from({ length: 16 }, (_, i) => (i === 0 ? 0 : 2)),
+      4,
+      4,
+      { palette: [RED, BLACK, [9, 9, 9]], dispose: 3, ...transparent }
+    );
+    // Frame 4: one white pixel at the end
+    encoder.writeFrame(
+      Uint8Array.from({ length: 16 }, (_, i) => (i === 15 ? 1 : 2)),
+      4,
+      4,
+      transparent
+    );
+    encoder.finish();
+
+    const frames = decodeGif(encoder.bytes()).frames.map((frame) => frame.pixels);
+
+    expect(pixel(frames[1], 0)).toEqual([...BLACK, 255]);
+    expect(pixel(frames[1], 15)).toEqual([...WHITE, 255]);
+    expect(pixel(frames[2], 0)).toEqual([...RED, 255]);
+    expect(pixel(frames[2], 15)).toEqual(CLEAR);
+    expect(pixel(frames[3], 0)).toEqual(CLEAR);
+    expect(pixel(frames[3], 15)).toEqual([...WHITE, 255]);
+  });
+
+  it.each([
+    [0, 0],
+    [-1, 1],
+    [2, 3],
+  ])('should read gifenc repeat %i as a play count of %i', (repeat, playCount) => {
+    const encoder = new GIFEncoder();
+    encoder.writeFrame(new Uint8Array(4), 2, 2, { palette: [BLACK, WHITE], repeat });
+    encoder.finish();
+
+    expect(decodeGif(encoder.bytes()).playCount).toBe(playCount);
+  });
+
+  it('should keep the complete frames of a truncated GIF', () => {
+    const encoder = new GIFEncoder();
+    const palette = [BLACK, WHITE];
+    encoder.writeFrame(new Uint8Array(16), 4, 4, { palette });
+    encoder.writeFrame(new Uint8Array(16).fill(1), 4, 4);
+    encoder.finish();
+    const bytes = encoder.bytes();
+
+    expect(decodeGif(bytes.subarray(0, bytes.length - 6)).frames).toHaveLength(1);
+  });
+
+  it('should reject data that is not a GIF', () => {
+    expect(() => decodeGif(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 0]))).toThrow(
+      'Not a GIF file'
+    );
+  });
+});
+
+describe('decodeGifFrames', () => {
+  it('should return encoder frames timed as browsers play them', () => {
+    const encoder = new GIFEncoder();
+    const palette = [BLACK, WHITE];
+    encoder.writeFrame(new Uint8Array(16).fill(1), 4, 4, { palette, delay: 200 });
+    encoder.writeFrame(new Uint8Array(16), 4, 4, { delay: 0 });
+    encoder.writeFrame(new Uint8Array(16).fill(1), 4, 4, { delay: 10 });
+    encoder.writeFrame(new Uint8Array(16), 4, 4, { delay: 50 });
+    encoder.finish();
+
+    const frames = decodeGifFrames(encoder.bytes());
+
+    // Delays of 10 ms or less play as 100 ms
+    expect(frames.map((frame) => frame.delay)).toEqual([200, 100, 100, 50]);
+    expect(frames.map((frame) => frame.timestamp)).toEqual([0, 200, 300, 400]);
+    expect(frames[0].imageData.width).toBe(4);
+    expect(pixel(frames[0].imageData.data, 0)).toEqual([...WHITE, 255]);
+  });
+
+  it('should give GIFs with only zero delays a playable duration', () => {
+    const encoder = new GIFEncoder();
+    const palette = [BLACK, WHITE];
+    encoder.writeFrame(new Uint8Array(16).fill(1), 4, 4, { palette, delay: 0 });
+    encoder.writeFrame(new Uint8Array(16), 4, 4, { delay: 0 });
+    encoder.writeFrame(new Uint8Array(16).fill(1), 4, 4, { delay: 0 });
+    encoder.finish();
+
+    const frames = decodeGifFrames(encoder.bytes());
+    const duration = frames.reduce((total, frame) => total + browserFrameDelay(frame.delay), 0);
+
+    expect(duration).toBe(300);
+    expect(Math.round((1000 * frames.length) / duration)).toBe(10);
+  });
+});
+
+describe('browserFrameDelay', () => {
+  it('should play delays of 10 ms or less, or none, for 100 ms', () => {
+    expect(browserFrameDelay(0)).toBe(100);
+    expect(browserFrameDelay(10)).toBe(100);
+    expect(browserFrameDelay(undefined)).toBe(100);
+    expect(browserFrameDelay(20)).toBe(20);
+  });
+});
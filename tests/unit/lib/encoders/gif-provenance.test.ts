@@ -0,0 +1,137 @@
+/**
+ * Tests for GIF source provenance
+ * Round-trips provenance through a real gifenc GIF
+ */
+
+import { GIFEncoder } from 'gifenc';
+import {
+  GifProvenance,
+  createGifProvenance,
+  embedGifProvenance,
+  readGifProvenance,
+} from '@/lib/encoders/gif-provenance';
+
+function createGif(): Uint8Array {
+  const encoder = new GIFEncoder();
+  const palette = [
+    [0, 0, 0],
+    [255, 255, 255],
+  ];
+  for (let frame = 0; frame < 2; frame++) {
+    encoder.writeFrame(new Uint8Array(16).fill(frame), 4, 4, { palette, delay: 100 });
+  }
+  encoder.finish();
+  return encoder.bytes();
+}
+
+// Walk the blocks as a decoder unaware of XMP would, treating every
+// extension as sub-blocks, and return the offset it stops at
+function walkAsPlainDecoder(gif: Uint8Array): number {
+  const tableSize = (packed: number) => (packed & 0x80 ? 3 * (1 << ((packed & 7) + 1)) : 0);
+  const skipSubBlocks = (offset: number) => {
+    while (gif[offset] !== 0) offset += gif[offset] + 1;
+    return offset + 1;
+  };
+  let offset = 13 + tableSize(gif[10]);
+  while (gif[offset] !== 0x3b) {
+    if (gif[offset] === 0x2c) {
+      offset = skipSubBlocks(offset + 10 + tableSize(gif[offset + 9]) + 1);
+    } else if (gif[offset] === 0x21) {
+      offset = skipSubBlocks(offset + 2);
+    } else {
+      throw new Error(`Unexpected block 0x${gif[offset].toString(16)} at ${offset}`);
+    }
+  }
+  return offset;
+}
+
+describe('createGifProvenance', () => {
+  it('should link to the video at the start of the clip', () => {
+    const provenance = createGifProvenance({
+      videoId: 'dQw4w9WgXcQ',
+      pageUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL1',
+      startTime: 42.7,
+      endTime: 45.2,
+      settings: { frameRate: 10, speed: undefined },
+    });
+
+    expect(provenance.url).toBe('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42s');
+    expect(provenance.videoId).toBe('dQw4w9WgXcQ');
+    expect(provenance.settings).toEqual({ frameRate: 10 });
+    expect(Number.isNaN(Date.parse(provenance.createdAt))).toBe(false);
+  });
+
+  it('should timestamp the page URL when there is no video ID', () => {
+    const provenance = createGifProvenance({
+      pageUrl: 'https://www.youtube.com/embed/abc?autoplay=1',
+      startTime: 5,
+      endTime: 8,
+      settings: {},
+    });
+
+    expect(provenance.url).toBe('https://www.youtube.com/embed/abc?autoplay=1&t=5s');
+    expect(provenance).not.toHaveProperty('videoId');
+  });
+});
+
+describe('embedGifProvenance / readGifProvenance', () => {
+  const provenance: GifProvenance = {
+    videoId: 'dQw4w9WgXcQ',
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42s',
+    startTime: 42.7,
+    endTime: 45.2,
+    createdAt: '2026-01-02T03:04:05.000Z',
+    settings: { frameRate: 10, quality: 'medium', playbackMode: 'boomerang', note: 'café "1" <b>' },
+  };
+
+  it('should round-trip provenance through a GIF', () => {
+    const gif = embedGifProvenance(createGif(), provenance);
+
+    expect(readGifProvenance(gif)).toEqual(provenance);
+  });
+
+  it('should keep the GIF walkable by decoders that do not know XMP', () => {
+    const original = createGif();
+    const gif = embedGifProvenance(original, provenance);
+
+    expect(Array.from(gif.subarray(0, original.length - 1))).toEqual(
+      Array.from(original.subarray(0, original.length - 1))
+    );
+    expect(walkAsPlainDecoder(gif)).toBe(gif.length - 1);
+  });
+
+  it('should write the comment as ASCII', () => {
+    const gif = embedGifProvenance(createGif(), provenance);
+    const commentStart = gif.findIndex((byte, i) => byte === 0x21 && gif[i + 1] === 0xfe);
+    let text = '';
+    for (let offset = commentStart + 2; gif[offset] !== 0; offset += gif[offset] + 1) {
+      text += String.fromCharCode(...gif.subarray(offset + 1, offset + 1 + gif[offset]));
+    }
+
+    expect(text.startsWith('YTgify provenance: {')).toBe(true);
+    expect(text).toContain('caf\\u00e9');
+    expect(/^[\x20-\x7e]*$/.test(text)).toBe(true);
+  });
+
+  it('should fall back to the XMP packet when the comment is missing', () => {
+    const gif = embedGifProvenance(createGif(), provenance);
+    // Rename the comment so it is no longer recognised
+    const prefix = gif.findIndex((byte, i) => byte === 0x21 && gif[i + 1] === 0xfe) + 3;
+    gif[prefix] = 'X'.charCodeAt(0);
+
+    expect(readGifProvenance(gif)).toEqual(provenance);
+  });
+
+  it('should return null for GIFs without provenance and for other files', () => {
+    expect(readGifProvenance(createGif())).toBeNull();
+    expect(readGifProvenance(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  });
+
+  it('should refuse to embed into an incomplete GIF', () => {
+    const gif = createGif();
+
+    expect(() => embedGifProvenance(gif.subarray(0, gif.length - 1), provenance)).toThrow(
+      'Cannot embed provenance: GIF is incomplete'
+    );
+  });
+});
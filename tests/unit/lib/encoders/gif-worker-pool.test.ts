@@ -0,0 +1,157 @@
+/**
+ * Tests for the GIF encoding worker pool
+ * Fake workers answer on a later tick so scheduling can be observed
+ */
+
+import { GifWorkerPool, GifWorkerRequest, getGifWorkerPool } from '@/lib/encoders/gif-worker-pool';
+import type { GifImageTask } from '@/lib/encoders/gif-image-task';
+
+class FakeWorker {
+  static active = 0;
+  static maxActive = 0;
+
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  transfers: Transferable[][] = [];
+  terminated = false;
+
+  postMessage(request: GifWorkerRequest, transfer: Transferable[]): void {
+    this.transfers.push(transfer);
+    FakeWorker.active++;
+    FakeWorker.maxActive = Math.max(FakeWorker.maxActive, FakeWorker.active);
+
+    setTimeout(() => {
+      FakeWorker.active--;
+      if (request.type === 'quantize') {
+        this.onmessage?.({
+          data: { id: request.id, type: 'quantize', palette: [[request.maxColors, 0, 0]] },
+        } as MessageEvent);
+      } else if (request.task.width === 0) {
+        this.onmessage?.({
+          data: { id: request.id, type: 'error', message: 'Empty image' },
+        } as MessageEvent);
+      } else {
+        this.onmessage?.({
+          data: { id: request.id, type: 'encode-image', data: new Uint8Array([request.task.x]) },
+        } as MessageEvent);
+      }
+    }, 0);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+function imageTask(x: number, width = 1): GifImageTask {
+  return {
+    x,
+    y: 0,
+    width,
+    height: 1,
+    pixels: new Uint8ClampedArray(4),
+    palette: [[0, 0, 0]],
+    colorTableLength: 1,
+    dither: { algorithm: 'none' },
+    lzwTolerance: 0,
+  };
+}
+
+describe('GifWorkerPool', () => {
+  let workers: FakeWorker[];
+  let pool: GifWorkerPool;
+
+  beforeEach(() => {
+    FakeWorker.active = 0;
+    FakeWorker.maxActive = 0;
+    workers = [new FakeWorker(), new FakeWorker()];
+    pool = new GifWorkerPool(workers as unknown as Worker[]);
+  });
+
+  it('should resolve each task with its own result', async () => {
+    const results = await Promise.all([1, 2, 3, 4, 5].map((x) => pool.encodeImage(imageTask(x))));
+
+    expect(results.map((data) => data[0])).toEqual([1, 2, 3, 4, 5]);
+    expect(await pool.quantize(new Uint8ClampedArray(4), 16)).toEqual([[16, 0, 0]]);
+  });
+
+  it('should run at most one task per worker at a time', async () => {
+    await Promise.all(Array.from({ length: 6 }, (_, x) => pool.encodeImage(imageTask(x))));
+
+    expect(pool.size).toBe(2);
+    expect(FakeWorker.maxActive).toBe(2);
+  });
+
+  it('should transfer image buffers but copy sampled palette pixels', async () => {
+    const task = imageTask(1);
+    await pool.encodeImage(task);
+    await pool.quantize(new Uint8ClampedArray(4), 16);
+
+    const transfers = workers.flatMap((worker) => worker.transfers);
+    expect(transfers).toContainEqual([task.pixels.buffer]);
+    expect(transfers).toContainEqual([]);
+  });
+
+  it('should reject failed tasks and keep serving others', async () => {
+    await expect(pool.encodeImage(imageTask(0, 0))).rejects.toThrow('Empty image');
+    expect((await pool.encodeImage(imageTask(7)))[0]).toBe(7);
+  });
+
+  it('should reject queued work once terminated', async () => {
+    const running = pool.encodeImage(imageTask(1));
+    pool.terminate();
+
+    await expect(running).rejects.toThrow('terminated');
+    await expect(pool.encodeImage(imageTask(2))).rejects.toThrow('terminated');
+    expect(workers.every((worker) => worker.terminated)).toBe(true);
+  });
+});
+
+describe('getGifWorkerPool', () => {
+  afterEach(() => {
+    delete (global as { Worker?: unknown }).Worker;
+  });
+
+  it('should fall back to the main thread where workers are unavailable', async () => {
+    expect(typeof Worker).toBe('undefined');
+    await expect(getGifWorkerPool()).resolves.toBeNull();
+  });
+
+  it('should fall back to the main thread when the page blocks the workers', async () => {
+    const created: FakeWorker[] = [];
+    class BlockedWorker extends FakeWorker {
+      constructor() {
+        super();
+        created.push(this);
+      }
+
+      postMessage(): void {
+        setTimeout(
+          () => this.onerror?.({ message: 'Blocked by CSP', preventDefault() {} } as ErrorEvent),
+          0
+        );
+      }
+    }
+    (global as { Worker?: unknown }).Worker = BlockedWorker;
+
+    let pool: Promise<GifWorkerPool | null> | undefined;
+    jest.isolateModules(() => {
+      pool = require('@/lib/encoders/gif-worker-pool').getGifWorkerPool();
+    });
+
+    await expect(pool).resolves.toBeNull();
+    expect(created.length).toBeGreaterThan(0);
+    expect(created.every((worker) => worker.terminated)).toBe(true);
+  });
+
+  it('should hand out the pool once a worker has answered', async () => {
+    (global as { Worker?: unknown }).Worker = FakeWorker;
+
+    let pool: Promise<GifWorkerPool | null> | undefined;
+    jest.isolateModules(() => {
+      pool = require('@/lib/encoders/gif-worker-pool').getGifWorkerPool();
+    });
+
+    expect(await pool).not.toBeNull();
+  });
+});
@@ -6,6 +6,13 @@
 import { GifencEncoder } from '@/lib/encoders/gifenc-encoder';
 import { EncodingOptions, FrameData, EncodingProgress } from '@/lib/encoders/abstract-encoder';
 import * as gifenc from 'gifenc';
+import { encodeGifImage, GifImageTask } from '@/lib/encoders/gif-image-task';
+import { getGifWorkerPool } from '@/lib/encoders/gif-worker-pool';
+
+// jsdom has no Worker; tests opt in to a pool that runs tasks inline
+jest.mock('@/lib/encoders/gif-worker-pool', () => ({
+  getGifWorkerPool: jest.fn().mockResolvedValue(null),
+}));
 
 // Mock gifenc library
 jest.mock('gifenc', () => ({
@@ -16,7 +23,9 @@ jest.mock('gifenc', () => ({
     writeHeader: jest.fn(),
     writeFrame: jest.fn(),
     finish: jest.fn(),
-    bytes: jest.fn().mockReturnValue(new Uint8Array([0x47, 0x49, 0x46]))
+    bytes: jest.fn().mockReturnValue(new Uint8Array([0x47, 0x49, 0x46])),
+    bytesView: jest.fn().mockReturnValue(new Uint8Array([0x47, 0x49, 0x46])),
+    stream: { writeByte: jest.fn(), writeBytes: jest.fn() }
   }))
 }));
 
@@ -57,10 +66,9 @@ describe('GifencEncoder', () => {
     };
 
     // Mock quantize to return a valid palette
-    (gifenc.quantize as jest.Mock).mockReturnValue({
-      palette: new Uint8Array(768), // 256 colors * 3 channels
-      indices: new Uint8Array(10000) // 100x100 pixels
-    });
+    (gifenc.quantize as jest.Mock).mockReturnValue(
+      Array.from({ length: 255 }, () => [0, 0, 0]) // 255 colors + transparent slot
+    );
 
     // Mock applyPalette to return indexed data
     (gifenc.applyPalette as jest.Mock).mockReturnValue(new Uint8Array(10000));
@@ -288,6 +296,476 @@ describe('GifencEncoder', () => {
     });
   });
 
+  describe('Palette Strategy', () => {
+    const solidFrame = (r: number, g: number, b: number): FrameData => {
+      const data = new Uint8ClampedArray(100 * 100 * 4);
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = r;
+        data[i + 1] = g;
+        data[i + 2] = b;
+        data[i + 3] = 255;
+      }
+      return { imageData: new ImageData(data, 100, 100), timestamp: 0, delay: 100 };
+    };
+
+    const sceneCutFrames = () => [
+      solidFrame(255, 0, 0),
+      solidFrame(250, 5, 0),
+      solidFrame(0, 0, 255),
+      solidFrame(0, 10, 250),
+    ];
+
+    const writtenPalettes = () =>
+      (gifenc.GIFEncoder as jest.Mock).mock.results[0].value.writeFrame.mock.calls.map(
+        (call: any[]) => call[3].palette
+      );
+
+    beforeEach(() => {
+      let paletteId = 0;
+      (gifenc.quantize as jest.Mock).mockImplementation(() => [[paletteId++, 0, 0]]);
+    });
+
+    it('should use a single global palette with the global strategy', async () => {
+      const result = await encoder.encode(sceneCutFrames(), {
+        ...mockOptions,
+        paletteStrategy: 'global',
+        frameDelta: false,
+        lossiness: 0,
+      });
+
+      expect(gifenc.quantize).toHaveBeenCalledTimes(1);
+      const palettes = writtenPalettes();
+      expect(palettes[0]).toEqual([[0, 0, 0]]);
+      expect(palettes.slice(1)).toEqual([undefined, undefined, undefined]);
+      expect(result.performance.recommendations).toContain('Palette strategy: global (1 palette)');
+    });
+
+    it('should give every frame its own palette with the per-frame strategy', async () => {
+      const result = await encoder.encode(sceneCutFrames(), {
+        ...mockOptions,
+        paletteStrategy: 'per-frame',
+        frameDelta: false,
+        lossiness: 0,
+      });
+
+      expect(gifenc.quantize).toHaveBeenCalledTimes(4);
+      expect(writtenPalettes()).toEqual([[[0, 0, 0]], [[1, 0, 0]], [[2, 0, 0]], [[3, 0, 0]]]);
+      expect(result.performance.recommendations).toContain(
+        'Palette strategy: per-frame (4 palettes)'
+      );
+    });
+
+    it('should start a new local palette at scene changes with the auto strategy', async () => {
+      const result = await encoder.encode(sceneCutFrames(), {
+        ...mockOptions,
+        paletteStrategy: 'auto',
+        frameDelta: false,
+        lossiness: 0,
+      });
+
+      expect(gifenc.quantize).toHaveBeenCalledTimes(2);
+      expect(writtenPalettes()).toEqual([[[0, 0, 0]], undefined, [[1, 0, 0]], [[1, 0, 0]]]);
+      expect(result.performance.recommendations).toContain(
+        'Palette strategy: auto (2 palettes), scene changes at frames 2'
+      );
+    });
+
+    it('should default to auto and keep one palette for a steady clip', async () => {
+      const frames = [solidFrame(10, 20, 30), solidFrame(12, 20, 30), solidFrame(10, 22, 30)];
+      const result = await encoder.encode(frames, mockOptions);
+
+      expect(gifenc.quantize).toHaveBeenCalledTimes(1);
+      expect(result.performance.recommendations).toContain('Palette strategy: auto (1 palette)');
+    });
+
+    it('should map every frame to a locked brand palette without quantizing', async () => {
+      const result = await encoder.encode(sceneCutFrames(), {
+        ...mockOptions,
+        paletteStrategy: 'per-frame',
+        lockedPalette: { type: 'colors', colors: ['#ff0000', '00f'] },
+        frameDelta: false,
+        lossiness: 0,
+      });
+
+      expect(gifenc.quantize).not.toHaveBeenCalled();
+      expect(writtenPalettes()).toEqual([
+        [
+          [255, 0, 0],
+          [0, 0, 255],
+        ],
+        undefined,
+        undefined,
+        undefined,
+      ]);
+      expect(result.performance.recommendations).toContain(
+        'Palette: locked to 2 colours from colour list'
+      );
+    });
+
+    it('should quantize a locked frame palette from the chosen frame only', async () => {
+      const frames = sceneCutFrames();
+      await encoder.encode(frames, {
+        ...mockOptions,
+        maxColors: 16,
+        lockedPalette: { type: 'frame', frameIndex: 2 },
+        frameDelta: false,
+        lossiness: 0,
+      });
+
+      expect(gifenc.quantize).toHaveBeenCalledTimes(1);
+      expect(gifenc.quantize).toHaveBeenCalledWith(frames[2].imageData.data, 16, expect.anything());
+      expect(writtenPalettes().slice(1)).toEqual([undefined, undefined, undefined]);
+    });
+  });
+
+  describe('Frame Delta', () => {
+    const actual = jest.requireActual('gifenc');
+
+    interface GifFrame {
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      dispose: number;
+      transparentIndex: number | null;
+    }
+
+    // Walk the GIF block structure and collect each frame's descriptor and GCE fields
+    const readFrames = (bytes: Uint8Array): GifFrame[] => {
+      const u16 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+      const skipSubBlocks = (offset: number) => {
+        while (bytes[offset] !== 0) offset += bytes[offset] + 1;
+        return offset + 1;
+      };
+      const tableSize = (flags: number) => (flags & 0x80 ? 3 * (1 << ((flags & 7) + 1)) : 0);
+
+      const frames: GifFrame[] = [];
+      let offset = 13 + tableSize(bytes[10]);
+      let dispose = 0;
+      let transparentIndex: number | null = null;
+
+      while (bytes[offset] !== 0x3b) {
+        if (bytes[offset] === 0x21) {
+          if (bytes[offset + 1] === 0xf9) {
+            dispose = (bytes[offset + 3] >> 2) & 7;
+            transparentIndex = bytes[offset + 3] & 1 ? bytes[offset + 6] : null;
+          }
+          offset = skipSubBlocks(offset + 2);
+        } else {
+          frames.push({
+            x: u16(offset + 1),
+            y: u16(offset + 3),
+            width: u16(offset + 5),
+            height: u16(offset + 7),
+            dispose,
+            transparentIndex,
+          });
+          offset = skipSubBlocks(offset + 11 + tableSize(bytes[offset + 9]));
+        }
+      }
+      return frames;
+    };
+
+    // Grey background with a 10x6 white box at the given position
+    const boxFrame = (boxX: number, boxY: number): FrameData => {
+      const data = new Uint8ClampedArray(100 * 100 * 4);
+      for (let y = 0; y < 100; y++) {
+        for (let x = 0; x < 100; x++) {
+          const i = (y * 100 + x) * 4;
+          const inBox = x >= boxX && x < boxX + 10 && y >= boxY && y < boxY + 6;
+          data.fill(inBox ? 255 : 128, i, i + 3);
+          data[i + 3] = 255;
+        }
+      }
+      return { imageData: new ImageData(data, 100, 100), timestamp: 0, delay: 100 };
+    };
+
+    const encodedFrames = () =>
+      readFrames((gifenc.GIFEncoder as jest.Mock).mock.results[0].value.bytes());
+
+    const mockEncoderImplementation = (gifenc.GIFEncoder as jest.Mock).getMockImplementation();
+
+    afterEach(() => {
+      (gifenc.GIFEncoder as jest.Mock).mockImplementation(mockEncoderImplementation);
+    });
+
+    beforeEach(() => {
+      (gifenc.GIFEncoder as jest.Mock).mockImplementation(() => new actual.GIFEncoder());
+      (gifenc.quantize as jest.Mock).mockImplementation(actual.quantize);
+      (gifenc.applyPalette as jest.Mock).mockImplementation(actual.applyPalette);
+    });
+
+    it('should write only the changed sub-rectangle of later frames', async () => {
+      const result = await encoder.encode([boxFrame(20, 30), boxFrame(24, 30)], mockOptions);
+
+      expect(encodedFrames()).toEqual([
+        { x: 0, y: 0, width: 100, height: 100, dispose: 1, transparentIndex: null },
+        { x: 20, y: 30, width: 14, height: 6, dispose: 1, transparentIndex: 2 },
+      ]);
+      expect(result.performance.recommendations).toContain(
+        'Frame delta: 1/1 frames written as changed regions (avg 1% of frame), 0 unchanged'
+      );
+    });
+
+    it('should mark unchanged pixels inside the rectangle transparent', async () => {
+      await encoder.encode([boxFrame(20, 30), boxFrame(24, 30)], mockOptions);
+
+      // The second applyPalette call maps the cropped region of frame 2
+      const deltaIndices = (gifenc.applyPalette as jest.Mock).mock.results[1].value as Uint8Array;
+      // Row 0 of the 14x6 region: 4 newly grey pixels, 6 unchanged white, 4 newly white
+      const row = Array.from(deltaIndices.subarray(0, 14));
+      expect(new Set(row.slice(4, 10))).toEqual(new Set([2]));
+      expect(row.slice(0, 4)).not.toContain(2);
+      expect(row.slice(10)).not.toContain(2);
+    });
+
+    it('should write a single transparent pixel for identical frames', async () => {
+      await encoder.encode([boxFrame(20, 30), boxFrame(20, 30)], mockOptions);
+
+      expect(encodedFrames()[1]).toEqual({
+        x: 0,
+        y: 0,
+        width: 1,
+        height: 1,
+        dispose: 1,
+        transparentIndex: 2,
+      });
+    });
+
+    it('should absorb larger changes as lossiness rises', async () => {
+      const dimmed = boxFrame(20, 30);
+      const data = dimmed.imageData.data;
+      for (let i = 0; i < data.length; i += 4) data[i] -= 30;
+
+      await encoder.encode([boxFrame(20, 30), dimmed], { ...mockOptions, lossiness: 100 });
+
+      expect(encodedFrames()[1]).toMatchObject({ width: 1, height: 1 });
+    });
+
+    it('should quantize to the requested colour count minus the transparent slot', async () => {
+      await encoder.encode([boxFrame(20, 30), boxFrame(24, 30)], {
+        ...mockOptions,
+        maxColors: 16,
+      });
+
+      expect(gifenc.quantize).toHaveBeenCalledWith(expect.anything(), 15, expect.anything());
+    });
+
+    it('should write full frames with dispose 2 when disabled', async () => {
+      await encoder.encode([boxFrame(20, 30), boxFrame(24, 30)], {
+        ...mockOptions,
+        frameDelta: false,
+        lossiness: 0,
+      });
+
+      expect(encodedFrames().map(({ width, height, dispose }) => [width, height, dispose])).toEqual([
+        [100, 100, 2],
+        [100, 100, 2],
+      ]);
+    });
+
+    it('should produce the same frames when encoding in workers', async () => {
+      const frames = [boxFrame(20, 30), boxFrame(24, 30), boxFrame(24, 30)];
+      await encoder.encode(frames, { ...mockOptions, lossiness: 0 });
+      const inline = (gifenc.GIFEncoder as jest.Mock).mock.results[0].value.bytes();
+
+      const pool = {
+        size: 1,
+        quantize: jest.fn(async (pixels: Uint8ClampedArray, colors: number) =>
+          actual.quantize(pixels, colors, { format: 'rgb444', clearAlpha: false })
+        ),
+        encodeImage: jest.fn(async (task: GifImageTask) => encodeGifImage(task)),
+      };
+      (getGifWorkerPool as jest.Mock).mockResolvedValueOnce(pool);
+      (gifenc.GIFEncoder as jest.Mock).mockClear();
+      const progress: EncodingProgress[] = [];
+      await encoder.encode(frames, { ...mockOptions, lossiness: 0 }, (p) => progress.push(p));
+
+      expect(pool.quantize).toHaveBeenCalledTimes(1);
+      expect(pool.encodeImage).toHaveBeenCalledTimes(3);
+      // The caller's pixels are copied before being transferred
+      expect(pool.encodeImage.mock.calls[0][0].pixels).not.toBe(frames[0].imageData.data);
+      expect(encodedFrames()).toEqual(readFrames(inline));
+      expect(progress.map((p) => p.currentOperation)).toEqual(
+        expect.arrayContaining(['Encoding frame 1/3', 'Encoding frame 3/3'])
+      );
+    });
+  });
+
+  describe('Streaming', () => {
+    const actual = jest.requireActual('gifenc');
+    const mockEncoderImplementation = (gifenc.GIFEncoder as jest.Mock).getMockImplementation();
+
+    // A grey ramp shifted sideways, so consecutive frames differ
+    const rampFrame = (shift: number): FrameData => {
+      const data = new Uint8ClampedArray(100 * 100 * 4);
+      for (let p = 0; p < 100 * 100; p++) {
+        data.fill(((p % 100) + shift) * 2, p * 4, p * 4 + 3);
+        data[p * 4 + 3] = 255;
+      }
+      return { imageData: new ImageData(data, 100, 100), timestamp: 0, delay: 100 };
+    };
+
+    const writtenBytes = (encoderIndex: number): Uint8Array =>
+      (gifenc.GIFEncoder as jest.Mock).mock.results[encoderIndex].value.bytes();
+
+    beforeEach(() => {
+      (gifenc.GIFEncoder as jest.Mock).mockImplementation(() => new actual.GIFEncoder());
+      (gifenc.quantize as jest.Mock).mockImplementation(actual.quantize);
+      (gifenc.applyPalette as jest.Mock).mockImplementation(actual.applyPalette);
+    });
+
+    afterEach(() => {
+      (gifenc.GIFEncoder as jest.Mock).mockImplementation(mockEncoderImplementation);
+    });
+
+    it('should write the same GIF as a whole-clip encode', async () => {
+      const frames = [0, 4, 8, 8, 20, 24].map(rampFrame);
+      const options: EncodingOptions = { ...mockOptions, paletteStrategy: 'per-frame' };
+      await encoder.encode(frames, options);
+
+      const sink = await encoder.beginStream(options, frames.length);
+      for (const frame of frames) {
+        await sink.addFrame(frame);
+      }
+      const result = await sink.finish();
+
+      expect(writtenBytes(1)).toEqual(writtenBytes(0));
+      expect(result.metadata.frameCount).toBe(6);
+      expect(encoder.status.isEncoding).toBe(false);
+    });
+
+    it('should only hold the palette lookahead before writing frames', async () => {
+      const written: string[] = [];
+      const sink = await encoder.beginStream(mockOptions, 8, (progress) => {
+        if (progress.stage === 'encoding') written.push(progress.currentOperation!);
+      });
+
+      for (let i = 0; i < 8; i++) {
+        await sink.addFrame(rampFrame(i * 4));
+      }
+      expect(written).toEqual([1, 2, 3, 4].map((n) => `Encoding frame ${n}/8`));
+
+      await sink.finish();
+      expect(written).toHaveLength(8);
+    });
+
+    it('should start a new palette when the scene changes', async () => {
+      const cut = rampFrame(0);
+      cut.imageData.data.fill(0);
+      const sink = await encoder.beginStream(mockOptions, 4);
+      for (const frame of [rampFrame(0), rampFrame(1), cut, cut]) {
+        await sink.addFrame(frame);
+      }
+      const result = await sink.finish();
+
+      expect(gifenc.quantize).toHaveBeenCalledTimes(2);
+      expect(result.performance.recommendations).toContain(
+        'Palette strategy: auto (2 palettes), scene changes at frames 2'
+      );
+    });
+
+    it('should quantize a locked frame palette from the frame captured ahead', async () => {
+      const options: EncodingOptions = {
+        ...mockOptions,
+        maxColors: 16,
+        lockedPalette: { type: 'frame', frameIndex: 5 },
+      };
+      await expect(encoder.beginStream(options, 2)).rejects.toThrow('needs that frame');
+
+      const paletteFrame = rampFrame(30);
+      const sink = await encoder.beginStream(options, 2, undefined, undefined, paletteFrame);
+      await sink.addFrame(rampFrame(0));
+      await sink.addFrame(rampFrame(4));
+      const result = await sink.finish();
+
+      expect(gifenc.quantize).toHaveBeenCalledTimes(1);
+      expect(gifenc.quantize).toHaveBeenCalledWith(
+        paletteFrame.imageData.data,
+        15,
+        expect.anything()
+      );
+      expect(result.performance.recommendations[0]).toMatch(
+        /^Palette: locked to \d+ colours from frame 6$/
+      );
+    });
+
+    it('should reject frames once aborted', async () => {
+      const sink = await encoder.beginStream(mockOptions, 2);
+      await sink.addFrame(rampFrame(0));
+      sink.abort();
+
+      await expect(sink.addFrame(rampFrame(4))).rejects.toThrow('Encoding cancelled');
+      expect(encoder.status.isEncoding).toBe(false);
+    });
+
+    it("should stop when the caller's signal aborts mid-stream", async () => {
+      const controller = new AbortController();
+      const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+      const sink = await encoder.beginStream(mockOptions, 4, undefined, controller.signal);
+      await sink.addFrame(rampFrame(0));
+      controller.abort();
+
+      await expect(sink.addFrame(rampFrame(4))).rejects.toThrow('Encoding cancelled');
+      await expect(sink.finish()).rejects.toThrow('Encoding cancelled');
+      expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+      expect(encoder.status.isEncoding).toBe(false);
+    });
+  });
+
+  describe('Lossy LZW', () => {
+    const mockGifEncoder = () => (gifenc.GIFEncoder as jest.Mock).mock.results[0].value;
+
+    it('should use gifenc compression for high quality', async () => {
+      await encoder.encode(mockFrames, { ...mockOptions, quality: 'high' });
+
+      expect(mockGifEncoder().writeFrame).toHaveBeenCalledTimes(3);
+      expect(mockGifEncoder().stream.writeBytes).not.toHaveBeenCalled();
+    });
+
+    it('should write lossy LZW frames into the stream for lower quality', async () => {
+      await encoder.encode(mockFrames, { ...mockOptions, quality: 'low' });
+
+      expect(mockGifEncoder().writeFrame).not.toHaveBeenCalled();
+      expect(mockGifEncoder().stream.writeBytes.mock.calls[0][0]).toEqual([
+        0x47, 0x49, 0x46, 0x38, 0x39, 0x61,
+      ]);
+      expect(mockGifEncoder().finish).toHaveBeenCalled();
+    });
+
+    it('should let an explicit lossiness override the quality preset', async () => {
+      await encoder.encode(mockFrames, { ...mockOptions, quality: 'low', lossiness: 0 });
+
+      expect(mockGifEncoder().writeFrame).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('Dithering', () => {
+    it('should map frames with plain nearest-colour lookup by default', async () => {
+      await encoder.encode(mockFrames, mockOptions);
+
+      expect(gifenc.applyPalette).toHaveBeenCalled();
+    });
+
+    it('should dither instead of using applyPalette when an algorithm is chosen', async () => {
+      await encoder.encode(mockFrames, { ...mockOptions, dithering: 'atkinson', lossiness: 0 });
+
+      expect(gifenc.applyPalette).not.toHaveBeenCalled();
+      const writeFrame = (gifenc.GIFEncoder as jest.Mock).mock.results[0].value.writeFrame;
+      expect(writeFrame.mock.calls[0][0]).toHaveLength(100 * 100);
+    });
+
+    it('should fall back to nearest colour at zero strength', async () => {
+      await encoder.encode(mockFrames, {
+        ...mockOptions,
+        dithering: 'bayer8',
+        ditherStrength: 0,
+      });
+
+      expect(gifenc.applyPalette).toHaveBeenCalled();
+    });
+  });
+
   describe('Memory Management', () => {
     it('should cleanup after successful encoding', async () => {
       await encoder.encode(mockFrames, mockOptions);
@@ -306,10 +784,7 @@ describe('GifencEncoder', () => {
         .rejects.toThrow('Test error');
 
       // Reset mock
-      (gifenc.quantize as jest.Mock).mockReturnValue({
-        palette: new Uint8Array(768),
-        indices: new Uint8Array(10000)
-      });
+      (gifenc.quantize as jest.Mock).mockReturnValue([[0, 0, 0]]);
 
       // Should be able to encode again after error
       await expect(encoder.encode(mockFrames, mockOptions))
@@ -331,6 +806,39 @@ describe('GifencEncoder', () => {
       expect(result.metadata.averageFrameTime).toBeDefined();
     });
 
+    it('should diffuse centisecond rounding and report the achieved duration', async () => {
+      const frames = Array.from({ length: 6 }, (_, i) => ({
+        imageData: new ImageData(100, 100),
+        timestamp: i * 33,
+      }));
+
+      const result = await encoder.encode(frames, {
+        ...mockOptions,
+        frameRate: 30,
+        quality: 'high',
+      });
+
+      const writeFrame = (gifenc.GIFEncoder as jest.Mock).mock.results[0].value.writeFrame;
+      expect(writeFrame.mock.calls.map((call: any[]) => call[3].delay)).toEqual([
+        30, 40, 30, 30, 40, 30,
+      ]);
+      expect(result.metadata.duration).toBe(200);
+      expect(result.metadata.requestedDuration).toBeCloseTo(200);
+    });
+
+    it.each([
+      [0, 0],
+      [1, -1],
+      [3, 2],
+    ])('should write %i plays as a NETSCAPE repeat of %i', async (loopCount, repeat) => {
+      const frames = [{ imageData: new ImageData(100, 100), timestamp: 0 }];
+
+      await encoder.encode(frames, { ...mockOptions, quality: 'high', loopCount });
+
+      const writeFrame = (gifenc.GIFEncoder as jest.Mock).mock.results[0].value.writeFrame;
+      expect(writeFrame.mock.calls[0][3].repeat).toBe(repeat);
+    });
+
     it('should handle frames with missing delays', async () => {
       const frames: FrameData[] = [
         { imageData: new ImageData(100, 100), timestamp: 0 },
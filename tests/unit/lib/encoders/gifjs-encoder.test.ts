@@ -260,6 +260,23 @@ describe('GifJsEncoder', () => {
       expect(onProgress).toHaveBeenCalled();
     });
 
+    it('should diffuse centisecond rounding across frame delays', async () => {
+      const addFrame = jest.spyOn(MockGIF.prototype, 'addFrame');
+      const frames = [0, 33, 67].map((timestamp) => ({
+        imageData: new ImageData(100, 100),
+        timestamp,
+      }));
+
+      const encodePromise = encoder.encode(frames, { ...mockOptions, frameRate: 30 });
+      await jest.runAllTimersAsync();
+      const result = await encodePromise;
+
+      expect(addFrame.mock.calls.map((call) => call[1]?.delay)).toEqual([30, 40, 30]);
+      expect(result.metadata.duration).toBe(100);
+      expect(result.metadata.requestedDuration).toBeCloseTo(100);
+      addFrame.mockRestore();
+    });
+
 it('should handle abort signal', async () => {
       const abortController = new AbortController();
       const onProgress = jest.fn();
@@ -0,0 +1,38 @@
+/**
+ * Tests for the libwebp loader
+ * Runs the real bundled libwebp module, served through a mocked fetch
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { loadLibWebP } from '@/lib/encoders/libwebp-module';
+
+const wasmBytes = readFileSync(join(__dirname, '../../../../webpxmux.wasm'));
+
+describe('loadLibWebP', () => {
+  beforeAll(() => {
+    (global.fetch as jest.Mock).mockImplementation(async () => ({
+      ok: true,
+      arrayBuffer: async () =>
+        wasmBytes.buffer.slice(wasmBytes.byteOffset, wasmBytes.byteOffset + wasmBytes.byteLength),
+    }));
+  });
+
+  it('should grow memory for allocations beyond the initial heap', async () => {
+    const lib = await loadLibWebP();
+    const initialSize = lib.memory.buffer.byteLength;
+
+    const ptr = lib.malloc(initialSize * 2);
+
+    expect(ptr).not.toBe(0);
+    expect(lib.memory.buffer.byteLength).toBeGreaterThan(initialSize * 2);
+    new Uint8Array(lib.memory.buffer, ptr, initialSize * 2).fill(1);
+    lib.free(ptr);
+  });
+
+  it('should fail allocations beyond the maximum memory', async () => {
+    const lib = await loadLibWebP();
+
+    expect(lib.malloc(0xfff00000)).toBe(0);
+  });
+});
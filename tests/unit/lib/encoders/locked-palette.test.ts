@@ -0,0 +1,76 @@
+/**
+ * Tests for locked GIF palettes
+ */
+
+import { parseHexColors, resolveLockedPalette, snapToPalette } from '@/lib/encoders/locked-palette';
+import type { FrameData } from '@/lib/encoders/abstract-encoder';
+
+function solidFrame(r: number, g: number, b: number): FrameData {
+  const data = new Uint8ClampedArray(8 * 8 * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([r, g, b, 255], i);
+  }
+  return { imageData: new ImageData(data, 8, 8), timestamp: 0 };
+}
+
+describe('parseHexColors', () => {
+  it('should accept short and long hex with any separator', () => {
+    expect(parseHexColors('#ff6600, 0af\n#FFFFFF;#fff')).toEqual([
+      [255, 102, 0],
+      [0, 170, 255],
+      [255, 255, 255],
+    ]);
+    expect(parseHexColors('  ')).toEqual([]);
+  });
+
+  it('should reject values that are not hex colours', () => {
+    expect(() => parseHexColors('#ff6600 red')).toThrow('Invalid colour "red"');
+    expect(() => parseHexColors('#ff66')).toThrow('Invalid colour');
+  });
+});
+
+describe('resolveLockedPalette', () => {
+  const frames = [solidFrame(200, 0, 0), solidFrame(0, 0, 200)];
+
+  it('should use a colour list as given, whatever the colour count', () => {
+    const palette = resolveLockedPalette(
+      { type: 'colors', colors: ['#000', '#fff', '#f00'] },
+      frames,
+      2
+    );
+
+    expect(palette).toEqual([
+      [0, 0, 0],
+      [255, 255, 255],
+      [255, 0, 0],
+    ]);
+  });
+
+  it('should reject empty or oversized colour lists', () => {
+    expect(() => resolveLockedPalette({ type: 'colors', colors: [] }, frames, 256)).toThrow(
+      'no colours'
+    );
+    expect(() =>
+      resolveLockedPalette({ type: 'colors', colors: ['#000', '#111', '#222'] }, frames, 256, 2)
+    ).toThrow('at most 2 fit');
+  });
+
+  it('should quantize the chosen frame, clamping the index', () => {
+    const palette = resolveLockedPalette({ type: 'frame', frameIndex: 5 }, frames, 16);
+
+    expect(palette).toEqual([[0, 0, 200]]);
+  });
+});
+
+describe('snapToPalette', () => {
+  it('should replace colours with their nearest palette entry and keep alpha', () => {
+    const pixels = new Uint8ClampedArray([10, 20, 30, 255, 240, 230, 250, 128]);
+    const snapped = snapToPalette(pixels, [
+      [0, 0, 0],
+      [255, 255, 255],
+    ]);
+
+    expect(Array.from(snapped)).toEqual([0, 0, 0, 255, 255, 255, 255, 128]);
+    expect(pixels[0]).toBe(10);
+  });
+});
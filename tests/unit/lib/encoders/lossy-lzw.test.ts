@@ -0,0 +1,172 @@
+/**
+ * Tests for GIF LZW compression, exact and lossy
+ * Output is checked with a reference LZW decoder
+ */
+
+import {
+  encodeLzw,
+  flattenNearIdenticalRuns,
+  lossinessForQuality,
+  lzwToleranceForLossiness,
+} from '@/lib/encoders/lossy-lzw';
+
+/**
+ * Decode GIF image data (min code size byte + sub-blocks) back to indices
+ */
+function decodeLzw(data: Uint8Array): number[] {
+  const minCodeSize = data[0];
+  const bytes: number[] = [];
+  let offset = 1;
+  while (data[offset] !== 0) {
+    bytes.push(...data.subarray(offset + 1, offset + 1 + data[offset]));
+    offset += data[offset] + 1;
+  }
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  const output: number[] = [];
+  let bitPosition = 0;
+
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  while (bitPosition + codeSize <= bytes.length * 8) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, bitPosition++) {
+      code |= ((bytes[bitPosition >> 3] >> (bitPosition & 7)) & 1) << bit;
+    }
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) break;
+
+    let entry: number[];
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) table.push([...previous, entry[0]]);
+    } else {
+      entry = [...previous!, previous![0]];
+      table.push(entry);
+    }
+    output.push(...entry);
+    previous = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  return output;
+}
+
+function randomIndices(length: number, colors: number, seed = 1): Uint8Array {
+  const indices = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    indices[i] = (seed >>> 24) % colors;
+  }
+  return indices;
+}
+
+// A grey ramp palette, with pixels taking exactly their palette colour
+function greyscale(indices: Uint8Array, colors: number) {
+  const palette = Array.from({ length: colors }, (_, i) => {
+    const value = Math.round((i * 255) / (colors - 1));
+    return [value, value, value];
+  });
+  const pixels = new Uint8ClampedArray(indices.length * 4);
+  indices.forEach((index, i) => {
+    pixels.set([...palette[index], 255], i * 4);
+  });
+  return { palette, pixels };
+}
+
+describe('encodeLzw', () => {
+  it('should round-trip exactly without a tolerance', () => {
+    const indices = randomIndices(5000, 16);
+    expect(decodeLzw(encodeLzw(indices, 4))).toEqual(Array.from(indices));
+  });
+
+  it('should reset the dictionary once all 4096 codes are used', () => {
+    const indices = randomIndices(60_000, 256, 7);
+    expect(decodeLzw(encodeLzw(indices, 8))).toEqual(Array.from(indices));
+  });
+
+  it('should handle tiny images', () => {
+    expect(decodeLzw(encodeLzw(new Uint8Array([3]), 2))).toEqual([3]);
+  });
+
+  it('should trade bounded colour error for smaller output', () => {
+    // Noisy ramp: neighbouring indices differ by at most one grey step (8 levels)
+    const noisy = randomIndices(20_000, 2, 3).map((noise, i) => ((i >> 6) % 30) + noise);
+    const { palette, pixels } = greyscale(noisy, 33);
+
+    const exact = encodeLzw(noisy, 6);
+    const lossy = encodeLzw(noisy, 6, { palette, pixels, tolerance: 8 });
+    const decoded = decodeLzw(lossy);
+
+    expect(lossy.length).toBeLessThan(exact.length * 0.8);
+    decoded.forEach((index, i) => {
+      expect(Math.abs(palette[index][0] - pixels[i * 4])).toBeLessThanOrEqual(8);
+    });
+  });
+
+  it('should keep transparent pixels exact', () => {
+    const indices = randomIndices(4000, 3, 5);
+    const { palette, pixels } = greyscale(indices, 4);
+    const transparentIndex = 3;
+    indices.forEach((_, i) => {
+      if (i % 7 === 0) indices[i] = transparentIndex;
+    });
+
+    const decoded = decodeLzw(
+      encodeLzw(indices, 2, { palette, pixels, tolerance: 255, transparentIndex })
+    );
+
+    decoded.forEach((index, i) => {
+      expect(index === transparentIndex).toBe(indices[i] === transparentIndex);
+    });
+  });
+});
+
+describe('lossiness settings', () => {
+  it('should map quality presets to lossiness', () => {
+    expect(lossinessForQuality('high')).toBe(0);
+    expect(lossinessForQuality('medium')).toBe(0);
+    expect(lossinessForQuality('low')).toBe(60);
+    expect(lossinessForQuality(1)).toBe(0);
+    expect(lossinessForQuality(10)).toBe(0);
+    expect(lossinessForQuality(20)).toBe(40);
+    expect(lossinessForQuality(30)).toBe(80);
+  });
+
+  it('should scale and clamp the LZW tolerance', () => {
+    expect(lzwToleranceForLossiness(0)).toBe(0);
+    expect(lzwToleranceForLossiness(50)).toBe(24);
+    expect(lzwToleranceForLossiness(500)).toBe(48);
+  });
+});
+
+describe('flattenNearIdenticalRuns', () => {
+  it('should snap pixels within tolerance to the start of their run', () => {
+    const row = new Uint8ClampedArray([
+      100, 100, 100, 255, 104, 98, 101, 255, 130, 130, 130, 255, 133, 130, 128, 255,
+    ]);
+
+    expect(Array.from(flattenNearIdenticalRuns(row, 4, 5))).toEqual([
+      100, 100, 100, 255, 100, 100, 100, 255, 130, 130, 130, 255, 130, 130, 130, 255,
+    ]);
+  });
+
+  it('should not carry runs across rows or modify the input', () => {
+    const pixels = new Uint8ClampedArray([10, 10, 10, 255, 12, 12, 12, 255]);
+
+    expect(Array.from(flattenNearIdenticalRuns(pixels, 1, 5))).toEqual(Array.from(pixels));
+    flattenNearIdenticalRuns(pixels, 2, 5);
+    expect(pixels[4]).toBe(12);
+  });
+});
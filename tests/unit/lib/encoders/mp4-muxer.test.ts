@@ -0,0 +1,123 @@
+/**
+ * Tests for Mp4Muxer
+ * Verifies ISO BMFF box layout for single-track H.264 output
+ */
+
+import { Mp4Muxer } from '@/lib/encoders/mp4-muxer';
+
+function readU32(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset);
+}
+
+function readType(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+}
+
+function topLevelBoxes(bytes: Uint8Array): Array<{ type: string; offset: number; size: number }> {
+  const boxes = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const size = readU32(bytes, offset);
+    boxes.push({ type: readType(bytes, offset + 4), offset, size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(bytes: Uint8Array, type: string): number {
+  for (let i = 4; i < bytes.length - 4; i++) {
+    if (readType(bytes, i) === type) return i - 4;
+  }
+  return -1;
+}
+
+describe('Mp4Muxer', () => {
+  const decoderConfig = new Uint8Array([0x01, 0x64, 0x00, 0x1f, 0xff, 0xe1]);
+
+  const createMuxer = () =>
+    new Mp4Muxer({ width: 320, height: 180, timescale: 90000, decoderConfig });
+
+  it('should reject invalid track configuration', () => {
+    expect(
+      () => new Mp4Muxer({ width: 0, height: 180, timescale: 90000, decoderConfig })
+    ).toThrow('MP4 track dimensions must be positive');
+    expect(
+      () =>
+        new Mp4Muxer({ width: 320, height: 180, timescale: 90000, decoderConfig: new Uint8Array() })
+    ).toThrow('MP4 track requires an avcC decoder configuration');
+  });
+
+  it('should require the first sample to be a keyframe', () => {
+    const muxer = createMuxer();
+    expect(() =>
+      muxer.addSample({ data: new Uint8Array([1]), duration: 3000, isKeyframe: false })
+    ).toThrow('First MP4 sample must be a keyframe');
+  });
+
+  it('should refuse to finalize without samples', () => {
+    expect(() => createMuxer().finalize()).toThrow('Cannot finalize MP4 without samples');
+  });
+
+  it('should write a fast-start layout with ftyp, moov and mdat', () => {
+    const muxer = createMuxer();
+    muxer.addSample({ data: new Uint8Array([1, 2, 3]), duration: 3000, isKeyframe: true });
+    muxer.addSample({ data: new Uint8Array([4, 5]), duration: 3000, isKeyframe: false });
+
+    const bytes = muxer.finalize();
+    const boxes = topLevelBoxes(bytes);
+
+    expect(boxes.map((b) => b.type)).toEqual(['ftyp', 'moov', 'mdat']);
+    expect(boxes.reduce((sum, b) => sum + b.size, 0)).toBe(bytes.length);
+    expect(muxer.sampleCount).toBe(2);
+  });
+
+  it('should point the chunk offset at the first sample byte in mdat', () => {
+    const muxer = createMuxer();
+    muxer.addSample({ data: new Uint8Array([0xaa, 0xbb]), duration: 3000, isKeyframe: true });
+
+    const bytes = muxer.finalize();
+    const stco = findBox(bytes, 'stco');
+    const chunkOffset = readU32(bytes, stco + 16);
+
+    expect(bytes[chunkOffset]).toBe(0xaa);
+    expect(bytes[chunkOffset + 1]).toBe(0xbb);
+  });
+
+  it('should run-length encode sample durations and list keyframes', () => {
+    const muxer = createMuxer();
+    muxer.addSample({ data: new Uint8Array([1]), duration: 3000, isKeyframe: true });
+    muxer.addSample({ data: new Uint8Array([2]), duration: 3000, isKeyframe: false });
+    muxer.addSample({ data: new Uint8Array([3]), duration: 3003, isKeyframe: true });
+
+    const bytes = muxer.finalize();
+
+    const stts = findBox(bytes, 'stts');
+    expect(readU32(bytes, stts + 12)).toBe(2); // entry count
+    expect(readU32(bytes, stts + 16)).toBe(2);
+    expect(readU32(bytes, stts + 20)).toBe(3000);
+    expect(readU32(bytes, stts + 24)).toBe(1);
+    expect(readU32(bytes, stts + 28)).toBe(3003);
+
+    const stss = findBox(bytes, 'stss');
+    expect(readU32(bytes, stss + 12)).toBe(2);
+    expect(readU32(bytes, stss + 16)).toBe(1);
+    expect(readU32(bytes, stss + 20)).toBe(3);
+
+    const mvhd = findBox(bytes, 'mvhd');
+    expect(readU32(bytes, mvhd + 20)).toBe(90000); // timescale
+    expect(readU32(bytes, mvhd + 24)).toBe(9003); // duration
+  });
+
+  it('should embed the avcC decoder configuration', () => {
+    const muxer = createMuxer();
+    muxer.addSample({ data: new Uint8Array([1]), duration: 3000, isKeyframe: true });
+
+    const bytes = muxer.finalize();
+    const avcC = findBox(bytes, 'avcC');
+
+    expect(readU32(bytes, avcC)).toBe(decoderConfig.length + 8);
+    expect(Array.from(bytes.subarray(avcC + 8, avcC + 8 + decoderConfig.length))).toEqual(
+      Array.from(decoderConfig)
+    );
+  });
+});
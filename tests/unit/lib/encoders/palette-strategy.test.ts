@@ -0,0 +1,141 @@
+/**
+ * Tests for GIF palette planning and scene-change detection
+ */
+
+import {
+  computeColorHistogram,
+  histogramDistance,
+  planPaletteSegments,
+  samplePalettePixels,
+  StreamingPaletteSegmenter,
+} from '@/lib/encoders/palette-strategy';
+import { FrameData } from '@/lib/encoders/abstract-encoder';
+
+function frameFromColors(colors: Array<[number, number, number]>, pixelsPerColor = 64): FrameData {
+  const data = new Uint8ClampedArray(colors.length * pixelsPerColor * 4);
+  colors.forEach(([r, g, b], c) => {
+    for (let p = 0; p < pixelsPerColor; p++) {
+      const i = (c * pixelsPerColor + p) * 4;
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      data[i + 3] = 255;
+    }
+  });
+  return { imageData: new ImageData(data, colors.length * pixelsPerColor, 1), timestamp: 0 };
+}
+
+describe('palette-strategy', () => {
+  describe('histogramDistance', () => {
+    it('should be 0 for identical and 1 for disjoint colour distributions', () => {
+      const red = computeColorHistogram(frameFromColors([[255, 0, 0]]).imageData.data);
+      const blue = computeColorHistogram(frameFromColors([[0, 0, 255]]).imageData.data);
+
+      expect(histogramDistance(red, red)).toBe(0);
+      expect(histogramDistance(red, blue)).toBeCloseTo(1);
+    });
+
+    it('should measure partial overlap', () => {
+      const redBlue = computeColorHistogram(
+        frameFromColors([
+          [255, 0, 0],
+          [0, 0, 255],
+        ]).imageData.data
+      );
+      const redGreen = computeColorHistogram(
+        frameFromColors([
+          [255, 0, 0],
+          [0, 255, 0],
+        ]).imageData.data
+      );
+
+      expect(histogramDistance(redBlue, redGreen)).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('planPaletteSegments', () => {
+    const frames = [
+      frameFromColors([[200, 30, 30]]),
+      frameFromColors([[205, 30, 30]]),
+      frameFromColors([[20, 30, 200]]),
+      frameFromColors([[20, 30, 205]]),
+      frameFromColors([[20, 200, 30]]),
+    ];
+
+    it('should use one segment for the global strategy', () => {
+      expect(planPaletteSegments(frames, 'global')).toEqual([{ start: 0, end: 5 }]);
+    });
+
+    it('should use one segment per frame for the per-frame strategy', () => {
+      expect(planPaletteSegments(frames, 'per-frame')).toHaveLength(5);
+    });
+
+    it('should split at scene changes for the auto strategy', () => {
+      expect(planPaletteSegments(frames, 'auto')).toEqual([
+        { start: 0, end: 2 },
+        { start: 2, end: 4 },
+        { start: 4, end: 5 },
+      ]);
+    });
+
+    it('should respect a custom threshold', () => {
+      expect(planPaletteSegments(frames, 'auto', 1.1)).toEqual([{ start: 0, end: 5 }]);
+    });
+
+    it('should return no segments for an empty clip', () => {
+      expect(planPaletteSegments([], 'auto')).toEqual([]);
+    });
+  });
+
+  describe('StreamingPaletteSegmenter', () => {
+    const frames = [
+      frameFromColors([[200, 30, 30]]),
+      frameFromColors([[205, 30, 30]]),
+      frameFromColors([[20, 30, 200]]),
+      frameFromColors([[20, 30, 205]]),
+      frameFromColors([[20, 200, 30]]),
+    ];
+
+    // Feed frames one at a time with the segmenter's lookahead window
+    const run = (segmenter: StreamingPaletteSegmenter) =>
+      frames.map((_, i) => segmenter.next(frames.slice(i, i + 1 + segmenter.lookahead)));
+
+    it('should start palettes at the same scene changes as planPaletteSegments', () => {
+      const samples = run(new StreamingPaletteSegmenter('auto'));
+
+      expect(samples.map((sample) => sample !== null)).toEqual([true, false, true, false, true]);
+      // Each palette samples only the upcoming frames of its own scene
+      expect(samples[0]).toEqual([frames[0], frames[1]]);
+      expect(samples[2]).toEqual([frames[2], frames[3]]);
+      expect(samples[4]).toEqual([frames[4]]);
+    });
+
+    it('should build one global palette from the opening frames', () => {
+      const samples = run(new StreamingPaletteSegmenter('global'));
+
+      expect(samples[0]).toEqual(frames);
+      expect(samples.slice(1)).toEqual([null, null, null, null]);
+    });
+
+    it('should build a palette for every frame with the per-frame strategy', () => {
+      const samples = run(new StreamingPaletteSegmenter('per-frame'));
+
+      expect(samples).toEqual(frames.map((frame) => [frame]));
+    });
+  });
+
+  describe('samplePalettePixels', () => {
+    it('should sample at most five evenly spaced frames', () => {
+      const frames = Array.from({ length: 20 }, (_, i) => frameFromColors([[i, 0, 0]], 1));
+      const pixels = samplePalettePixels(frames, { start: 0, end: 20 });
+
+      expect(pixels.length).toBe(5 * 4);
+      expect([pixels[0], pixels[4], pixels[8], pixels[12], pixels[16]]).toEqual([0, 4, 8, 12, 16]);
+    });
+
+    it('should return a single frame without copying', () => {
+      const frames = [frameFromColors([[1, 2, 3]])];
+      expect(samplePalettePixels(frames, { start: 0, end: 1 })).toBe(frames[0].imageData.data);
+    });
+  });
+});
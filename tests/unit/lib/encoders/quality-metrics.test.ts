@@ -0,0 +1,135 @@
+/**
+ * Tests for objective quality metrics
+ * PSNR, SSIM and banding on synthetic frames, and GIF round trips
+ */
+
+import { GIFEncoder } from 'gifenc';
+import {
+  MAX_PSNR,
+  computeBandingScore,
+  computePsnr,
+  computeSsim,
+  measureGifQuality,
+  measureQuality,
+} from '@/lib/encoders/quality-metrics';
+
+const WIDTH = 64;
+const HEIGHT = 16;
+
+// RGBA frame with a grey level per pixel
+function greyFrame(level: (x: number, y: number) => number): Uint8ClampedArray<ArrayBuffer> {
+  const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const i = (y * WIDTH + x) * 4;
+      pixels.fill(level(x, y), i, i + 3);
+      pixels[i + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+const gradient = (x: number) => 64 + x * 2;
+const posterize = (value: number) => Math.round(value / 16) * 16;
+
+describe('computePsnr', () => {
+  it('should report the cap for identical frames', () => {
+    const frame = greyFrame(gradient);
+    expect(computePsnr(frame, frame.slice())).toBe(MAX_PSNR);
+  });
+
+  it('should follow the error of a uniform offset', () => {
+    const source = greyFrame(() => 100);
+    const decoded = greyFrame(() => 110);
+    expect(computePsnr(source, decoded)).toBeCloseTo(10 * Math.log10((255 * 255) / 100), 5);
+  });
+});
+
+describe('computeSsim', () => {
+  it('should be 1 for identical frames', () => {
+    const frame = greyFrame(gradient);
+    expect(computeSsim(frame, frame.slice(), WIDTH, HEIGHT)).toBeCloseTo(1, 10);
+  });
+
+  it('should drop further for lost structure than for a slight brightness shift', () => {
+    const source = greyFrame((x, y) => ((x + y) % 2 ? 200 : 50));
+    const shifted = greyFrame((x, y) => ((x + y) % 2 ? 205 : 55));
+    const flattened = greyFrame(() => 125);
+
+    const shiftedSsim = computeSsim(source, shifted, WIDTH, HEIGHT);
+    const flattenedSsim = computeSsim(source, flattened, WIDTH, HEIGHT);
+
+    expect(shiftedSsim).toBeGreaterThan(0.95);
+    expect(flattenedSsim).toBeLessThan(0.1);
+  });
+});
+
+describe('computeBandingScore', () => {
+  it('should be 0 for an exact copy of a gradient', () => {
+    const frame = greyFrame(gradient);
+    expect(computeBandingScore(frame, frame.slice(), WIDTH, HEIGHT)).toBe(0);
+  });
+
+  it('should detect steps in a posterized gradient', () => {
+    const source = greyFrame(gradient);
+    const banded = greyFrame((x) => posterize(gradient(x)));
+
+    expect(computeBandingScore(source, banded, WIDTH, HEIGHT)).toBeGreaterThan(0.05);
+  });
+
+  it('should score a dithered gradient below a posterized one', () => {
+    const source = greyFrame(gradient);
+    const banded = greyFrame((x) => posterize(gradient(x)));
+    const dithered = greyFrame((x, y) => posterize(gradient(x) + ((x + y) % 2 ? 6 : -6)));
+
+    expect(computeBandingScore(source, dithered, WIDTH, HEIGHT)).toBeLessThan(
+      computeBandingScore(source, banded, WIDTH, HEIGHT)
+    );
+  });
+
+  it('should ignore flat areas and hard edges in the source', () => {
+    const source = greyFrame((x) => (x < WIDTH / 2 ? 0 : 255));
+    expect(computeBandingScore(source, source.slice(), WIDTH, HEIGHT)).toBe(0);
+  });
+});
+
+describe('measureQuality', () => {
+  it('should average metrics over frames and keep the worst SSIM', () => {
+    const source = new ImageData(greyFrame(gradient), WIDTH, HEIGHT);
+    const report = measureQuality([source, source], [source.data.slice(), greyFrame(() => 128)]);
+
+    expect(report.frames).toHaveLength(2);
+    expect(report.frames[0].ssim).toBeCloseTo(1, 10);
+    expect(report.minSsim).toBe(report.frames[1].ssim);
+    expect(report.ssim).toBeCloseTo((report.frames[0].ssim + report.frames[1].ssim) / 2, 10);
+  });
+
+  it('should reject frames of a different size', () => {
+    const source = new ImageData(greyFrame(gradient), WIDTH, HEIGHT);
+    expect(() => measureQuality([source], [new Uint8ClampedArray(16)])).toThrow(
+      'decoded frame size differs'
+    );
+  });
+});
+
+describe('measureGifQuality', () => {
+  it('should compare each decoded GIF frame with its source', () => {
+    const levels = [0, 85, 170, 255];
+    const palette = levels.map((level) => [level, level, level]);
+    const encoder = new GIFEncoder();
+    const frames = [0, 1].map((frame) => {
+      const indices = Uint8Array.from({ length: WIDTH * HEIGHT }, (_, i) => (i + frame) % 4);
+      encoder.writeFrame(indices, WIDTH, HEIGHT, { palette });
+      const pixels = greyFrame((x, y) => levels[(y * WIDTH + x + frame) % 4]);
+      return { imageData: new ImageData(pixels, WIDTH, HEIGHT), timestamp: frame * 100 };
+    });
+    encoder.finish();
+
+    const report = measureGifQuality(frames, encoder.bytes());
+
+    expect(report.frames).toHaveLength(2);
+    expect(report.psnr).toBe(MAX_PSNR);
+    expect(report.ssim).toBeCloseTo(1, 10);
+    expect(report.banding).toBe(0);
+  });
+});
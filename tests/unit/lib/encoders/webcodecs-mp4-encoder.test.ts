@@ -0,0 +1,226 @@
+/**
+ * Tests for WebCodecsMp4Encoder
+ * Uses a mocked VideoEncoder/VideoFrame since jsdom has no WebCodecs
+ */
+
+import { WebCodecsMp4Encoder } from '@/lib/encoders/webcodecs-mp4-encoder';
+import { EncodingOptions, FrameData } from '@/lib/encoders/abstract-encoder';
+
+class MockVideoFrame {
+  constructor(public data: Uint8ClampedArray, public init: Record<string, number | string>) {}
+  close = jest.fn();
+}
+
+class MockVideoEncoder {
+  static instances: MockVideoEncoder[] = [];
+  static isConfigSupported = jest.fn(async (config: VideoEncoderConfig) => ({
+    supported: true,
+    config,
+  }));
+
+  state = 'unconfigured';
+  encodeQueueSize = 0;
+  config: VideoEncoderConfig | null = null;
+  encodedKeyFlags: boolean[] = [];
+
+  constructor(private init: VideoEncoderInit) {
+    MockVideoEncoder.instances.push(this);
+  }
+
+  configure(config: VideoEncoderConfig) {
+    this.config = config;
+    this.state = 'configured';
+  }
+
+  encode(frame: MockVideoFrame, options?: { keyFrame?: boolean }) {
+    const isKey = !!options?.keyFrame;
+    this.encodedKeyFlags.push(isKey);
+    const chunk = {
+      type: isKey ? 'key' : 'delta',
+      timestamp: frame.init.timestamp as number,
+      duration: frame.init.duration as number,
+      byteLength: 4,
+      copyTo: (dest: Uint8Array) => dest.set([0, 0, 0, 1]),
+    };
+    const metadata =
+      this.encodedKeyFlags.length === 1
+        ? { decoderConfig: { codec: 'avc1', description: new Uint8Array([1, 0x64, 0, 0x1f]) } }
+        : undefined;
+    this.init.output(chunk as unknown as EncodedVideoChunk, metadata as EncodedVideoChunkMetadata);
+  }
+
+  async flush() {}
+
+  close() {
+    this.state = 'closed';
+  }
+}
+
+describe('WebCodecsMp4Encoder', () => {
+  let encoder: WebCodecsMp4Encoder;
+  let frames: FrameData[];
+  let options: EncodingOptions;
+
+  beforeEach(() => {
+    MockVideoEncoder.instances = [];
+    MockVideoEncoder.isConfigSupported.mockClear();
+    (global as any).VideoEncoder = MockVideoEncoder;
+    (global as any).VideoFrame = MockVideoFrame;
+
+    encoder = new WebCodecsMp4Encoder();
+    frames = Array.from({ length: 5 }, (_, i) => ({
+      imageData: new ImageData(64, 36),
+      timestamp: i * 100,
+    }));
+    options = { width: 64, height: 36, frameRate: 10, quality: 'medium', loop: true };
+  });
+
+  afterEach(() => {
+    delete (global as any).VideoEncoder;
+    delete (global as any).VideoFrame;
+  });
+
+  describe('Basic Properties', () => {
+    it('should identify as webcodecs MP4 encoder', () => {
+      expect(encoder.name).toBe('webcodecs');
+      expect(encoder.supportedFormats).toEqual(['mp4']);
+    });
+
+    it('should report availability based on WebCodecs globals', () => {
+      expect(encoder.isAvailable()).toBe(true);
+      delete (global as any).VideoEncoder;
+      expect(encoder.isAvailable()).toBe(false);
+    });
+
+    it('should fail to initialize without WebCodecs', async () => {
+      delete (global as any).VideoEncoder;
+      await expect(encoder.initialize()).rejects.toThrow('WebCodecs VideoEncoder is not available');
+    });
+  });
+
+  describe('Encoding', () => {
+    it('should produce an MP4 result with correct metadata', async () => {
+      const result = await encoder.encode(frames, options);
+
+      expect(result.metadata.format).toBe('mp4');
+      expect(result.metadata.encoder).toBe('webcodecs');
+      expect(result.metadata.frameCount).toBe(5);
+      expect(result.blob.type).toBe('video/mp4');
+    });
+
+    it('should configure an H.264 codec with a quality-derived bitrate', async () => {
+      await encoder.encode(frames, { ...options, quality: 'high' });
+
+      const config = MockVideoEncoder.instances[0].config!;
+      expect(config.codec).toMatch(/^avc1\./);
+      expect(config.bitrate).toBe(Math.max(100_000, Math.round(64 * 36 * 10 * 0.2)));
+    });
+
+    it('should fall back through profiles until one is supported', async () => {
+      MockVideoEncoder.isConfigSupported
+        .mockResolvedValueOnce({ supported: false, config: {} as VideoEncoderConfig })
+        .mockRejectedValueOnce(new Error('bad codec'));
+
+      await encoder.encode(frames, options);
+
+      expect(MockVideoEncoder.isConfigSupported).toHaveBeenCalledTimes(3);
+      expect(MockVideoEncoder.instances[0].config!.codec).toMatch(/^avc1\.42e0/);
+    });
+
+    it('should throw when no H.264 configuration is supported', async () => {
+      MockVideoEncoder.isConfigSupported.mockResolvedValue({
+        supported: false,
+        config: {} as VideoEncoderConfig,
+      });
+
+      await expect(encoder.encode(frames, options)).rejects.toThrow(
+        'H.264 encoding is not supported at 64x36'
+      );
+
+      MockVideoEncoder.isConfigSupported.mockImplementation(async (config) => ({
+        supported: true,
+        config,
+      }));
+    });
+
+    it('should request a keyframe every two seconds', async () => {
+      const longFrames = Array.from({ length: 45 }, (_, i) => ({
+        imageData: new ImageData(64, 36),
+        timestamp: i * 100,
+      }));
+
+      await encoder.encode(longFrames, options);
+
+      const keyFlags = MockVideoEncoder.instances[0].encodedKeyFlags;
+      const keyIndices = keyFlags.map((isKey, i) => (isKey ? i : -1)).filter((i) => i >= 0);
+      expect(keyIndices).toEqual([0, 20, 40]);
+    });
+
+    it('should reject odd dimensions', async () => {
+      await expect(encoder.encode(frames, { ...options, width: 63 })).rejects.toThrow(
+        'MP4 encoding requires even frame dimensions'
+      );
+    });
+
+    it('should reject empty frame lists', async () => {
+      await expect(encoder.encode([], options)).rejects.toThrow('No frames to encode');
+    });
+
+    it('should close the video encoder after encoding', async () => {
+      await encoder.encode(frames, options);
+      expect(MockVideoEncoder.instances[0].state).toBe('closed');
+      expect(encoder.status.isEncoding).toBe(false);
+    });
+
+    it('should abort when the signal fires', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(encoder.encode(frames, options, undefined, controller.signal)).rejects.toThrow(
+        'Encoding cancelled'
+      );
+
+      const lateController = new AbortController();
+      const promise = encoder.encode(frames, options, (progress) => {
+        if (progress.stage === 'encoding') lateController.abort();
+      }, lateController.signal);
+      await expect(promise).rejects.toThrow('Encoding cancelled');
+    });
+
+    it('should refuse output whose frames were reordered', async () => {
+      const encode = MockVideoEncoder.prototype.encode;
+      const reordering = jest
+        .spyOn(MockVideoEncoder.prototype, 'encode')
+        .mockImplementation(function (this: MockVideoEncoder, frame, encodeOptions) {
+          // Emit frame 2 before frame 1, as an encoder using B-frames does
+          const init = frame.init;
+          if (init.timestamp === 100_000) init.timestamp = 200_000;
+          else if (init.timestamp === 200_000) init.timestamp = 100_000;
+          encode.call(this, frame, encodeOptions);
+        });
+
+      await expect(encoder.encode(frames, options)).rejects.toThrow(
+        'Video encoder reordered frames'
+      );
+      reordering.mockRestore();
+    });
+
+    it('should stop listening to the signal once encoding ends', async () => {
+      const controller = new AbortController();
+      const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+      await encoder.encode(frames, options, undefined, controller.signal);
+
+      expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+
+    it('should report progress through completion', async () => {
+      const stages: string[] = [];
+      await encoder.encode(frames, options, (progress) => stages.push(progress.stage));
+
+      expect(stages[0]).toBe('preparing');
+      expect(stages).toContain('encoding');
+      expect(stages[stages.length - 1]).toBe('completed');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for WebpEncoder
+ * Runs the real bundled libwebp module, served through a mocked fetch
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { WebpEncoder } from '@/lib/encoders/webp-encoder';
+import { EncodingOptions, FrameData } from '@/lib/encoders/abstract-encoder';
+
+const wasmBytes = readFileSync(join(__dirname, '../../../../webpxmux.wasm'));
+
+function blobBytes(blob: Blob): Uint8Array {
+  const [part] = (blob as unknown as { parts: ArrayBuffer[] }).parts;
+  return new Uint8Array(part);
+}
+
+function fourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+}
+
+function chunkTypes(bytes: Uint8Array): string[] {
+  const types: string[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = fourCC(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    types.push(type);
+    // ANMF payloads start with a 16-byte frame header followed by sub-chunks
+    if (type === 'ANMF') {
+      types.push(fourCC(bytes, offset + 8 + 16));
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return types;
+}
+
+function createFrame(width: number, height: number, shade: number): FrameData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = shade;
+    data[i + 1] = (i / 4) % 256;
+    data[i + 2] = 255 - shade;
+    data[i + 3] = 255;
+  }
+  return { imageData: new ImageData(data, width, height), timestamp: 0 };
+}
+
+describe('WebpEncoder', () => {
+  let encoder: WebpEncoder;
+  let frames: FrameData[];
+  let options: EncodingOptions;
+
+  beforeAll(() => {
+    (global.fetch as jest.Mock).mockImplementation(async () => ({
+      ok: true,
+      arrayBuffer: async () =>
+        wasmBytes.buffer.slice(wasmBytes.byteOffset, wasmBytes.byteOffset + wasmBytes.byteLength),
+    }));
+  });
+
+  beforeEach(() => {
+    encoder = new WebpEncoder();
+    frames = [createFrame(32, 16, 0), createFrame(32, 16, 128), createFrame(32, 16, 255)];
+    options = { width: 32, height: 16, frameRate: 10, quality: 'medium', loop: true };
+  });
+
+  describe('Basic Properties', () => {
+    it('should identify as webp encoder', () => {
+      expect(encoder.name).toBe('webp');
+      expect(encoder.supportedFormats).toEqual(['webp']);
+      expect(encoder.isAvailable()).toBe(true);
+    });
+  });
+
+  describe('Encoding', () => {
+    it('should produce an animated lossy WebP', async () => {
+      const result = await encoder.encode(frames, options);
+      const bytes = blobBytes(result.blob);
+
+      expect(result.blob.type).toBe('image/webp');
+      expect(result.metadata.format).toBe('webp');
+      expect(result.metadata.frameCount).toBe(3);
+      expect(fourCC(bytes, 0)).toBe('RIFF');
+      expect(fourCC(bytes, 8)).toBe('WEBP');
+
+      const types = chunkTypes(bytes);
+      expect(types.slice(0, 2)).toEqual(['VP8X', 'ANIM']);
+      expect(types).toContain('VP8 ');
+      expect(types).not.toContain('VP8L');
+    });
+
+    it('should produce lossless frames when requested', async () => {
+      const result = await encoder.encode(frames, { ...options, lossless: true });
+      const types = chunkTypes(blobBytes(result.blob));
+
+      expect(types).toContain('VP8L');
+      expect(types).not.toContain('VP8 ');
+    });
+
+    it('should write the loop count into the ANIM chunk', async () => {
+      const looping = chunkTypes(blobBytes((await encoder.encode(frames, options)).blob));
+      expect(looping).toContain('ANIM');
+
+      const bytes = blobBytes((await encoder.encode(frames, { ...options, loop: false })).blob);
+      const animOffset = 12 + 8 + 10; // RIFF header + VP8X chunk
+      expect(fourCC(bytes, animOffset)).toBe('ANIM');
+      expect(new DataView(bytes.buffer).getUint16(animOffset + 12, true)).toBe(1);
+    });
+
+    it('should reject frames that do not match the output size', async () => {
+      await expect(encoder.encode([createFrame(16, 16, 0)], options)).rejects.toThrow(
+        'Frame 0 is 16x16, expected 32x16'
+      );
+      expect(encoder.status.isEncoding).toBe(false);
+    });
+
+    it('should reject empty frame lists', async () => {
+      await expect(encoder.encode([], options)).rejects.toThrow('No frames to encode');
+    });
+
+    it('should abort when the signal fires', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(encoder.encode(frames, options, undefined, controller.signal)).rejects.toThrow(
+        'Encoding cancelled'
+      );
+    });
+
+    it('should stop listening to the signal once encoding ends', async () => {
+      const controller = new AbortController();
+      const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+      await encoder.encode(frames, options, undefined, controller.signal);
+
+      expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+
+    it('should report progress through completion', async () => {
+      const stages: string[] = [];
+      await encoder.encode(frames, options, (progress) => stages.push(progress.stage));
+
+      expect(stages[0]).toBe('preparing');
+      expect(stages).toContain('encoding');
+      expect(stages[stages.length - 1]).toBe('completed');
+    });
+  });
+});
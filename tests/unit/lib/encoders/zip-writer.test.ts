@@ -0,0 +1,100 @@
+/**
+ * Tests for the ZIP archive writer
+ * Reads archives back through their central directory, as unzip tools do
+ */
+
+import { createZip } from '@/lib/encoders/zip-writer';
+import { crc32 } from '@/lib/encoders/crc32';
+
+interface ReadEntry {
+  name: string;
+  data: Uint8Array;
+  crc: number;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+}
+
+function readZip(zip: Uint8Array): ReadEntry[] {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(position + 28, true);
+    const size = view.getUint32(position + 20, true);
+    const offset = view.getUint32(position + 42, true);
+
+    // The local header repeats the name before the data
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    entries.push({
+      name: new TextDecoder().decode(zip.subarray(position + 46, position + 46 + nameLength)),
+      data: zip.subarray(dataStart, dataStart + size),
+      crc: view.getUint32(position + 16, true),
+      flags: view.getUint16(position + 8, true),
+      method: view.getUint16(position + 10, true),
+      time: view.getUint16(position + 12, true),
+      date: view.getUint16(position + 14, true),
+    });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('should store every entry with its name, data and checksum', () => {
+    const frame = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+    const manifest = new TextEncoder().encode('{"frames":[]}');
+
+    const entries = readZip(
+      createZip([
+        { name: 'frame_0000.png', data: frame },
+        { name: 'manifest.json', data: manifest },
+      ])
+    );
+
+    expect(entries.map((entry) => entry.name)).toEqual(['frame_0000.png', 'manifest.json']);
+    expect(Array.from(entries[0].data)).toEqual(Array.from(frame));
+    expect(new TextDecoder().decode(entries[1].data)).toBe('{"frames":[]}');
+    expect(entries[0].crc).toBe(crc32(frame));
+    expect(entries.every((entry) => entry.method === 0)).toBe(true);
+  });
+
+  it('should mark names as UTF-8', () => {
+    const [entry] = readZip(createZip([{ name: 'clips/café.png', data: new Uint8Array(1) }]));
+
+    expect(entry.name).toBe('clips/café.png');
+    expect(entry.flags & 0x0800).toBe(0x0800);
+  });
+
+  it('should record modification times in MS-DOS format', () => {
+    const modified = new Date(2024, 2, 15, 13, 45, 31);
+    const [entry] = readZip(createZip([{ name: 'a.txt', data: new Uint8Array(0), modified }]));
+
+    expect(entry.date).toBe(((2024 - 1980) << 9) | (3 << 5) | 15);
+    expect(entry.time).toBe((13 << 11) | (45 << 5) | 15);
+  });
+
+  it('should write an empty archive', () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+
+  it('should refuse more entries than a ZIP without ZIP64 can list', () => {
+    const data = new Uint8Array(0);
+    const entries = Array.from({ length: 0x10000 }, (_, i) => ({ name: `${i}`, data }));
+
+    expect(() => createZip(entries)).toThrow('at most 65535 entries');
+  });
+});
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
@@ -231,7 +231,7 @@ describe('InstantFrameCapture', () => {
       expect(timeAssignments).toContain(0);
     });
 
-    it('should not seek if video is within range', async () => {
+    it('should seek to the first frame even if video is within range', async () => {
       mockVideoElement.currentTime = 2; // Within 0-5 range
 
       const timeAssignments: number[] = [];
@@ -245,9 +245,8 @@ describe('InstantFrameCapture', () => {
 
       await captureInstantFrames(mockVideoElement, 0, 5);
 
-      // Should not seek to start since already in range
-      // First seek should be for frame capture
-      expect(timeAssignments[0]).not.toBe(0);
+      // The first frame is the clip's start, not whatever was on screen
+      expect(timeAssignments[0]).toBe(0);
     });
 
     it('should handle play error on restore', async () => {
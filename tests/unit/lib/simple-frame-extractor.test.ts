@@ -12,6 +12,7 @@ jest.mock('@/lib/logger', () => ({
   logger: {
     info: jest.fn(),
     debug: jest.fn(),
+    warn: jest.fn(),
     error: jest.fn()
   }
 }));
@@ -71,7 +72,12 @@ describe('SimpleFrameExtractor', () => {
       duration: 60,
       paused: false,
       pause: jest.fn(),
-      play: jest.fn().mockResolvedValue(undefined)
+      play: jest.fn().mockResolvedValue(undefined),
+      // Seeks complete on the next tick
+      addEventListener: jest.fn((event: string, listener: () => void) => {
+        if (event === 'seeked') setTimeout(listener, 0);
+      }),
+      removeEventListener: jest.fn()
     } as any;
   });
 
@@ -101,6 +107,7 @@ describe('SimpleFrameExtractor', () => {
       expect(result.metadata.actualFrameRate).toBeCloseTo(10);
       expect(result.metadata.duration).toBe(5);
       expect(result.metadata.extractionMethod).toBe('simple-capture');
+      expect(result.metadata.captureStrategy).toBe('seek');
 
       expect(mockVideoElement.pause).toHaveBeenCalled();
       expect(logger.info).toHaveBeenCalledWith(
@@ -108,6 +115,16 @@ describe('SimpleFrameExtractor', () => {
       );
     });
 
+    it('should capture with the preferred strategy', async () => {
+      const promise = extractFramesSimple(mockVideoElement, { ...defaultOptions, strategy: 'timed' });
+      await jest.runAllTimersAsync();
+      const result = await promise;
+
+      expect(result.frames).toHaveLength(50);
+      expect(result.metadata.captureStrategy).toBe('timed');
+      expect(mockVideoElement.addEventListener).not.toHaveBeenCalled();
+    });
+
     it('should handle different quality settings', async () => {
       const qualities: Array<'low' | 'medium' | 'high'> = ['low', 'medium', 'high'];
       const expectedScales = { low: 0.5, medium: 0.75, high: 1.0 };
@@ -0,0 +1,89 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DuplicateFrameMerger,
+  isDuplicateFrame,
+  mergeDuplicateFrames,
+} from '@/processing/duplicate-frames';
+import type { FrameData } from '@/lib/encoders';
+
+// 10x10 grey frame with `changed` pixels set to white
+function greyFrame(level: number, changed = 0, delay = 100): FrameData {
+  const data = new Uint8ClampedArray(10 * 10 * 4);
+  for (let p = 0; p < 100; p++) {
+    data.fill(p < changed ? 255 : level, p * 4, p * 4 + 3);
+    data[p * 4 + 3] = 255;
+  }
+  return { imageData: new ImageData(data, 10, 10), timestamp: 0, delay };
+}
+
+describe('isDuplicateFrame', () => {
+  it('should ignore decoding noise below the perceptual distance', () => {
+    expect(isDuplicateFrame(greyFrame(100).imageData, greyFrame(108).imageData, 0)).toBe(true);
+    expect(isDuplicateFrame(greyFrame(100).imageData, greyFrame(130).imageData, 0)).toBe(false);
+  });
+
+  it('should allow up to the threshold share of visibly changed pixels', () => {
+    const base = greyFrame(100).imageData;
+
+    expect(isDuplicateFrame(base, greyFrame(100, 2).imageData, 0.02)).toBe(true);
+    expect(isDuplicateFrame(base, greyFrame(100, 3).imageData, 0.02)).toBe(false);
+  });
+
+  it('should never match frames of different sizes', () => {
+    expect(isDuplicateFrame(greyFrame(100).imageData, new ImageData(5, 5), 1)).toBe(false);
+  });
+});
+
+describe('DuplicateFrameMerger', () => {
+  it('should hold a run and release it with the summed delay when the scene changes', () => {
+    const merger = new DuplicateFrameMerger(100, 0.01);
+
+    expect(merger.push(greyFrame(100))).toBeNull();
+    expect(merger.push(greyFrame(102, 0, 50))).toBeNull();
+    const run = merger.push(greyFrame(200));
+
+    expect(run?.delay).toBe(150);
+    expect(run?.imageData.data[0]).toBe(100);
+    expect(merger.flush()?.imageData.data[0]).toBe(200);
+    expect(merger.flush()).toBeNull();
+    expect(merger.merged).toBe(1);
+  });
+
+  it('should compare against the start of the run so slow drift ends it', () => {
+    const merger = new DuplicateFrameMerger(100, 0);
+    const released = [100, 106, 112, 118].map((level) => merger.push(greyFrame(level)));
+
+    // 112 is still within the noise distance of 106 but not of 100
+    expect(released.map((frame) => frame?.delay ?? null)).toEqual([null, null, 200, null]);
+  });
+
+  it('should fill in the default delay for frames without one', () => {
+    const merger = new DuplicateFrameMerger(80);
+    merger.push({ ...greyFrame(100), delay: undefined });
+    merger.push({ ...greyFrame(100), delay: undefined });
+
+    expect(merger.flush()?.delay).toBe(160);
+  });
+});
+
+describe('mergeDuplicateFrames', () => {
+  it('should collapse still runs and record where each merged frame starts', () => {
+    const frames = [100, 100, 100, 200, 50, 50].map((level) => greyFrame(level));
+    const merged = mergeDuplicateFrames(frames, 100);
+
+    expect(merged.frames.map((frame) => frame.delay)).toEqual([300, 100, 200]);
+    expect(merged.sourceIndices).toEqual([0, 3, 4]);
+  });
+
+  it('should keep every frame of a clip that never holds still', () => {
+    const frames = [0, 60, 120, 180].map((level) => greyFrame(level));
+    const merged = mergeDuplicateFrames(frames, 100);
+
+    expect(merged.frames).toHaveLength(4);
+    expect(merged.sourceIndices).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should return nothing for an empty clip', () => {
+    expect(mergeDuplicateFrames([], 100)).toEqual({ frames: [], sourceIndices: [] });
+  });
+});
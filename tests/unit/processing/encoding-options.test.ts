@@ -0,0 +1,129 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  EncodingOptimizer,
+  EncodingProfiler,
+  SizeBudgetAttempt,
+} from '@/processing/encoding-options';
+import type { QualityReport } from '@/lib/encoders';
+
+const MB = 1024 * 1024;
+
+describe('EncodingOptimizer size budget', () => {
+  const initial = EncodingOptimizer.createInitialSizeAttempt(15);
+
+  it('should start from the requested settings', () => {
+    expect(initial).toEqual({ colors: 256, frameRate: 15, scale: 1, lossiness: 0 });
+    expect(EncodingOptimizer.createInitialSizeAttempt(15, 'high').lossiness).toBe(0);
+  });
+
+  it('should step lossiness, then colours, then frame rate for small overshoots', () => {
+    const steps: SizeBudgetAttempt[] = [];
+    let attempt: SizeBudgetAttempt | null = initial;
+    for (let i = 0; i < 6 && attempt; i++) {
+      attempt = EncodingOptimizer.planNextSizeAttempt(attempt, 9 * MB, 8 * MB);
+      if (attempt) steps.push(attempt);
+    }
+
+    expect(steps.map(({ lossiness, colors, frameRate }) => [lossiness, colors, frameRate])).toEqual(
+      [
+        [40, 256, 15],
+        [80, 256, 15],
+        [80, 128, 15],
+        [80, 64, 15],
+        [80, 64, 11],
+        [80, 64, 8],
+      ]
+    );
+    expect(steps.every((step) => step.scale === 1)).toBe(true);
+  });
+
+  it('should cut resolution straight away when far over budget', () => {
+    const next = EncodingOptimizer.planNextSizeAttempt(initial, 32 * MB, 8 * MB)!;
+
+    // sqrt(0.9 / 4) = 0.47
+    expect(next.scale).toBe(0.47);
+    expect(next.lossiness).toBe(40);
+    expect(next.colors).toBe(256);
+  });
+
+  it('should skip palette settings for formats that do not use them', () => {
+    const next = EncodingOptimizer.planNextSizeAttempt(initial, 9 * MB, 8 * MB, 'mp4')!;
+
+    expect(next).toEqual({ ...initial, frameRate: 11 });
+  });
+
+  it('should start from the chosen colour count and keep locked colour lists', () => {
+    const locked = EncodingOptimizer.createInitialSizeAttempt(15, 'high', 200);
+    expect(locked.colors).toBe(200);
+
+    const next = EncodingOptimizer.planNextSizeAttempt(
+      { ...locked, lossiness: 80 },
+      9 * MB,
+      8 * MB,
+      'gif',
+      true
+    )!;
+    expect(next.colors).toBe(200);
+    expect(next.frameRate).toBe(11);
+    expect(
+      EncodingOptimizer.planNextSizeAttempt({ ...locked, lossiness: 80 }, 9 * MB, 8 * MB)!.colors
+    ).toBe(128);
+  });
+
+  it('should shrink resolution once other settings are exhausted, then give up', () => {
+    const exhausted: SizeBudgetAttempt = { colors: 64, frameRate: 5, scale: 0.3, lossiness: 80 };
+
+    expect(EncodingOptimizer.planNextSizeAttempt(exhausted, 9 * MB, 8 * MB)).toEqual({
+      ...exhausted,
+      scale: 0.27,
+    });
+    expect(
+      EncodingOptimizer.planNextSizeAttempt({ ...exhausted, scale: 0.25 }, 9 * MB, 8 * MB)
+    ).toBeNull();
+  });
+});
+
+describe('EncodingProfiler quality', () => {
+  const report = (ssim: number, banding: number): QualityReport => ({
+    psnr: 30,
+    ssim,
+    minSsim: ssim,
+    banding,
+    frames: [{ psnr: 30, ssim, banding }],
+  });
+
+  it('should include recorded quality in the results', () => {
+    const profiler = new EncodingProfiler();
+    profiler.start();
+    profiler.recordQuality(report(0.97, 0.01));
+
+    const results = profiler.finish(0);
+
+    expect(results.quality).toEqual(report(0.97, 0.01));
+    expect(results.recommendations).toEqual([]);
+  });
+
+  it('should recommend changes for lost detail and banding', () => {
+    const profiler = new EncodingProfiler();
+    profiler.start();
+    profiler.recordQuality(report(0.8, 0.2));
+
+    const { recommendations } = profiler.finish(0);
+
+    expect(recommendations).toContain(
+      'Some frames lose detail (SSIM 0.80), consider more colours or a higher quality'
+    );
+    expect(recommendations).toContain(
+      'Gradients show visible banding, consider enabling dithering'
+    );
+  });
+
+  it('should forget quality when restarted', () => {
+    const profiler = new EncodingProfiler();
+    profiler.start();
+    profiler.recordQuality(report(0.8, 0.2));
+    profiler.start();
+
+    expect(profiler.finish(0).quality).toBeUndefined();
+  });
+});
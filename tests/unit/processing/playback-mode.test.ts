@@ -0,0 +1,22 @@
+import { describe, it, expect } from '@jest/globals';
+import { getPlaybackOrder } from '@/processing/playback-mode';
+
+describe('getPlaybackOrder', () => {
+  it('should keep capture order when playing forward', () => {
+    expect(getPlaybackOrder(4, 'forward')).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should play the last frame first in reverse', () => {
+    expect(getPlaybackOrder(4, 'reverse')).toEqual([3, 2, 1, 0]);
+  });
+
+  it('should bounce without repeating the turning frames', () => {
+    expect(getPlaybackOrder(4, 'boomerang')).toEqual([0, 1, 2, 3, 2, 1]);
+  });
+
+  it('should handle clips too short to bounce', () => {
+    expect(getPlaybackOrder(2, 'boomerang')).toEqual([0, 1]);
+    expect(getPlaybackOrder(1, 'boomerang')).toEqual([0]);
+    expect(getPlaybackOrder(0, 'reverse')).toEqual([]);
+  });
+});
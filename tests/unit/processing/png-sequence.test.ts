@@ -0,0 +1,79 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  PNG_SEQUENCE_MANIFEST,
+  createPngSequenceManifest,
+  packPngSequence,
+} from '@/processing/png-sequence';
+
+const options = {
+  width: 320,
+  height: 180,
+  startTime: 30,
+  endTime: 31,
+  frameRate: 10,
+  source: { url: 'https://www.youtube.com/watch?v=abc', videoId: 'abc' },
+};
+
+// Names stored in a ZIP's central directory
+function zipEntryNames(zip: Uint8Array): string[] {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  let position = view.getUint32(end + 16, true);
+  const names: string[] = [];
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    const length = view.getUint16(position + 28, true);
+    names.push(new TextDecoder().decode(zip.subarray(position + 46, position + 46 + length)));
+    position += 46 + length;
+  }
+  return names;
+}
+
+describe('createPngSequenceManifest', () => {
+  it('should time every frame in playback and in the source video', () => {
+    const manifest = createPngSequenceManifest(
+      [
+        { time: 0, delay: 100 },
+        { time: 0.1, delay: 100 },
+        { time: 0.2, delay: 200 },
+      ],
+      options
+    );
+
+    expect(manifest.frames).toEqual([
+      { file: 'frame_0000.png', timestamp: 0, delay: 100, sourceTime: 30 },
+      { file: 'frame_0001.png', timestamp: 100, delay: 100, sourceTime: 30.1 },
+      { file: 'frame_0002.png', timestamp: 200, delay: 200, sourceTime: 30.2 },
+    ]);
+    expect(manifest.duration).toBe(400);
+    expect(manifest.source).toEqual(options.source);
+  });
+
+  it('should pad frame numbers to the longest one', () => {
+    const samples = Array.from({ length: 10001 }, (_, index) => ({ time: index, delay: 40 }));
+    const manifest = createPngSequenceManifest(samples, options);
+
+    expect(manifest.frames[0].file).toBe('frame_00000.png');
+    expect(manifest.frames[10000].file).toBe('frame_10000.png');
+  });
+});
+
+describe('packPngSequence', () => {
+  it('should write the frames followed by the manifest', () => {
+    const manifest = createPngSequenceManifest(
+      [
+        { time: 0, delay: 100 },
+        { time: 0.1, delay: 100 },
+      ],
+      options
+    );
+    const zip = packPngSequence([new Uint8Array([1]), new Uint8Array([2])], manifest);
+
+    expect(zipEntryNames(zip)).toEqual(['frame_0000.png', 'frame_0001.png', PNG_SEQUENCE_MANIFEST]);
+  });
+
+  it('should reject frames the manifest does not list', () => {
+    const manifest = createPngSequenceManifest([{ time: 0, delay: 100 }], options);
+
+    expect(() => packPngSequence([], manifest)).toThrow('Manifest lists 1 frames but 0 PNGs');
+  });
+});
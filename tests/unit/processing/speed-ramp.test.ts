@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  clampSpeed,
+  findSampleIndex,
+  getSpeedAt,
+  planCaptureSamples,
+  type CaptureSample,
+} from '@/processing/speed-ramp';
+
+function totalDelay(samples: CaptureSample[]): number {
+  return samples.reduce((total, sample) => total + sample.delay, 0);
+}
+
+describe('getSpeedAt', () => {
+  it('should use the base speed without a ramp, within 0.25x to 4x', () => {
+    expect(getSpeedAt(0.5, 2)).toBe(2);
+    expect(getSpeedAt(0.5, 10)).toBe(4);
+    expect(clampSpeed(0.1)).toBe(0.25);
+  });
+
+  it('should interpolate keyframes and hold the ends', () => {
+    const ramp = [
+      { at: 0.5, speed: 0.5 },
+      { at: 0.25, speed: 1 },
+    ];
+
+    expect(getSpeedAt(0, 2, ramp)).toBe(2);
+    expect(getSpeedAt(0.375, 2, ramp)).toBeCloseTo(1.5);
+    expect(getSpeedAt(0.9, 2, ramp)).toBe(1);
+  });
+});
+
+describe('planCaptureSamples', () => {
+  it('should capture every 1/frameRate seconds at normal speed', () => {
+    const samples = planCaptureSamples(2, 5);
+
+    expect(samples).toHaveLength(10);
+    expect(samples[3].time).toBeCloseTo(0.6);
+    expect(samples.every((sample) => sample.delay === 200)).toBe(true);
+  });
+
+  it('should skip source frames when sped up, keeping the frame rate', () => {
+    const samples = planCaptureSamples(2, 5, 2);
+
+    expect(samples).toHaveLength(5);
+    expect(samples[1].time).toBeCloseTo(0.4);
+    expect(totalDelay(samples)).toBeCloseTo(1000);
+  });
+
+  it('should lengthen delays rather than add frames when slowed down', () => {
+    const samples = planCaptureSamples(2, 5, 0.25);
+
+    expect(samples).toHaveLength(10);
+    expect(samples[0].delay).toBe(800);
+    expect(totalDelay(samples)).toBeCloseTo(8000);
+  });
+
+  it('should follow a ramp through the clip', () => {
+    // Quarter speed from 1.05s to 1.95s of a 3 second clip
+    const ramp = [
+      { at: 0.35, speed: 1 },
+      { at: 0.35, speed: 0.25 },
+      { at: 0.65, speed: 0.25 },
+      { at: 0.65, speed: 1 },
+    ];
+    const samples = planCaptureSamples(3, 10, 1, ramp);
+
+    expect(samples).toHaveLength(30);
+    expect(samples[5].delay).toBe(100);
+    expect(samples[15].delay).toBe(400);
+    expect(totalDelay(samples)).toBeCloseTo(21 * 100 + 9 * 400);
+  });
+});
+
+describe('findSampleIndex', () => {
+  it('should pick the sample captured closest to a time', () => {
+    const samples = planCaptureSamples(2, 5, 2);
+
+    expect(findSampleIndex(samples, 0)).toBe(0);
+    expect(findSampleIndex(samples, 0.9)).toBe(2);
+    expect(findSampleIndex(samples, 5)).toBe(4);
+  });
+});
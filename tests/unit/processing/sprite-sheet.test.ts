@@ -0,0 +1,80 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  SPRITE_LABEL_HEIGHT,
+  drawSpriteSheet,
+  formatSheetTimestamp,
+  layoutSpriteSheet,
+} from '@/processing/sprite-sheet';
+
+describe('layoutSpriteSheet', () => {
+  it('should fill rows left to right with spacing around every frame', () => {
+    const atlas = layoutSpriteSheet(40, 20, [100, 100, 200], { columns: 2, spacing: 4 });
+
+    expect(atlas.frames.map((sprite) => sprite.frame)).toEqual([
+      { x: 4, y: 4, w: 40, h: 20 },
+      { x: 48, y: 4, w: 40, h: 20 },
+      { x: 4, y: 28, w: 40, h: 20 },
+    ]);
+    expect(atlas.meta.size).toEqual({ w: 92, h: 52 });
+    expect(atlas.meta.rows).toBe(2);
+  });
+
+  it('should record delays, playback timestamps and frame names', () => {
+    const delays = Array.from({ length: 12 }, () => 50);
+    delays[3] = 150;
+    const atlas = layoutSpriteSheet(10, 10, delays);
+
+    expect(atlas.frames[3]).toMatchObject({ filename: 'frame_03', duration: 150, timestamp: 150 });
+    expect(atlas.frames[4].timestamp).toBe(300);
+    expect(atlas.meta.duration).toBe(700);
+  });
+
+  it('should default to a roughly square grid and cap columns at the frame count', () => {
+    expect(layoutSpriteSheet(10, 10, new Array(10).fill(100)).meta.columns).toBe(4);
+    expect(layoutSpriteSheet(10, 10, [100, 100], { columns: 8 }).meta.columns).toBe(2);
+  });
+
+  it('should leave a label strip under each frame for contact sheets', () => {
+    const atlas = layoutSpriteSheet(40, 20, [100, 100], { columns: 1, labels: true });
+
+    expect(atlas.frames[1].frame.y).toBe(20 + SPRITE_LABEL_HEIGHT);
+    expect(atlas.frames[1].frame.h).toBe(20);
+    expect(atlas.meta.size.h).toBe(2 * (20 + SPRITE_LABEL_HEIGHT));
+  });
+
+  it('should reject sheets larger than a canvas can be', () => {
+    expect(() => layoutSpriteSheet(854, 480, new Array(400).fill(100), { columns: 1 })).toThrow(
+      'larger than browsers can draw'
+    );
+    expect(() => layoutSpriteSheet(10, 10, [])).toThrow('without frames');
+  });
+});
+
+describe('drawSpriteSheet', () => {
+  it('should draw each frame at its rectangle and label it', () => {
+    const atlas = layoutSpriteSheet(40, 20, [100, 100], { columns: 2, labels: true });
+    const canvas = document.createElement('canvas');
+    const ctx = {
+      clearRect: jest.fn(),
+      drawImage: jest.fn(),
+      fillRect: jest.fn(),
+      fillText: jest.fn(),
+    };
+    jest.spyOn(canvas, 'getContext').mockReturnValue(ctx as unknown as CanvasRenderingContext2D);
+    const frames = [document.createElement('canvas'), document.createElement('canvas')];
+
+    drawSpriteSheet(canvas, frames, atlas, ['0:01.00', '0:01.10']);
+
+    expect(canvas.width).toBe(80);
+    expect(ctx.drawImage).toHaveBeenCalledWith(frames[1], 40, 0, 40, 20);
+    expect(ctx.fillText).toHaveBeenCalledWith('0:01.10', 60, 20 + SPRITE_LABEL_HEIGHT / 2, 40);
+  });
+});
+
+describe('formatSheetTimestamp', () => {
+  it('should format video time as minutes, seconds and hundredths', () => {
+    expect(formatSheetTimestamp(0)).toBe('0:00.00');
+    expect(formatSheetTimestamp(5.25)).toBe('0:05.25');
+    expect(formatSheetTimestamp(125.999)).toBe('2:06.00');
+  });
+});
@@ -11,6 +11,8 @@ module.exports = (env, argv) => {
       background: './src/background/index.ts',
       content: './src/content/index.ts',
       popup: './src/popup/index.tsx', // Re-enabled popup for better UX
+      // Web Worker for gifenc quantization and frame compression
+      'gifenc-worker': './src/lib/encoders/gifenc-worker.ts',
     },
     output: {
       path: path.resolve(__dirname, 'dist'),
@@ -74,6 +76,10 @@ module.exports = (env, argv) => {
             from: 'node_modules/gif.js/dist/gif.worker.js',
             to: 'gif.worker.js',
           },
+          {
+            from: 'webpxmux.wasm',
+            to: 'webpxmux.wasm',
+          },
         ],
       }),
     ],